@@ -1,8 +1,25 @@
 export const cleanupSchema = {
   name: "cleanup",
-  description: "Cleanup all managed resources",
+  description:
+    "Delete the resources created through this server (objects, Helm releases) and stop its port-forwards. Limited to the calling session unless another session or 'all' is given, and to older resources with olderThan; previewed with dryRun",
   inputSchema: {
     type: "object",
-    properties: {},
+    properties: {
+      session: {
+        type: "string",
+        description: "Whose resources to clean up: 'current' for the calling session, a session ID, or 'all' for every session",
+        default: "current",
+      },
+      olderThan: {
+        type: "string",
+        description: "Only clean up resources created longer ago than this duration (e.g. '30m', '2h')",
+        optional: true,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "If true, only list what would be cleaned up",
+        default: false,
+      },
+    },
   },
 } as const;
@@ -1,82 +1,89 @@
-import {
-  ContainerTemplate,
-  CustomContainerConfig,
-} from "./container-templates.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { ContainerTemplate } from "./container-templates.js";
+
+export const templateParameter = {
+  type: "string",
+  description: `Container template: ${ContainerTemplate.options.join(", ")}, or a template registered from MCP_TEMPLATES_DIR. The custom template needs customConfig.image`,
+} as const;
+
+export const customConfigParameter = {
+  type: "object",
+  description:
+    "Fields replacing the template's: image, command, args, ports, resources (merged per resource), env and volumeMounts",
+  optional: true,
+  properties: {
+    image: { type: "string" },
+    command: { type: "array", items: { type: "string" } },
+    args: { type: "array", items: { type: "string" } },
+    ports: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          containerPort: { type: "number" },
+          name: { type: "string" },
+          protocol: { type: "string" },
+        },
+      },
+    },
+    resources: {
+      type: "object",
+      properties: {
+        limits: {
+          type: "object",
+          additionalProperties: { type: "string" },
+        },
+        requests: {
+          type: "object",
+          additionalProperties: { type: "string" },
+        },
+      },
+    },
+    env: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          value: { type: "string" },
+          valueFrom: { type: "object" },
+        },
+      },
+    },
+    volumeMounts: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          mountPath: { type: "string" },
+          readOnly: { type: "boolean" },
+        },
+      },
+    },
+  },
+} as const;
 
 export const createDeploymentSchema = {
   name: "create_deployment",
-  description: "Create a new Kubernetes deployment",
+  description:
+    "Create a Deployment from a container template, optionally overriding the template's image, command, ports, resources and more. The Deployment is tracked and removed by cleanup",
   inputSchema: {
     type: "object",
     properties: {
-      name: { type: "string" },
-      namespace: { type: "string" },
-      template: {
-        type: "string",
-        enum: ContainerTemplate.options,
-      },
+      name: { type: "string", description: "Name of the Deployment, also used as its app label" },
+      namespace: { type: "string", description: "Namespace to create the Deployment in", default: "default" },
+      template: templateParameter,
       replicas: { type: "number", default: 1 },
       ports: {
         type: "array",
         items: { type: "number" },
+        description: "Container ports to add to the template's",
         optional: true,
       },
-      customConfig: {
-        type: "object",
-        optional: true,
-        properties: {
-          image: { type: "string" },
-          command: { type: "array", items: { type: "string" } },
-          args: { type: "array", items: { type: "string" } },
-          ports: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                containerPort: { type: "number" },
-                name: { type: "string" },
-                protocol: { type: "string" },
-              },
-            },
-          },
-          resources: {
-            type: "object",
-            properties: {
-              limits: {
-                type: "object",
-                additionalProperties: { type: "string" },
-              },
-              requests: {
-                type: "object",
-                additionalProperties: { type: "string" },
-              },
-            },
-          },
-          env: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                name: { type: "string" },
-                value: { type: "string" },
-                valueFrom: { type: "object" },
-              },
-            },
-          },
-          volumeMounts: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                name: { type: "string" },
-                mountPath: { type: "string" },
-                readOnly: { type: "boolean" },
-              },
-            },
-          },
-        },
-      },
+      customConfig: customConfigParameter,
+      context: contextParameter,
     },
-    required: ["name", "namespace", "template"],
+    required: ["name", "template"],
   },
 } as const;
@@ -2,7 +2,10 @@ export const serverConfig = {
   name: "kubernetes",
   version: "0.1.0",
   capabilities: {
-    resources: {},
+    resources: {
+      subscribe: true,
+    },
     tools: {},
+    prompts: {},
   },
 } as const;
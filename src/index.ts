@@ -4,10 +4,21 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   installHelmChart,
   installHelmChartSchema,
+  previewHelmUpgrade,
   upgradeHelmChart,
   upgradeHelmChartSchema,
   uninstallHelmChart,
   uninstallHelmChartSchema,
+  listHelmReleases,
+  listHelmReleasesSchema,
+  helmStatus,
+  helmStatusSchema,
+  helmHistory,
+  helmHistorySchema,
+  helmGetValues,
+  helmGetValuesSchema,
+  helmGetManifest,
+  helmGetManifestSchema,
 } from "./tools/helm-operations.js";
 import {
   explainResource,
@@ -15,62 +26,165 @@ import {
   listApiResources,
   listApiResourcesSchema,
 } from "./tools/kubectl-operations.js";
-import { getResourceHandlers } from "./resources/handlers.js";
+import { getResourceHandlers, parseResourceUri } from "./resources/handlers.js";
+import { getPromptHandlers } from "./prompts/handlers.js";
 import {
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  ReadResourceRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListToolsRequest,
+  ServerNotification,
+  ServerRequest,
   ErrorCode,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import * as k8s from "@kubernetes/client-node";
-import { KubernetesManager } from "./types.js";
+import { KubernetesManager, ToolCallControls, WatchTracker } from "./types.js";
 import { serverConfig } from "./config/server-config.js";
 import { cleanupSchema } from "./config/cleanup-config.js";
-import { startSSEServer } from "./utils/sse.js";
+import { cleanup, previewCleanup } from "./tools/cleanup.js";
+import { HELM_RELEASE_KIND } from "./utils/kubernetes-manager.js";
+import { startHttpServer } from "./utils/http-server.js";
+import { authorizeKinds, authorizeToolCall, getToolScope, isToolAllowed, ToolScope } from "./utils/auth.js";
+import { withoutDebugContainers } from "./utils/debug-container.js";
+import { enforcePolicy, isToolAllowedByPolicy, loadPolicy } from "./utils/policy.js";
+import { AuditLogger } from "./utils/audit.js";
+import {
+  CONFIRMED_TOOLS,
+  ConfirmationStore,
+  confirmationTokenParameter,
+  requiresConfirmation,
+} from "./utils/confirmation.js";
+import { LogFilterOptions } from "./utils/log-filter.js";
 import {
   startPortForward,
   PortForwardSchema,
   stopPortForward,
   StopPortForwardSchema,
 } from "./tools/port_forward.js";
-import { kubectlScale, kubectlScaleSchema } from "./tools/kubectl-scale.js";
+import { kubectlScale, kubectlScaleSchema, previewKubectlScale } from "./tools/kubectl-scale.js";
 import { kubectlContext, kubectlContextSchema } from "./tools/kubectl-context.js";
 import { kubectlGet, kubectlGetSchema } from "./tools/kubectl-get.js";
 import { kubectlDescribe, kubectlDescribeSchema } from "./tools/kubectl-describe.js";
+import { kubectlDiagnose, kubectlDiagnoseSchema } from "./tools/kubectl-diagnose.js";
 import { kubectlList, kubectlListSchema } from "./tools/kubectl-list.js";
-import { kubectlApply, kubectlApplySchema } from "./tools/kubectl-apply.js";
-import { kubectlDelete, kubectlDeleteSchema } from "./tools/kubectl-delete.js";
+import { kubectlApply, kubectlApplySchema, previewKubectlApply } from "./tools/kubectl-apply.js";
+import { kubectlDelete, kubectlDeleteSchema, previewKubectlDelete } from "./tools/kubectl-delete.js";
 import { kubectlCreate, kubectlCreateSchema } from "./tools/kubectl-create.js";
+import {
+  createDeployment,
+  createPodFromTemplate,
+  createPodFromTemplateSchema,
+} from "./tools/create-from-template.js";
+import { createDeploymentSchema } from "./config/deployment-config.js";
+import { loadContainerTemplates } from "./utils/workload-templates.js";
 import { kubectlLogs, kubectlLogsSchema } from "./tools/kubectl-logs.js";
 import { kubectlGeneric, kubectlGenericSchema } from "./tools/kubectl-generic.js";
-import { kubectlPatch, kubectlPatchSchema } from "./tools/kubectl-patch.js";
+import { kubectlPatch, kubectlPatchSchema, previewKubectlPatch } from "./tools/kubectl-patch.js";
 import { kubectlRollout, kubectlRolloutSchema } from "./tools/kubectl-rollout.js";
 import { kubectlNvidiaSmi, kubectlNvidiaSmiSchema } from "./tools/kubectl-nvidia-smi.js";
 import {
   kubectlCurl,
   kubectlCurlSchema,
+  kubectlDnsLookup,
+  kubectlDnsLookupSchema,
+  kubectlExec,
+  kubectlExecSchema,
   kubectlPing,
   kubectlPingSchema,
+  kubectlTcpCheck,
+  kubectlTcpCheckSchema,
   kubectlTraceroute,
   kubectlTracerouteSchema
 } from "./tools/kubectl-exec.js";
+import {
+  kubectlCpFromPod,
+  kubectlCpFromPodSchema,
+  kubectlCpToPod,
+  kubectlCpToPodSchema,
+} from "./tools/kubectl-cp.js";
 import { kubectlUnifiedSearch, kubectlUnifiedSearchSchema } from "./tools/kubectl-unified-search.js";
+import { kubectlServiceCheck, kubectlServiceCheckSchema } from "./tools/kubectl-service-check.js";
+import { networkPolicyCheck, networkPolicyCheckSchema } from "./tools/network-policy-check.js";
+import {
+  rbacCanI,
+  rbacCanISchema,
+  rbacDescribeSubject,
+  rbacDescribeSubjectSchema,
+  rbacWhoCan,
+  rbacWhoCanSchema,
+} from "./tools/rbac.js";
 import { kubectlClusterOverview, kubectlClusterOverviewSchema } from "./tools/kubectl-cluster-overview.js";
 
 // Check if non-destructive tools only mode is enabled
 const nonDestructiveTools =
   process.env.ALLOW_ONLY_NON_DESTRUCTIVE_TOOLS === "true";
 
+// Transports to serve; stdio is used when neither is enabled
+const enableSSE = !!process.env.ENABLE_UNSAFE_SSE_TRANSPORT;
+const enableStreamableHttp = !!process.env.ENABLE_UNSAFE_STREAMABLE_HTTP_TRANSPORT;
+
+// Policy restricting tools, namespaces and kinds (MCP_POLICY_FILE)
+const policy = loadPolicy();
+
+// Container templates teams add to the built-in ones (MCP_TEMPLATES_DIR)
+loadContainerTemplates();
+
+// Preview mutating calls and require a confirmation token to run them
+const confirmations =
+  process.env.REQUIRE_CHANGE_CONFIRMATION === "true" ? new ConfirmationStore() : undefined;
+
+// JSON-lines audit log of tool calls (MCP_AUDIT_LOG)
+const auditLogger = AuditLogger.fromEnv(process.env, {
+  stdio: !enableSSE && !enableStreamableHttp,
+});
+
 // Define destructive tools (delete and uninstall operations)
 const destructiveTools = [
   kubectlDeleteSchema, // This replaces all individual delete operations 
   uninstallHelmChartSchema,
   cleanupSchema, // Cleanup is also destructive as it deletes resources
   kubectlGenericSchema, // Generic kubectl command can perform destructive operations
+  kubectlExecSchema, // Arbitrary commands can change or delete data in the container
+  kubectlCpToPodSchema, // Copies replace files in the container
+  kubectlCpFromPodSchema, // Copies may write files on the server
 ];
 
+// Define tools that only read cluster state. kubectl_context and kubectl_rollout
+// are listed too, but only their read operations are allowed for read-only tokens.
+const readOnlyTools = [
+  kubectlUnifiedSearchSchema,
+  kubectlClusterOverviewSchema,
+  kubectlGetSchema,
+  kubectlDescribeSchema,
+  kubectlDiagnoseSchema,
+  kubectlServiceCheckSchema,
+  networkPolicyCheckSchema,
+  rbacCanISchema,
+  rbacWhoCanSchema,
+  rbacDescribeSubjectSchema,
+  kubectlListSchema,
+  kubectlLogsSchema,
+  kubectlRolloutSchema,
+  kubectlContextSchema,
+  explainResourceSchema,
+  listApiResourcesSchema,
+  listHelmReleasesSchema,
+  helmStatusSchema,
+  helmHistorySchema,
+  helmGetValuesSchema,
+  helmGetManifestSchema,
+];
+const readOnlyToolNames = readOnlyTools.map((tool) => tool.name);
+
 // Get all available tools
 const allTools = [
   // Core operation tools
@@ -83,20 +197,33 @@ const allTools = [
   // Unified kubectl-style tools - these replace many specific tools
   kubectlGetSchema,
   kubectlDescribeSchema,
+  kubectlDiagnoseSchema,
+  kubectlServiceCheckSchema,
+  networkPolicyCheckSchema,
+  rbacCanISchema,
+  rbacWhoCanSchema,
+  rbacDescribeSubjectSchema,
   kubectlListSchema,
   kubectlApplySchema,
   kubectlDeleteSchema,
   kubectlCreateSchema,
+  createPodFromTemplateSchema,
+  createDeploymentSchema,
   kubectlLogsSchema,
   kubectlScaleSchema,
   kubectlPatchSchema,
   kubectlRolloutSchema,
   kubectlNvidiaSmiSchema,
 
-  // kubectl exec tools for network diagnostics
+  // kubectl exec tools, generic and for network diagnostics
+  kubectlExecSchema,
+  kubectlCpFromPodSchema,
+  kubectlCpToPodSchema,
   kubectlCurlSchema,
   kubectlPingSchema,
   kubectlTracerouteSchema,
+  kubectlDnsLookupSchema,
+  kubectlTcpCheckSchema,
 
   // Kubernetes context management
   kubectlContextSchema,
@@ -108,6 +235,11 @@ const allTools = [
   installHelmChartSchema,
   upgradeHelmChartSchema,
   uninstallHelmChartSchema,
+  listHelmReleasesSchema,
+  helmStatusSchema,
+  helmHistorySchema,
+  helmGetValuesSchema,
+  helmGetManifestSchema,
 
   // Port forwarding
   PortForwardSchema,
@@ -122,412 +254,921 @@ const allTools = [
 
 const k8sManager = new KubernetesManager();
 
-const server = new Server(
-  {
-    name: serverConfig.name,
-    version: serverConfig.version,
-  },
-  serverConfig
-);
+// Check a call against the limits of the session's token. Whether the kinds
+// it names are namespaced comes from the API discovery of its context; kinds
+// that cannot be resolved count as cluster-scoped.
+const authorizeCall = async (scope: ToolScope, name: string, input: Record<string, any>) => {
+  const authorized = authorizeToolCall(
+    scope,
+    name,
+    input,
+    readOnlyToolNames,
+    k8sManager.getKubeConfig().getCurrentContext()
+  );
+  await authorizeKinds(scope, authorized, async (kind, apiVersion) => {
+    try {
+      return (await k8sManager.resolveKind(kind, apiVersion, authorized.context)).namespaced;
+    } catch {
+      return false;
+    }
+  });
+  return authorized;
+};
 
 // Resources handlers
 const resourceHandlers = getResourceHandlers(k8sManager);
-server.setRequestHandler(
-  ListResourcesRequestSchema,
-  resourceHandlers.listResources
-);
-server.setRequestHandler(
-  ReadResourceRequestSchema,
-  resourceHandlers.readResource
-);
+
+// Reading or subscribing to a resource is a kubectl_get, so it gets the same
+// token and policy checks
+const authorizeResource = async (
+  uri: string,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => {
+  const target = parseResourceUri(uri);
+  const resource = await k8sManager.getDynamicClient(target.context).resolveResource(target.kind);
+  const input = {
+    resourceType: target.kind,
+    name: target.name,
+    namespace: resource.namespaced ? target.namespace : undefined,
+    allNamespaces: resource.namespaced && !target.namespace,
+    context: target.context,
+  };
+
+  const scope = getToolScope(extra.authInfo);
+  if (scope) {
+    await authorizeCall(scope, "kubectl_get", input);
+  }
+  if (policy) {
+    enforcePolicy(policy, "kubectl_get", input);
+  }
+  return target;
+};
+
+const readResource = async (
+  request: ReadResourceRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => {
+  await authorizeResource(request.params.uri, extra);
+  return resourceHandlers.readResource(request);
+};
+
+// Prompts handlers
+const promptHandlers = getPromptHandlers();
 
 // Tools handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+const listTools = async (
+  _request: ListToolsRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => {
   // Filter out destructive tools if ALLOW_ONLY_NON_DESTRUCTIVE_TOOLS is set to 'true'
-  const tools = nonDestructiveTools
+  let tools = nonDestructiveTools
     ? allTools.filter(
       (tool) => !destructiveTools.some((dt) => dt.name === tool.name)
     )
     : allTools;
 
-  return { tools };
-});
+  // Hide tools the policy file denies
+  if (policy) {
+    tools = tools.filter((tool) => isToolAllowedByPolicy(policy, tool.name));
+  }
 
-server.setRequestHandler(
-  CallToolRequestSchema,
-  async (request: {
-    params: { name: string; _meta?: any; arguments?: any };
-    method: string;
-  }) => {
-    try {
-      const { name, arguments: rawInput } = request.params;
-
-      // Handle different argument formats that might come from various MCP clients
-      let input: Record<string, any> = {};
-
-      if (rawInput) {
-        if (typeof rawInput === 'string') {
-          // If arguments is a string, try to parse it as JSON
-          try {
-            if (rawInput.trim() === '') {
-              input = {};
-            } else {
-              input = JSON.parse(rawInput);
-            }
-          } catch (parseError) {
-            console.error(`Failed to parse arguments as JSON: ${rawInput}`, parseError);
-            input = {};
+  // Only list the tools the session's token may call
+  const scope = getToolScope(extra.authInfo);
+  if (scope) {
+    tools = tools.filter((tool) => isToolAllowed(scope, tool.name, readOnlyToolNames));
+  }
+
+  // Accept the confirmation token on tools that preview their changes
+  if (confirmations) {
+    return {
+      tools: tools.map((tool) =>
+        CONFIRMED_TOOLS.includes(tool.name)
+          ? {
+            ...tool,
+            inputSchema: {
+              ...tool.inputSchema,
+              properties: { ...tool.inputSchema.properties, confirmationToken: confirmationTokenParameter },
+            },
           }
-        } else if (typeof rawInput === 'object') {
-          input = rawInput;
+          : tool
+      ),
+    };
+  }
+
+  return { tools };
+};
+
+// Server-side dry-run diff of a call to one of the CONFIRMED_TOOLS
+function previewChange(name: string, input: Record<string, any>): Promise<string> {
+  switch (name) {
+    case "kubectl_apply":
+      return previewKubectlApply(k8sManager, input);
+    case "kubectl_patch":
+      return previewKubectlPatch(k8sManager, input as Parameters<typeof previewKubectlPatch>[1]);
+    case "kubectl_scale":
+      return previewKubectlScale(k8sManager, input as Parameters<typeof previewKubectlScale>[1]);
+    case "kubectl_delete":
+      return previewKubectlDelete(k8sManager, input);
+    case "upgrade_helm_chart":
+      return previewHelmUpgrade(input as Parameters<typeof previewHelmUpgrade>[0]);
+    case "cleanup":
+      return previewCleanup(k8sManager, input);
+    default:
+      throw new McpError(ErrorCode.InvalidRequest, `${name} has no change preview`);
+  }
+}
+
+// Cancellation, and progress notifications when the client sent a progress token
+function toolCallControls(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ToolCallControls {
+  const progressToken = extra._meta?.progressToken;
+  return {
+    signal: extra.signal,
+    reportProgress:
+      progressToken === undefined
+        ? undefined
+        : (progress, message) =>
+            extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress, message },
+            }),
+  };
+}
+
+// Handle different argument formats that might come from various MCP clients
+function parseToolArguments(rawInput: unknown): Record<string, any> {
+  let input: Record<string, any> = {};
+
+  if (rawInput) {
+    if (typeof rawInput === 'string') {
+      // If arguments is a string, try to parse it as JSON
+      try {
+        if (rawInput.trim() === '') {
+          input = {};
+        } else {
+          input = JSON.parse(rawInput);
         }
+      } catch (parseError) {
+        console.error(`Failed to parse arguments as JSON: ${rawInput}`, parseError);
+        input = {};
       }
+    } else if (typeof rawInput === 'object') {
+      input = rawInput as Record<string, any>;
+    }
+  }
 
-      // Handle unified search tool
-      if (name === "kubectl_search") {
-        return await kubectlUnifiedSearch(k8sManager, input as {
-          query: string;
-          resourceTypes?: string[];
-          namespaces?: string[];
-          namespacePattern?: string;
-          excludeSystemNamespaces?: boolean;
-          searchMode?: string;
-          fuzzyTolerance?: string;
-          limit?: number;
-          includeLabels?: boolean;
-          includeAnnotations?: boolean;
-          sortBy?: string;
-          output?: string;
-          recent?: boolean;
-        });
-      }
+  return input;
+}
 
-      if (name === "kubectl_cluster_overview") {
-        return await kubectlClusterOverview(k8sManager, input as {
-          includeSystemNamespaces?: boolean;
-          namespacePattern?: string;
-          resourceTypes?: string[];
-          showTop?: number;
-          showDetails?: boolean;
-        });
-      }
+const callTool = async (
+  request: {
+    params: { name: string; _meta?: any; arguments?: any };
+    method: string;
+  },
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => {
+  const { name } = request.params;
+  const input = parseToolArguments(request.params.arguments);
 
-      // Handle new kubectl-style commands
-      if (name === "kubectl_context") {
-        return await kubectlContext(k8sManager, input as {
-          operation: "list" | "get" | "set";
-          name?: string;
-          showCurrent?: boolean;
-          detailed?: boolean;
-          output?: string;
-        });
-      }
+  // Resources the call creates belong to the client's session
+  return k8sManager.runInSession(extra.sessionId, () => {
+    if (!auditLogger) {
+      return executeTool(name, input, extra);
+    }
+    return auditLogger.run(
+      {
+        sessionId: extra.sessionId,
+        client: extra.authInfo?.clientId,
+        tool: name,
+        arguments: input,
+        context: input.context || k8sManager.getKubeConfig().getCurrentContext(),
+        namespace: input.namespace ?? input.namespaces,
+      },
+      () => executeTool(name, input, extra)
+    );
+  });
+};
 
-      if (name === "kubectl_get") {
-        return await kubectlGet(k8sManager, input as {
-          resourceType: string;
-          name?: string;
-          namespace?: string;
-          output?: string;
-          allNamespaces?: boolean;
-          labelSelector?: string;
-          fieldSelector?: string;
-        });
-      }
+const executeTool = async (
+  name: string,
+  input: Record<string, any>,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => {
+  try {
+    // Enforce the read-only and namespace limits of the session's token
+    const scope = getToolScope(extra.authInfo);
+    if (scope) {
+      input = await authorizeCall(scope, name, input);
+    }
 
-      if (name === "kubectl_describe") {
-        return await kubectlDescribe(k8sManager, input as {
-          resourceType: string;
-          name: string;
-          namespace?: string;
-          allNamespaces?: boolean;
-        });
-      }
+    // Debug containers change pods for good
+    if (nonDestructiveTools) {
+      input = withoutDebugContainers(name, input, "in non-destructive mode");
+    }
 
-      if (name === "kubectl_list") {
-        return await kubectlList(k8sManager, input as {
-          resourceType: string;
-          namespace?: string;
-          output?: string;
-          allNamespaces?: boolean;
-          labelSelector?: string;
-          fieldSelector?: string;
-        });
-      }
+    if (policy) {
+      enforcePolicy(policy, name, input);
+    }
 
-      if (name === "kubectl_apply") {
-        return await kubectlApply(k8sManager, input as {
-          manifest?: string;
-          filename?: string;
-          namespace?: string;
-          dryRun?: boolean;
-          force?: boolean;
-        });
+    // Return a dry-run diff and a token instead of making the change, unless
+    // the call carries the token of an earlier preview
+    if (confirmations && requiresConfirmation(name, input)) {
+      const { confirmationToken, ...args } = input;
+      if (!confirmationToken) {
+        const diff = await previewChange(name, args);
+        const token = confirmations.issue(name, args, extra.sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `${diff.trim() || "No changes."}\n\n` +
+                `This change has not been made. To make it, call ${name} again with the same arguments and ` +
+                `confirmationToken "${token}" (valid for ${confirmations.ttlSeconds} seconds).`,
+            },
+          ],
+        };
       }
+      confirmations.consume(confirmationToken, name, args, extra.sessionId);
+      input = args;
+    }
 
-      if (name === "kubectl_delete") {
-        return await kubectlDelete(k8sManager, input as {
-          resourceType?: string;
-          name?: string;
-          namespace?: string;
-          labelSelector?: string;
-          manifest?: string;
-          filename?: string;
-          allNamespaces?: boolean;
-          force?: boolean;
-          gracePeriodSeconds?: number;
-        });
-      }
+    // Handle unified search tool
+    if (name === "kubectl_search") {
+      return await kubectlUnifiedSearch(k8sManager, input as {
+        query: string;
+        resourceTypes?: string[];
+        namespaces?: string[];
+        namespacePattern?: string;
+        excludeSystemNamespaces?: boolean;
+        searchMode?: string;
+        fuzzyTolerance?: string;
+        limit?: number;
+        includeLabels?: boolean;
+        includeAnnotations?: boolean;
+        sortBy?: string;
+        output?: string;
+        recent?: boolean;
+        context?: string;
+      });
+    }
 
-      if (name === "kubectl_create") {
-        return await kubectlCreate(k8sManager, input as {
-          manifest?: string;
-          filename?: string;
-          namespace?: string;
-          dryRun?: boolean;
-          validate?: boolean;
-        });
-      }
+    if (name === "kubectl_cluster_overview") {
+      return await kubectlClusterOverview(k8sManager, input as {
+        includeSystemNamespaces?: boolean;
+        namespacePattern?: string;
+        resourceTypes?: string[];
+        showTop?: number;
+        showDetails?: boolean;
+        context?: string;
+      });
+    }
+
+    // Handle new kubectl-style commands
+    if (name === "kubectl_context") {
+      return await kubectlContext(k8sManager, input as {
+        operation: "list" | "get" | "set";
+        name?: string;
+        showCurrent?: boolean;
+        detailed?: boolean;
+        output?: string;
+      });
+    }
 
-      if (name === "kubectl_logs") {
-        return await kubectlLogs(k8sManager, input as {
-          resourceType: string;
-          name: string;
-          namespace: string;
-          container?: string;
-          tail?: number;
-          since?: string;
-          sinceTime?: string;
-          timestamps?: boolean;
-          previous?: boolean;
-          follow?: boolean;
-          labelSelector?: string;
-        });
+    if (name === "kubectl_get") {
+      return await kubectlGet(k8sManager, input as {
+        resourceType: string;
+        name?: string;
+        namespace?: string;
+        output?: string;
+        allNamespaces?: boolean;
+        labelSelector?: string;
+        fieldSelector?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_describe") {
+      return await kubectlDescribe(k8sManager, input as {
+        resourceType: string;
+        name: string;
+        namespace?: string;
+        allNamespaces?: boolean;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_diagnose") {
+      return await kubectlDiagnose(k8sManager, input as {
+        resourceType?: string;
+        name: string;
+        namespace?: string;
+        tailLines?: number;
+        maxPods?: number;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_service_check") {
+      return await kubectlServiceCheck(k8sManager, input as {
+        name: string;
+        namespace?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "network_policy_check") {
+      return await networkPolicyCheck(k8sManager, input as {
+        sourcePod?: string;
+        sourceNamespace?: string;
+        sourceLabels?: string[];
+        sourceIP?: string;
+        destinationPod?: string;
+        destinationNamespace?: string;
+        destinationLabels?: string[];
+        destinationIP?: string;
+        port?: number;
+        portName?: string;
+        protocol?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "rbac_can_i") {
+      return await rbacCanI(k8sManager, input as {
+        verb: string;
+        resource?: string;
+        name?: string;
+        nonResourceURL?: string;
+        namespace?: string;
+        as?: string;
+        asGroups?: string[];
+        serviceAccount?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "rbac_who_can") {
+      return await rbacWhoCan(k8sManager, input as {
+        verb: string;
+        resource?: string;
+        name?: string;
+        nonResourceURL?: string;
+        namespace?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "rbac_describe_subject") {
+      return await rbacDescribeSubject(k8sManager, input as {
+        kind: string;
+        name: string;
+        namespace?: string;
+        groups?: string[];
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_list") {
+      return await kubectlList(k8sManager, input as {
+        resourceType: string;
+        namespace?: string;
+        output?: string;
+        allNamespaces?: boolean;
+        labelSelector?: string;
+        fieldSelector?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_apply") {
+      return await kubectlApply(k8sManager, input as {
+        manifest?: string;
+        filename?: string;
+        namespace?: string;
+        dryRun?: boolean;
+        force?: boolean;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_delete") {
+      return await kubectlDelete(k8sManager, input as {
+        resourceType?: string;
+        name?: string;
+        namespace?: string;
+        labelSelector?: string;
+        manifest?: string;
+        filename?: string;
+        allNamespaces?: boolean;
+        force?: boolean;
+        gracePeriodSeconds?: number;
+        context?: string;
+      });
+    }
+
+    if (name === "create_pod_from_template") {
+      return await createPodFromTemplate(k8sManager, input as {
+        name: string;
+        namespace?: string;
+        template: string;
+        customConfig?: unknown;
+        context?: string;
+      });
+    }
+
+    if (name === "create_deployment") {
+      return await createDeployment(k8sManager, input as {
+        name: string;
+        namespace?: string;
+        template: string;
+        replicas?: number;
+        ports?: number[];
+        customConfig?: unknown;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_create") {
+      return await kubectlCreate(k8sManager, input as {
+        manifest?: string;
+        filename?: string;
+        namespace?: string;
+        dryRun?: boolean;
+        validate?: boolean;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_logs") {
+      return await kubectlLogs(k8sManager, input as {
+        resourceType: string;
+        name: string;
+        namespace: string;
+        container?: string;
+        tail?: number;
+        since?: string;
+        sinceTime?: string;
+        timestamps?: boolean;
+        previous?: boolean;
+        follow?: boolean;
+        labelSelector?: string;
+        merge?: boolean;
+        maxLinesPerPod?: number;
+        maxBytes?: number;
+        followSeconds?: number;
+        until?: string;
+        context?: string;
+      } & LogFilterOptions, toolCallControls(extra));
+    }
+
+    if (name === "kubectl_patch") {
+      return await kubectlPatch(k8sManager, input as {
+        resourceType: string;
+        name: string;
+        namespace?: string;
+        patchType?: "strategic" | "merge" | "json";
+        patchData?: object;
+        patchFile?: string;
+        dryRun?: boolean;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_rollout") {
+      return await kubectlRollout(k8sManager, input as {
+        subCommand: "history" | "pause" | "restart" | "resume" | "status" | "undo";
+        resourceType: "deployment" | "daemonset" | "statefulset";
+        name: string;
+        namespace?: string;
+        revision?: number;
+        toRevision?: number;
+        timeout?: string;
+        watch?: boolean;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_nvidia_smi") {
+      return await kubectlNvidiaSmi(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        outputFormat?: "json" | "text";
+        queryGpu?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_exec") {
+      return await kubectlExec(k8sManager, input as {
+        resourceType?: string;
+        name: string;
+        namespace?: string;
+        container?: string;
+        command: string[];
+        stdin?: string;
+        timeout?: number;
+        maxOutputBytes?: number;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_cp_from_pod") {
+      return await kubectlCpFromPod(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        path: string;
+        maxBytes?: number;
+        localPath?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_cp_to_pod") {
+      return await kubectlCpToPod(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        path: string;
+        content?: string;
+        contentBase64?: string;
+        localPath?: string;
+        mode?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_curl") {
+      return await kubectlCurl(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        url: string;
+        method?: string;
+        headers?: string[];
+        data?: string;
+        followRedirects?: boolean;
+        timeout?: number;
+        verbose?: boolean;
+        debug?: string;
+        debugImage?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_ping") {
+      return await kubectlPing(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        target: string;
+        count?: number;
+        interval?: number;
+        timeout?: number;
+        debug?: string;
+        debugImage?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_traceroute") {
+      return await kubectlTraceroute(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        target: string;
+        maxHops?: number;
+        timeout?: number;
+        debug?: string;
+        debugImage?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_dns_lookup") {
+      return await kubectlDnsLookup(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        hostname: string;
+        timeout?: number;
+        debug?: string;
+        debugImage?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_tcp_check") {
+      return await kubectlTcpCheck(k8sManager, input as {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        host: string;
+        port: number;
+        timeout?: number;
+        tls?: boolean;
+        serverName?: string;
+        debug?: string;
+        debugImage?: string;
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_generic") {
+      return await kubectlGeneric(k8sManager, input as {
+        command: string;
+        subCommand?: string;
+        resourceType?: string;
+        name?: string;
+        namespace?: string;
+        outputFormat?: string;
+        flags?: Record<string, any>;
+        args?: string[];
+        context?: string;
+      });
+    }
+
+    if (name === "kubectl_events") {
+      return await kubectlGet(k8sManager, {
+        resourceType: "events",
+        namespace: (input as { namespace?: string }).namespace,
+        fieldSelector: (input as { fieldSelector?: string }).fieldSelector,
+        labelSelector: (input as { labelSelector?: string }).labelSelector,
+        sortBy: (input as { sortBy?: string }).sortBy,
+        output: (input as { output?: string }).output,
+        context: (input as { context?: string }).context
+      });
+    }
+
+    // Handle specific non-kubectl operations
+    switch (name) {
+      case "cleanup": {
+        return await cleanup(
+          k8sManager,
+          input as {
+            session?: string;
+            olderThan?: string;
+            dryRun?: boolean;
+          }
+        );
       }
 
-      if (name === "kubectl_patch") {
-        return await kubectlPatch(k8sManager, input as {
-          resourceType: string;
-          name: string;
-          namespace?: string;
-          patchType?: "strategic" | "merge" | "json";
-          patchData?: object;
-          patchFile?: string;
-          dryRun?: boolean;
-        });
+      case "explain_resource": {
+        return await explainResource(
+          input as {
+            resource: string;
+            apiVersion?: string;
+            recursive?: boolean;
+            output?: "plaintext" | "plaintext-openapiv2";
+            context?: string;
+          }
+        );
       }
 
-      if (name === "kubectl_rollout") {
-        return await kubectlRollout(k8sManager, input as {
-          subCommand: "history" | "pause" | "restart" | "resume" | "status" | "undo";
-          resourceType: "deployment" | "daemonset" | "statefulset";
-          name: string;
-          namespace?: string;
-          revision?: number;
-          toRevision?: number;
-          timeout?: string;
-          watch?: boolean;
-        });
+      case "install_helm_chart": {
+        const result = await installHelmChart(
+          input as {
+            name: string;
+            chart: string;
+            repo: string;
+            namespace: string;
+            values?: Record<string, any>;
+            context?: string;
+          }
+        );
+        // Track the release so that cleanup uninstalls it
+        k8sManager.trackResource(HELM_RELEASE_KIND, input.name, input.namespace, input.context);
+        return result;
       }
 
-      if (name === "kubectl_nvidia_smi") {
-        return await kubectlNvidiaSmi(k8sManager, input as {
-          podName: string;
-          namespace?: string;
-          container?: string;
-          outputFormat?: "json" | "text";
-          queryGpu?: string;
-        });
+      case "uninstall_helm_chart": {
+        const result = await uninstallHelmChart(
+          input as {
+            name: string;
+            namespace: string;
+            context?: string;
+          }
+        );
+        k8sManager.untrackResource(HELM_RELEASE_KIND, input.name, input.namespace, input.context);
+        return result;
       }
 
-      if (name === "kubectl_curl") {
-        return await kubectlCurl(k8sManager, input as {
-          podName: string;
-          namespace?: string;
-          container?: string;
-          url: string;
-          method?: string;
-          headers?: string[];
-          data?: string;
-          followRedirects?: boolean;
-          timeout?: number;
-          verbose?: boolean;
-        });
+      case "upgrade_helm_chart": {
+        return await upgradeHelmChart(
+          input as {
+            name: string;
+            chart: string;
+            repo: string;
+            namespace: string;
+            values?: Record<string, any>;
+            context?: string;
+          }
+        );
       }
 
-      if (name === "kubectl_ping") {
-        return await kubectlPing(k8sManager, input as {
-          podName: string;
-          namespace?: string;
-          container?: string;
-          target: string;
-          count?: number;
-          interval?: number;
-          timeout?: number;
-        });
+      case "list_helm_releases": {
+        return await listHelmReleases(
+          input as {
+            namespace?: string;
+            status?: string;
+            filter?: string;
+            context?: string;
+          }
+        );
       }
 
-      if (name === "kubectl_traceroute") {
-        return await kubectlTraceroute(k8sManager, input as {
-          podName: string;
-          namespace?: string;
-          container?: string;
-          target: string;
-          maxHops?: number;
-          timeout?: number;
-        });
+      case "helm_status": {
+        return await helmStatus(
+          input as {
+            name: string;
+            namespace: string;
+            revision?: number;
+            context?: string;
+          }
+        );
       }
 
-      if (name === "kubectl_generic") {
-        return await kubectlGeneric(k8sManager, input as {
-          command: string;
-          subCommand?: string;
-          resourceType?: string;
-          name?: string;
-          namespace?: string;
-          outputFormat?: string;
-          flags?: Record<string, any>;
-          args?: string[];
-        });
+      case "helm_history": {
+        return await helmHistory(
+          input as {
+            name: string;
+            namespace: string;
+            max?: number;
+            context?: string;
+          }
+        );
       }
 
-      if (name === "kubectl_events") {
-        return await kubectlGet(k8sManager, {
-          resourceType: "events",
-          namespace: (input as { namespace?: string }).namespace,
-          fieldSelector: (input as { fieldSelector?: string }).fieldSelector,
-          labelSelector: (input as { labelSelector?: string }).labelSelector,
-          sortBy: (input as { sortBy?: string }).sortBy,
-          output: (input as { output?: string }).output
-        });
+      case "helm_get_values": {
+        return await helmGetValues(
+          input as {
+            name: string;
+            namespace: string;
+            type?: "user" | "computed" | "both";
+            revision?: number;
+            context?: string;
+          }
+        );
       }
 
-      // Handle specific non-kubectl operations
-      switch (name) {
-        case "cleanup": {
-          await k8sManager.cleanup();
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    success: true,
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
+      case "helm_get_manifest": {
+        return await helmGetManifest(
+          input as {
+            name: string;
+            namespace: string;
+            revision?: number;
+            context?: string;
+          }
+        );
+      }
 
-        case "explain_resource": {
-          return await explainResource(
-            input as {
-              resource: string;
-              apiVersion?: string;
-              recursive?: boolean;
-              output?: "plaintext" | "plaintext-openapiv2";
-            }
-          );
-        }
+      case "list_api_resources": {
+        return await listApiResources(
+          input as {
+            apiGroup?: string;
+            namespaced?: boolean;
+            verbs?: string[];
+            output?: "wide" | "name" | "no-headers";
+            context?: string;
+          }
+        );
+      }
 
-        case "install_helm_chart": {
-          return await installHelmChart(
-            input as {
-              name: string;
-              chart: string;
-              repo: string;
-              namespace: string;
-              values?: Record<string, any>;
-            }
-          );
-        }
+      case "port_forward": {
+        return await startPortForward(
+          k8sManager,
+          input as {
+            resourceType: string;
+            resourceName: string;
+            localPort: number;
+            targetPort: number;
+            context?: string;
+          }
+        );
+      }
 
-        case "uninstall_helm_chart": {
-          return await uninstallHelmChart(
-            input as {
-              name: string;
-              namespace: string;
-            }
-          );
-        }
+      case "stop_port_forward": {
+        return await stopPortForward(
+          k8sManager,
+          input as {
+            id: string;
+          }
+        );
+      }
 
-        case "upgrade_helm_chart": {
-          return await upgradeHelmChart(
-            input as {
-              name: string;
-              chart: string;
-              repo: string;
-              namespace: string;
-              values?: Record<string, any>;
-            }
-          );
-        }
+      case "kubectl_scale": {
+        return await kubectlScale(
+          k8sManager,
+          input as {
+            name: string;
+            namespace?: string;
+            replicas: number;
+            resourceType?: string;
+            context?: string;
+          }
+        );
+      }
 
-        case "list_api_resources": {
-          return await listApiResources(
-            input as {
-              apiGroup?: string;
-              namespaced?: boolean;
-              verbs?: string[];
-              output?: "wide" | "name" | "no-headers";
-            }
-          );
-        }
+      default:
+        throw new McpError(ErrorCode.InvalidRequest, `Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    if (error instanceof McpError) throw error;
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Tool execution failed: ${error}`
+    );
+  }
+};
 
-        case "port_forward": {
-          return await startPortForward(
-            k8sManager,
-            input as {
-              resourceType: string;
-              resourceName: string;
-              localPort: number;
-              targetPort: number;
-            }
-          );
-        }
+/**
+ * Create an MCP server with all handlers registered. HTTP transports create
+ * one per session since a server handles a single connection.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: serverConfig.name,
+      version: serverConfig.version,
+    },
+    serverConfig
+  );
 
-        case "stop_port_forward": {
-          return await stopPortForward(
-            k8sManager,
-            input as {
-              id: string;
-            }
-          );
-        }
+  server.setRequestHandler(
+    ListResourcesRequestSchema,
+    resourceHandlers.listResources
+  );
+  server.setRequestHandler(
+    ListResourceTemplatesRequestSchema,
+    resourceHandlers.listResourceTemplates
+  );
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
 
-        case "kubectl_scale": {
-          return await kubectlScale(
-            k8sManager,
-            input as {
-              name: string;
-              namespace?: string;
-              replicas: number;
-              resourceType?: string;
-            }
-          );
-        }
+  // Resource subscriptions of this session by URI, each backed by a watch
+  const subscriptions = new Map<string, WatchTracker>();
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    // Watches may also have been stopped by the cleanup tool
+    const existing = subscriptions.get(uri);
+    if (existing && k8sManager.getWatch(existing.id)) {
+      return {};
+    }
 
-        default:
-          throw new McpError(ErrorCode.InvalidRequest, `Unknown tool: ${name}`);
+    const target = await authorizeResource(uri, extra);
+    // Coalesce bursts of events (e.g. a rollout) into one notification
+    let pending: NodeJS.Timeout | undefined;
+    const watch = await k8sManager.watchResource(
+      { resourceType: target.kind, namespace: target.namespace, name: target.name, context: target.context },
+      () => {
+        pending ??= setTimeout(() => {
+          pending = undefined;
+          if (subscriptions.get(uri) === watch) {
+            server.sendResourceUpdated({ uri }).catch(() => {});
+          }
+        }, 1000);
       }
-    } catch (error) {
-      if (error instanceof McpError) throw error;
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Tool execution failed: ${error}`
-      );
+    );
+    subscriptions.set(uri, watch);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const watch = subscriptions.get(request.params.uri);
+    if (watch) {
+      k8sManager.stopWatch(watch.id);
+      subscriptions.delete(request.params.uri);
     }
-  }
-);
+    return {};
+  });
+  // Stop the session's watches when its client disconnects
+  server.onclose = () => {
+    for (const watch of subscriptions.values()) {
+      k8sManager.stopWatch(watch.id);
+    }
+    subscriptions.clear();
+  };
+  server.setRequestHandler(ListPromptsRequestSchema, promptHandlers.listPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, promptHandlers.getPrompt);
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+
+  return server;
+}
 
 // Start the server
-if (process.env.ENABLE_UNSAFE_SSE_TRANSPORT) {
-  startSSEServer(server);
-  console.log(`SSE server started`);
+let shutdown: () => Promise<void>;
+
+if (enableSSE || enableStreamableHttp) {
+  const httpServer = startHttpServer(createServer, {
+    sse: enableSSE,
+    streamableHttp: enableStreamableHttp,
+  });
+  console.error(`HTTP server started`);
+  shutdown = httpServer.close;
 } else {
+  const server = createServer();
   const transport = new StdioServerTransport();
 
   console.error(
@@ -535,14 +1176,15 @@ if (process.env.ENABLE_UNSAFE_SSE_TRANSPORT) {
   );
 
   server.connect(transport);
+  shutdown = () => server.close();
 }
 
 ["SIGINT", "SIGTERM"].forEach((signal) => {
   process.on(signal, async () => {
-    console.log(`Received ${signal}, shutting down...`);
-    await server.close();
+    console.error(`Received ${signal}, shutting down...`);
+    await shutdown();
     process.exit(0);
   });
 });
 
-export { allTools, destructiveTools };
+export { allTools, destructiveTools, readOnlyTools };
@@ -0,0 +1,8 @@
+// Input schema properties shared by many tools
+
+export const contextParameter = {
+  type: "string",
+  description:
+    "Kubeconfig context to run this call against (optional - defaults to the current context)",
+  optional: true,
+} as const;
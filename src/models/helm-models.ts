@@ -14,6 +14,7 @@ export const HelmValuesSchema = z.record(z.any());
 export interface HelmOperation {
   name: string;
   namespace: string;
+  context?: string;
 }
 
 export interface HelmInstallOperation extends HelmOperation {
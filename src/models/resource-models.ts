@@ -26,9 +26,16 @@ export type K8sResource = z.infer<typeof ResourceSchema>;
 // Resource tracking interfaces
 export interface ResourceTracker {
   kind: string;
+  /** API version the object was created with, to tell apart kinds of different groups */
+  apiVersion?: string;
   name: string;
+  /** Namespace of the object; empty for cluster-scoped objects */
   namespace: string;
   createdAt: Date;
+  /** Kubeconfig context the resource was created in; unset for the current context */
+  context?: string;
+  /** Session that created the resource */
+  session?: string;
 }
 
 export interface PortForwardTracker {
@@ -38,11 +45,18 @@ export interface PortForwardTracker {
   name: string;
   namespace: string;
   ports: { local: number; remote: number }[];
+  /** Session that started the port-forward, set when it is tracked */
+  session?: string;
+  createdAt?: Date;
 }
 
 export interface WatchTracker {
   id: string;
   abort: AbortController;
   resourceType: string;
-  namespace: string;
+  /** Namespace watched, or undefined for the whole cluster */
+  namespace?: string;
+  /** Object watched, or undefined for all objects of the type */
+  name?: string;
+  context?: string;
 }
@@ -12,3 +12,13 @@ export const ListToolsResponseSchema = z.object({
 });
 
 export type K8sTool = z.infer<typeof ToolSchema>;
+
+/**
+ * What a long-running tool gets from the request that started it.
+ */
+export interface ToolCallControls {
+  /** Aborted when the client cancels the call */
+  signal?: AbortSignal;
+  /** Sends a progress notification, when the client asked for them */
+  reportProgress?: (progress: number, message: string) => Promise<void>;
+}
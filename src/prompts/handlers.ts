@@ -0,0 +1,169 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { validateContainerName, validateNamespace, validateResourceName } from "../utils/validation.js";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PlaybookPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Instructions for the investigation, given validated arguments */
+  render: (args: Record<string, string>) => string;
+}
+
+const namespaceArgument: PromptArgument = {
+  name: "namespace",
+  description: "Namespace of the resource (defaults to 'default')",
+};
+
+// Troubleshooting playbooks, each walking the model through the tools in a
+// fixed order so every client gets the same investigation
+const prompts: PlaybookPrompt[] = [
+  {
+    name: "diagnose-crashlooping-pod",
+    description: "Find out why a pod is crash looping or restarting",
+    arguments: [
+      { name: "name", description: "Name of the pod", required: true },
+      namespaceArgument,
+      { name: "container", description: "Container to focus on (optional)" },
+    ],
+    render: ({ name, namespace, container }) => {
+      const containerArg = container ? `, container "${container}"` : "";
+      return `Diagnose why pod "${name}" in namespace "${namespace}" is crash looping.
+
+1. Call kubectl_describe with resourceType "pod", name "${name}", namespace "${namespace}". Note each container's state, last state, exit code, reason (for example OOMKilled, Error, ContainerCannotRun), restart count, probes, resource limits and image.
+2. Call kubectl_logs with resourceType "pod", name "${name}", namespace "${namespace}"${containerArg}, previous true and tail 200 to read the output of the last crashed run. Then call it again without previous for the current run.
+3. Call kubectl_get with resourceType "events", namespace "${namespace}" and fieldSelector "involvedObject.name=${name}" to find scheduling, image pull, probe and OOM events.
+4. If the pod has an owner (Deployment, StatefulSet, Job), call kubectl_get for it with output "yaml" to check its command, environment, mounted ConfigMaps and Secrets and probe settings.
+
+Conclude with the most likely root cause, the evidence for it (quote the exit code, log lines or events), and a concrete fix. Do not change anything in the cluster.`;
+    },
+  },
+  {
+    name: "service-unreachable",
+    description: "Work out why a service cannot be reached",
+    arguments: [
+      { name: "name", description: "Name of the service", required: true },
+      namespaceArgument,
+      { name: "port", description: "Service port that fails (optional)" },
+      { name: "clientPod", description: "Pod to test connectivity from (optional)" },
+    ],
+    render: ({ name, namespace, port, clientPod }) => {
+      const target = `http://${name}.${namespace}.svc.cluster.local${port ? `:${port}` : ""}/`;
+      const connectivity = clientPod
+        ? `Call kubectl_curl with podName "${clientPod}", namespace "${namespace}", url "${target}" and verbose true. Also try a pod IP from the endpoints directly to tell DNS and kube-proxy problems apart from application problems.`
+        : `If a pod in the namespace can be used as a client, call kubectl_curl from it with url "${target}" and verbose true, and once more against a pod IP from the endpoints.`;
+      return `Find out why service "${name}" in namespace "${namespace}"${port ? ` on port ${port}` : ""} is unreachable.
+
+1. Call kubectl_get with resourceType "service", name "${name}", namespace "${namespace}" and output "yaml". Note the type, selector, ports, targetPorts and any externalTrafficPolicy.
+2. Call kubectl_get with resourceType "endpoints", name "${name}", namespace "${namespace}" and output "yaml". Empty or notReadyAddresses-only endpoints mean no ready pod matches the selector.
+3. Call kubectl_get with resourceType "pods", namespace "${namespace}" and labelSelector set to the service selector. Check that the pods are Running and Ready and expose the targetPort, using kubectl_describe on any pod that is not ready.
+4. Call kubectl_get with resourceType "networkpolicies" and namespace "${namespace}" to check for policies blocking ingress to those pods.
+5. ${connectivity}
+6. Call kubectl_get with resourceType "events", namespace "${namespace}" for recent warnings about the service or its pods.
+
+Conclude with where the path breaks (selector, readiness, port mapping, network policy, DNS or the application), the evidence, and the fix. Do not change anything in the cluster.`;
+    },
+  },
+  {
+    name: "review-deployment",
+    description: "Review a deployment for release readiness",
+    arguments: [
+      { name: "name", description: "Name of the deployment", required: true },
+      namespaceArgument,
+    ],
+    render: ({ name, namespace }) => `Review deployment "${name}" in namespace "${namespace}" before a release.
+
+1. Call kubectl_get with resourceType "deployment", name "${name}", namespace "${namespace}" and output "yaml".
+2. Check the spec against this list and report each item as OK or a finding:
+   - replicas of at least 2 and a rolling update strategy with sensible maxSurge/maxUnavailable
+   - readiness and liveness probes on every container, with realistic delays and timeouts
+   - CPU and memory requests and limits on every container
+   - images pinned to a tag other than "latest" or to a digest
+   - securityContext: runAsNonRoot, no privilege escalation, read-only root filesystem where possible
+   - no secrets in plain environment variables
+3. Call kubectl_rollout with subCommand "status" and then "history" for deployment "${name}" in namespace "${namespace}" to confirm the current rollout finished and a revision to roll back to exists.
+4. Call kubectl_get with resourceType "poddisruptionbudgets" and resourceType "horizontalpodautoscalers" in namespace "${namespace}" to see whether the deployment is covered.
+5. Call kubectl_get with resourceType "events", namespace "${namespace}" and fieldSelector "involvedObject.name=${name}" for recent warnings.
+
+Finish with a go/no-go recommendation and the findings ordered by risk. Do not change anything in the cluster.`,
+  },
+  {
+    name: "investigate-gpu-pod",
+    description: "Investigate a GPU workload that is pending, failing or underperforming",
+    arguments: [
+      { name: "name", description: "Name of the pod", required: true },
+      namespaceArgument,
+      { name: "container", description: "Container using the GPU (optional)" },
+    ],
+    render: ({ name, namespace, container }) => {
+      const containerArg = container ? `, container "${container}"` : "";
+      return `Investigate GPU pod "${name}" in namespace "${namespace}".
+
+1. Call kubectl_describe with resourceType "pod", name "${name}", namespace "${namespace}". Note the nvidia.com/gpu requests and limits, node selectors, tolerations, the node it runs on and its conditions.
+2. If the pod is Pending, call kubectl_get with resourceType "events", namespace "${namespace}" and fieldSelector "involvedObject.name=${name}", then kubectl_get with resourceType "nodes" and output "yaml" to compare allocatable nvidia.com/gpu and taints with the request.
+3. If the pod is running, call kubectl_nvidia_smi with podName "${name}", namespace "${namespace}"${containerArg} and outputFormat "json" to check GPU utilization, memory use, temperature and running processes.
+4. Call kubectl_logs with resourceType "pod", name "${name}", namespace "${namespace}"${containerArg} and tail 200, looking for CUDA, driver or out-of-memory errors.
+
+Conclude with the state of the GPU workload, the most likely cause of any problem (scheduling, driver/device plugin, GPU memory, low utilization) and a fix. Do not change anything in the cluster.`;
+    },
+  },
+];
+
+export const getPromptHandlers = () => ({
+  listPrompts: async () => {
+    return {
+      prompts: prompts.map(({ name, description, arguments: args }) => ({
+        name,
+        description,
+        arguments: args,
+      })),
+    };
+  },
+
+  getPrompt: async (request: { params: { name: string; arguments?: Record<string, string> } }) => {
+    const prompt = prompts.find((p) => p.name === request.params.name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+    }
+
+    const input = request.params.arguments || {};
+    for (const argument of prompt.arguments) {
+      if (argument.required && !input[argument.name]) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Missing required argument "${argument.name}" for prompt ${prompt.name}`
+        );
+      }
+    }
+
+    // Arguments end up in tool calls, so hold them to the same rules
+    const args: Record<string, string> = {
+      ...input,
+      name: validateResourceName(input.name),
+      namespace: input.namespace ? validateNamespace(input.namespace) : "default",
+    };
+    if (input.container) args.container = validateContainerName(input.container);
+    if (input.clientPod) args.clientPod = validateResourceName(input.clientPod, "clientPod");
+    if (input.port && !/^[\w-]{1,15}$/.test(input.port)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid port '${input.port}'`);
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user" as const,
+          content: {
+            type: "text" as const,
+            text: prompt.render(args),
+          },
+        },
+      ],
+    };
+  },
+});
@@ -1,6 +1,79 @@
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
-import * as k8s from "@kubernetes/client-node";
+import yaml from "yaml";
 import { KubernetesManager } from "../types.js";
+import { isNotFoundError, apiErrorMessage } from "../utils/dynamic-client.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
+
+const JSON_MIME_TYPE = "application/json";
+const YAML_MIME_TYPE = "application/yaml";
+
+/**
+ * What a `k8s://` URI points at.
+ *
+ * - `k8s://{context}/{namespace}/{kind}/{name}`: one object, in a context
+ * - `k8s://{namespace}/{kind}`: all objects of a kind in a namespace
+ * - `k8s://cluster/{kind}`: all objects of a kind across the cluster
+ *
+ * `k8s://{kind}` (e.g. `k8s://nodes`) is kept as shorthand for
+ * `k8s://cluster/{kind}`. Any URI may end in `?format=yaml` or `?format=json`.
+ */
+export interface ResourceTarget {
+  context?: string;
+  /** Namespace, or undefined for the whole cluster */
+  namespace?: string;
+  kind: string;
+  name?: string;
+  mimeType: typeof JSON_MIME_TYPE | typeof YAML_MIME_TYPE;
+}
+
+/**
+ * Parse and validate a `k8s://` resource URI.
+ */
+export function parseResourceUri(uri: string): ResourceTarget {
+  if (!uri.startsWith("k8s://")) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+  const [path, query = ""] = uri.slice("k8s://".length).split("?", 2);
+  const format = new URLSearchParams(query).get("format") || "json";
+  if (format !== "json" && format !== "yaml") {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported format "${format}": expected json or yaml`);
+  }
+  const mimeType = format === "yaml" ? YAML_MIME_TYPE : JSON_MIME_TYPE;
+  const parts = path.split("/").map(decodeURIComponent);
+
+  switch (parts.length) {
+    case 1:
+      return { kind: validateResourceType(parts[0], "kind"), mimeType };
+    case 2: {
+      const [namespace, kind] = parts;
+      return {
+        namespace: namespace === "cluster" ? undefined : validateNamespace(namespace),
+        kind: validateResourceType(kind, "kind"),
+        mimeType,
+      };
+    }
+    case 4: {
+      const [context, namespace, kind, name] = parts;
+      return {
+        context: validateContextName(context),
+        namespace: namespace === "cluster" ? undefined : validateNamespace(namespace),
+        kind: validateResourceType(kind, "kind"),
+        name: validateResourceName(name),
+        mimeType,
+      };
+    }
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unsupported resource URI: ${uri}. Expected k8s://{context}/{namespace}/{kind}/{name}, k8s://{namespace}/{kind} or k8s://cluster/{kind}`
+      );
+  }
+}
 
 export const getResourceHandlers = (k8sManager: KubernetesManager) => ({
   listResources: async () => {
@@ -40,83 +113,64 @@ export const getResourceHandlers = (k8sManager: KubernetesManager) => ({
     };
   },
 
+  listResourceTemplates: async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: "k8s://{context}/{namespace}/{kind}/{name}{?format}",
+          name: "Kubernetes object",
+          mimeType: JSON_MIME_TYPE,
+          description:
+            "A single object of any kind, including custom resources, in a kubeconfig context. Use \"cluster\" as the namespace of cluster-scoped objects and format=yaml for YAML",
+        },
+        {
+          uriTemplate: "k8s://{namespace}/{kind}{?format}",
+          name: "Kubernetes objects in a namespace",
+          mimeType: JSON_MIME_TYPE,
+          description: "All objects of a kind (e.g. pods, deployments, certificates.cert-manager.io) in a namespace",
+        },
+        {
+          uriTemplate: "k8s://cluster/{kind}{?format}",
+          name: "Kubernetes objects in the cluster",
+          mimeType: JSON_MIME_TYPE,
+          description: "All objects of a kind across the cluster: cluster-scoped kinds such as nodes, or namespaced kinds in every namespace",
+        },
+      ],
+    };
+  },
+
   readResource: async (request: { params: { uri: string } }) => {
     try {
       const uri = request.params.uri;
-      const parts = uri.replace("k8s://", "").split("/");
+      const target = parseResourceUri(uri);
+      const client = k8sManager.getDynamicClient(target.context);
+      const resource = await client.resolveResource(target.kind);
 
-      const isNamespaces = parts[0] === "namespaces";
-      const isNodes = parts[0] === "nodes";
-      if ((isNamespaces || isNodes) && parts.length === 1) {
-        const fn = isNodes ? "listNode" : "listNamespace";
-        const { body } = await k8sManager.getCoreApi()[fn]();
-        return {
-          contents: [
-            {
-              uri: request.params.uri,
-              mimeType: "application/json",
-              text: JSON.stringify(body.items, null, 2),
-            },
-          ],
-        };
+      let body: any;
+      if (target.name) {
+        body = await client.getResource(resource, target.name, target.namespace);
+      } else {
+        // Lists are returned as their items, apiVersion and kind filled in
+        body = (await client.listResources(resource, { namespace: target.namespace })).items;
       }
 
-      const [namespace, resourceType] = parts;
-
-      switch (resourceType) {
-        case "pods": {
-          const { body } = await k8sManager
-            .getCoreApi()
-            .listNamespacedPod(namespace);
-          return {
-            contents: [
-              {
-                uri: request.params.uri,
-                mimeType: "application/json",
-                text: JSON.stringify(body.items, null, 2),
-              },
-            ],
-          };
-        }
-        case "deployments": {
-          const { body } = await k8sManager
-            .getAppsApi()
-            .listNamespacedDeployment(namespace);
-          return {
-            contents: [
-              {
-                uri: request.params.uri,
-                mimeType: "application/json",
-                text: JSON.stringify(body.items, null, 2),
-              },
-            ],
-          };
-        }
-        case "services": {
-          const { body } = await k8sManager
-            .getCoreApi()
-            .listNamespacedService(namespace);
-          return {
-            contents: [
-              {
-                uri: request.params.uri,
-                mimeType: "application/json",
-                text: JSON.stringify(body.items, null, 2),
-              },
-            ],
-          };
-        }
-        default:
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `Unsupported resource type: ${resourceType}`
-          );
-      }
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: target.mimeType,
+            text: target.mimeType === YAML_MIME_TYPE ? yaml.stringify(body) : JSON.stringify(body, null, 2),
+          },
+        ],
+      };
     } catch (error) {
       if (error instanceof McpError) throw error;
+      if (isNotFoundError(error)) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${request.params.uri}`);
+      }
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to read resource: ${error}`
+        `Failed to read resource: ${apiErrorMessage(error)}`
       );
     }
   },
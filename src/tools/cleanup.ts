@@ -0,0 +1,83 @@
+import { KubernetesManager } from "../types.js";
+import { CleanupOptions } from "../utils/kubernetes-manager.js";
+import { validateDuration } from "../utils/validation.js";
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+// Helper function to turn a duration such as "1h30m" into milliseconds
+function durationMs(duration: string): number {
+  let total = 0;
+  for (const [, value, unit] of duration.matchAll(/(\d+(?:\.\d+)?)(ns|us|ms|s|m|h)/g)) {
+    total += Number(value) * DURATION_UNITS_MS[unit];
+  }
+  return total;
+}
+
+function cleanupOptions(
+  k8sManager: KubernetesManager,
+  input: { session?: string; olderThan?: string; dryRun?: boolean }
+): CleanupOptions {
+  // Other sessions' resources are only cleaned up when asked for
+  const session = input.session === "all"
+    ? undefined
+    : !input.session || input.session === "current" ? k8sManager.currentSession() : input.session;
+  const olderThan = input.olderThan !== undefined ? validateDuration(input.olderThan, "olderThan") : undefined;
+  return {
+    session,
+    createdBefore: olderThan ? new Date(Date.now() - durationMs(olderThan)) : undefined,
+    dryRun: !!input.dryRun,
+  };
+}
+
+const describeResource = (r: { kind: string; name: string; namespace: string; context?: string }) =>
+  `${r.kind}/${r.name}${r.namespace ? ` in namespace ${r.namespace}` : ""}${r.context ? ` (context ${r.context})` : ""}`;
+
+export async function cleanup(
+  k8sManager: KubernetesManager,
+  input: { session?: string; olderThan?: string; dryRun?: boolean }
+) {
+  const options = cleanupOptions(k8sManager, input);
+  const report = await k8sManager.cleanup(options);
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: report.failed.length === 0,
+            ...(options.dryRun ? { dryRun: true } : {}),
+            ...(options.session ? { session: options.session } : {}),
+            [options.dryRun ? "wouldDelete" : "deleted"]: report.deleted,
+            ...(report.failed.length > 0 ? { failed: report.failed } : {}),
+            [options.dryRun ? "wouldStopPortForwards" : "portForwardsStopped"]: report.portForwards,
+            [options.dryRun ? "wouldStopWatches" : "watchesStopped"]: report.watches,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * What a cleanup call would delete and stop, shown before it is confirmed.
+ */
+export async function previewCleanup(
+  k8sManager: KubernetesManager,
+  input: { session?: string; olderThan?: string }
+): Promise<string> {
+  const report = await k8sManager.cleanup({ ...cleanupOptions(k8sManager, input), dryRun: true });
+  return [
+    ...report.deleted.map((r) => `- delete ${describeResource(r)}`),
+    ...report.portForwards.map((id) => `- stop port-forward ${id}`),
+    ...(report.watches > 0 ? [`- stop ${report.watches} watch(es)`] : []),
+  ].join("\n");
+}
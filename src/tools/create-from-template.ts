@@ -0,0 +1,141 @@
+import { KubernetesManager } from "../types.js";
+import * as k8s from "@kubernetes/client-node";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { customConfigParameter, templateParameter } from "../config/deployment-config.js";
+import { apiErrorMessage } from "../utils/dynamic-client.js";
+import { buildContainer } from "../utils/workload-templates.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
+
+export const createPodFromTemplateSchema = {
+  name: "create_pod_from_template",
+  description:
+    "Create a pod from a container template, optionally overriding the template's image, command, ports, resources and more. The pod is tracked and removed by cleanup",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "Name of the pod, also used as its app label" },
+      namespace: { type: "string", description: "Namespace to create the pod in", default: "default" },
+      template: templateParameter,
+      customConfig: customConfigParameter,
+      context: contextParameter,
+    },
+    required: ["name", "template"],
+  },
+} as const;
+
+function created(kind: string, object: k8s.V1Pod | k8s.V1Deployment, template: string, container: k8s.V1Container) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            kind,
+            name: object.metadata?.name,
+            namespace: object.metadata?.namespace,
+            uid: object.metadata?.uid,
+            template,
+            image: container.image,
+            tracked: true,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+function createError(error: any, kind: string, name: string, namespace: string): McpError {
+  if (error instanceof McpError) return error;
+  if (error?.statusCode === 409 || error?.response?.statusCode === 409) {
+    return new McpError(ErrorCode.InvalidParams, `${kind} '${name}' already exists in namespace '${namespace}'`);
+  }
+  return new McpError(ErrorCode.InternalError, `Failed to create ${kind} '${name}': ${apiErrorMessage(error)}`);
+}
+
+export async function createPodFromTemplate(
+  k8sManager: KubernetesManager,
+  input: {
+    name: string;
+    namespace?: string;
+    template: string;
+    customConfig?: unknown;
+    context?: string;
+  }
+) {
+  const name = validateResourceName(input.name);
+  const namespace = validateNamespace(input.namespace || "default");
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const container = buildContainer(input.template, input.customConfig);
+
+  const pod: k8s.V1Pod = {
+    apiVersion: "v1",
+    kind: "Pod",
+    metadata: { name, namespace, labels: { app: name, ...k8sManager.ownerLabels() } },
+    spec: { containers: [container] },
+  };
+  try {
+    const { body } = await k8sManager.getCoreApi(context).createNamespacedPod(namespace, pod);
+    k8sManager.trackResource("Pod", name, namespace, context, "v1");
+    return created("Pod", body, input.template, container);
+  } catch (error) {
+    throw createError(error, "Pod", name, namespace);
+  }
+}
+
+export async function createDeployment(
+  k8sManager: KubernetesManager,
+  input: {
+    name: string;
+    namespace?: string;
+    template: string;
+    replicas?: number;
+    ports?: number[];
+    customConfig?: unknown;
+    context?: string;
+  }
+) {
+  const name = validateResourceName(input.name);
+  const namespace = validateNamespace(input.namespace || "default");
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const replicas = input.replicas ?? 1;
+  if (!Number.isInteger(replicas) || replicas < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid replicas '${input.replicas}': must be a non-negative integer`);
+  }
+  const container = buildContainer(input.template, input.customConfig);
+  for (const port of input.ports || []) {
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid port '${port}': must be an integer from 1 to 65535`);
+    }
+    if (!container.ports?.some((p) => p.containerPort === port)) {
+      container.ports = [...(container.ports || []), { containerPort: port }];
+    }
+  }
+
+  const deployment: k8s.V1Deployment = {
+    apiVersion: "apps/v1",
+    kind: "Deployment",
+    metadata: { name, namespace, labels: { app: name, ...k8sManager.ownerLabels() } },
+    spec: {
+      replicas,
+      selector: { matchLabels: { app: name } },
+      template: {
+        metadata: { labels: { app: name } },
+        spec: { containers: [container] },
+      },
+    },
+  };
+  try {
+    const { body } = await k8sManager.getAppsApi(context).createNamespacedDeployment(namespace, deployment);
+    k8sManager.trackResource("Deployment", name, namespace, context, "apps/v1");
+    return created("Deployment", body, input.template, container);
+  } catch (error) {
+    throw createError(error, "Deployment", name, namespace);
+  }
+}
@@ -1,7 +1,16 @@
-import { execSync } from "child_process";
 import { writeFileSync, unlinkSync } from "fs";
 import yaml from "yaml";
 import { HelmInstallOperation, HelmOperation, HelmResponse, HelmUpgradeOperation } from "../models/helm-models.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { execHelm } from "../utils/command-runner.js";
+import { normalizeForDiff } from "../utils/change-preview.js";
+import { unifiedDiff } from "../utils/diff.js";
+import {
+  validateArgument,
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
 
 export const installHelmChartSchema = {
   name: "install_helm_chart",
@@ -31,6 +40,7 @@ export const installHelmChartSchema = {
         properties: {},
         additionalProperties: true,
       },
+      context: contextParameter,
     },
     required: ["name", "chart", "repo", "namespace"],
   },
@@ -64,6 +74,7 @@ export const upgradeHelmChartSchema = {
         properties: {},
         additionalProperties: true,
       },
+      context: contextParameter,
     },
     required: ["name", "chart", "repo", "namespace"],
   },
@@ -83,16 +94,146 @@ export const uninstallHelmChartSchema = {
         type: "string",
         description: "Kubernetes namespace",
       },
+      context: contextParameter,
     },
     required: ["name", "namespace"],
   },
 };
 
-const executeHelmCommand = (command: string): string => {
+const HELM_STATUSES = ["all", "deployed", "failed", "pending", "superseded", "uninstalled", "uninstalling"];
+
+const revisionParameter = {
+  type: "number",
+  description: "Release revision (optional - defaults to the latest)",
+  optional: true,
+};
+
+export const listHelmReleasesSchema = {
+  name: "list_helm_releases",
+  description: "List Helm releases with their chart, chart version, app version and status",
+  inputSchema: {
+    type: "object",
+    properties: {
+      namespace: {
+        type: "string",
+        description: "Kubernetes namespace (optional - defaults to all namespaces)",
+        optional: true,
+      },
+      status: {
+        type: "string",
+        enum: HELM_STATUSES,
+        description: "Only list releases in this status; without it, deployed and failed releases are listed",
+        optional: true,
+      },
+      filter: {
+        type: "string",
+        description: "Regular expression matched against release names",
+        optional: true,
+      },
+      context: contextParameter,
+    },
+    required: [],
+  },
+};
+
+export const helmStatusSchema = {
+  name: "helm_status",
+  description: "Get the status of a Helm release: chart and app version, revision, deployment times, description and notes",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Release name",
+      },
+      namespace: {
+        type: "string",
+        description: "Kubernetes namespace",
+      },
+      revision: revisionParameter,
+      context: contextParameter,
+    },
+    required: ["name", "namespace"],
+  },
+};
+
+export const helmHistorySchema = {
+  name: "helm_history",
+  description: "List the revisions of a Helm release, newest last, with their status, chart version and description",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Release name",
+      },
+      namespace: {
+        type: "string",
+        description: "Kubernetes namespace",
+      },
+      max: {
+        type: "number",
+        description: "Maximum number of revisions to return",
+        default: 10,
+      },
+      context: contextParameter,
+    },
+    required: ["name", "namespace"],
+  },
+};
+
+export const helmGetValuesSchema = {
+  name: "helm_get_values",
+  description: "Get the values of a Helm release: the values the user supplied, the computed values including the chart's defaults, or both",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Release name",
+      },
+      namespace: {
+        type: "string",
+        description: "Kubernetes namespace",
+      },
+      type: {
+        type: "string",
+        enum: ["user", "computed", "both"],
+        description: "Which values to return",
+        default: "user",
+      },
+      revision: revisionParameter,
+      context: contextParameter,
+    },
+    required: ["name", "namespace"],
+  },
+};
+
+export const helmGetManifestSchema = {
+  name: "helm_get_manifest",
+  description: "Get the Kubernetes objects a Helm release rendered, with the chart template each comes from",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Release name",
+      },
+      namespace: {
+        type: "string",
+        description: "Kubernetes namespace",
+      },
+      revision: revisionParameter,
+      context: contextParameter,
+    },
+    required: ["name", "namespace"],
+  },
+};
+
+const executeHelmCommand = (args: string[]): string => {
   try {
     // Add a generous timeout of 60 seconds for Helm operations
-    return execSync(command, { 
-      encoding: "utf8",
+    return execHelm(args, {
       timeout: 60000 // 60 seconds timeout
     });
   } catch (error: any) {
@@ -100,6 +241,54 @@ const executeHelmCommand = (command: string): string => {
   }
 };
 
+// Validate the release, chart and target of a Helm operation and return the
+// shared `--namespace`/`--kube-context` arguments
+const releaseArgs = (params: HelmOperation & { chart?: string; repo?: string }): string[] => {
+  validateResourceName(params.name, "name");
+  if (params.chart !== undefined) {
+    validateArgument(params.chart, "chart");
+  }
+  if (params.repo) {
+    validateArgument(params.repo, "repo");
+  }
+  const args = ["--namespace", validateNamespace(params.namespace)];
+  if (params.context) {
+    args.push("--kube-context", validateContextName(params.context));
+  }
+  return args;
+};
+
+// Add the chart's repository (named after the chart prefix) and refresh the index
+const addHelmRepo = (chart: string, repo: string): void => {
+  const repoName = validateArgument(chart.split("/")[0], "chart");
+  executeHelmCommand(["repo", "add", repoName, repo]);
+  executeHelmCommand(["repo", "update"]);
+};
+
+// `--revision` argument of a read-only Helm command, if one was requested
+const revisionArgs = (revision?: number): string[] => {
+  if (revision === undefined) return [];
+  if (!Number.isInteger(revision) || revision < 1) {
+    throw new Error(`Invalid revision '${revision}': must be a positive integer`);
+  }
+  return ["--revision", String(revision)];
+};
+
+// Split a chart reference such as "ingress-nginx-4.10.0" into name and version
+const splitChart = (chart: string): { chart: string; chartVersion?: string } => {
+  const match = chart.match(/^(.+)-(v?\d+\.\d+\.\d+\S*)$/);
+  return match ? { chart: match[1], chartVersion: match[2] } : { chart };
+};
+
+const jsonResponse = (value: any) => ({
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify(value, null, 2),
+    },
+  ],
+});
+
 const writeValuesFile = (name: string, values: Record<string, any>): string => {
   const filename = `${name}-values.yaml`;
   writeFileSync(filename, yaml.stringify(values));
@@ -108,28 +297,28 @@ const writeValuesFile = (name: string, values: Record<string, any>): string => {
 
 export async function installHelmChart(params: HelmInstallOperation): Promise<{ content: { type: string; text: string }[] }> {
   try {
+    const targetArgs = releaseArgs(params);
+
     // Add helm repository if provided
     if (params.repo) {
-      const repoName = params.chart.split("/")[0];
-      executeHelmCommand(`helm repo add ${repoName} ${params.repo}`);
-      executeHelmCommand("helm repo update");
+      addHelmRepo(params.chart, params.repo);
     }
 
-    let command = `helm install ${params.name} ${params.chart} --namespace ${params.namespace} --create-namespace`;
+    const args = ["install", params.name, params.chart, ...targetArgs, "--create-namespace"];
 
     // Handle values if provided
     if (params.values) {
       const valuesFile = writeValuesFile(params.name, params.values);
-      command += ` -f ${valuesFile}`;
+      args.push("-f", valuesFile);
 
       try {
-        executeHelmCommand(command);
+        executeHelmCommand(args);
       } finally {
         // Cleanup values file
         unlinkSync(valuesFile);
       }
     } else {
-      executeHelmCommand(command);
+      executeHelmCommand(args);
     }
 
     const response: HelmResponse = {
@@ -152,28 +341,28 @@ export async function installHelmChart(params: HelmInstallOperation): Promise<{
 
 export async function upgradeHelmChart(params: HelmUpgradeOperation): Promise<{ content: { type: string; text: string }[] }> {
   try {
+    const targetArgs = releaseArgs(params);
+
     // Add helm repository if provided
     if (params.repo) {
-      const repoName = params.chart.split("/")[0];
-      executeHelmCommand(`helm repo add ${repoName} ${params.repo}`);
-      executeHelmCommand("helm repo update");
+      addHelmRepo(params.chart, params.repo);
     }
 
-    let command = `helm upgrade ${params.name} ${params.chart} --namespace ${params.namespace}`;
+    const args = ["upgrade", params.name, params.chart, ...targetArgs];
 
     // Handle values if provided
     if (params.values) {
       const valuesFile = writeValuesFile(params.name, params.values);
-      command += ` -f ${valuesFile}`;
+      args.push("-f", valuesFile);
 
       try {
-        executeHelmCommand(command);
+        executeHelmCommand(args);
       } finally {
         // Cleanup values file
         unlinkSync(valuesFile);
       }
     } else {
-      executeHelmCommand(command);
+      executeHelmCommand(args);
     }
 
     const response: HelmResponse = {
@@ -196,7 +385,7 @@ export async function upgradeHelmChart(params: HelmUpgradeOperation): Promise<{
 
 export async function uninstallHelmChart(params: HelmOperation): Promise<{ content: { type: string; text: string }[] }> {
   try {
-    executeHelmCommand(`helm uninstall ${params.name} --namespace ${params.namespace}`);
+    executeHelmCommand(["uninstall", params.name, ...releaseArgs(params)]);
 
     const response: HelmResponse = {
       status: "uninstalled",
@@ -215,3 +404,176 @@ export async function uninstallHelmChart(params: HelmOperation): Promise<{ conte
     throw new Error(`Failed to uninstall Helm chart: ${error.message}`);
   }
 }
+
+/**
+ * Diff of the release's deployed manifest against the manifest a
+ * server-side dry run of the upgrade renders. Used to preview the upgrade
+ * before it is confirmed.
+ */
+export async function previewHelmUpgrade(params: HelmUpgradeOperation): Promise<string> {
+  try {
+    const targetArgs = releaseArgs(params);
+
+    // Add helm repository if provided
+    if (params.repo) {
+      addHelmRepo(params.chart, params.repo);
+    }
+
+    const live = executeHelmCommand(["get", "manifest", params.name, ...targetArgs]);
+    const args = ["upgrade", params.name, params.chart, ...targetArgs, "--dry-run=server", "-o", "json"];
+
+    let output: string;
+    if (params.values) {
+      const valuesFile = writeValuesFile(params.name, params.values);
+      args.push("-f", valuesFile);
+
+      try {
+        output = executeHelmCommand(args);
+      } finally {
+        // Cleanup values file
+        unlinkSync(valuesFile);
+      }
+    } else {
+      output = executeHelmCommand(args);
+    }
+
+    const upgraded = JSON.parse(output).manifest || "";
+    return unifiedDiff(normalizeForDiff(live), normalizeForDiff(upgraded), {
+      before: `${params.name} (deployed)`,
+      after: `${params.name} (upgraded)`,
+    });
+  } catch (error: any) {
+    throw new Error(`Failed to preview Helm upgrade: ${error.message}`);
+  }
+}
+
+export async function listHelmReleases(params: {
+  namespace?: string;
+  status?: string;
+  filter?: string;
+  context?: string;
+}): Promise<{ content: { type: string; text: string }[] }> {
+  try {
+    const args = ["list", "-o", "json"];
+    args.push(...(params.namespace ? ["--namespace", validateNamespace(params.namespace)] : ["--all-namespaces"]));
+    if (params.status) {
+      if (!HELM_STATUSES.includes(params.status)) {
+        throw new Error(`Invalid status '${params.status}': must be one of ${HELM_STATUSES.join(", ")}`);
+      }
+      args.push(`--${params.status}`);
+    }
+    if (params.filter) {
+      args.push("--filter", validateArgument(params.filter, "filter"));
+    }
+    if (params.context) {
+      args.push("--kube-context", validateContextName(params.context));
+    }
+
+    const releases = (JSON.parse(executeHelmCommand(args) || "[]") as any[]).map((release) => ({
+      name: release.name,
+      namespace: release.namespace,
+      revision: Number(release.revision),
+      status: release.status,
+      ...splitChart(release.chart),
+      appVersion: release.app_version,
+      updated: release.updated,
+    }));
+    return jsonResponse({ releases, count: releases.length });
+  } catch (error: any) {
+    throw new Error(`Failed to list Helm releases: ${error.message}`);
+  }
+}
+
+export async function helmStatus(params: HelmOperation & { revision?: number }): Promise<{ content: { type: string; text: string }[] }> {
+  try {
+    const args = ["status", params.name, ...releaseArgs(params), ...revisionArgs(params.revision), "-o", "json"];
+    const release = JSON.parse(executeHelmCommand(args));
+    const metadata = release.chart?.metadata || {};
+
+    // The chart's templates and the rendered manifest are left out; see
+    // helm_get_manifest for the latter
+    return jsonResponse({
+      name: release.name,
+      namespace: release.namespace,
+      revision: release.version,
+      status: release.info?.status,
+      description: release.info?.description,
+      chart: metadata.name,
+      chartVersion: metadata.version,
+      appVersion: metadata.appVersion,
+      firstDeployed: release.info?.first_deployed,
+      lastDeployed: release.info?.last_deployed,
+      ...(release.info?.notes ? { notes: release.info.notes } : {}),
+    });
+  } catch (error: any) {
+    throw new Error(`Failed to get Helm release status: ${error.message}`);
+  }
+}
+
+export async function helmHistory(params: HelmOperation & { max?: number }): Promise<{ content: { type: string; text: string }[] }> {
+  try {
+    const max = params.max ?? 10;
+    if (!Number.isInteger(max) || max < 1) {
+      throw new Error(`Invalid max '${params.max}': must be a positive integer`);
+    }
+    const args = ["history", params.name, ...releaseArgs(params), "--max", String(max), "-o", "json"];
+    const revisions = (JSON.parse(executeHelmCommand(args)) as any[]).map((revision) => ({
+      revision: revision.revision,
+      status: revision.status,
+      ...splitChart(revision.chart),
+      appVersion: revision.app_version,
+      updated: revision.updated,
+      description: revision.description,
+    }));
+    return jsonResponse({ name: params.name, namespace: params.namespace, revisions });
+  } catch (error: any) {
+    throw new Error(`Failed to get Helm release history: ${error.message}`);
+  }
+}
+
+export async function helmGetValues(
+  params: HelmOperation & { type?: string; revision?: number }
+): Promise<{ content: { type: string; text: string }[] }> {
+  try {
+    const type = params.type || "user";
+    if (!["user", "computed", "both"].includes(type)) {
+      throw new Error(`Invalid type '${type}': must be user, computed or both`);
+    }
+    const args = ["get", "values", params.name, ...releaseArgs(params), ...revisionArgs(params.revision), "-o", "json"];
+    // Releases installed without values print null
+    const values = (all: boolean) => JSON.parse(executeHelmCommand(all ? [...args, "--all"] : args)) ?? {};
+
+    return jsonResponse({
+      name: params.name,
+      namespace: params.namespace,
+      ...(params.revision !== undefined ? { revision: params.revision } : {}),
+      ...(type !== "computed" ? { userSupplied: values(false) } : {}),
+      ...(type !== "user" ? { computed: values(true) } : {}),
+    });
+  } catch (error: any) {
+    throw new Error(`Failed to get Helm release values: ${error.message}`);
+  }
+}
+
+export async function helmGetManifest(params: HelmOperation & { revision?: number }): Promise<{ content: { type: string; text: string }[] }> {
+  try {
+    const args = ["get", "manifest", params.name, ...releaseArgs(params), ...revisionArgs(params.revision)];
+    const manifest = executeHelmCommand(args);
+
+    // Each document starts with a "# Source: chart/templates/file.yaml" comment
+    const objects = manifest
+      .split(/^---\s*$/m)
+      .map((document) => ({ source: document.match(/^# Source: (.+)$/m)?.[1], object: yaml.parse(document) }))
+      .filter(({ object }) => object && typeof object === "object")
+      .map(({ source, object }) => ({
+        kind: object.kind,
+        name: object.metadata?.name,
+        ...(object.metadata?.namespace ? { namespace: object.metadata.namespace } : {}),
+        ...(source ? { source } : {}),
+        object,
+      }));
+    return jsonResponse({ name: params.name, namespace: params.namespace, count: objects.length, objects });
+  } catch (error: any) {
+    throw new Error(`Failed to get Helm release manifest: ${error.message}`);
+  }
+}
@@ -1,9 +1,17 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import { kubectlDiff } from "../utils/change-preview.js";
+import { appliedObjects, trackCreatedObjects } from "../utils/resource-tracking.js";
+import {
+  validateArgument,
+  validateContextName,
+  validateNamespace,
+} from "../utils/validation.js";
 
 export const kubectlApplySchema = {
   name: "kubectl_apply",
@@ -33,7 +41,8 @@ export const kubectlApplySchema = {
         type: "boolean",
         description: "If true, immediately remove resources from API and bypass graceful deletion",
         default: false
-      }
+      },
+      context: contextParameter,
     },
     required: [],
   },
@@ -47,6 +56,7 @@ export async function kubectlApply(
     namespace?: string;
     dryRun?: boolean;
     force?: boolean;
+    context?: string;
   }
 ) {
   try {
@@ -57,11 +67,13 @@ export async function kubectlApply(
       );
     }
 
-    const namespace = input.namespace || "default";
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
     const dryRun = input.dryRun || false;
     const force = input.force || false;
+    const context = input.context ? validateContextName(input.context) : undefined;
+    const filename = input.filename ? validateArgument(input.filename, "filename") : undefined;
     
-    let command = "kubectl apply";
+    const args = ["apply"];
     let tempFile: string | null = null;
     
     // Process manifest content if provided
@@ -70,27 +82,30 @@ export async function kubectlApply(
       const tmpDir = os.tmpdir();
       tempFile = path.join(tmpDir, `manifest-${Date.now()}.yaml`);
       fs.writeFileSync(tempFile, input.manifest);
-      command += ` -f ${tempFile}`;
-    } else if (input.filename) {
-      command += ` -f ${input.filename}`;
+      args.push("-f", tempFile);
+    } else if (filename) {
+      args.push("-f", filename);
     }
     
     // Add namespace
-    command += ` -n ${namespace}`;
+    args.push("-n", namespace);
     
     // Add dry-run flag if requested
     if (dryRun) {
-      command += " --dry-run=client";
+      args.push("--dry-run=client");
     }
     
     // Add force flag if requested
     if (force) {
-      command += " --force";
+      args.push("--force");
     }
     
+    // Target a specific kubeconfig context if requested
+    args.push(...contextArgs(context));
+    
     // Execute the command
     try {
-      const result = execSync(command, { encoding: "utf8" });
+      const result = execKubectl(args);
       
       // Clean up temp file if created
       if (tempFile) {
@@ -101,6 +116,14 @@ export async function kubectlApply(
         }
       }
       
+      // Track the objects the apply created (not those it only configured)
+      // so that cleanup deletes them
+      if (!dryRun) {
+        const isFile = !!filename && fs.existsSync(filename) && fs.statSync(filename).isFile();
+        const manifest = input.manifest || (isFile ? fs.readFileSync(filename!, "utf8") : "");
+        await trackCreatedObjects(k8sManager, appliedObjects(result, manifest, namespace), namespace, context);
+      }
+      
       return {
         content: [
           {
@@ -134,4 +157,47 @@ export async function kubectlApply(
       `Failed to execute kubectl apply command: ${error.message}`
     );
   }
-} 
\ No newline at end of file
+}
+/**
+ * Diff of what applying the manifest would change, from a server-side dry
+ * run. Used to preview the change before it is confirmed.
+ */
+export async function previewKubectlApply(
+  k8sManager: KubernetesManager,
+  input: {
+    manifest?: string;
+    filename?: string;
+    namespace?: string;
+    context?: string;
+  }
+): Promise<string> {
+  if (!input.manifest && !input.filename) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "Either manifest or filename must be provided"
+    );
+  }
+
+  const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+  const context = input.context ? validateContextName(input.context) : undefined;
+  let file = input.filename ? validateArgument(input.filename, "filename") : undefined;
+  let tempFile: string | null = null;
+
+  if (input.manifest) {
+    tempFile = path.join(os.tmpdir(), `manifest-${Date.now()}.yaml`);
+    fs.writeFileSync(tempFile, input.manifest);
+    file = tempFile;
+  }
+
+  try {
+    return kubectlDiff(["-f", file!, "-n", namespace, ...contextArgs(context)]);
+  } finally {
+    if (tempFile) {
+      try {
+        fs.unlinkSync(tempFile);
+      } catch (err) {
+        console.warn(`Failed to delete temporary file ${tempFile}: ${err}`);
+      }
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
+import * as k8s from "@kubernetes/client-node";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { DynamicClient } from "../utils/dynamic-client.js";
+import { validateContextName, validateResourceType } from "../utils/validation.js";
 
 export const kubectlClusterOverviewSchema = {
     name: "kubectl_cluster_overview",
@@ -33,7 +36,8 @@ export const kubectlClusterOverviewSchema = {
                 type: "boolean",
                 description: "Show detailed breakdown per namespace",
                 default: false
-            }
+            },
+            context: contextParameter,
         },
         required: [],
     },
@@ -47,6 +51,7 @@ export async function kubectlClusterOverview(
         resourceTypes?: string[];
         showTop?: number;
         showDetails?: boolean;
+        context?: string;
     }
 ) {
     try {
@@ -55,11 +60,17 @@ export async function kubectlClusterOverview(
             namespacePattern,
             resourceTypes = ['pods', 'deployments', 'services', 'configmaps', 'secrets'],
             showTop = 10,
-            showDetails = false
+            showDetails = false,
+            context
         } = input;
 
+        resourceTypes.forEach(type => validateResourceType(type, "resourceTypes"));
+        if (context) {
+            validateContextName(context);
+        }
+
         // Get all namespaces
-        const allNamespaces = await getFilteredNamespaces(namespacePattern, includeSystemNamespaces);
+        const allNamespaces = await getFilteredNamespaces(k8sManager, namespacePattern, includeSystemNamespaces, context);
 
         // Collect resource counts
         const overview: any = {
@@ -73,6 +84,13 @@ export async function kubectlClusterOverview(
             overview.resourceCounts[type] = 0;
         });
 
+        // Count each resource type once across the cluster
+        const client = k8sManager.getDynamicClient(context);
+        const countsByType = new Map<string, Map<string, number>>();
+        for (const resourceType of resourceTypes) {
+            countsByType.set(resourceType, await getResourceCounts(client, resourceType));
+        }
+
         // Collect data for each namespace
         for (const namespace of allNamespaces) {
             const nsData: any = {
@@ -81,13 +99,9 @@ export async function kubectlClusterOverview(
             };
 
             for (const resourceType of resourceTypes) {
-                try {
-                    const count = await getResourceCount(resourceType, namespace);
-                    overview.resourceCounts[resourceType] += count;
-                    nsData.resources[resourceType] = count;
-                } catch (error) {
-                    nsData.resources[resourceType] = 0;
-                }
+                const count = countsByType.get(resourceType)?.get(namespace) || 0;
+                overview.resourceCounts[resourceType] += count;
+                nsData.resources[resourceType] = count;
             }
 
             // Calculate total resources in this namespace
@@ -96,12 +110,16 @@ export async function kubectlClusterOverview(
         }
 
         // Get cluster-level info
-        const clusterInfo = await getClusterInfo();
+        const clusterInfo = await getClusterInfo(k8sManager, context);
 
         // Format output
         return formatOverview(overview, clusterInfo, showTop, showDetails);
 
     } catch (error: any) {
+        if (error instanceof McpError) {
+            throw error;
+        }
+
         throw new McpError(
             ErrorCode.InternalError,
             `Cluster overview failed: ${error.message}`
@@ -110,16 +128,16 @@ export async function kubectlClusterOverview(
 }
 
 async function getFilteredNamespaces(
+    k8sManager: KubernetesManager,
     namespacePattern?: string,
-    includeSystemNamespaces: boolean = false
+    includeSystemNamespaces: boolean = false,
+    context?: string
 ): Promise<string[]> {
     try {
-        const command = "kubectl get namespaces -o name";
-        const result = execSync(command, { encoding: "utf8" });
+        const { body } = await k8sManager.getCoreApi(context).listNamespace();
 
-        let namespaces = result.trim()
-            .split('\n')
-            .map(line => line.replace('namespace/', ''))
+        let namespaces = body.items
+            .map(ns => ns.metadata?.name || '')
             .filter(ns => ns.trim());
 
         // Filter system namespaces
@@ -156,31 +174,37 @@ async function getFilteredNamespaces(
     }
 }
 
-async function getResourceCount(resourceType: string, namespace: string): Promise<number> {
+// Count objects of a resource type per namespace with a single metadata-only list
+async function getResourceCounts(client: DynamicClient, resourceType: string): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
     try {
-        const command = `kubectl get ${resourceType} -n ${namespace} --no-headers 2>/dev/null | wc -l`;
-        const result = execSync(command, { encoding: "utf8", shell: "/bin/bash" });
-        return parseInt(result.trim()) || 0;
+        const resource = await client.resolveResource(resourceType);
+        const list = await client.listResources(resource, { metadataOnly: true });
+        for (const item of list.items) {
+            const namespace = item.metadata?.namespace || '';
+            counts.set(namespace, (counts.get(namespace) || 0) + 1);
+        }
     } catch (error) {
-        return 0;
+        // Unknown or forbidden resource types count as zero
     }
+    return counts;
 }
 
-async function getClusterInfo(): Promise<any> {
+async function getClusterInfo(k8sManager: KubernetesManager, context?: string): Promise<any> {
     try {
-        const nodeInfo = execSync("kubectl get nodes --no-headers | wc -l", {
-            encoding: "utf8",
-            shell: "/bin/bash"
-        });
+        const { body: nodes } = await k8sManager.getCoreApi(context).listNode();
 
-        const versionInfo = execSync("kubectl version --short --client 2>/dev/null || echo 'Unknown'", {
-            encoding: "utf8",
-            shell: "/bin/bash"
-        });
+        let version = 'Unknown';
+        try {
+            const { body: versionInfo } = await k8sManager.makeApiClient(k8s.VersionApi, context).getCode();
+            version = versionInfo.gitVersion || 'Unknown';
+        } catch {
+            // Keep 'Unknown' if the server version can't be determined
+        }
 
         return {
-            totalNodes: parseInt(nodeInfo.trim()) || 0,
-            version: versionInfo.trim()
+            totalNodes: nodes.items.length,
+            version
         };
     } catch (error) {
         return {
@@ -203,7 +227,7 @@ function formatOverview(
     output += "📊 CLUSTER SUMMARY:\n";
     output += `  • Total Nodes: ${clusterInfo.totalNodes}\n`;
     output += `  • Total Namespaces: ${overview.totalNamespaces}\n`;
-    output += `  • Kubectl Version: ${clusterInfo.version}\n\n`;
+    output += `  • Kubernetes Version: ${clusterInfo.version}\n\n`;
 
     // Resource counts
     output += "📦 RESOURCE TOTALS:\n";
@@ -0,0 +1,429 @@
+import * as fs from "fs";
+import * as nodePath from "path";
+import { createHash } from "crypto";
+import { KubernetesManager } from "../types.js";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { DEFAULT_DEBUG_IMAGE, DebugContainer, ensureDebugContainer } from "../utils/debug-container.js";
+import { execInContainer, resolveContainer } from "../utils/pod-exec.js";
+import {
+  validateArgument,
+  validateContainerName,
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
+
+// Size limits of copies
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const MAX_COPY_BYTES = 10 * 1024 * 1024;
+// Binary files are returned inline as base64 up to this size
+const MAX_INLINE_BINARY_BYTES = 256 * 1024;
+const COPY_TIMEOUT_MS = 60_000;
+// Debug modes of copies: fall back to an ephemeral debug container when the
+// image lacks cat or tee, or never
+const DEBUG_MODES = ["auto", "off"];
+
+const podParameters = {
+  podName: {
+    type: "string",
+    description: "Name of the pod",
+  },
+  namespace: {
+    type: "string",
+    description: "Namespace of the pod",
+    default: "default",
+  },
+  container: {
+    type: "string",
+    description: "Container name (optional, defaults to the pod's default container)",
+    optional: true,
+  },
+  debug: {
+    type: "string",
+    enum: DEBUG_MODES,
+    description:
+      "When the image lacks the binaries a copy needs, copy through an ephemeral debug container that shares the container's processes: 'auto' or 'off'",
+    default: "auto",
+    optional: true,
+  },
+  debugImage: {
+    type: "string",
+    description: `Image of the debug container (default ${DEFAULT_DEBUG_IMAGE})`,
+    optional: true,
+  },
+} as const;
+
+export const kubectlCpFromPodSchema = {
+  name: "kubectl_cp_from_pod",
+  description:
+    "Read a file from a container over the exec channel (needs only `cat` in the image, not `tar`, and falls back to an ephemeral debug container without it). Text files are returned as text, small binary files as base64; use localPath to save larger files in the server's MCP_COPY_DIR",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...podParameters,
+      path: {
+        type: "string",
+        description: "Absolute path of the file in the container",
+      },
+      maxBytes: {
+        type: "number",
+        description: `Bytes read at most (max ${MAX_COPY_BYTES}); larger files are truncated`,
+        default: DEFAULT_MAX_BYTES,
+      },
+      localPath: {
+        type: "string",
+        description:
+          "Save the file at this path, relative to the server's MCP_COPY_DIR, instead of returning its content. Only available when MCP_COPY_DIR is set",
+        optional: true,
+      },
+      context: contextParameter,
+    },
+    required: ["podName", "path"],
+  },
+} as const;
+
+export const kubectlCpToPodSchema = {
+  name: "kubectl_cp_to_pod",
+  description:
+    "Write a file into a container over the exec channel (needs only `tee` in the image, not `tar`, and falls back to an ephemeral debug container without it). Give the content as text, as base64, or as a file in the server's MCP_COPY_DIR; the written file is read back and checked",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...podParameters,
+      path: {
+        type: "string",
+        description: "Absolute path of the file to write in the container; an existing file is replaced",
+      },
+      content: {
+        type: "string",
+        description: "Text content of the file",
+        optional: true,
+      },
+      contentBase64: {
+        type: "string",
+        description: "Binary content of the file, base64 encoded",
+        optional: true,
+      },
+      localPath: {
+        type: "string",
+        description: "Path of a file to copy, relative to the server's MCP_COPY_DIR. Only available when MCP_COPY_DIR is set",
+        optional: true,
+      },
+      mode: {
+        type: "string",
+        description: "Octal file mode to set after writing, e.g. '0755' for a script (needs `chmod` in the image)",
+        optional: true,
+      },
+      context: contextParameter,
+    },
+    required: ["podName", "path"],
+  },
+} as const;
+
+interface PodFileInput {
+  podName: string;
+  namespace?: string;
+  container?: string;
+  path: string;
+  debug?: string;
+  debugImage?: string;
+  context?: string;
+}
+
+// Where the commands of a copy run: in the container itself, or in a debug
+// container that reaches the container's filesystem through /proc/1/root
+interface CopyTarget {
+  container: string;
+  path: string;
+  debugContainer?: DebugContainer;
+}
+
+// Helper function to validate the pod, container and path shared by both tools
+async function resolveTarget(k8sManager: KubernetesManager, input: PodFileInput) {
+  const podName = validateResourceName(input.podName, "podName");
+  const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const path = validateArgument(input.path, "path");
+  if (!path.startsWith("/")) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid path '${path}': must be an absolute path`);
+  }
+  if (input.container) {
+    validateContainerName(input.container);
+  }
+  const debug = input.debug ?? "auto";
+  if (!DEBUG_MODES.includes(debug)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid debug '${debug}': must be one of ${DEBUG_MODES.join(", ")}`);
+  }
+  const debugImage = input.debugImage ? validateArgument(input.debugImage, "debugImage") : DEFAULT_DEBUG_IMAGE;
+  const container = await resolveContainer(k8sManager, namespace, podName, input.container, context);
+  return { podName, namespace, context, path, container, debug, debugImage };
+}
+
+// Helper function to run a copy in the container and, when its image lacks a
+// binary the copy needs, again in a debug container
+async function withDebugFallback<T>(
+  k8sManager: KubernetesManager,
+  resolved: Awaited<ReturnType<typeof resolveTarget>>,
+  copy: (target: CopyTarget) => Promise<T>
+): Promise<T> {
+  const { podName, namespace, context, path, container, debug, debugImage } = resolved;
+  try {
+    return await copy({ container, path });
+  } catch (error: any) {
+    if (debug === "off" || !(error instanceof McpError && (error.data as any)?.missingBinary)) {
+      throw error;
+    }
+  }
+  const debugContainer = await ensureDebugContainer(k8sManager, namespace, podName, debugImage, context, container);
+  return copy({ container: debugContainer.name, path: `/proc/1/root${path}`, debugContainer });
+}
+
+// Whether a path lies inside a directory, or is the directory itself
+function isInside(dir: string, file: string): boolean {
+  const relative = nodePath.relative(dir, file);
+  return !relative.startsWith("..") && !nodePath.isAbsolute(relative);
+}
+
+// Helper function to resolve a localPath inside MCP_COPY_DIR, the only
+// directory of the server that copies may read or write. Symbolic links are
+// followed, so they cannot lead out of it either.
+function resolveLocalPath(localPath: string): string {
+  const dir = process.env.MCP_COPY_DIR;
+  if (!dir) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "localPath is not available: set MCP_COPY_DIR to a directory on the server to copy files to and from it"
+    );
+  }
+  validateArgument(localPath, "localPath");
+  const root = fs.realpathSync(dir);
+  const resolved = nodePath.resolve(root, localPath);
+  const parent = nodePath.dirname(resolved);
+  if (!isInside(root, resolved) || resolved === root || !fs.existsSync(parent)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid localPath '${localPath}': must name a file in MCP_COPY_DIR`);
+  }
+  const real = fs.existsSync(resolved)
+    ? fs.realpathSync(resolved)
+    : nodePath.join(fs.realpathSync(parent), nodePath.basename(resolved));
+  if (!isInside(root, real) || real === root) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid localPath '${localPath}': must name a file in MCP_COPY_DIR`);
+  }
+  return real;
+}
+
+// Helper function to turn exec failures into clear errors. Missing binaries
+// are marked in the error's data, for the debug container fallback.
+function execError(error: any, binary: string, podName: string, target: CopyTarget): McpError {
+  if (error instanceof McpError) return error;
+  if (/executable file not found|no such file or directory/i.test(error.message)) {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      target.debugContainer
+        ? `${binary} is not available in debug image '${target.debugContainer.image}'. Choose a debugImage that includes it`
+        : `${binary} is not available in pod '${podName}'. Set debug to 'auto' to copy through an ephemeral debug container`,
+      { missingBinary: binary }
+    );
+  }
+  return new McpError(ErrorCode.InternalError, `Copy failed in pod '${podName}': ${error.message}`);
+}
+
+// Helper function to tell text from binary content
+function isText(data: Buffer): boolean {
+  if (data.subarray(0, 8192).includes(0)) return false;
+  try {
+    // stream: true tolerates a character cut off by truncation
+    new TextDecoder("utf-8", { fatal: true }).decode(data, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateMaxBytes(maxBytes: number): void {
+  if (!Number.isInteger(maxBytes) || maxBytes < 1 || maxBytes > MAX_COPY_BYTES) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid maxBytes '${maxBytes}': must be an integer from 1 to ${MAX_COPY_BYTES}`
+    );
+  }
+}
+
+export async function kubectlCpFromPod(
+  k8sManager: KubernetesManager,
+  input: PodFileInput & { maxBytes?: number; localPath?: string }
+) {
+  const maxBytes = input.maxBytes ?? DEFAULT_MAX_BYTES;
+  validateMaxBytes(maxBytes);
+  const localPath = input.localPath !== undefined ? resolveLocalPath(input.localPath) : undefined;
+  const resolved = await resolveTarget(k8sManager, input);
+  const { podName, namespace, context, path, container } = resolved;
+
+  const { result, debugContainer } = await withDebugFallback(k8sManager, resolved, async (target) => {
+    let result;
+    try {
+      result = await execInContainer(k8sManager, {
+        namespace,
+        pod: podName,
+        container: target.container,
+        command: ["cat", target.path],
+        maxStdoutBytes: maxBytes,
+        timeout: COPY_TIMEOUT_MS,
+        context,
+      });
+    } catch (error: any) {
+      throw execError(error, "cat", podName, target);
+    }
+    if (result.exitCode !== undefined && result.exitCode !== 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Cannot read ${path} in pod '${podName}': ${result.stderr.trim() || `cat exited with code ${result.exitCode}`}`
+      );
+    }
+    if (result.timedOut) {
+      throw new McpError(ErrorCode.InternalError, `Reading ${path} in pod '${podName}' timed out`);
+    }
+    return { result, debugContainer: target.debugContainer };
+  });
+
+  const data = result.stdout;
+  const text = isText(data);
+  const summary: Record<string, any> = {
+    pod: podName,
+    namespace,
+    container,
+    ...(debugContainer ? { debugContainer } : {}),
+    path,
+    bytes: data.length,
+    ...(result.truncated ? { truncated: true, message: `The file is larger than maxBytes (${maxBytes}); only the first ${data.length} bytes were read` } : {}),
+    type: text ? "text" : "binary",
+  };
+
+  if (localPath) {
+    fs.writeFileSync(localPath, data);
+    summary.localPath = localPath;
+  } else if (text) {
+    summary.encoding = "utf-8";
+    summary.content = data.toString("utf8");
+  } else if (data.length <= MAX_INLINE_BINARY_BYTES) {
+    summary.encoding = "base64";
+    summary.content = data.toString("base64");
+  } else {
+    summary.message = `Binary files over ${MAX_INLINE_BINARY_BYTES} bytes are not returned inline; use localPath to save the file in the server's MCP_COPY_DIR`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(summary, null, 2),
+      },
+    ],
+  };
+}
+
+export async function kubectlCpToPod(
+  k8sManager: KubernetesManager,
+  input: PodFileInput & { content?: string; contentBase64?: string; localPath?: string; mode?: string }
+) {
+  const sources = [input.content, input.contentBase64, input.localPath].filter((source) => source !== undefined);
+  if (sources.length !== 1) {
+    throw new McpError(ErrorCode.InvalidParams, "Give exactly one of content, contentBase64 or localPath");
+  }
+  if (input.mode !== undefined && !/^0?[0-7]{3,4}$/.test(input.mode)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid mode '${input.mode}': must be an octal mode such as '0644'`);
+  }
+
+  let data: Buffer;
+  if (input.content !== undefined) {
+    data = Buffer.from(input.content, "utf8");
+  } else if (input.contentBase64 !== undefined) {
+    if (!/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(input.contentBase64)) {
+      throw new McpError(ErrorCode.InvalidParams, "Invalid contentBase64: not base64");
+    }
+    data = Buffer.from(input.contentBase64, "base64");
+  } else {
+    const localPath = resolveLocalPath(input.localPath!);
+    if (!fs.existsSync(localPath) || !fs.statSync(localPath).isFile()) {
+      throw new McpError(ErrorCode.InvalidParams, `Local file not found: ${localPath}`);
+    }
+    data = fs.readFileSync(localPath);
+  }
+  if (data.length > MAX_COPY_BYTES) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `File too large: ${data.length} bytes, at most ${MAX_COPY_BYTES} can be copied`
+    );
+  }
+  const resolved = await resolveTarget(k8sManager, input);
+  const { podName, namespace, context, path, container } = resolved;
+  const expected = createHash("sha256").update(data).digest("hex");
+
+  const debugContainer = await withDebugFallback(k8sManager, resolved, async (target) => {
+    const exec = { namespace, pod: podName, container: target.container, context, timeout: COPY_TIMEOUT_MS };
+    try {
+      // The exec channel closes as soon as stdin is sent, without an exit
+      // code, so the write is confirmed by reading the file back
+      const write = await execInContainer(k8sManager, { ...exec, command: ["tee", target.path], stdin: data, discardStdout: true });
+      if (write.exitCode !== undefined && write.exitCode !== 0) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Cannot write ${path} in pod '${podName}': ${write.stderr.trim() || `tee exited with code ${write.exitCode}`}`
+        );
+      }
+    } catch (error: any) {
+      throw execError(error, "tee", podName, target);
+    }
+
+    let verified = false;
+    for (let attempt = 0; attempt < 3 && !verified; attempt++) {
+      if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, 500));
+      try {
+        const check = await execInContainer(k8sManager, { ...exec, command: ["cat", target.path], maxStdoutBytes: data.length + 1 });
+        verified = createHash("sha256").update(check.stdout).digest("hex") === expected;
+      } catch (error: any) {
+        throw execError(error, "cat", podName, target);
+      }
+    }
+    if (!verified) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `The copy of ${path} in pod '${podName}' does not match the source; the container may be out of disk space or the path read-only`
+      );
+    }
+
+    if (input.mode !== undefined) {
+      try {
+        const chmod = await execInContainer(k8sManager, { ...exec, command: ["chmod", input.mode, target.path] });
+        if (chmod.exitCode !== undefined && chmod.exitCode !== 0) {
+          throw new McpError(ErrorCode.InvalidRequest, `Cannot set mode of ${path}: ${chmod.stderr.trim()}`);
+        }
+      } catch (error: any) {
+        throw execError(error, "chmod", podName, target);
+      }
+    }
+    return target.debugContainer;
+  });
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            pod: podName,
+            namespace,
+            container,
+            ...(debugContainer ? { debugContainer } : {}),
+            path,
+            bytes: data.length,
+            sha256: expected,
+            ...(input.mode !== undefined ? { mode: input.mode } : {}),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -1,9 +1,17 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import { manifestObjects, trackCreatedObjects } from "../utils/resource-tracking.js";
+import {
+  validateArgument,
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
 
 export const kubectlCreateSchema = {
   name: "kubectl_create",
@@ -133,7 +141,8 @@ export const kubectlCreateSchema = {
         type: "array",
         items: { type: "string" },
         description: "Annotations to apply to the resource (e.g. [\"key1=value1\", \"key2=value2\"])"
-      }
+      },
+      context: contextParameter,
     },
     required: [],
   },
@@ -180,6 +189,7 @@ export async function kubectlCreate(
     annotations?: string[];
     schedule?: string;
     suspend?: boolean;
+    context?: string;
   }
 ) {
   try {
@@ -200,12 +210,19 @@ export async function kubectlCreate(
     }
     
     // Set up common parameters
-    const namespace = input.namespace || "default";
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
     const dryRun = input.dryRun || false;
     const validate = input.validate ?? true;
     const output = input.output || "yaml";
+    if (!(kubectlCreateSchema.inputSchema.properties.output.enum as readonly string[]).includes(output)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid output format '${output}'`);
+    }
+    const context = input.context ? validateContextName(input.context) : undefined;
+    const name = input.name ? validateResourceName(input.name) : undefined;
     
-    let command = "kubectl create";
+    const args = ["create"];
+    // Container command for jobs and cronjobs - must come last, after "--"
+    let containerCommand: string[] = [];
     let tempFile: string | null = null;
     
     // Process manifest content if provided (file-based creation)
@@ -215,31 +232,31 @@ export async function kubectlCreate(
         const tmpDir = os.tmpdir();
         tempFile = path.join(tmpDir, `create-manifest-${Date.now()}.yaml`);
         fs.writeFileSync(tempFile, input.manifest);
-        command += ` -f ${tempFile}`;
+        args.push("-f", tempFile);
       } else if (input.filename) {
-        command += ` -f ${input.filename}`;
+        args.push("-f", validateArgument(input.filename, "filename"));
       }
     } else {
       // Process subcommand-based creation
       switch (input.resourceType?.toLowerCase()) {
         case "namespace":
-          command += ` namespace ${input.name}`;
+          args.push("namespace", validateNamespace(input.name, "name"));
           break;
           
         case "configmap":
-          command += ` configmap ${input.name}`;
+          args.push("configmap", name!);
           
           // Add --from-literal arguments
           if (input.fromLiteral && input.fromLiteral.length > 0) {
             input.fromLiteral.forEach(literal => {
-              command += ` --from-literal=${literal}`;
+              args.push(`--from-literal=${literal}`);
             });
           }
           
           // Add --from-file arguments
           if (input.fromFile && input.fromFile.length > 0) {
             input.fromFile.forEach(file => {
-              command += ` --from-file=${file}`;
+              args.push(`--from-file=${file}`);
             });
           }
           break;
@@ -252,19 +269,26 @@ export async function kubectlCreate(
             );
           }
           
-          command += ` secret ${input.secretType} ${input.name}`;
+          if (!["generic", "docker-registry", "tls"].includes(input.secretType)) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Invalid secretType '${input.secretType}'`
+            );
+          }
+          
+          args.push("secret", input.secretType, name!);
           
           // Add --from-literal arguments
           if (input.fromLiteral && input.fromLiteral.length > 0) {
             input.fromLiteral.forEach(literal => {
-              command += ` --from-literal=${literal}`;
+              args.push(`--from-literal=${literal}`);
             });
           }
           
           // Add --from-file arguments
           if (input.fromFile && input.fromFile.length > 0) {
             input.fromFile.forEach(file => {
-              command += ` --from-file=${file}`;
+              args.push(`--from-file=${file}`);
             });
           }
           break;
@@ -275,12 +299,19 @@ export async function kubectlCreate(
             input.serviceType = "clusterip";
           }
           
-          command += ` service ${input.serviceType} ${input.name}`;
+          if (!["clusterip", "nodeport", "loadbalancer", "externalname"].includes(input.serviceType)) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Invalid serviceType '${input.serviceType}'`
+            );
+          }
+          
+          args.push("service", input.serviceType, name!);
           
           // Add --tcp arguments for ports
           if (input.tcpPort && input.tcpPort.length > 0) {
             input.tcpPort.forEach(port => {
-              command += ` --tcp=${port}`;
+              args.push(`--tcp=${port}`);
             });
           }
           break;
@@ -300,16 +331,21 @@ export async function kubectlCreate(
             );
           }
           
-          command += ` cronjob ${input.name} --image=${input.image} --schedule="${input.schedule}"`;
+          args.push(
+            "cronjob",
+            name!,
+            `--image=${validateArgument(input.image, "image")}`,
+            `--schedule=${input.schedule}`
+          );
           
           // Add command if specified
           if (input.command && input.command.length > 0) {
-            command += ` -- ${input.command.join(" ")}`;
+            containerCommand = input.command;
           }
           
           // Add suspend flag if specified
           if (input.suspend === true) {
-            command += ` --suspend`;
+            args.push("--suspend");
           }
           break;
           
@@ -321,16 +357,16 @@ export async function kubectlCreate(
             );
           }
           
-          command += ` deployment ${input.name} --image=${input.image}`;
+          args.push("deployment", name!, `--image=${validateArgument(input.image, "image")}`);
           
           // Add replicas if specified
           if (input.replicas) {
-            command += ` --replicas=${input.replicas}`;
+            args.push(`--replicas=${Number(input.replicas)}`);
           }
           
           // Add port if specified
           if (input.port) {
-            command += ` --port=${input.port}`;
+            args.push(`--port=${Number(input.port)}`);
           }
           break;
           
@@ -342,11 +378,11 @@ export async function kubectlCreate(
             );
           }
           
-          command += ` job ${input.name} --image=${input.image}`;
+          args.push("job", name!, `--image=${validateArgument(input.image, "image")}`);
           
           // Add command if specified
           if (input.command && input.command.length > 0) {
-            command += ` -- ${input.command.join(" ")}`;
+            containerCommand = input.command;
           }
           break;
           
@@ -360,39 +396,47 @@ export async function kubectlCreate(
     
     // Add namespace if not creating a namespace itself
     if (input.resourceType !== "namespace") {
-      command += ` -n ${namespace}`;
+      args.push("-n", namespace);
     }
     
     // Add labels if specified
     if (input.labels && input.labels.length > 0) {
       input.labels.forEach(label => {
-        command += ` -l ${label}`;
+        args.push("-l", label);
       });
     }
     
     // Add annotations if specified
     if (input.annotations && input.annotations.length > 0) {
       input.annotations.forEach(annotation => {
-        command += ` --annotation=${annotation}`;
+        args.push(`--annotation=${annotation}`);
       });
     }
     
     // Add dry-run flag if requested
     if (dryRun) {
-      command += " --dry-run=client";
+      args.push("--dry-run=client");
     }
     
     // Add validate flag if needed
     if (!validate) {
-      command += " --validate=false";
+      args.push("--validate=false");
     }
     
     // Add output format
-    command += ` -o ${output}`;
+    args.push("-o", output);
+    
+    // Target a specific kubeconfig context if requested
+    args.push(...contextArgs(context));
+    
+    // Everything after "--" is the container command
+    if (containerCommand.length > 0) {
+      args.push("--", ...containerCommand);
+    }
     
     // Execute the command
     try {
-      const result = execSync(command, { encoding: "utf8" });
+      const result = execKubectl(args);
       
       // Clean up temp file if created
       if (tempFile) {
@@ -403,6 +447,22 @@ export async function kubectlCreate(
         }
       }
       
+      // Track what was created so that cleanup deletes it, preferring the
+      // objects kubectl printed since they carry generated names
+      if (!dryRun) {
+        let objects = ["yaml", "json"].includes(output) ? manifestObjects(result) : [];
+        if (objects.length === 0) {
+          if (input.manifest || input.filename) {
+            const filename = input.filename!;
+            const isFile = !input.manifest && fs.existsSync(filename) && fs.statSync(filename).isFile();
+            objects = manifestObjects(input.manifest || (isFile ? fs.readFileSync(filename, "utf8") : ""));
+          } else {
+            objects = [{ kind: input.resourceType!, name: input.name!, namespace }];
+          }
+        }
+        await trackCreatedObjects(k8sManager, objects, namespace, context);
+      }
+      
       return {
         content: [
           {
@@ -1,9 +1,20 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import { normalizeForDiff } from "../utils/change-preview.js";
+import { unifiedDiff } from "../utils/diff.js";
+import {
+  validateArgument,
+  validateContextName,
+  validateLabelSelector,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlDeleteSchema = {
   name: "kubectl_delete",
@@ -53,92 +64,115 @@ export const kubectlDeleteSchema = {
         type: "number",
         description: "Period of time in seconds given to the resource to terminate gracefully",
         optional: true
-      }
+      },
+      context: contextParameter,
     },
     required: [],
   },
 } as const;
 
-export async function kubectlDelete(
-  k8sManager: KubernetesManager,
-  input: {
-    resourceType?: string;
-    name?: string;
-    namespace?: string;
-    labelSelector?: string;
-    manifest?: string;
-    filename?: string;
-    allNamespaces?: boolean;
-    force?: boolean;
-    gracePeriodSeconds?: number;
+type KubectlDeleteInput = {
+  resourceType?: string;
+  name?: string;
+  namespace?: string;
+  labelSelector?: string;
+  manifest?: string;
+  filename?: string;
+  allNamespaces?: boolean;
+  force?: boolean;
+  gracePeriodSeconds?: number;
+  context?: string;
+};
+
+// Validate the input and build the arguments selecting the resources to
+// delete, writing a manifest to a temporary file the caller must remove
+function buildDeleteSelection(input: KubectlDeleteInput) {
+  // Validate input - need at least one way to identify resources
+  if (!input.resourceType && !input.manifest && !input.filename) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "Either resourceType, manifest, or filename must be provided"
+    );
+  }
+  
+  // If resourceType is provided, need either name or labelSelector
+  if (input.resourceType && !input.name && !input.labelSelector) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "When using resourceType, either name or labelSelector must be provided"
+    );
   }
-) {
-  try {
-    // Validate input - need at least one way to identify resources
-    if (!input.resourceType && !input.manifest && !input.filename) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        "Either resourceType, manifest, or filename must be provided"
-      );
-    }
-    
-    // If resourceType is provided, need either name or labelSelector
-    if (input.resourceType && !input.name && !input.labelSelector) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        "When using resourceType, either name or labelSelector must be provided"
-      );
-    }
 
-    const namespace = input.namespace || "default";
-    const allNamespaces = input.allNamespaces || false;
-    const force = input.force || false;
-    
-    let command = "kubectl delete";
-    let tempFile: string | null = null;
+  const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+  const allNamespaces = input.allNamespaces || false;
+  const context = input.context ? validateContextName(input.context) : undefined;
+  
+  const selection: string[] = [];
+  let tempFile: string | null = null;
+  
+  // Handle deleting from manifest or file
+  if (input.manifest) {
+    // Create temporary file for the manifest
+    const tmpDir = os.tmpdir();
+    tempFile = path.join(tmpDir, `delete-manifest-${Date.now()}.yaml`);
+    fs.writeFileSync(tempFile, input.manifest);
+    selection.push("-f", tempFile);
+  } else if (input.filename) {
+    selection.push("-f", validateArgument(input.filename, "filename"));
+  } else {
+    // Handle deleting by resource type and name/selector
+    selection.push(validateResourceType(input.resourceType));
     
-    // Handle deleting from manifest or file
-    if (input.manifest) {
-      // Create temporary file for the manifest
-      const tmpDir = os.tmpdir();
-      tempFile = path.join(tmpDir, `delete-manifest-${Date.now()}.yaml`);
-      fs.writeFileSync(tempFile, input.manifest);
-      command += ` -f ${tempFile}`;
-    } else if (input.filename) {
-      command += ` -f ${input.filename}`;
-    } else {
-      // Handle deleting by resource type and name/selector
-      command += ` ${input.resourceType}`;
-      
-      if (input.name) {
-        command += ` ${input.name}`;
-      }
-      
-      if (input.labelSelector) {
-        command += ` -l ${input.labelSelector}`;
-      }
+    if (input.name) {
+      selection.push(validateResourceName(input.name));
     }
     
-    // Add namespace flags
-    if (allNamespaces) {
-      command += " --all-namespaces";
-    } else if (namespace && input.resourceType && !isNonNamespacedResource(input.resourceType)) {
-      command += ` -n ${namespace}`;
+    if (input.labelSelector) {
+      selection.push("-l", validateLabelSelector(input.labelSelector));
     }
+  }
+  
+  // Add namespace flags
+  if (allNamespaces) {
+    selection.push("--all-namespaces");
+  } else if (namespace && input.resourceType && !isNonNamespacedResource(input.resourceType)) {
+    selection.push("-n", namespace);
+  }
+  
+  // Target a specific kubeconfig context if requested
+  selection.push(...contextArgs(context));
+
+  return { selection, tempFile };
+}
+
+export async function kubectlDelete(
+  k8sManager: KubernetesManager,
+  input: KubectlDeleteInput
+) {
+  try {
+    const force = input.force || false;
+    const { selection, tempFile } = buildDeleteSelection(input);
+    const args = ["delete", ...selection];
     
     // Add force flag if requested
     if (force) {
-      command += " --force";
+      args.push("--force");
     }
     
     // Add grace period if specified
     if (input.gracePeriodSeconds !== undefined) {
-      command += ` --grace-period=${input.gracePeriodSeconds}`;
+      if (!Number.isInteger(input.gracePeriodSeconds)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "gracePeriodSeconds must be an integer"
+        );
+      }
+      args.push(`--grace-period=${input.gracePeriodSeconds}`);
     }
     
     // Execute the command
     try {
-      const result = execSync(command, { encoding: "utf8" });
+      const result = execKubectl(args);
       
       // Clean up temp file if created
       if (tempFile) {
@@ -216,4 +250,36 @@ function isNonNamespacedResource(resourceType: string): boolean {
   ];
   
   return nonNamespacedResources.includes(resourceType.toLowerCase());
-} 
\ No newline at end of file
+} 
+/**
+ * The live resources that would be deleted, shown as a diff after checking
+ * the deletion with a server-side dry run. Used to preview the change
+ * before it is confirmed.
+ */
+export async function previewKubectlDelete(
+  k8sManager: KubernetesManager,
+  input: KubectlDeleteInput
+): Promise<string> {
+  const { selection, tempFile } = buildDeleteSelection(input);
+
+  try {
+    const dryRun = execKubectl(["delete", ...selection, "--dry-run=server"]);
+    const live = execKubectl(["get", ...selection, "-o", "yaml"]);
+    const diff = unifiedDiff(normalizeForDiff(live), "", { before: "live", after: "deleted" });
+    return `${dryRun.trim()}\n\n${diff}`;
+  } catch (error: any) {
+    if (error instanceof McpError) throw error;
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Server-side dry run failed: ${(error.stderr || error.message).toString().trim()}`
+    );
+  } finally {
+    if (tempFile) {
+      try {
+        fs.unlinkSync(tempFile);
+      } catch (err) {
+        console.warn(`Failed to delete temporary file ${tempFile}: ${err}`);
+      }
+    }
+  }
+}
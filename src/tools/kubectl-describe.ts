@@ -1,6 +1,13 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlDescribeSchema = {
   name: "kubectl_describe",
@@ -25,7 +32,8 @@ export const kubectlDescribeSchema = {
         type: "boolean",
         description: "If true, describe resources across all namespaces",
         default: false
-      }
+      },
+      context: contextParameter,
     },
     required: ["resourceType", "name"],
   },
@@ -38,33 +46,33 @@ export async function kubectlDescribe(
     name: string;
     namespace?: string;
     allNamespaces?: boolean;
+    context?: string;
   }
 ) {
   try {
-    const resourceType = input.resourceType.toLowerCase();
-    const name = input.name;
-    const namespace = input.namespace || "default";
+    const resourceType = validateResourceType(input.resourceType).toLowerCase();
+    const name = validateResourceName(input.name);
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
     const allNamespaces = input.allNamespaces || false;
     
     // Build the kubectl command
-    let command = "kubectl describe ";
-    
-    // Add resource type
-    command += resourceType;
-    
-    // Add name
-    command += ` ${name}`;
+    const args = ["describe", resourceType, name];
     
     // Add namespace flag unless all namespaces is specified
     if (allNamespaces) {
-      command += " --all-namespaces";
+      args.push("--all-namespaces");
     } else if (namespace && !isNonNamespacedResource(resourceType)) {
-      command += ` -n ${namespace}`;
+      args.push("-n", namespace);
+    }
+    
+    // Target a specific kubeconfig context if requested
+    if (input.context) {
+      args.push(...contextArgs(validateContextName(input.context)));
     }
     
     // Execute the command
     try {
-      const result = execSync(command, { encoding: "utf8" });
+      const result = execKubectl(args);
       
       return {
         content: [
@@ -100,6 +108,10 @@ export async function kubectlDescribe(
       );
     }
   } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    
     throw new McpError(
       ErrorCode.InternalError,
       `Failed to execute kubectl describe command: ${error.message}`
@@ -0,0 +1,591 @@
+import { KubernetesManager } from "../types.js";
+import * as k8s from "@kubernetes/client-node";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { apiErrorMessage, isNotFoundError } from "../utils/dynamic-client.js";
+import { labelSelectorToString } from "../utils/label-selector.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
+
+export const kubectlDiagnoseSchema = {
+  name: "kubectl_diagnose",
+  description:
+    "Diagnose a failing pod, deployment, statefulset or job in one call: gathers container states and restart reasons, recent events, probe failures, the tail of current and previous logs, node conditions and scheduling failures, and returns likely root causes ranked with their evidence",
+  inputSchema: {
+    type: "object",
+    properties: {
+      resourceType: {
+        type: "string",
+        enum: ["pod", "deployment", "statefulset", "job"],
+        description: "Type of resource to diagnose",
+        default: "pod",
+      },
+      name: {
+        type: "string",
+        description: "Name of the resource",
+      },
+      namespace: {
+        type: "string",
+        description: "Namespace of the resource",
+        default: "default",
+      },
+      tailLines: {
+        type: "number",
+        description: "Log lines to include per container, for the current and the previous run",
+        default: 20,
+      },
+      maxPods: {
+        type: "number",
+        description: "For workloads, the number of pods to inspect, least healthy first",
+        default: 3,
+      },
+      includeNodes: {
+        type: "boolean",
+        description: "Read the nodes the pods run on and report their conditions",
+        default: true,
+      },
+      context: contextParameter,
+    },
+    required: ["name"],
+  },
+} as const;
+
+/**
+ * A likely root cause. Higher scores are more specific and more likely to
+ * explain the failure on their own.
+ */
+export interface DiagnosisFinding {
+  score: number;
+  cause: string;
+  evidence: string[];
+  suggestion: string;
+  pods?: string[];
+  container?: string;
+}
+
+interface ContainerLogs {
+  current?: string;
+  previous?: string;
+}
+
+const IMAGE_PULL_REASONS = ["ImagePullBackOff", "ErrImagePull", "InvalidImageName", "ErrImageNeverPull", "RegistryUnavailable"];
+const CONFIG_ERROR_REASONS = ["CreateContainerConfigError", "CreateContainerError", "RunContainerError"];
+
+// What common exit codes usually mean
+const EXIT_CODE_HINTS: Record<number, string> = {
+  1: "the application exited with an error; its logs should say why",
+  2: "the command was misused (bad arguments or shell syntax)",
+  126: "the command is not executable",
+  127: "the command was not found in the image",
+  137: "the container was killed with SIGKILL, usually by a failing liveness probe or the OOM killer",
+  139: "the process crashed with a segmentation fault",
+  143: "the container was stopped with SIGTERM and exited",
+};
+
+function eventTime(event: k8s.CoreV1Event): number {
+  const time = event.lastTimestamp || event.eventTime || event.metadata?.creationTimestamp;
+  return time ? new Date(time).getTime() : 0;
+}
+
+function summarizeEvent(event: k8s.CoreV1Event) {
+  return {
+    type: event.type,
+    reason: event.reason,
+    object: `${event.involvedObject?.kind}/${event.involvedObject?.name}`,
+    message: event.message,
+    count: event.count,
+    lastSeen: new Date(eventTime(event)).toISOString(),
+  };
+}
+
+// Container named by an event's fieldPath, e.g. "spec.containers{app}"
+function eventContainer(event: k8s.CoreV1Event): string | undefined {
+  return event.involvedObject?.fieldPath?.match(/\{(.+)\}$/)?.[1];
+}
+
+function lastLines(text: string | undefined, count: number): string[] {
+  return (text || "")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line !== "")
+    .slice(-count);
+}
+
+function describeProbe(probe?: k8s.V1Probe): string {
+  if (!probe) return "not configured";
+  const target = probe.httpGet
+    ? `HTTP GET ${probe.httpGet.path || "/"} on port ${probe.httpGet.port}`
+    : probe.tcpSocket
+      ? `TCP port ${probe.tcpSocket.port}`
+      : probe.exec
+        ? `exec ${(probe.exec.command || []).join(" ")}`
+        : probe.grpc
+          ? `gRPC port ${probe.grpc.port}`
+          : "unknown handler";
+  return `${target}, initialDelaySeconds=${probe.initialDelaySeconds ?? 0}, periodSeconds=${probe.periodSeconds ?? 10}, timeoutSeconds=${probe.timeoutSeconds ?? 1}, failureThreshold=${probe.failureThreshold ?? 3}`;
+}
+
+function schedulingSuggestion(message: string): string {
+  if (/Insufficient (cpu|memory|nvidia\.com\/gpu|ephemeral-storage)/i.test(message)) {
+    return "No node has enough free resources for the pod's requests. Lower the requests, free capacity or add nodes.";
+  }
+  if (/taint/i.test(message)) {
+    return "The nodes are tainted. Add a matching toleration or schedule onto other nodes.";
+  }
+  if (/affinity|selector/i.test(message)) {
+    return "No node matches the pod's nodeSelector or affinity rules. Fix the rules or label a node.";
+  }
+  if (/persistentvolumeclaim|volume/i.test(message)) {
+    return "A PersistentVolumeClaim is unbound or its volume cannot be placed. Check the claim, its StorageClass and volume topology.";
+  }
+  return "Read the scheduler message and adjust the pod's requests, tolerations or placement rules.";
+}
+
+/**
+ * Likely root causes for one pod, from its status, its events and the logs
+ * of its containers.
+ */
+export function analyzePod(
+  pod: k8s.V1Pod,
+  events: k8s.CoreV1Event[],
+  logs: Record<string, ContainerLogs> = {}
+): DiagnosisFinding[] {
+  const findings: DiagnosisFinding[] = [];
+  const podName = pod.metadata?.name || "";
+  const specs = [...(pod.spec?.initContainers || []), ...(pod.spec?.containers || [])];
+  const statuses = [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])];
+  const add = (finding: DiagnosisFinding) => findings.push({ ...finding, pods: [podName] });
+
+  if (pod.status?.reason === "Evicted") {
+    add({
+      score: 80,
+      cause: "Pod was evicted from its node",
+      evidence: [pod.status.message || "status.reason is Evicted"],
+      suggestion: "The node ran short of memory or disk. Set requests that match real usage and check the node's pressure conditions.",
+    });
+  }
+
+  for (const event of events.filter((e) => e.reason === "FailedScheduling")) {
+    add({
+      score: 90,
+      cause: "Pod cannot be scheduled",
+      evidence: [`FailedScheduling (x${event.count ?? 1}): ${event.message}`],
+      suggestion: schedulingSuggestion(event.message || ""),
+    });
+  }
+  const scheduled = pod.status?.conditions?.find((c) => c.type === "PodScheduled");
+  if (scheduled?.status === "False" && !findings.some((f) => f.cause === "Pod cannot be scheduled")) {
+    add({
+      score: 85,
+      cause: "Pod cannot be scheduled",
+      evidence: [`PodScheduled=False: ${scheduled.reason || ""} ${scheduled.message || ""}`.trim()],
+      suggestion: schedulingSuggestion(scheduled.message || ""),
+    });
+  }
+
+  for (const status of statuses) {
+    const spec = specs.find((c) => c.name === status.name);
+    const waiting = status.state?.waiting;
+    const terminated = status.state?.terminated;
+    const last = status.lastState?.terminated;
+    const containerEvents = events.filter((e) => eventContainer(e) === status.name);
+    const base = { container: status.name };
+
+    if (waiting?.reason && IMAGE_PULL_REASONS.includes(waiting.reason)) {
+      const pullEvent = containerEvents.find((e) => e.reason === "Failed" && /pull/i.test(e.message || ""));
+      add({
+        ...base,
+        score: 95,
+        cause: `Image ${status.image} cannot be pulled`,
+        evidence: [`${waiting.reason}: ${waiting.message || ""}`.trim(), ...(pullEvent ? [pullEvent.message!] : [])],
+        suggestion: "Check the image name and tag, that the registry is reachable from the nodes, and that imagePullSecrets grant access.",
+      });
+    }
+
+    if (waiting?.reason && CONFIG_ERROR_REASONS.includes(waiting.reason)) {
+      add({
+        ...base,
+        score: 90,
+        cause: "Container cannot be created from its configuration",
+        evidence: [`${waiting.reason}: ${waiting.message || ""}`.trim()],
+        suggestion: "A referenced ConfigMap, Secret or key is usually missing, or the command or mounts are invalid. Fix the reference named in the message.",
+      });
+    }
+
+    const oom = [terminated, last].find((t) => t?.reason === "OOMKilled");
+    if (oom) {
+      add({
+        ...base,
+        score: 95,
+        cause: "Container runs out of memory (OOMKilled)",
+        evidence: [
+          `terminated with reason OOMKilled, exit code ${oom.exitCode}`,
+          `memory limit ${spec?.resources?.limits?.memory || "not set"}, request ${spec?.resources?.requests?.memory || "not set"}`,
+          `restarted ${status.restartCount} times`,
+        ],
+        suggestion: "Raise the memory limit to cover peak usage, or find out why the application uses more memory than expected.",
+      });
+      continue;
+    }
+
+    const crash = last && last.exitCode !== 0 ? last : terminated && terminated.exitCode !== 0 ? terminated : undefined;
+    const livenessFailures = containerEvents.filter((e) => e.reason === "Unhealthy" && /^Liveness probe failed/.test(e.message || ""));
+    if (crash || waiting?.reason === "CrashLoopBackOff") {
+      const exitCode = crash?.exitCode;
+      const logLines = lastLines(logs[status.name]?.previous || logs[status.name]?.current, 5);
+      add({
+        ...base,
+        score: livenessFailures.length > 0 && exitCode === 137 ? 70 : 85,
+        cause: `Container keeps crashing${exitCode !== undefined ? ` (exit code ${exitCode})` : ""}`,
+        evidence: [
+          `${waiting?.reason || "terminated"}; restarted ${status.restartCount} times`,
+          ...(crash ? [`last exit: code ${crash.exitCode}, reason ${crash.reason || "unknown"}${crash.message ? `, ${crash.message}` : ""}`] : []),
+          ...(logLines.length > 0 ? [`last log lines:\n${logLines.join("\n")}`] : []),
+        ],
+        suggestion:
+          exitCode !== undefined && EXIT_CODE_HINTS[exitCode]
+            ? `Exit code ${exitCode}: ${EXIT_CODE_HINTS[exitCode]}.`
+            : "Read the previous logs for the error that ends the process.",
+      });
+    }
+
+    for (const [probe, score, cause, suggestion] of [
+      ["Liveness", 88, "Liveness probe fails, so the kubelet restarts the container", "Make sure the probe's endpoint answers within timeoutSeconds, or give the application more time with initialDelaySeconds or a startup probe."],
+      ["Startup", 85, "Startup probe fails, so the container never starts", "Give the application more time to start (failureThreshold x periodSeconds) or fix the probe target."],
+      ["Readiness", 70, "Readiness probe fails, so the pod receives no traffic", "Check that the probe target is correct and that the application's dependencies are reachable."],
+    ] as const) {
+      const failures = containerEvents.filter((e) => e.reason === "Unhealthy" && e.message?.startsWith(`${probe} probe failed`));
+      if (failures.length === 0) continue;
+      const configured = probe === "Liveness" ? spec?.livenessProbe : probe === "Startup" ? spec?.startupProbe : spec?.readinessProbe;
+      add({
+        ...base,
+        score,
+        cause,
+        evidence: [
+          `${failures.reduce((sum, e) => sum + (e.count ?? 1), 0)} failures, latest: ${failures[0].message}`,
+          `probe: ${describeProbe(configured)}`,
+        ],
+        suggestion,
+      });
+    }
+  }
+
+  for (const [reason, score, cause, suggestion] of [
+    ["FailedMount", 85, "Volume cannot be mounted", "Check that the referenced ConfigMaps, Secrets and PersistentVolumeClaims exist and are bound."],
+    ["FailedAttachVolume", 85, "Volume cannot be attached to the node", "The volume may still be attached elsewhere or the storage driver is failing. Check the PersistentVolume and the CSI driver."],
+    ["FailedCreatePodSandBox", 80, "Pod sandbox cannot be created", "The node's container runtime or network plugin (CNI) is failing. Check the node and the CNI pods."],
+  ] as const) {
+    const matching = events.filter((e) => e.reason === reason);
+    if (matching.length > 0) {
+      add({ score, cause, evidence: matching.slice(0, 2).map((e) => `${reason}: ${e.message}`), suggestion });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Problems with the node a pod runs on.
+ */
+export function analyzeNode(node: k8s.V1Node): DiagnosisFinding[] {
+  const findings: DiagnosisFinding[] = [];
+  const name = node.metadata?.name;
+  for (const condition of node.status?.conditions || []) {
+    const bad = condition.type === "Ready" ? condition.status !== "True" : condition.status === "True";
+    if (!bad) continue;
+    findings.push({
+      score: condition.type === "Ready" ? 80 : 70,
+      cause: condition.type === "Ready" ? `Node ${name} is not ready` : `Node ${name} reports ${condition.type}`,
+      evidence: [`${condition.type}=${condition.status}: ${condition.reason || ""} ${condition.message || ""}`.trim()],
+      suggestion: "Pods on this node are affected by the node's condition. Check the kubelet and node resources, or move the workload.",
+    });
+  }
+  if (node.spec?.unschedulable) {
+    findings.push({
+      score: 40,
+      cause: `Node ${name} is cordoned`,
+      evidence: ["spec.unschedulable is true"],
+      suggestion: "No new pods are placed on this node until it is uncordoned.",
+    });
+  }
+  return findings;
+}
+
+/**
+ * Problems reported by a workload's own status and events.
+ */
+export function analyzeWorkload(
+  kind: string,
+  workload: k8s.V1Deployment | k8s.V1StatefulSet | k8s.V1Job,
+  events: k8s.CoreV1Event[]
+): DiagnosisFinding[] {
+  const findings: DiagnosisFinding[] = [];
+  const conditions: (k8s.V1DeploymentCondition | k8s.V1StatefulSetCondition | k8s.V1JobCondition)[] =
+    workload.status?.conditions || [];
+
+  const replicaFailure = conditions.find((c) => c.type === "ReplicaFailure" && c.status === "True");
+  if (replicaFailure) {
+    findings.push({
+      score: 90,
+      cause: "Pods cannot be created",
+      evidence: [`ReplicaFailure: ${replicaFailure.reason} ${replicaFailure.message || ""}`.trim()],
+      suggestion: "Usually a ResourceQuota, LimitRange or admission policy rejects the pods. Fix the limit or the pod spec named in the message.",
+    });
+  }
+  const failedCreate = events.filter((e) => e.reason === "FailedCreate");
+  if (failedCreate.length > 0 && !replicaFailure) {
+    findings.push({
+      score: 90,
+      cause: "Pods cannot be created",
+      evidence: failedCreate.slice(0, 2).map((e) => `FailedCreate on ${e.involvedObject?.kind}/${e.involvedObject?.name}: ${e.message}`),
+      suggestion: "Usually a ResourceQuota, LimitRange or admission policy rejects the pods. Fix the limit or the pod spec named in the message.",
+    });
+  }
+
+  const progressing = conditions.find((c) => c.type === "Progressing" && c.status === "False");
+  if (progressing) {
+    findings.push({
+      score: 60,
+      cause: "Rollout is stuck",
+      evidence: [`Progressing=False: ${progressing.reason} ${progressing.message || ""}`.trim()],
+      suggestion: "New pods do not become ready in time. The pod-level causes explain why; roll back with kubectl_rollout undo if needed.",
+    });
+  }
+
+  const failed = conditions.find((c) => c.type === "Failed" && c.status === "True");
+  if (kind === "job" && failed) {
+    findings.push({
+      score: 80,
+      cause: "Job failed",
+      evidence: [`Failed: ${failed.reason} ${failed.message || ""}`.trim()],
+      suggestion:
+        failed.reason === "DeadlineExceeded"
+          ? "The job ran longer than activeDeadlineSeconds. Raise the deadline or speed up the job."
+          : "The pods failed more often than backoffLimit allows. The pod-level causes explain why.",
+    });
+  }
+
+  if (kind === "statefulset") {
+    const status = (workload as k8s.V1StatefulSet).status;
+    const wanted = (workload as k8s.V1StatefulSet).spec?.replicas ?? 1;
+    if ((status?.readyReplicas ?? 0) < wanted) {
+      findings.push({
+        score: 50,
+        cause: "StatefulSet is not fully ready",
+        evidence: [`${status?.readyReplicas ?? 0}/${wanted} replicas ready`],
+        suggestion: "StatefulSet pods start in order, so one unready pod blocks the rest. The pod-level causes explain why.",
+      });
+    }
+  }
+  return findings;
+}
+
+// Merge findings with the same cause in several pods
+function mergeFindings(findings: DiagnosisFinding[]): DiagnosisFinding[] {
+  const merged = new Map<string, DiagnosisFinding>();
+  for (const finding of findings) {
+    const key = `${finding.cause}|${finding.container || ""}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.pods = [...new Set([...(existing.pods || []), ...(finding.pods || [])])];
+      existing.score = Math.max(existing.score, finding.score);
+    } else {
+      merged.set(key, { ...finding });
+    }
+  }
+  return [...merged.values()].sort((a, b) => b.score - a.score);
+}
+
+// Higher is less healthy, to inspect the worst pods of a workload first
+function unhealthiness(pod: k8s.V1Pod): number {
+  const statuses = pod.status?.containerStatuses || [];
+  const restarts = statuses.reduce((sum, s) => sum + s.restartCount, 0);
+  const notReady = statuses.some((s) => !s.ready) || statuses.length === 0;
+  const phase = pod.status?.phase;
+  return (phase !== "Running" && phase !== "Succeeded" ? 1000 : 0) + (notReady ? 500 : 0) + restarts;
+}
+
+async function readLogs(
+  coreApi: k8s.CoreV1Api,
+  pod: k8s.V1Pod,
+  tailLines: number
+): Promise<Record<string, ContainerLogs>> {
+  const logs: Record<string, ContainerLogs> = {};
+  const statuses = [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])];
+  const read = async (container: string, previous: boolean) => {
+    try {
+      const { body } = await coreApi.readNamespacedPodLog(
+        pod.metadata!.name!, pod.metadata!.namespace!, container,
+        undefined, undefined, undefined, undefined, previous, undefined, tailLines
+      );
+      return body;
+    } catch {
+      // No logs yet (container waiting) or no previous run
+      return undefined;
+    }
+  };
+
+  for (const status of statuses) {
+    // A container that never started has no logs
+    if (!status.state?.running && !status.state?.terminated && status.restartCount === 0) continue;
+    logs[status.name] = {
+      current: await read(status.name, false),
+      previous: status.restartCount > 0 ? await read(status.name, true) : undefined,
+    };
+  }
+  return logs;
+}
+
+export async function kubectlDiagnose(
+  k8sManager: KubernetesManager,
+  input: {
+    resourceType?: string;
+    name: string;
+    namespace?: string;
+    tailLines?: number;
+    maxPods?: number;
+    includeNodes?: boolean;
+    context?: string;
+  }
+) {
+  const resourceType = (input.resourceType || "pod").toLowerCase();
+  const name = validateResourceName(input.name);
+  const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const tailLines = input.tailLines ?? 20;
+  const maxPods = input.maxPods ?? 3;
+  if (!["pod", "deployment", "statefulset", "job"].includes(resourceType)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid resourceType '${input.resourceType}': must be pod, deployment, statefulset or job`
+    );
+  }
+  for (const [field, value] of [["tailLines", tailLines], ["maxPods", maxPods]] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > 500) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${field} '${value}': must be an integer from 1 to 500`);
+    }
+  }
+
+  try {
+    const coreApi = k8sManager.getCoreApi(context);
+    const findings: DiagnosisFinding[] = [];
+    let pods: k8s.V1Pod[];
+    let workloadEvents: k8s.CoreV1Event[] = [];
+
+    if (resourceType === "pod") {
+      pods = [(await coreApi.readNamespacedPod(name, namespace)).body];
+    } else {
+      const workload =
+        resourceType === "deployment"
+          ? (await k8sManager.getAppsApi(context).readNamespacedDeployment(name, namespace)).body
+          : resourceType === "statefulset"
+            ? (await k8sManager.getAppsApi(context).readNamespacedStatefulSet(name, namespace)).body
+            : (await k8sManager.getBatchApi(context).readNamespacedJob(name, namespace)).body;
+
+      // Warnings about the workload itself and the ReplicaSets it owns
+      const { body: warnings } = await coreApi.listNamespacedEvent(
+        namespace, undefined, undefined, undefined, "type=Warning"
+      );
+      workloadEvents = warnings.items
+        .filter((e) => e.involvedObject?.kind !== "Pod")
+        .filter((e) => e.involvedObject?.name === name || e.involvedObject?.name?.startsWith(`${name}-`))
+        .sort((a, b) => eventTime(b) - eventTime(a));
+      findings.push(...analyzeWorkload(resourceType, workload, workloadEvents));
+
+      const selector = labelSelectorToString(workload.spec?.selector);
+      const { body } = await coreApi.listNamespacedPod(
+        namespace, undefined, undefined, undefined, undefined, selector
+      );
+      pods = body.items.sort((a, b) => unhealthiness(b) - unhealthiness(a)).slice(0, maxPods);
+      if (body.items.length === 0 && findings.length === 0) {
+        findings.push({
+          score: 70,
+          cause: "No pods match the workload's selector",
+          evidence: [`selector ${selector} matches no pods in namespace ${namespace}`],
+          suggestion: "The workload may be scaled to zero, or its pods cannot be created; check its events and replica count.",
+        });
+      }
+    }
+
+    const podReports = [];
+    const nodeNames = new Set<string>();
+    for (const pod of pods) {
+      const podName = pod.metadata!.name!;
+      const { body: events } = await coreApi.listNamespacedEvent(
+        namespace, undefined, undefined, undefined, `involvedObject.kind=Pod,involvedObject.name=${podName}`
+      );
+      const podEvents = events.items.sort((a, b) => eventTime(b) - eventTime(a));
+      const logs = await readLogs(coreApi, pod, tailLines);
+      findings.push(...analyzePod(pod, podEvents, logs));
+      if (pod.spec?.nodeName) nodeNames.add(pod.spec.nodeName);
+
+      podReports.push({
+        name: podName,
+        phase: pod.status?.phase,
+        reason: pod.status?.reason,
+        node: pod.spec?.nodeName,
+        containers: [...(pod.status?.initContainerStatuses || []), ...(pod.status?.containerStatuses || [])].map((s) => ({
+          name: s.name,
+          image: s.image,
+          ready: s.ready,
+          restartCount: s.restartCount,
+          state: s.state,
+          lastState: s.lastState?.terminated ? s.lastState : undefined,
+        })),
+        events: podEvents.slice(0, 10).map(summarizeEvent),
+        logs,
+      });
+    }
+
+    const nodes = [];
+    for (const nodeName of input.includeNodes === false ? [] : nodeNames) {
+      try {
+        const { body: node } = await coreApi.readNode(nodeName);
+        findings.push(...analyzeNode(node));
+        nodes.push({
+          name: nodeName,
+          conditions: (node.status?.conditions || []).map((c) => `${c.type}=${c.status}`),
+          unschedulable: !!node.spec?.unschedulable,
+        });
+      } catch (error) {
+        // Namespace-scoped credentials often cannot read nodes
+        nodes.push({ name: nodeName, error: apiErrorMessage(error) });
+      }
+    }
+
+    const likelyCauses = mergeFindings(findings);
+    const result = {
+      target: `${resourceType}/${name}`,
+      namespace,
+      summary:
+        likelyCauses.length > 0
+          ? `Most likely cause: ${likelyCauses[0].cause}`
+          : "No problems found: containers are running and no warning events were reported",
+      likelyCauses,
+      pods: podReports,
+      nodes,
+      workloadEvents: workloadEvents.slice(0, 10).map(summarizeEvent),
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  } catch (error: any) {
+    if (error instanceof McpError) throw error;
+    if (isNotFoundError(error)) {
+      throw new McpError(ErrorCode.InvalidParams, `${resourceType} ${name} not found in namespace ${namespace}`);
+    }
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to diagnose ${resourceType} ${name}: ${apiErrorMessage(error)}`
+    );
+  }
+}
@@ -1,25 +1,108 @@
+import { X509Certificate } from "crypto";
+import { isIP } from "net";
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { captureKubectl, contextArgs, execKubectl, formatCommand } from "../utils/command-runner.js";
+import { DEFAULT_DEBUG_IMAGE, DebugContainer, ensureDebugContainer } from "../utils/debug-container.js";
+import { apiErrorMessage, isNotFoundError } from "../utils/dynamic-client.js";
+import { labelSelectorToString } from "../utils/label-selector.js";
+import {
+    validateArgument,
+    validateContainerName,
+    validateContextName,
+    validateNamespace,
+    validateResourceName,
+} from "../utils/validation.js";
 
-// Helper function to execute commands in pods
-async function executeInPod(
+// Helper function to validate numeric options such as counts and timeouts
+function validatePositiveNumber(value: number | undefined, field: string): void {
+    if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value <= 0)) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid ${field} '${value}': must be a positive number`
+        );
+    }
+}
+
+// Debug modes of the network tools: never, after the command is missing from
+// the pod's image, or always run in an ephemeral debug container
+const DEBUG_MODES = ["off", "auto", "always"];
+
+// Parameters of the network tools that select a debug container
+const debugParameters = {
+    debug: {
+        type: "string",
+        enum: DEBUG_MODES,
+        description: "Run the command in an ephemeral debug container that shares the pod's network: 'auto' when the pod's image lacks the command, 'always', or 'off'",
+        default: "off",
+        optional: true,
+    },
+    debugImage: {
+        type: "string",
+        description: `Image of the debug container (default ${DEFAULT_DEBUG_IMAGE})`,
+        optional: true,
+    },
+} as const;
+
+interface DebugInput {
+    debug?: string;
+    debugImage?: string;
+}
+
+function isCommandNotFound(error: any): boolean {
+    return error.message.includes("command not found") ||
+        error.message.includes("executable file not found");
+}
+
+interface PodCommandResult {
+    pod: string;
+    namespace: string;
+    container?: string;
+    debugContainer?: DebugContainer;
+    command: string;
+    output: string;
+    success: boolean;
+    timedOut?: boolean;
+    error?: string;
+}
+
+// Helper function to run commands in pods. Each command is an argument
+// vector that is run directly in the container, without a shell; when
+// several are given, they are alternatives tried in order until one of
+// them exists in the image.
+async function runInPod(
     k8sManager: KubernetesManager,
     input: {
         podName: string;
         namespace?: string;
         container?: string;
-        command: string;
+        commands: string[][];
         timeout?: number;
-    }
-) {
-    const namespace = input.namespace || "default";
+        /** Return a command that times out as a failed result instead of an error */
+        allowTimeout?: boolean;
+        context?: string;
+    } & DebugInput
+): Promise<PodCommandResult> {
+    const podName = validateResourceName(input.podName, "podName");
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
     const timeout = input.timeout || 30;
+    const context = input.context ? validateContextName(input.context) : undefined;
+    if (input.container) {
+        validateContainerName(input.container);
+    }
+    const debug = input.debug || "off";
+    if (!DEBUG_MODES.includes(debug)) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid debug '${debug}': must be one of ${DEBUG_MODES.join(", ")}`
+        );
+    }
+    const debugImage = input.debugImage ? validateArgument(input.debugImage, "debugImage") : DEFAULT_DEBUG_IMAGE;
 
     // First, check if the pod exists
     try {
-        const checkPodCommand = `kubectl get pod ${input.podName} -n ${namespace} --no-headers`;
-        execSync(checkPodCommand, { encoding: "utf8" });
+        execKubectl(["get", "pod", podName, "-n", namespace, ...contextArgs(context), "--no-headers"]);
     } catch (error: any) {
         throw new McpError(
             ErrorCode.InvalidRequest,
@@ -27,54 +110,82 @@ async function executeInPod(
         );
     }
 
-    // Build the kubectl exec command
-    let kubectlCommand = `kubectl exec -it ${input.podName} -n ${namespace}`;
+    let command = input.commands[0];
+    const run = (container?: string) => {
+        let notFound: any;
+        for (command of input.commands) {
+            // Build the kubectl exec command
+            const kubectlArgs = ["exec", podName, "-n", namespace, ...contextArgs(context)];
 
-    // Add container if specified
-    if (input.container) {
-        kubectlCommand += ` -c ${input.container}`;
-    }
+            // Add container if specified
+            if (container) {
+                kubectlArgs.push("-c", container);
+            }
 
-    // Add the command to execute
-    kubectlCommand += ` -- bash -c "${input.command}"`;
+            // Add the command to execute
+            kubectlArgs.push("--", ...command);
 
-    console.error(`Executing: ${kubectlCommand}`);
+            console.error(`Executing: ${formatCommand("kubectl", kubectlArgs)}`);
+
+            try {
+                return execKubectl(kubectlArgs, {
+                    timeout: timeout * 1000 // Convert to milliseconds
+                });
+            } catch (error: any) {
+                if (!isCommandNotFound(error)) {
+                    throw error;
+                }
+                notFound = error;
+            }
+        }
+        throw notFound;
+    };
+
+    let debugContainer: DebugContainer | undefined;
+    if (debug === "always") {
+        debugContainer = await ensureDebugContainer(k8sManager, namespace, podName, debugImage, context);
+    }
+    const summary = () => ({
+        pod: input.podName,
+        namespace: namespace,
+        container: debugContainer ? debugContainer.name : input.container,
+        ...(debugContainer ? { debugContainer } : {}),
+        command: formatCommand(command[0], command.slice(1)),
+    });
 
     try {
-        const result = execSync(kubectlCommand, {
-            encoding: "utf8",
-            timeout: timeout * 1000 // Convert to milliseconds
-        });
+        let result: string;
+        try {
+            result = run(debugContainer ? debugContainer.name : input.container);
+        } catch (error: any) {
+            // Retry in a debug container when the pod's image lacks the command
+            if (debug !== "auto" || !isCommandNotFound(error)) {
+                throw error;
+            }
+            debugContainer = await ensureDebugContainer(k8sManager, namespace, podName, debugImage, context);
+            result = run(debugContainer.name);
+        }
 
-        return {
-            content: [
-                {
-                    type: "text",
-                    text: JSON.stringify({
-                        pod: input.podName,
-                        namespace: namespace,
-                        container: input.container,
-                        command: input.command,
-                        output: result.trim(),
-                        success: true
-                    }, null, 2),
-                },
-            ],
-        };
+        return { ...summary(), output: result.trim(), success: true };
     } catch (error: any) {
+        if (error instanceof McpError) {
+            throw error;
+        }
         // Handle specific command errors
-        if (error.message.includes("command not found")) {
-            const commandType = input.command.split(' ')[0];
+        if (isCommandNotFound(error)) {
+            const commandType = input.commands.map((c) => c[0]).join(" or ");
             throw new McpError(
                 ErrorCode.InvalidRequest,
-                `${commandType} command not found in pod '${input.podName}'. The pod may not have the required tools installed.`
+                debugContainer
+                    ? `${commandType} command not found in debug image '${debugContainer.image}'. Choose a debugImage that includes it.`
+                    : `${commandType} command not found in pod '${input.podName}'. The pod may not have the required tools installed; set debug to 'auto' to run it in an ephemeral debug container.`
             );
         } else if (error.message.includes("container not found")) {
             throw new McpError(
                 ErrorCode.InvalidRequest,
                 `Container '${input.container}' not found in pod '${input.podName}'. Available containers can be checked with kubectl describe.`
             );
-        } else if (error.code === "ETIMEDOUT") {
+        } else if (error.code === "ETIMEDOUT" && !input.allowTimeout) {
             throw new McpError(
                 ErrorCode.InternalError,
                 `Command execution timed out after ${timeout} seconds in pod '${input.podName}'`
@@ -83,25 +194,41 @@ async function executeInPod(
             // For network commands, we might still want to return the error output as it could be informative
             const errorOutput = error.stdout || error.stderr || error.message;
             return {
-                content: [
-                    {
-                        type: "text",
-                        text: JSON.stringify({
-                            pod: input.podName,
-                            namespace: namespace,
-                            container: input.container,
-                            command: input.command,
-                            output: errorOutput,
-                            success: false,
-                            error: `Command failed: ${error.message}`
-                        }, null, 2),
-                    },
-                ],
+                ...summary(),
+                output: errorOutput,
+                success: false,
+                ...(error.code === "ETIMEDOUT" ? { timedOut: true } : {}),
+                error: `Command failed: ${error.message}`
             };
         }
     }
 }
 
+// Helper function to execute a command in a pod and return its output
+async function executeInPod(
+    k8sManager: KubernetesManager,
+    input: {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        command: string[];
+        timeout?: number;
+        context?: string;
+    } & DebugInput
+) {
+    const { command, ...options } = input;
+    const result = await runInPod(k8sManager, { ...options, commands: [command] });
+
+    return {
+        content: [
+            {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+            },
+        ],
+    };
+}
+
 export const kubectlCurlSchema = {
     name: "kubectl_curl",
     description: "Execute curl command inside a Kubernetes pod to test HTTP/HTTPS connectivity",
@@ -161,7 +288,9 @@ export const kubectlCurlSchema = {
                 description: "Enable verbose output",
                 default: false,
                 optional: true,
-            }
+            },
+            ...debugParameters,
+            context: contextParameter,
         },
         required: ["podName", "url"],
     },
@@ -180,24 +309,35 @@ export async function kubectlCurl(
         followRedirects?: boolean;
         timeout?: number;
         verbose?: boolean;
-    }
+        context?: string;
+    } & DebugInput
 ) {
     try {
+        const url = validateArgument(input.url, "url");
+        validatePositiveNumber(input.timeout, "timeout");
+
         // Build curl command with options
-        let curlOptions = [];
+        const curlOptions: string[] = [];
 
         if (input.method && input.method !== "GET") {
-            curlOptions.push(`-X ${input.method}`);
+            const methods: readonly string[] = kubectlCurlSchema.inputSchema.properties.method.enum;
+            if (!methods.includes(input.method)) {
+                throw new McpError(
+                    ErrorCode.InvalidParams,
+                    `Invalid method '${input.method}': must be one of ${methods.join(", ")}`
+                );
+            }
+            curlOptions.push("-X", input.method);
         }
 
         if (input.headers) {
             input.headers.forEach(header => {
-                curlOptions.push(`-H "${header}"`);
+                curlOptions.push("-H", validateArgument(header, "headers"));
             });
         }
 
         if (input.data) {
-            curlOptions.push(`-d '${input.data}'`);
+            curlOptions.push("--data-raw", input.data);
         }
 
         if (input.followRedirects !== false) {
@@ -205,7 +345,7 @@ export async function kubectlCurl(
         }
 
         if (input.timeout) {
-            curlOptions.push(`--max-time ${input.timeout}`);
+            curlOptions.push("--max-time", String(input.timeout));
         }
 
         if (input.verbose) {
@@ -215,12 +355,15 @@ export async function kubectlCurl(
         // Always include some useful options
         curlOptions.push("-s", "-S"); // Silent but show errors
 
-        const curlCommand = `curl ${curlOptions.join(" ")} "${input.url}"`;
+        const curlCommand = ["curl", ...curlOptions, "--", url];
 
         return executeInPod(k8sManager, {
             podName: input.podName,
             namespace: input.namespace,
             container: input.container,
+            context: input.context,
+            debug: input.debug,
+            debugImage: input.debugImage,
             command: curlCommand,
             timeout: (input.timeout || 30) + 5 // Add 5 seconds buffer for kubectl overhead
         });
@@ -275,7 +418,9 @@ export const kubectlPingSchema = {
                 type: "number",
                 description: "Timeout for each ping in seconds",
                 optional: true,
-            }
+            },
+            ...debugParameters,
+            context: contextParameter,
         },
         required: ["podName", "target"],
     },
@@ -291,32 +436,41 @@ export async function kubectlPing(
         count?: number;
         interval?: number;
         timeout?: number;
-    }
+        context?: string;
+    } & DebugInput
 ) {
     try {
+        const target = validateArgument(input.target, "target");
+        validatePositiveNumber(input.count, "count");
+        validatePositiveNumber(input.interval, "interval");
+        validatePositiveNumber(input.timeout, "timeout");
+
         // Build ping options
-        let pingOptions = [];
+        const pingOptions: string[] = [];
 
         if (input.count) {
-            pingOptions.push(`-c ${input.count}`);
+            pingOptions.push("-c", String(input.count));
         } else {
-            pingOptions.push("-c 4"); // Default to 4 pings
+            pingOptions.push("-c", "4"); // Default to 4 pings
         }
 
         if (input.interval) {
-            pingOptions.push(`-i ${input.interval}`);
+            pingOptions.push("-i", String(input.interval));
         }
 
         if (input.timeout) {
-            pingOptions.push(`-W ${input.timeout}`);
+            pingOptions.push("-W", String(input.timeout));
         }
 
-        const pingCommand = `ping ${pingOptions.join(" ")} ${input.target}`;
+        const pingCommand = ["ping", ...pingOptions, target];
 
         return executeInPod(k8sManager, {
             podName: input.podName,
             namespace: input.namespace,
             container: input.container,
+            context: input.context,
+            debug: input.debug,
+            debugImage: input.debugImage,
             command: pingCommand,
             timeout: ((input.count || 4) * (input.interval || 1) + 10) // Calculate reasonable timeout
         });
@@ -367,7 +521,9 @@ export const kubectlTracerouteSchema = {
                 description: "Timeout for the entire traceroute operation in seconds",
                 default: 60,
                 optional: true,
-            }
+            },
+            ...debugParameters,
+            context: contextParameter,
         },
         required: ["podName", "target"],
     },
@@ -382,22 +538,30 @@ export async function kubectlTraceroute(
         target: string;
         maxHops?: number;
         timeout?: number;
-    }
+        context?: string;
+    } & DebugInput
 ) {
     try {
+        const target = validateArgument(input.target, "target");
+        validatePositiveNumber(input.maxHops, "maxHops");
+        validatePositiveNumber(input.timeout, "timeout");
+
         // Build traceroute options
-        let tracerouteOptions = [];
+        const tracerouteOptions: string[] = [];
 
         if (input.maxHops) {
-            tracerouteOptions.push(`-m ${input.maxHops}`);
+            tracerouteOptions.push("-m", String(input.maxHops));
         }
 
-        const tracerouteCommand = `traceroute ${tracerouteOptions.join(" ")} ${input.target}`;
+        const tracerouteCommand = ["traceroute", ...tracerouteOptions, target];
 
         return executeInPod(k8sManager, {
             podName: input.podName,
             namespace: input.namespace,
             container: input.container,
+            context: input.context,
+            debug: input.debug,
+            debugImage: input.debugImage,
             command: tracerouteCommand,
             timeout: input.timeout || 60
         });
@@ -411,4 +575,643 @@ export async function kubectlTraceroute(
             `kubectl traceroute operation failed: ${error.message}`
         );
     }
-} 
\ No newline at end of file
+} 
+
+export const kubectlDnsLookupSchema = {
+    name: "kubectl_dns_lookup",
+    description: "Resolve a hostname inside a pod with the pod's own resolver. Returns the addresses, the nameservers and search domains of the pod's /etc/resolv.conf with the names tried in order, and for Service names whether the answer matches the Service's ClusterIP",
+    inputSchema: {
+        type: "object",
+        properties: {
+            podName: {
+                type: "string",
+                description: "Name of the pod to resolve the name in",
+            },
+            namespace: {
+                type: "string",
+                description: "Namespace of the pod",
+                default: "default",
+            },
+            container: {
+                type: "string",
+                description: "Container name (optional, required for multi-container pods)",
+                optional: true,
+            },
+            hostname: {
+                type: "string",
+                description: "Name to resolve, e.g. 'payments', 'payments.shop' or 'example.com'",
+            },
+            timeout: {
+                type: "number",
+                description: "Timeout for the lookup in seconds",
+                default: 10,
+                optional: true,
+            },
+            ...debugParameters,
+            context: contextParameter,
+        },
+        required: ["podName", "hostname"],
+    },
+} as const;
+
+interface ResolvConf {
+    nameservers: string[];
+    search: string[];
+    ndots: number;
+    options: string[];
+}
+
+// Helper function to parse the resolver configuration of a container
+function parseResolvConf(text: string): ResolvConf {
+    const conf: ResolvConf = { nameservers: [], search: [], ndots: 1, options: [] };
+    for (const line of text.split("\n")) {
+        const [key, ...values] = line.replace(/[#;].*$/, "").trim().split(/\s+/);
+        if (key === "nameserver" && values[0]) {
+            conf.nameservers.push(values[0]);
+        } else if (key === "search" || key === "domain") {
+            // The last search or domain line wins, as in the C library
+            conf.search = values;
+        } else if (key === "options") {
+            conf.options.push(...values);
+            const ndots = values.find((value) => value.startsWith("ndots:"));
+            if (ndots && Number.isInteger(Number(ndots.slice(6)))) {
+                conf.ndots = Number(ndots.slice(6));
+            }
+        }
+    }
+    return conf;
+}
+
+// Names the resolver tries for a hostname, in order
+function searchCandidates(hostname: string, conf: ResolvConf): string[] {
+    if (hostname.endsWith(".")) {
+        return [hostname.slice(0, -1)];
+    }
+    const searched = conf.search.map((domain) => `${hostname}.${domain}`);
+    const dots = hostname.split(".").length - 1;
+    return dots >= conf.ndots ? [hostname, ...searched] : [...searched, hostname];
+}
+
+// Helper function to read the addresses from `getent hosts` or `nslookup` output
+function parseLookup(output: string, resolver: string): { addresses: string[]; canonicalName?: string } {
+    const addresses: string[] = [];
+    let canonicalName: string | undefined;
+    if (resolver === "getent") {
+        for (const line of output.split("\n")) {
+            const [address, name] = line.trim().split(/\s+/);
+            if (isIP(address)) {
+                addresses.push(address);
+                canonicalName ??= name;
+            }
+        }
+    } else {
+        // Addresses before the first Name: line are the DNS server's
+        const answer = output.split(/^Name:/m).slice(1).join("Name:");
+        canonicalName = answer.match(/^\s*(\S+)/)?.[1];
+        for (const match of answer.matchAll(/^Address(?: \d+)?:\s*(\S+)/gm)) {
+            const address = match[1].replace(/#\d+$/, "");
+            if (isIP(address)) addresses.push(address);
+        }
+    }
+    return { addresses: [...new Set(addresses)], canonicalName };
+}
+
+// The Service a hostname refers to, for names of the form <service>,
+// <service>.<namespace> and <service>.<namespace>.svc[.<cluster domain>]
+function serviceReference(hostname: string, podNamespace: string) {
+    const labels = hostname.replace(/\.$/, "").split(".");
+    if (labels.indexOf("svc") === 2) {
+        return { name: labels[0], namespace: labels[1], explicit: true };
+    }
+    if (hostname.endsWith(".") || labels.length > 2) {
+        return undefined;
+    }
+    return labels.length === 1
+        ? { name: labels[0], namespace: podNamespace, explicit: true }
+        : { name: labels[0], namespace: labels[1], explicit: false };
+}
+
+export async function kubectlDnsLookup(
+    k8sManager: KubernetesManager,
+    input: {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        hostname: string;
+        timeout?: number;
+        context?: string;
+    } & DebugInput
+) {
+    try {
+        const hostname = validateArgument(input.hostname, "hostname");
+        if (!/^[A-Za-z0-9_]([A-Za-z0-9_.-]*[A-Za-z0-9_.])?$/.test(hostname)) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid hostname '${hostname}'`);
+        }
+        validatePositiveNumber(input.timeout, "timeout");
+        const namespace = input.namespace || "default";
+        const context = input.context ? validateContextName(input.context) : undefined;
+        const target = { ...input, timeout: input.timeout || 10 };
+
+        const resolv = await runInPod(k8sManager, { ...target, commands: [["cat", "/etc/resolv.conf"]] });
+        const conf = resolv.success ? parseResolvConf(resolv.output) : undefined;
+        // Resolve in the same container that the configuration was read from
+        const lookup = await runInPod(k8sManager, {
+            ...target,
+            ...(resolv.debugContainer ? { debug: "always", debugImage: resolv.debugContainer.image } : {}),
+            commands: [["getent", "hosts", hostname], ["nslookup", hostname]],
+        });
+        const resolver = lookup.command.split(" ")[0];
+        const { addresses, canonicalName } = parseLookup(lookup.success ? lookup.output : "", resolver);
+
+        let service: Record<string, any> | undefined;
+        const reference = serviceReference(hostname, namespace);
+        if (reference) {
+            try {
+                const { body } = await k8sManager.getCoreApi(context).readNamespacedService(reference.name, reference.namespace);
+                const headless = body.spec?.clusterIP === "None";
+                const clusterIPs = (body.spec?.clusterIPs || [body.spec?.clusterIP])
+                    .filter((ip): ip is string => !!ip && ip !== "None");
+                service = {
+                    name: reference.name,
+                    namespace: reference.namespace,
+                    type: body.spec?.type,
+                    ...(headless ? { headless: true } : { clusterIPs }),
+                    ...(body.spec?.externalName ? { externalName: body.spec.externalName } : {}),
+                    ...(clusterIPs.length > 0 ? { matches: clusterIPs.some((ip) => addresses.includes(ip)) } : {}),
+                };
+            } catch (error) {
+                if (!isNotFoundError(error)) {
+                    service = { name: reference.name, namespace: reference.namespace, error: apiErrorMessage(error) };
+                } else if (reference.explicit) {
+                    service = { name: reference.name, namespace: reference.namespace, exists: false };
+                }
+            }
+        }
+
+        let diagnosis: string;
+        if (addresses.length === 0) {
+            diagnosis = `'${hostname}' did not resolve`;
+            if (service?.exists === false) {
+                diagnosis += `: there is no Service '${service.name}' in namespace '${service.namespace}'`;
+            } else if (service && !service.error) {
+                diagnosis += ` although Service '${service.name}' exists; check that the cluster DNS (${conf?.nameservers.join(", ") || "unknown nameserver"}) is running and reachable from the pod`;
+            }
+        } else if (service?.matches === false) {
+            diagnosis = `'${hostname}' resolved to ${addresses.join(", ")}, not to the ClusterIP ${service.clusterIPs.join(", ")} of Service '${service.name}'; another name on the search path may have matched first`;
+        } else if (service?.matches) {
+            diagnosis = `'${hostname}' resolves to the ClusterIP of Service '${service.name}'`;
+        } else {
+            diagnosis = `'${hostname}' resolves to ${addresses.join(", ")}`;
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: JSON.stringify({
+                        pod: lookup.pod,
+                        namespace: lookup.namespace,
+                        container: lookup.container,
+                        ...(lookup.debugContainer ? { debugContainer: lookup.debugContainer } : {}),
+                        hostname,
+                        resolved: addresses.length > 0,
+                        addresses,
+                        ...(canonicalName ? { canonicalName } : {}),
+                        diagnosis,
+                        ...(service ? { service } : {}),
+                        resolvConf: conf
+                            ? { ...conf, candidates: searchCandidates(hostname, conf) }
+                            : { error: resolv.error },
+                        command: lookup.command,
+                        output: lookup.output,
+                    }, null, 2),
+                },
+            ],
+        };
+    } catch (error: any) {
+        if (error instanceof McpError) {
+            throw error;
+        }
+
+        throw new McpError(
+            ErrorCode.InternalError,
+            `kubectl DNS lookup failed: ${error.message}`
+        );
+    }
+}
+
+export const kubectlTcpCheckSchema = {
+    name: "kubectl_tcp_check",
+    description: "Open a TCP connection from inside a pod to host:port, telling an open port from a refused connection, a timeout and a name that does not resolve. With tls, also performs a TLS handshake and returns the server's certificates",
+    inputSchema: {
+        type: "object",
+        properties: {
+            podName: {
+                type: "string",
+                description: "Name of the pod to connect from",
+            },
+            namespace: {
+                type: "string",
+                description: "Namespace of the pod",
+                default: "default",
+            },
+            container: {
+                type: "string",
+                description: "Container name (optional, required for multi-container pods)",
+                optional: true,
+            },
+            host: {
+                type: "string",
+                description: "Hostname or IP address to connect to",
+            },
+            port: {
+                type: "number",
+                description: "TCP port to connect to",
+            },
+            timeout: {
+                type: "number",
+                description: "Connection timeout in seconds",
+                default: 5,
+                optional: true,
+            },
+            tls: {
+                type: "boolean",
+                description: "Perform a TLS handshake and return the certificate details (needs openssl)",
+                default: false,
+                optional: true,
+            },
+            serverName: {
+                type: "string",
+                description: "Server name sent for SNI in the TLS handshake (defaults to host)",
+                optional: true,
+            },
+            ...debugParameters,
+            context: contextParameter,
+        },
+        required: ["podName", "host", "port"],
+    },
+} as const;
+
+// Helper function to tell why a connection failed from the tool's messages
+function connectionFailure(text: string): string {
+    if (/bad address|not known|could not resolve|name resolution|no address associated|unknown host|BIO_lookup/i.test(text)) {
+        return "unresolved";
+    }
+    if (/refused|errno=111/i.test(text)) {
+        return "refused";
+    }
+    if (/no route to host|network is unreachable|errno=113/i.test(text)) {
+        return "unreachable";
+    }
+    if (/timed out|timeout/i.test(text)) {
+        return "timeout";
+    }
+    return "error";
+}
+
+// Helper function to read the handshake and certificates from `openssl s_client` output
+function parseTlsHandshake(output: string) {
+    const now = Date.now();
+    const certificates = [...output.matchAll(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g)]
+        .flatMap((match) => {
+            try {
+                const cert = new X509Certificate(match[0]);
+                return [{
+                    subject: cert.subject.split("\n").join(", "),
+                    issuer: cert.issuer.split("\n").join(", "),
+                    ...(cert.subjectAltName ? { subjectAltName: cert.subjectAltName } : {}),
+                    validFrom: new Date(cert.validFrom).toISOString(),
+                    validTo: new Date(cert.validTo).toISOString(),
+                    expired: new Date(cert.validTo).getTime() < now,
+                    fingerprint256: cert.fingerprint256,
+                }];
+            } catch {
+                return [];
+            }
+        });
+    const session = output.match(/New, (\S+), Cipher is (\S+)/);
+    const protocol = output.match(/^\s*Protocol\s*:\s*(\S+)/m)?.[1] || session?.[1];
+    const cipher = output.match(/^\s*Cipher\s*:\s*(\S+)/m)?.[1] || session?.[2];
+    const verify = output.match(/Verify return code: (\d+) \(([^)]*)\)/);
+    return {
+        handshake: certificates.length > 0 && !!cipher && cipher !== "(NONE)" && cipher !== "0000",
+        ...(protocol ? { protocol } : {}),
+        ...(cipher ? { cipher } : {}),
+        ...(verify ? { verified: verify[1] === "0", verifyResult: verify[2] } : {}),
+        certificates,
+    };
+}
+
+export async function kubectlTcpCheck(
+    k8sManager: KubernetesManager,
+    input: {
+        podName: string;
+        namespace?: string;
+        container?: string;
+        host: string;
+        port: number;
+        timeout?: number;
+        tls?: boolean;
+        serverName?: string;
+        context?: string;
+    } & DebugInput
+) {
+    try {
+        const host = validateArgument(input.host, "host");
+        if (!Number.isInteger(input.port) || input.port < 1 || input.port > 65535) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Invalid port '${input.port}': must be an integer from 1 to 65535`
+            );
+        }
+        validatePositiveNumber(input.timeout, "timeout");
+        const timeout = input.timeout || 5;
+        const port = String(input.port);
+
+        let commands: string[][];
+        if (input.tls) {
+            const serverName = input.serverName ? validateArgument(input.serverName, "serverName") : host;
+            const address = isIP(host) === 6 ? `[${host}]:${port}` : `${host}:${port}`;
+            commands = [[
+                "openssl", "s_client", "-connect", address,
+                ...(isIP(serverName) ? [] : ["-servername", serverName]),
+                "-showcerts",
+            ]];
+        } else {
+            // bash can connect through /dev/tcp in images without nc
+            commands = [
+                ["nc", "-z", "-v", "-w", String(timeout), host, port],
+                ["bash", "-c", "exec 3<>\"/dev/tcp/$0/$1\"", host, port],
+            ];
+        }
+
+        const result = await runInPod(k8sManager, {
+            ...input,
+            commands,
+            timeout: timeout + 5, // Add 5 seconds buffer for kubectl overhead
+            allowTimeout: true,
+        });
+
+        const messages = `${result.output}\n${result.error || ""}`;
+        const connected = input.tls ? /^CONNECTED/m.test(result.output) : result.success;
+        const status = connected ? "open" : result.timedOut ? "timeout" : connectionFailure(messages);
+        const tls = input.tls && connected ? parseTlsHandshake(result.output) : undefined;
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: JSON.stringify({
+                        pod: result.pod,
+                        namespace: result.namespace,
+                        container: result.container,
+                        ...(result.debugContainer ? { debugContainer: result.debugContainer } : {}),
+                        host,
+                        port: input.port,
+                        reachable: connected,
+                        status,
+                        ...(tls ? { tls } : {}),
+                        command: result.command,
+                        // Handshake output is summarized by tls
+                        ...(tls?.handshake ? {} : { output: result.output }),
+                        ...(result.error && !connected ? { error: result.error } : {}),
+                    }, null, 2),
+                },
+            ],
+        };
+    } catch (error: any) {
+        if (error instanceof McpError) {
+            throw error;
+        }
+
+        throw new McpError(
+            ErrorCode.InternalError,
+            `kubectl TCP check failed: ${error.message}`
+        );
+    }
+}
+
+// Bounds of kubectl_exec
+const DEFAULT_EXEC_TIMEOUT_SECONDS = 30;
+const MAX_EXEC_TIMEOUT_SECONDS = 600;
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+// Seconds kubectl is given beyond the timeout, so that `timeout` in the
+// container stops the command there before kubectl is killed locally
+const EXEC_KILL_GRACE_SECONDS = 5;
+
+export const kubectlExecSchema = {
+    name: "kubectl_exec",
+    description: "Run a command in a container and return its exit code with stdout and stderr captured separately. The command is an argument vector run without a shell (use [\"sh\", \"-c\", \"...\"] for shell syntax). Target a pod, or a deployment or statefulset to run in one of its ready pods. The command runs under `timeout` in the container so it is stopped there when it takes too long; in images without `timeout` only the local kubectl is killed and the process may keep running in the container after the call returns",
+    inputSchema: {
+        type: "object",
+        properties: {
+            resourceType: {
+                type: "string",
+                enum: ["pod", "deployment", "statefulset"],
+                description: "Type of the target; for deployments and statefulsets a ready pod is picked",
+                default: "pod",
+            },
+            name: {
+                type: "string",
+                description: "Name of the pod, deployment or statefulset",
+            },
+            namespace: {
+                type: "string",
+                description: "Namespace of the target",
+                default: "default",
+            },
+            container: {
+                type: "string",
+                description: "Container name (optional, defaults to the pod's default container)",
+                optional: true,
+            },
+            command: {
+                type: "array",
+                items: { type: "string" },
+                description: "Command and arguments, e.g. [\"cat\", \"/etc/resolv.conf\"]",
+            },
+            stdin: {
+                type: "string",
+                description: "Data passed to the command's standard input",
+                optional: true,
+            },
+            timeout: {
+                type: "number",
+                description: `Seconds before the command is killed (max ${MAX_EXEC_TIMEOUT_SECONDS})`,
+                default: DEFAULT_EXEC_TIMEOUT_SECONDS,
+            },
+            maxOutputBytes: {
+                type: "number",
+                description: "Bytes kept of stdout and of stderr each; longer output is truncated",
+                default: DEFAULT_MAX_OUTPUT_BYTES,
+            },
+            context: contextParameter,
+        },
+        required: ["name", "command"],
+    },
+} as const;
+
+// Helper function to pick a ready pod of a deployment or statefulset
+async function pickReadyPod(
+    k8sManager: KubernetesManager,
+    resourceType: string,
+    name: string,
+    namespace: string,
+    context?: string
+): Promise<string> {
+    try {
+        const appsApi = k8sManager.getAppsApi(context);
+        const workload = resourceType === "deployment"
+            ? (await appsApi.readNamespacedDeployment(name, namespace)).body
+            : (await appsApi.readNamespacedStatefulSet(name, namespace)).body;
+        const selector = labelSelectorToString(workload.spec?.selector);
+        const { body } = await k8sManager.getCoreApi(context).listNamespacedPod(
+            namespace, undefined, undefined, undefined, undefined, selector
+        );
+
+        const ready = body.items
+            .filter((pod) =>
+                !pod.metadata?.deletionTimestamp &&
+                pod.status?.phase === "Running" &&
+                pod.status?.conditions?.some((c) => c.type === "Ready" && c.status === "True")
+            )
+            .map((pod) => pod.metadata!.name!)
+            .sort();
+        if (ready.length === 0) {
+            throw new McpError(
+                ErrorCode.InvalidRequest,
+                `No ready pod found for ${resourceType} '${name}' in namespace '${namespace}'`
+            );
+        }
+        return ready[0];
+    } catch (error: any) {
+        if (error instanceof McpError) throw error;
+        if (isNotFoundError(error)) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `${resourceType} '${name}' not found in namespace '${namespace}'`
+            );
+        }
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to find a pod for ${resourceType} '${name}': ${apiErrorMessage(error)}`
+        );
+    }
+}
+
+// Whether kubectl exec failed because the container has no timeout binary
+function isMissingTimeout(result: { exitCode: number | null; stderr: string }): boolean {
+    return result.exitCode !== 0 &&
+        /"timeout": (executable file not found|no such file or directory)/i.test(result.stderr);
+}
+
+export async function kubectlExec(
+    k8sManager: KubernetesManager,
+    input: {
+        resourceType?: string;
+        name: string;
+        namespace?: string;
+        container?: string;
+        command: string[];
+        stdin?: string;
+        timeout?: number;
+        maxOutputBytes?: number;
+        context?: string;
+    }
+) {
+    try {
+        const resourceType = (input.resourceType || "pod").toLowerCase();
+        const name = validateResourceName(input.name);
+        const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+        const context = input.context ? validateContextName(input.context) : undefined;
+        const timeout = input.timeout ?? DEFAULT_EXEC_TIMEOUT_SECONDS;
+        const maxOutputBytes = input.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+        if (!["pod", "deployment", "statefulset"].includes(resourceType)) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Invalid resourceType '${input.resourceType}': must be pod, deployment or statefulset`
+            );
+        }
+        if (input.container) {
+            validateContainerName(input.container);
+        }
+        if (!Array.isArray(input.command) || input.command.length === 0 ||
+            input.command.some((arg) => typeof arg !== "string" || arg.includes("\0"))) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                "Invalid command: must be a non-empty array of strings"
+            );
+        }
+        validatePositiveNumber(input.timeout, "timeout");
+        validatePositiveNumber(input.maxOutputBytes, "maxOutputBytes");
+        if (timeout > MAX_EXEC_TIMEOUT_SECONDS) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Invalid timeout '${timeout}': must be at most ${MAX_EXEC_TIMEOUT_SECONDS} seconds`
+            );
+        }
+
+        const podName = resourceType === "pod"
+            ? name
+            : await pickReadyPod(k8sManager, resourceType, name, namespace, context);
+
+        const kubectlArgs = ["exec", podName, "-n", namespace, ...contextArgs(context)];
+        if (input.container) {
+            kubectlArgs.push("-c", input.container);
+        }
+        if (input.stdin !== undefined) {
+            kubectlArgs.push("-i");
+        }
+        kubectlArgs.push("--");
+
+        const run = (command: string[], limitSeconds: number) =>
+            captureKubectl([...kubectlArgs, ...command], {
+                timeout: limitSeconds * 1000,
+                input: input.stdin,
+                maxOutputBytes: Math.floor(maxOutputBytes),
+            });
+        const start = Date.now();
+        let result = await run(["timeout", String(timeout), ...input.command], timeout + EXEC_KILL_GRACE_SECONDS);
+        // timeout exits with 124, or 143 for busybox, when it stops the command
+        let timedOut = result.timedOut ||
+            ([124, 143].includes(result.exitCode ?? 0) && Date.now() - start >= timeout * 1000);
+        const remoteTimeout = !isMissingTimeout(result);
+        if (!remoteTimeout) {
+            // The wrapper could not start, so neither did the command
+            result = await run(input.command, timeout);
+            timedOut = result.timedOut;
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: JSON.stringify({
+                        pod: podName,
+                        namespace: namespace,
+                        container: input.container,
+                        command: formatCommand(input.command[0], input.command.slice(1)),
+                        exitCode: result.exitCode,
+                        ...(timedOut ? { timedOut: true, error: `Command killed after ${timeout} seconds` } : {}),
+                        ...(timedOut && !remoteTimeout
+                            ? { warning: "timeout is not available in the container, so the command may still be running there" }
+                            : {}),
+                        stdout: result.stdout,
+                        stderr: result.stderr,
+                        ...(result.stdoutTruncated ? { stdoutTruncated: true } : {}),
+                        ...(result.stderrTruncated ? { stderrTruncated: true } : {}),
+                    }, null, 2),
+                },
+            ],
+        };
+    } catch (error: any) {
+        if (error instanceof McpError) {
+            throw error;
+        }
+
+        throw new McpError(
+            ErrorCode.InternalError,
+            `kubectl exec operation failed: ${error.message}`
+        );
+    }
+}
@@ -1,6 +1,15 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl, formatCommand } from "../utils/command-runner.js";
+import {
+  validateCommandWord,
+  validateContextName,
+  validateFlagName,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlGenericSchema = {
   name: "kubectl_generic",
@@ -50,7 +59,8 @@ export const kubectlGenericSchema = {
         items: { type: "string" },
         description: "Additional command arguments",
         optional: true
-      }
+      },
+      context: contextParameter,
     },
     required: ["command"]
   }
@@ -67,60 +77,80 @@ export async function kubectlGeneric(
     outputFormat?: string;
     flags?: Record<string, any>;
     args?: string[];
+    context?: string;
   }
 ) {
   try {
     // Start building the kubectl command
-    let cmdArgs: string[] = ["kubectl", input.command];
+    const cmdArgs: string[] = [validateCommandWord(input.command, "command")];
     
     // Add subcommand if provided
     if (input.subCommand) {
-      cmdArgs.push(input.subCommand);
+      cmdArgs.push(validateCommandWord(input.subCommand, "subCommand"));
     }
     
     // Add resource type if provided
     if (input.resourceType) {
-      cmdArgs.push(input.resourceType);
+      cmdArgs.push(validateResourceType(input.resourceType));
     }
     
     // Add resource name if provided
     if (input.name) {
-      cmdArgs.push(input.name);
+      cmdArgs.push(validateResourceName(input.name));
     }
     
     // Add namespace if provided
     if (input.namespace) {
-      cmdArgs.push(`--namespace=${input.namespace}`);
+      cmdArgs.push(`--namespace=${validateNamespace(input.namespace)}`);
     }
     
+    // Target a specific kubeconfig context if requested
+    cmdArgs.push(...contextArgs(input.context ? validateContextName(input.context) : undefined));
+    
     // Add output format if provided
     if (input.outputFormat) {
+      const formats: string[] = kubectlGenericSchema.inputSchema.properties.outputFormat.enum;
+      if (!formats.includes(input.outputFormat)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid outputFormat '${input.outputFormat}': must be one of ${formats.join(", ")}`
+        );
+      }
       cmdArgs.push(`-o=${input.outputFormat}`);
     }
     
     // Add any provided flags
     if (input.flags) {
       for (const [key, value] of Object.entries(input.flags)) {
+        const flag = validateFlagName(key, "flags");
         if (value === true) {
           // Handle boolean flags
-          cmdArgs.push(`--${key}`);
+          cmdArgs.push(`--${flag}`);
         } else if (value !== false && value !== null && value !== undefined) {
           // Skip false/null/undefined values, add others as --key=value
-          cmdArgs.push(`--${key}=${value}`);
+          cmdArgs.push(`--${flag}=${value}`);
         }
       }
     }
     
-    // Add any additional arguments
+    // Add any additional arguments. They are passed as separate argv entries,
+    // so they may be flags ("-l", "app=web") but never shell syntax.
     if (input.args && input.args.length > 0) {
+      for (const arg of input.args) {
+        if (typeof arg !== "string" || /[\x00-\x1f\x7f]/.test(arg)) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid args entry '${String(arg)}': must be a string without control characters`
+          );
+        }
+      }
       cmdArgs.push(...input.args);
     }
     
-    // Execute the command (join all args except the first "kubectl" which is used in execSync)
-    const command = cmdArgs.slice(1).join(' ');
+    // Execute the command
     try {
-      console.error(`Executing: kubectl ${command}`);
-      const result = execSync(`kubectl ${command}`, { encoding: "utf8" });
+      console.error(`Executing: ${formatCommand("kubectl", cmdArgs)}`);
+      const result = execKubectl(cmdArgs);
       
       return {
         content: [
@@ -1,7 +1,22 @@
 import { KubernetesManager } from "../types.js";
-import * as k8s from "@kubernetes/client-node";
-import { execSync } from "child_process";
+import yaml from "yaml";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import {
+  ApiResourceInfo,
+  apiErrorMessage,
+  isNotFoundError,
+  sortByField,
+} from "../utils/dynamic-client.js";
+import { PrintColumn, printColumns, printNames, printTable } from "../utils/resource-printer.js";
+import {
+  validateContextName,
+  validateFieldSelector,
+  validateLabelSelector,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlGetSchema = {
   name: "kubectl_get",
@@ -47,12 +62,29 @@ export const kubectlGetSchema = {
         type: "string",
         description: "Sort events by a field (default: lastTimestamp). Only applicable for events.",
         optional: true
-      }
+      },
+      context: contextParameter,
     },
     required: ["resourceType"],
   },
 } as const;
 
+// Columns for `output: "custom"`
+const EVENT_COLUMNS: PrintColumn[] = [
+  { header: "LAST SEEN", value: (event) => event.lastTimestamp },
+  { header: "TYPE", value: (event) => event.type },
+  { header: "REASON", value: (event) => event.reason },
+  { header: "OBJECT", value: (event) => `${event.involvedObject?.kind}/${event.involvedObject?.name}` },
+  { header: "MESSAGE", value: (event) => event.message },
+];
+
+const DEFAULT_COLUMNS: PrintColumn[] = [
+  { header: "NAME", value: (item) => item.metadata?.name },
+  { header: "NAMESPACE", value: (item) => item.metadata?.namespace },
+  { header: "STATUS", value: (item) => item.status?.phase },
+  { header: "AGE", value: (item) => item.metadata?.creationTimestamp },
+];
+
 export async function kubectlGet(
   k8sManager: KubernetesManager,
   input: {
@@ -64,144 +96,103 @@ export async function kubectlGet(
     labelSelector?: string;
     fieldSelector?: string;
     sortBy?: string;
+    context?: string;
   }
 ) {
   try {
-    const resourceType = input.resourceType.toLowerCase();
-    const name = input.name || "";
-    const namespace = input.namespace || "default";
+    const resourceType = validateResourceType(input.resourceType).toLowerCase();
+    const name = input.name ? validateResourceName(input.name) : "";
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
     const output = input.output || "json";
     const allNamespaces = input.allNamespaces || false;
-    const labelSelector = input.labelSelector || "";
-    const fieldSelector = input.fieldSelector || "";
-    const sortBy = input.sortBy;
-    
-    // Build the kubectl command
-    let command = "kubectl get ";
-    
-    // Add resource type
-    command += resourceType;
-    
-    // Add name if provided
-    if (name) {
-      command += ` ${name}`;
-    }
-    
+    const labelSelector = input.labelSelector ? validateLabelSelector(input.labelSelector) : "";
+    const fieldSelector = input.fieldSelector ? validateFieldSelector(input.fieldSelector) : "";
+    const context = input.context ? validateContextName(input.context) : undefined;
+
+    const client = k8sManager.getDynamicClient(context);
+    const resource = await client.resolveResource(resourceType);
+    const isEvents = resource.kind === "Event";
+
     // For events, default to all namespaces unless explicitly specified
-    const shouldShowAllNamespaces = resourceType === "events" ? 
+    const shouldShowAllNamespaces = isEvents ?
       (input.namespace ? false : true) : allNamespaces;
-    
-    // Add namespace flag unless all namespaces is specified
-    if (shouldShowAllNamespaces) {
-      command += " --all-namespaces";
-    } else if (namespace && !isNonNamespacedResource(resourceType)) {
-      command += ` -n ${namespace}`;
-    }
-    
-    // Add label selector if provided
-    if (labelSelector) {
-      command += ` -l ${labelSelector}`;
-    }
-    
-    // Add field selector if provided
-    if (fieldSelector) {
-      command += ` --field-selector=${fieldSelector}`;
-    }
-    
-    // Add sort-by for events
-    if (resourceType === "events" && sortBy) {
-      command += ` --sort-by=.${sortBy}`;
-    } else if (resourceType === "events") {
-      command += ` --sort-by=.lastTimestamp`;
-    }
-    
-    // Add output format
-    if (output === "json") {
-      command += " -o json";
-    } else if (output === "yaml") {
-      command += " -o yaml";
-    } else if (output === "wide") {
-      command += " -o wide";
-    } else if (output === "name") {
-      command += " -o name";
-    } else if (output === "custom") {
-      if (resourceType === "events") {
-        command += ` -o 'custom-columns=LAST SEEN:.lastTimestamp,TYPE:.type,REASON:.reason,OBJECT:.involvedObject.kind/.involvedObject.name,MESSAGE:.message'`;
-      } else {
-        command += ` -o 'custom-columns=NAME:.metadata.name,NAMESPACE:.metadata.namespace,STATUS:.status.phase,AGE:.metadata.creationTimestamp'`;
+
+    // Scope the request to the namespace unless all namespaces is specified
+    const listNamespace = resource.namespaced && !shouldShowAllNamespaces ? namespace : undefined;
+    const showNamespace = resource.namespaced && shouldShowAllNamespaces;
+
+    // Sort events by lastTimestamp unless another field is requested
+    let sortBy: string | undefined;
+    if (isEvents) {
+      sortBy = input.sortBy || "lastTimestamp";
+      if (!/^[A-Za-z0-9_.\[\]]+$/.test(sortBy)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid sortBy '${sortBy}'`);
       }
     }
-    
-    // Execute the command
+
     try {
-      const result = execSync(command, { encoding: "utf8" });
-      
-      // Format the results for better readability
-      const isListOperation = !name;
-      if (isListOperation && output === "json") {
-        try {
-          // Parse JSON and extract key information
-          const parsed = JSON.parse(result);
-          
-          if (parsed.kind && parsed.kind.endsWith("List") && parsed.items) {
-            if (resourceType === "events") {
-              const formattedEvents = parsed.items.map((event: any) => ({
-                type: event.type || "",
-                reason: event.reason || "",
-                message: event.message || "",
-                involvedObject: {
-                  kind: event.involvedObject?.kind || "",
-                  name: event.involvedObject?.name || "",
-                  namespace: event.involvedObject?.namespace || "",
-                },
-                firstTimestamp: event.firstTimestamp || "",
-                lastTimestamp: event.lastTimestamp || "",
-                count: event.count || 0,
-              }));
-              
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({ events: formattedEvents }, null, 2),
-                  },
-                ],
-              };
-            } else {
-              const items = parsed.items.map((item: any) => ({
-                name: item.metadata?.name || "",
-                namespace: item.metadata?.namespace || "",
-                kind: item.kind || resourceType,
-                status: getResourceStatus(item),
-                createdAt: item.metadata?.creationTimestamp
-              }));
-              
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({ items }, null, 2),
-                  },
-                ],
-              };
-            }
-          }
-        } catch (parseError) {
-          // If JSON parsing fails, return the raw output
-          console.error("Error parsing JSON:", parseError);
+      // Tables come straight from the API server, the same columns kubectl prints
+      if (output === "wide" || !["json", "yaml", "name", "custom"].includes(output)) {
+        const table = await client.getTable(resource, {
+          name: name || undefined,
+          namespace: listNamespace,
+          labelSelector: labelSelector || undefined,
+          fieldSelector: fieldSelector || undefined,
+          includeObject: !!sortBy,
+        });
+        if (sortBy) {
+          table.rows = sortByField(table.rows, sortBy, (row) => row.object);
+        }
+        return textResult(printTable(table, { wide: output === "wide", showNamespace }));
+      }
+
+      if (name) {
+        const item = await client.getResource(resource, name, listNamespace);
+        return textResult(formatItems([item], true, output, resource, isEvents));
+      }
+
+      const list = await client.listResources(resource, {
+        namespace: listNamespace,
+        labelSelector: labelSelector || undefined,
+        fieldSelector: fieldSelector || undefined,
+      });
+      if (sortBy) {
+        list.items = sortByField(list.items, sortBy);
+      }
+
+      if (output === "json") {
+        if (isEvents) {
+          const formattedEvents = list.items.map((event: any) => ({
+            type: event.type || "",
+            reason: event.reason || "",
+            message: event.message || "",
+            involvedObject: {
+              kind: event.involvedObject?.kind || "",
+              name: event.involvedObject?.name || "",
+              namespace: event.involvedObject?.namespace || "",
+            },
+            firstTimestamp: event.firstTimestamp || "",
+            lastTimestamp: event.lastTimestamp || "",
+            count: event.count || 0,
+          }));
+
+          return textResult(JSON.stringify({ events: formattedEvents }, null, 2));
         }
+
+        const items = list.items.map((item: any) => ({
+          name: item.metadata?.name || "",
+          namespace: item.metadata?.namespace || "",
+          kind: item.kind || resourceType,
+          status: getResourceStatus(item),
+          createdAt: item.metadata?.creationTimestamp
+        }));
+
+        return textResult(JSON.stringify({ items }, null, 2));
       }
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result,
-          },
-        ],
-      };
+
+      return textResult(formatItems(list.items, false, output, resource, isEvents));
     } catch (error: any) {
-      if (error.status === 404 || error.message.includes("not found")) {
+      if (isNotFoundError(error)) {
         return {
           content: [
             {
@@ -219,20 +210,55 @@ export async function kubectlGet(
           isError: true,
         };
       }
-      
+
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to get resource: ${error.message}`
+        `Failed to get resource: ${apiErrorMessage(error)}`
       );
     }
   } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
     throw new McpError(
       ErrorCode.InternalError,
-      `Failed to execute kubectl get command: ${error.message}`
+      `Failed to get resource: ${apiErrorMessage(error)}`
     );
   }
 }
 
+// Format full objects for the json, yaml, name and custom outputs
+function formatItems(
+  items: any[],
+  single: boolean,
+  output: string,
+  resource: ApiResourceInfo,
+  isEvents: boolean
+): string {
+  switch (output) {
+    case "yaml":
+      return yaml.stringify(single ? items[0] : { apiVersion: "v1", kind: "List", items });
+    case "name":
+      return printNames(items, resource);
+    case "custom":
+      return printColumns(items, isEvents ? EVENT_COLUMNS : DEFAULT_COLUMNS);
+    default:
+      return JSON.stringify(single ? items[0] : { apiVersion: "v1", kind: "List", items }, null, 2);
+  }
+}
+
+function textResult(text: string) {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+  };
+}
+
 // Extract status from various resource types
 function getResourceStatus(resource: any): string {
   if (!resource) return "Unknown";
@@ -276,18 +302,3 @@ function getResourceStatus(resource: any): string {
   
   return "Active";
 }
-
-// Helper function to determine if a resource is non-namespaced
-function isNonNamespacedResource(resourceType: string): boolean {
-  const nonNamespacedResources = [
-    "nodes", "node", "no",
-    "namespaces", "namespace", "ns",
-    "persistentvolumes", "pv",
-    "storageclasses", "sc",
-    "clusterroles",
-    "clusterrolebindings",
-    "customresourcedefinitions", "crd", "crds"
-  ];
-  
-  return nonNamespacedResources.includes(resourceType.toLowerCase());
-} 
\ No newline at end of file
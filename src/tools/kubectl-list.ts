@@ -1,7 +1,20 @@
 import { KubernetesManager } from "../types.js";
 import { kubectlGet } from "./kubectl-get.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import {
+  apiErrorMessage,
+  isNotFoundError,
+  sortByField,
+} from "../utils/dynamic-client.js";
+import { PrintColumn, formatAge, printColumns } from "../utils/resource-printer.js";
+import {
+  validateContextName,
+  validateFieldSelector,
+  validateLabelSelector,
+  validateNamespace,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlListSchema = {
   name: "kubectl_list",
@@ -48,7 +61,8 @@ export const kubectlListSchema = {
         type: "string",
         description: "Sort by field (e.g. 'metadata.name', 'metadata.creationTimestamp')",
         optional: true
-      }
+      },
+      context: contextParameter,
     },
     required: ["resourceType"],
   },
@@ -65,17 +79,19 @@ export async function kubectlList(
     fieldSelector?: string;
     limit?: number;
     sortBy?: string;
+    context?: string;
   }
 ) {
   try {
-    const resourceType = input.resourceType.toLowerCase();
-    const namespace = input.namespace || "default";
+    const resourceType = validateResourceType(input.resourceType).toLowerCase();
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
     const output = input.output || "formatted";
     const allNamespaces = input.allNamespaces || false;
-    const labelSelector = input.labelSelector || "";
-    const fieldSelector = input.fieldSelector || "";
+    const labelSelector = input.labelSelector ? validateLabelSelector(input.labelSelector) : "";
+    const fieldSelector = input.fieldSelector ? validateFieldSelector(input.fieldSelector) : "";
     const limit = input.limit;
     const sortBy = input.sortBy || "";
+    const context = input.context ? validateContextName(input.context) : undefined;
 
     // If not using formatted output, delegate to kubectl_get
     if (output !== "formatted") {
@@ -85,132 +101,53 @@ export async function kubectlList(
         output: input.output,
         allNamespaces: input.allNamespaces,
         labelSelector: input.labelSelector,
-        fieldSelector: input.fieldSelector
+        fieldSelector: input.fieldSelector,
+        context: input.context
       });
     }
 
-    // For formatted output, we'll use resource-specific custom columns
-    let customColumns = "";
-
-    switch (resourceType) {
-      case "pods":
-      case "pod":
-      case "po":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,STATUS:.status.phase,NODE:.spec.nodeName,IP:.status.podIP,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "deployments":
-      case "deployment":
-      case "deploy":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,READY:.status.readyReplicas/.status.replicas,UP-TO-DATE:.status.updatedReplicas,AVAILABLE:.status.availableReplicas,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "services":
-      case "service":
-      case "svc":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,TYPE:.spec.type,CLUSTER-IP:.spec.clusterIP,EXTERNAL-IP:.status.loadBalancer.ingress[0].ip,PORTS:.spec.ports[*].port,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "nodes":
-      case "node":
-      case "no":
-        customColumns = "NAME:.metadata.name,STATUS:.status.conditions[?(@.type==\"Ready\")].status,ROLES:.metadata.labels.kubernetes\\.io/role,VERSION:.status.nodeInfo.kubeletVersion,INTERNAL-IP:.status.addresses[?(@.type==\"InternalIP\")].address,OS-IMAGE:.status.nodeInfo.osImage,KERNEL-VERSION:.status.nodeInfo.kernelVersion,CONTAINER-RUNTIME:.status.nodeInfo.containerRuntimeVersion";
-        break;
-
-      case "namespaces":
-      case "namespace":
-      case "ns":
-        customColumns = "NAME:.metadata.name,STATUS:.status.phase,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "persistentvolumes":
-      case "pv":
-        customColumns = "NAME:.metadata.name,CAPACITY:.spec.capacity.storage,ACCESS_MODES:.spec.accessModes,RECLAIM_POLICY:.spec.persistentVolumeReclaimPolicy,STATUS:.status.phase,CLAIM:.spec.claimRef.name,STORAGECLASS:.spec.storageClassName,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "persistentvolumeclaims":
-      case "pvc":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,STATUS:.status.phase,VOLUME:.spec.volumeName,CAPACITY:.status.capacity.storage,ACCESS_MODES:.spec.accessModes,STORAGECLASS:.spec.storageClassName,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "configmaps":
-      case "configmap":
-      case "cm":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,DATA:.data,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "secrets":
-      case "secret":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,TYPE:.type,DATA:.data,AGE:.metadata.creationTimestamp";
-        break;
-
-      case "jobs":
-      case "job":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,COMPLETIONS:.status.succeeded/.spec.completions,DURATION:.status.completionTime-(.status.startTime),AGE:.metadata.creationTimestamp";
-        break;
-
-      case "cronjobs":
-      case "cronjob":
-      case "cj":
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,SCHEDULE:.spec.schedule,SUSPEND:.spec.suspend,ACTIVE:.status.active,LAST_SCHEDULE:.status.lastScheduleTime,AGE:.metadata.creationTimestamp";
-        break;
-
-      default:
-        // For unknown resource types, fall back to a generic format
-        customColumns = "NAME:.metadata.name,NAMESPACE:.metadata.namespace,KIND:.kind,AGE:.metadata.creationTimestamp";
-        break;
-    }
-
-    // Build the kubectl command
-    let command = "kubectl get ";
-
-    // Add resource type
-    command += resourceType;
+    const client = k8sManager.getDynamicClient(context);
+    const resource = await client.resolveResource(resourceType);
 
-    // Add namespace flag unless all namespaces is specified
-    if (allNamespaces) {
-      command += " --all-namespaces";
-    } else if (namespace && !isNonNamespacedResource(resourceType)) {
-      command += ` -n ${namespace}`;
+    if (sortBy && !/^\.?[A-Za-z0-9_.\[\]]+$/.test(sortBy)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid sortBy '${sortBy}'`);
     }
 
-    // Add label selector if provided
-    if (labelSelector) {
-      command += ` -l ${labelSelector}`;
-    }
-
-    // Add field selector if provided
-    if (fieldSelector) {
-      command += ` --field-selector=${fieldSelector}`;
-    }
+    try {
+      const list = await client.listResources(resource, {
+        // List in the namespace unless all namespaces is specified
+        namespace: resource.namespaced && !allNamespaces ? namespace : undefined,
+        labelSelector: labelSelector || undefined,
+        fieldSelector: fieldSelector || undefined,
+      });
 
-    // Add sort-by if provided
-    if (sortBy) {
-      command += ` --sort-by=${sortBy}`;
-    }
+      let items: any[] = list.items;
+      if (sortBy) {
+        items = sortByField(items, sortBy);
+      }
 
-    // Add custom columns format
-    command += ` -o custom-columns="${customColumns}"`;
+      if (items.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No resources found",
+            },
+          ],
+        };
+      }
 
-    // Execute the command
-    try {
-      const result = execSync(command, { encoding: "utf8" });
+      // Apply limit if specified
+      const total = items.length;
+      if (limit && limit > 0) {
+        items = items.slice(0, limit);
+      }
 
-      // Apply limit if specified and output is not JSON/YAML
-      let finalResult = result;
-      if (limit && limit > 0 && output === "formatted") {
-        const lines = result.trim().split('\n');
-        if (lines.length > 1) { // Keep header
-          const header = lines[0];
-          const dataLines = lines.slice(1);
-          const limitedLines = dataLines.slice(0, limit);
-          finalResult = [header, ...limitedLines].join('\n');
+      let finalResult = printColumns(items, FORMATTED_COLUMNS[resource.kind] || GENERIC_COLUMNS);
 
-          // Add summary if we limited the results
-          if (dataLines.length > limit) {
-            finalResult += `\n\n... showing ${limit} of ${dataLines.length} results (use limit parameter to see more)`;
-          }
-        }
+      // Add summary if we limited the results
+      if (items.length < total) {
+        finalResult += `\n\n... showing ${items.length} of ${total} results (use limit parameter to see more)`;
       }
 
       return {
@@ -222,7 +159,7 @@ export async function kubectlList(
         ],
       };
     } catch (error: any) {
-      if (error.status === 404 || error.message.includes("not found")) {
+      if (isNotFoundError(error)) {
         return {
           content: [
             {
@@ -243,28 +180,133 @@ export async function kubectlList(
 
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to list resources: ${error.message}`
+        `Failed to list resources: ${apiErrorMessage(error)}`
       );
     }
   } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
     throw new McpError(
       ErrorCode.InternalError,
-      `Failed to execute kubectl list command: ${error.message}`
+      `Failed to list resources: ${apiErrorMessage(error)}`
     );
   }
 }
 
-// Helper function to determine if a resource is non-namespaced
-function isNonNamespacedResource(resourceType: string): boolean {
-  const nonNamespacedResources = [
-    "nodes", "node", "no",
-    "namespaces", "namespace", "ns",
-    "persistentvolumes", "pv",
-    "storageclasses", "sc",
-    "clusterroles",
-    "clusterrolebindings",
-    "customresourcedefinitions", "crd", "crds"
-  ];
+const nameColumn: PrintColumn = { header: "NAME", value: (item) => item.metadata?.name };
+const namespaceColumn: PrintColumn = { header: "NAMESPACE", value: (item) => item.metadata?.namespace };
+const ageColumn: PrintColumn = { header: "AGE", value: (item) => formatAge(item.metadata?.creationTimestamp) };
+
+const GENERIC_COLUMNS: PrintColumn[] = [
+  nameColumn,
+  namespaceColumn,
+  { header: "KIND", value: (item) => item.kind },
+  ageColumn,
+];
 
-  return nonNamespacedResources.includes(resourceType.toLowerCase());
-} 
\ No newline at end of file
+// Resource-specific columns with the key information for each kind
+const FORMATTED_COLUMNS: Record<string, PrintColumn[]> = {
+  Pod: [
+    nameColumn,
+    namespaceColumn,
+    { header: "STATUS", value: (pod) => pod.status?.phase },
+    { header: "NODE", value: (pod) => pod.spec?.nodeName },
+    { header: "IP", value: (pod) => pod.status?.podIP },
+    ageColumn,
+  ],
+  Deployment: [
+    nameColumn,
+    namespaceColumn,
+    { header: "READY", value: (deploy) => `${deploy.status?.readyReplicas || 0}/${deploy.status?.replicas || 0}` },
+    { header: "UP-TO-DATE", value: (deploy) => deploy.status?.updatedReplicas || 0 },
+    { header: "AVAILABLE", value: (deploy) => deploy.status?.availableReplicas || 0 },
+    ageColumn,
+  ],
+  Service: [
+    nameColumn,
+    namespaceColumn,
+    { header: "TYPE", value: (svc) => svc.spec?.type },
+    { header: "CLUSTER-IP", value: (svc) => svc.spec?.clusterIP },
+    { header: "EXTERNAL-IP", value: (svc) => svc.status?.loadBalancer?.ingress?.[0]?.ip },
+    { header: "PORTS", value: (svc) => svc.spec?.ports?.map((port: any) => port.port) },
+    ageColumn,
+  ],
+  Node: [
+    nameColumn,
+    {
+      header: "STATUS",
+      value: (node) => node.status?.conditions?.find((c: any) => c.type === "Ready")?.status,
+    },
+    { header: "ROLES", value: (node) => node.metadata?.labels?.["kubernetes.io/role"] },
+    { header: "VERSION", value: (node) => node.status?.nodeInfo?.kubeletVersion },
+    {
+      header: "INTERNAL-IP",
+      value: (node) => node.status?.addresses?.find((a: any) => a.type === "InternalIP")?.address,
+    },
+    { header: "OS-IMAGE", value: (node) => node.status?.nodeInfo?.osImage },
+    { header: "KERNEL-VERSION", value: (node) => node.status?.nodeInfo?.kernelVersion },
+    { header: "CONTAINER-RUNTIME", value: (node) => node.status?.nodeInfo?.containerRuntimeVersion },
+  ],
+  Namespace: [
+    nameColumn,
+    { header: "STATUS", value: (ns) => ns.status?.phase },
+    ageColumn,
+  ],
+  PersistentVolume: [
+    nameColumn,
+    { header: "CAPACITY", value: (pv) => pv.spec?.capacity?.storage },
+    { header: "ACCESS_MODES", value: (pv) => pv.spec?.accessModes },
+    { header: "RECLAIM_POLICY", value: (pv) => pv.spec?.persistentVolumeReclaimPolicy },
+    { header: "STATUS", value: (pv) => pv.status?.phase },
+    { header: "CLAIM", value: (pv) => pv.spec?.claimRef?.name },
+    { header: "STORAGECLASS", value: (pv) => pv.spec?.storageClassName },
+    ageColumn,
+  ],
+  PersistentVolumeClaim: [
+    nameColumn,
+    namespaceColumn,
+    { header: "STATUS", value: (pvc) => pvc.status?.phase },
+    { header: "VOLUME", value: (pvc) => pvc.spec?.volumeName },
+    { header: "CAPACITY", value: (pvc) => pvc.status?.capacity?.storage },
+    { header: "ACCESS_MODES", value: (pvc) => pvc.spec?.accessModes },
+    { header: "STORAGECLASS", value: (pvc) => pvc.spec?.storageClassName },
+    ageColumn,
+  ],
+  ConfigMap: [
+    nameColumn,
+    namespaceColumn,
+    { header: "DATA", value: (cm) => Object.keys(cm.data || {}).length + Object.keys(cm.binaryData || {}).length },
+    ageColumn,
+  ],
+  Secret: [
+    nameColumn,
+    namespaceColumn,
+    { header: "TYPE", value: (secret) => secret.type },
+    { header: "DATA", value: (secret) => Object.keys(secret.data || {}).length },
+    ageColumn,
+  ],
+  Job: [
+    nameColumn,
+    namespaceColumn,
+    { header: "COMPLETIONS", value: (job) => `${job.status?.succeeded || 0}/${job.spec?.completions ?? 1}` },
+    {
+      header: "DURATION",
+      value: (job) =>
+        job.status?.startTime && job.status?.completionTime
+          ? `${Math.round((Date.parse(job.status.completionTime) - Date.parse(job.status.startTime)) / 1000)}s`
+          : undefined,
+    },
+    ageColumn,
+  ],
+  CronJob: [
+    nameColumn,
+    namespaceColumn,
+    { header: "SCHEDULE", value: (cj) => cj.spec?.schedule },
+    { header: "SUSPEND", value: (cj) => String(cj.spec?.suspend ?? false) },
+    { header: "ACTIVE", value: (cj) => cj.status?.active?.length || 0 },
+    { header: "LAST_SCHEDULE", value: (cj) => cj.status?.lastScheduleTime },
+    ageColumn,
+  ],
+};
@@ -1,10 +1,47 @@
-import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
+import { KubernetesManager, ToolCallControls } from "../types.js";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl, streamKubectl } from "../utils/command-runner.js";
+import {
+  createLogMatcher,
+  filterLogs,
+  hasLogFilters,
+  LOG_LEVELS,
+  LogEntry,
+  LogFilterOptions,
+  needsTimestamps,
+  parseLogs,
+  structuredLogEntry,
+  summarizeLogEntries,
+  validateLogFilterOptions,
+} from "../utils/log-filter.js";
+import {
+  validateArgument,
+  validateContainerName,
+  validateContextName,
+  validateDuration,
+  validateLabelSelector,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
+
+// Caps on the merged logs of workloads and label selectors
+const DEFAULT_MAX_LINES_PER_POD = 200;
+const DEFAULT_MAX_BYTES = 100_000;
+// Lines per container searched by filters, as a multiple of maxLinesPerPod
+const FILTERED_TAIL_FACTOR = 50;
+
+// Bounds of follow mode
+const DEFAULT_FOLLOW_SECONDS = 30;
+const MAX_FOLLOW_SECONDS = 600;
+const DEFAULT_FOLLOW_TAIL = 100;
+const MAX_FOLLOW_LINES = 5000;
+const PROGRESS_INTERVAL_MS = 1000;
 
 export const kubectlLogsSchema = {
   name: "kubectl_logs",
-  description: "Get logs from Kubernetes resources like pods, deployments, or jobs",
+  description:
+    "Get logs from Kubernetes resources like pods, deployments, or jobs. Filter on the server by regex, level, time window or JSON/logfmt fields, and use output 'summary' to get repeated lines grouped into patterns instead of the raw text",
   inputSchema: {
     type: "object",
     properties: {
@@ -54,14 +91,78 @@ export const kubectlLogsSchema = {
       },
       follow: {
         type: "boolean",
-        description: "Follow logs output (not recommended, may cause timeouts)",
+        description: `Follow the logs of a pod for up to followSeconds, or until a line matches 'until', then return the lines collected. New lines are sent as progress notifications while following, and the client can cancel at any time. Without tail or since, starts from the last ${DEFAULT_FOLLOW_TAIL} lines`,
         default: false,
       },
+      followSeconds: {
+        type: "number",
+        description: `How long to follow, in seconds (max ${MAX_FOLLOW_SECONDS})`,
+        default: DEFAULT_FOLLOW_SECONDS,
+      },
+      until: {
+        type: "string",
+        description: "Stop following as soon as a line matches this regular expression, e.g. 'Server started'",
+        optional: true,
+      },
       labelSelector: {
         type: "string",
         description: "Filter resources by label selector",
         optional: true,
-      }
+      },
+      grep: {
+        type: "string",
+        description: "Only return log entries matching this regular expression",
+        optional: true,
+      },
+      exclude: {
+        type: "string",
+        description: "Drop log entries matching this regular expression",
+        optional: true,
+      },
+      level: {
+        type: "string",
+        enum: [...LOG_LEVELS],
+        description: "Only return entries at this log level or above, detected from JSON/logfmt fields or the line text",
+        optional: true,
+      },
+      startTime: {
+        type: "string",
+        description: "Only return entries at or after this time (RFC3339)",
+        optional: true,
+      },
+      endTime: {
+        type: "string",
+        description: "Only return entries before this time (RFC3339)",
+        optional: true,
+      },
+      fields: {
+        type: "array",
+        items: { type: "string" },
+        description: "Conditions on JSON or logfmt fields, all of which must match, e.g. [\"level=error\", \"status>=500\", \"msg=~timeout\"]. Operators: =, !=, =~ (regex), >, >=, <, <=",
+        optional: true,
+      },
+      output: {
+        type: "string",
+        enum: ["text", "structured", "summary"],
+        description: "text: matching lines; structured: parsed entries with time, level, message and fields; summary: repeated lines grouped into patterns with counts and first/last occurrence",
+        default: "text",
+      },
+      merge: {
+        type: "boolean",
+        description: "For deployments, jobs and label selectors, merge the logs of all pods and containers (init and sidecar containers included) into one timestamp-ordered stream with each line prefixed by [pod/container]. Set to false to get the logs of each pod separately",
+        default: true,
+      },
+      maxLinesPerPod: {
+        type: "number",
+        description: "Merged logs: newest entries kept per pod",
+        default: DEFAULT_MAX_LINES_PER_POD,
+      },
+      maxBytes: {
+        type: "number",
+        description: "Merged logs: size budget of the returned logs; older entries are dropped first",
+        default: DEFAULT_MAX_BYTES,
+      },
+      context: contextParameter,
     },
     required: ["resourceType", "name", "namespace"],
   },
@@ -80,51 +181,68 @@ export async function kubectlLogs(
     timestamps?: boolean;
     previous?: boolean;
     follow?: boolean;
+    followSeconds?: number;
+    until?: string;
     labelSelector?: string;
-  }
+    merge?: boolean;
+    maxLinesPerPod?: number;
+    maxBytes?: number;
+    context?: string;
+  } & LogFilterOptions,
+  controls: ToolCallControls = {}
 ) {
   try {
     const resourceType = input.resourceType.toLowerCase();
-    const name = input.name;
-    const namespace = input.namespace || "default";
-    
-    // Build the kubectl command base
-    let baseCommand = `kubectl -n ${namespace}`;
+    const name = validateResourceName(input.name);
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+    validateLogOptions(input);
+    const baseArgs = [...contextArgs(input.context), "-n", namespace];
+    if (input.follow && resourceType !== "pod") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "follow is only supported for pods; use tail or since for other resource types"
+      );
+    }
     
     // Handle different resource types
     if (resourceType === "pod") {
       // Direct pod logs
-      baseCommand += ` logs ${name}`;
+      const args = [...baseArgs, "logs", name];
       
       // If container is specified, add it
       if (input.container) {
-        baseCommand += ` -c ${input.container}`;
+        args.push("-c", input.container);
       }
       
       // Add options
-      baseCommand = addLogOptions(baseCommand, input);
+      const startsAtTail = input.tail === undefined && !input.since && !input.sinceTime && !input.startTime;
+      addLogOptions(args, input.follow && startsAtTail ? { ...input, tail: DEFAULT_FOLLOW_TAIL } : input);
+      
+      if (input.follow) {
+        return await followLogs(args, name, input, controls);
+      }
       
       // Execute the command
       try {
-        const result = execSync(baseCommand, { encoding: "utf8" });
-        return formatLogOutput(name, result);
+        const result = execKubectl(args);
+        return formatLogOutput(name, processLogs(result, input));
       } catch (error: any) {
         return handleCommandError(error, `pod ${name}`);
       }
     } else if (resourceType === "deployment" || resourceType === "job" || resourceType === "cronjob") {
       // For deployments, jobs and cronjobs we need to find the pods first
-      let selectorCommand;
+      let selectorArgs: string[] | undefined;
       
       if (resourceType === "deployment") {
-        selectorCommand = `kubectl -n ${namespace} get deployment ${name} -o jsonpath='{.spec.selector.matchLabels}'`;
+        selectorArgs = [...baseArgs, "get", "deployment", name, "-o", "jsonpath={.spec.selector.matchLabels}"];
       } else if (resourceType === "job") {
         // For jobs, we use the job-name label
         return getLabelSelectorLogs(`job-name=${name}`, namespace, input);
       } else if (resourceType === "cronjob") {
         // For cronjobs, it's more complex - need to find the job first
-        const jobsCommand = `kubectl -n ${namespace} get jobs --selector=job-name=${name} -o jsonpath='{.items[*].metadata.name}'`;
+        const jobsArgs = [...baseArgs, "get", "jobs", `--selector=job-name=${name}`, "-o", "jsonpath={.items[*].metadata.name}"];
         try {
-          const jobs = execSync(jobsCommand, { encoding: "utf8" }).trim().split(' ');
+          const jobs = execKubectl(jobsArgs).trim().split(' ');
           
           if (jobs.length === 0 || (jobs.length === 1 && jobs[0] === '')) {
             return {
@@ -177,10 +295,10 @@ export async function kubectlLogs(
       try {
         if (resourceType === "deployment") {
           // Get the deployment's selector
-          if (!selectorCommand) {
+          if (!selectorArgs) {
             throw new Error("Selector command is undefined");
           }
-          const selectorJson = execSync(selectorCommand, { encoding: "utf8" }).trim();
+          const selectorJson = execKubectl(selectorArgs).trim();
           const selector = JSON.parse(selectorJson.replace(/'/g, '"'));
           
           // Convert to label selector format
@@ -212,7 +330,7 @@ export async function kubectlLogs(
       }
     } else if (input.labelSelector) {
       // Handle logs by label selector
-      return getLabelSelectorLogs(input.labelSelector, namespace, input);
+      return getLabelSelectorLogs(validateLabelSelector(input.labelSelector), namespace, input);
     } else {
       throw new McpError(
         ErrorCode.InvalidRequest,
@@ -228,36 +346,82 @@ export async function kubectlLogs(
   }
 }
 
-// Helper function to add log options to the kubectl command
-function addLogOptions(baseCommand: string, input: any): string {
-  let command = baseCommand;
-  
+// Helper function to validate the user-supplied log options before any command is built
+function validateLogOptions(input: any): void {
+  if (input.container) {
+    validateContainerName(input.container);
+  }
+  if (input.context) {
+    validateContextName(input.context);
+  }
+  if (input.tail !== undefined && !Number.isInteger(input.tail)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid tail '${input.tail}': must be an integer`
+    );
+  }
+  if (input.since) {
+    validateDuration(input.since, "since");
+  }
+  if (input.followSeconds !== undefined &&
+      (!Number.isInteger(input.followSeconds) || input.followSeconds < 1 || input.followSeconds > MAX_FOLLOW_SECONDS)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid followSeconds '${input.followSeconds}': must be an integer from 1 to ${MAX_FOLLOW_SECONDS}`
+    );
+  }
+  if (input.until) {
+    try {
+      new RegExp(input.until);
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid until '${input.until}': ${error.message}`);
+    }
+  }
+  for (const field of ["maxLinesPerPod", "maxBytes"]) {
+    if (input[field] !== undefined && (!Number.isInteger(input[field]) || input[field] < 1)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid ${field} '${input[field]}': must be a positive integer`
+      );
+    }
+  }
+  if (input.sinceTime) {
+    validateArgument(input.sinceTime, "sinceTime");
+  }
+  validateLogFilterOptions(input);
+}
+
+// Helper function to add log options to the kubectl arguments
+function addLogOptions(args: string[], input: any): string[] {
   // Add options based on inputs
   if (input.tail !== undefined) {
-    command += ` --tail=${input.tail}`;
+    args.push(`--tail=${input.tail}`);
   }
   
   if (input.since) {
-    command += ` --since=${input.since}`;
+    args.push(`--since=${input.since}`);
   }
   
   if (input.sinceTime) {
-    command += ` --since-time=${input.sinceTime}`;
+    args.push(`--since-time=${input.sinceTime}`);
+  } else if (input.startTime && !input.since) {
+    // Let kubectl skip older lines instead of filtering them here
+    args.push(`--since-time=${new Date(input.startTime).toISOString()}`);
   }
   
-  if (input.timestamps) {
-    command += ` --timestamps`;
+  if (input.timestamps || needsTimestamps(input)) {
+    args.push("--timestamps");
   }
   
   if (input.previous) {
-    command += ` --previous`;
+    args.push("--previous");
   }
   
   if (input.follow) {
-    command += ` --follow`;
+    args.push("--follow");
   }
   
-  return command;
+  return args;
 }
 
 // Helper function to get logs for resources selected by labels
@@ -266,12 +430,14 @@ async function getLabelSelectorLogs(
   namespace: string,
   input: any
 ): Promise<{ content: Array<{ type: string; text: string }> }> {
+  const baseArgs = [...contextArgs(input.context), "-n", namespace];
+
   try {
     // First, find all pods matching the label selector
-    const podsCommand = `kubectl -n ${namespace} get pods --selector=${labelSelector} -o jsonpath='{.items[*].metadata.name}'`;
-    const pods = execSync(podsCommand, { encoding: "utf8" }).trim().split(' ');
+    const podsArgs = [...baseArgs, "get", "pods", `--selector=${labelSelector}`, "-o", "json"];
+    const podList: any[] = JSON.parse(execKubectl(podsArgs)).items || [];
     
-    if (pods.length === 0 || (pods.length === 1 && pods[0] === '')) {
+    if (podList.length === 0) {
       return {
         content: [
           {
@@ -288,26 +454,27 @@ async function getLabelSelectorLogs(
       };
     }
     
+    if (input.merge !== false) {
+      return getMergedLogs(podList, labelSelector, namespace, input);
+    }
+    
     // Get logs for each pod
-    const logsMap: Record<string, string> = {};
+    const logsMap: Record<string, any> = {};
     
-    for (const pod of pods) {
-      // Skip empty pod names
-      if (!pod) continue;
-      
-      let podCommand = `kubectl -n ${namespace} logs ${pod}`;
+    for (const pod of podList.map((p) => p.metadata.name)) {
+      const podArgs = [...baseArgs, "logs", pod];
       
       // Add container if specified
       if (input.container) {
-        podCommand += ` -c ${input.container}`;
+        podArgs.push("-c", input.container);
       }
       
       // Add other options
-      podCommand = addLogOptions(podCommand, input);
+      addLogOptions(podArgs, input);
       
       try {
-        const logs = execSync(podCommand, { encoding: "utf8" });
-        logsMap[pod] = logs;
+        const logs = execKubectl(podArgs);
+        logsMap[pod] = processLogs(logs, input);
       } catch (error: any) {
         logsMap[pod] = `Error: ${error.message}`;
       }
@@ -334,8 +501,207 @@ async function getLabelSelectorLogs(
   }
 }
 
+// Helper function to follow logs for a bounded time, sending new lines as
+// progress notifications, until a line matches `until`, the time is up, the
+// container exits or the client cancels
+async function followLogs(
+  args: string[],
+  podName: string,
+  input: any,
+  controls: ToolCallControls
+) {
+  const until = input.until ? new RegExp(input.until) : undefined;
+  const followSeconds = input.followSeconds ?? DEFAULT_FOLLOW_SECONDS;
+  const lines: string[] = [];
+  let pending: string[] = [];
+  let received = 0;
+  let matchedLine: string | undefined;
+  const started = Date.now();
+
+  const sendPending = async () => {
+    if (!controls.reportProgress || pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    try {
+      await controls.reportProgress(received, batch.join("\n"));
+    } catch (error) {
+      // The client may be gone; the lines are still returned at the end
+      console.error("Failed to send log progress:", error);
+    }
+  };
+  const progressTimer = setInterval(sendPending, PROGRESS_INTERVAL_MS);
+
+  let result;
+  try {
+    result = await streamKubectl(args, {
+      timeout: followSeconds * 1000,
+      signal: controls.signal,
+      onLine: (line) => {
+        received++;
+        lines.push(line);
+        pending.push(line);
+        // Keep only the newest lines
+        if (lines.length > MAX_FOLLOW_LINES) lines.shift();
+        if (until?.test(line)) {
+          matchedLine = line;
+          return true;
+        }
+      },
+    });
+  } catch (error: any) {
+    return handleCommandError(error, `pod ${podName}`);
+  } finally {
+    clearInterval(progressTimer);
+  }
+  await sendPending();
+
+  if (result.reason === "exited" && result.exitCode !== 0 && received === 0) {
+    return handleCommandError(
+      Object.assign(new Error(result.stderr.trim() || `kubectl exited with code ${result.exitCode}`), { status: result.exitCode }),
+      `pod ${podName}`
+    );
+  }
+
+  const stoppedBy = { stopped: "match", timeout: "timeout", cancelled: "cancelled", exited: "exited" }[result.reason];
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            name: podName,
+            logs: processLogs(lines.join("\n"), input),
+            follow: {
+              stoppedBy,
+              ...(until ? { matched: matchedLine !== undefined } : {}),
+              ...(matchedLine !== undefined ? { matchedLine } : {}),
+              seconds: Math.round((Date.now() - started) / 100) / 10,
+              lines: received,
+              ...(received > lines.length ? { droppedLines: received - lines.length } : {}),
+            },
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+// Helper function to merge the logs of all containers of the pods into one
+// timestamp-ordered stream, capped per pod and in total
+function getMergedLogs(
+  pods: any[],
+  labelSelector: string,
+  namespace: string,
+  input: any
+): { content: Array<{ type: string; text: string }> } {
+  const baseArgs = [...contextArgs(input.context), "-n", namespace];
+  const maxLinesPerPod = input.maxLinesPerPod ?? DEFAULT_MAX_LINES_PER_POD;
+  const maxBytes = input.maxBytes ?? DEFAULT_MAX_BYTES;
+  const filtered = hasLogFilters(input);
+  const matches = createLogMatcher(input);
+  const errors: Record<string, string> = {};
+  let merged: Array<LogEntry & { pod: string; container: string }> = [];
+  let containerCount = 0;
+  let totalEntries = 0;
+  let matchedEntries = 0;
+
+  for (const pod of pods) {
+    const podName = pod.metadata.name;
+    // Init and sidecar containers too, unless one container was asked for
+    const containers: string[] = input.container
+      ? [input.container]
+      : [...(pod.spec?.initContainers || []), ...(pod.spec?.containers || [])].map((c: any) => c.name);
+    const podEntries: typeof merged = [];
+
+    for (const container of containers) {
+      containerCount++;
+      const args = [...baseArgs, "logs", podName, "-c", container];
+      // Filters search a longer, still bounded, tail; otherwise only the capped tail is fetched
+      const tail = filtered
+        ? input.tail ?? maxLinesPerPod * FILTERED_TAIL_FACTOR
+        : Math.min(input.tail ?? maxLinesPerPod, maxLinesPerPod);
+      addLogOptions(args, { ...input, tail, timestamps: true, follow: false });
+      try {
+        const entries = parseLogs(execKubectl(args));
+        totalEntries += entries.length;
+        podEntries.push(...entries.filter(matches).map((entry) => ({ ...entry, pod: podName, container })));
+      } catch (error: any) {
+        // Typically an init container that has not run or a container not started yet
+        errors[`${podName}/${container}`] = error.message;
+      }
+    }
+    matchedEntries += podEntries.length;
+    merged.push(...sortByTime(podEntries).slice(-maxLinesPerPod));
+  }
+  merged = sortByTime(merged);
+
+  const result: Record<string, any> = {
+    selector: labelSelector,
+    namespace: namespace,
+    pods: pods.length,
+    containers: containerCount,
+    totalEntries,
+    matchedEntries,
+  };
+
+  if (input.output === "summary") {
+    Object.assign(result, summarizeLogEntries(merged));
+  } else {
+    const rendered = merged.map((entry) =>
+      input.output === "structured"
+        ? JSON.stringify({ pod: entry.pod, container: entry.container, ...structuredLogEntry(entry) })
+        : entry.text
+            .split("\n")
+            .map((line) => `${input.timestamps ? `${entry.time} ` : ""}[${entry.pod}/${entry.container}] ${line}`)
+            .join("\n")
+    );
+
+    // Keep the newest entries that fit in the byte budget
+    let bytes = 0;
+    let first = rendered.length;
+    while (first > 0 && bytes + Buffer.byteLength(rendered[first - 1]) + 1 <= maxBytes) {
+      bytes += Buffer.byteLength(rendered[first - 1]) + 1;
+      first--;
+    }
+    const kept = rendered.slice(first);
+    result.returnedEntries = kept.length;
+    if (kept.length < matchedEntries) {
+      result.truncated = `${matchedEntries - kept.length} older entries omitted by maxLinesPerPod (${maxLinesPerPod}) and maxBytes (${maxBytes})`;
+    }
+    if (input.output === "structured") {
+      result.entries = kept.map((line) => JSON.parse(line));
+    } else {
+      result.logs = kept.join("\n");
+    }
+  }
+  if (Object.keys(errors).length > 0) {
+    result.errors = errors;
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
+// Helper function to order entries by time; ties keep their order
+function sortByTime<T extends LogEntry>(entries: T[]): T[] {
+  return [...entries].sort((a, b) => (a.time ?? "").localeCompare(b.time ?? ""));
+}
+
+// Helper function to apply the server-side filters, if any, to kubectl's output
+function processLogs(logOutput: string, input: any) {
+  return hasLogFilters(input) ? filterLogs(logOutput, input, !!input.timestamps) : logOutput;
+}
+
 // Helper function to format log output
-function formatLogOutput(resourceName: string, logOutput: string) {
+function formatLogOutput(resourceName: string, logOutput: string | object) {
   return {
     content: [
       {
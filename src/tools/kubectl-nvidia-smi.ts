@@ -1,6 +1,16 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl, formatCommand } from "../utils/command-runner.js";
+import {
+    validateContainerName,
+    validateContextName,
+    validateNamespace,
+    validateResourceName,
+} from "../utils/validation.js";
+
+// nvidia-smi query fields, e.g. "name,memory.used,utilization.gpu"
+const QUERY_GPU_FIELDS = /^[A-Za-z0-9_.]+(,[A-Za-z0-9_.]+)*$/;
 
 export const kubectlNvidiaSmiSchema = {
     name: "kubectl_nvidia_smi",
@@ -32,7 +42,8 @@ export const kubectlNvidiaSmiSchema = {
                 type: "string",
                 description: "Specific nvidia-smi query options (e.g., 'gpu', 'memory', 'utilization')",
                 optional: true,
-            }
+            },
+            context: contextParameter,
         },
         required: ["podName"],
     },
@@ -46,16 +57,27 @@ export async function kubectlNvidiaSmi(
         container?: string;
         outputFormat?: "json" | "text";
         queryGpu?: string;
+        context?: string;
     }
 ) {
     try {
-        const namespace = input.namespace || "default";
+        const podName = validateResourceName(input.podName, "podName");
+        const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
         const outputFormat = input.outputFormat || "text";
+        const context = input.context ? validateContextName(input.context) : undefined;
+        if (input.container) {
+            validateContainerName(input.container);
+        }
+        if (input.queryGpu && !QUERY_GPU_FIELDS.test(input.queryGpu)) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Invalid queryGpu '${input.queryGpu}': must be a comma separated list of nvidia-smi query fields`
+            );
+        }
 
         // First, check if the pod exists
         try {
-            const checkPodCommand = `kubectl get pod ${input.podName} -n ${namespace} --no-headers`;
-            execSync(checkPodCommand, { encoding: "utf8" });
+            execKubectl(["get", "pod", podName, "-n", namespace, ...contextArgs(context), "--no-headers"]);
         } catch (error: any) {
             throw new McpError(
                 ErrorCode.InvalidRequest,
@@ -64,30 +86,30 @@ export async function kubectlNvidiaSmi(
         }
 
         // Build the nvidia-smi command based on output format and query options
-        let nvidiaSmiCommand = "nvidia-smi";
+        const nvidiaSmiArgs = ["nvidia-smi"];
 
         if (outputFormat === "json") {
-            nvidiaSmiCommand += " --query-gpu=index,name,driver_version,memory.total,memory.used,memory.free,utilization.gpu,utilization.memory,temperature.gpu --format=csv,noheader,nounits";
+            nvidiaSmiArgs.push("--query-gpu=index,name,driver_version,memory.total,memory.used,memory.free,utilization.gpu,utilization.memory,temperature.gpu", "--format=csv,noheader,nounits");
         } else if (input.queryGpu) {
             // Custom query for specific GPU information
-            nvidiaSmiCommand += ` --query-gpu=${input.queryGpu} --format=csv,noheader,nounits`;
+            nvidiaSmiArgs.push(`--query-gpu=${input.queryGpu}`, "--format=csv,noheader,nounits");
         }
 
         // Build the kubectl exec command
-        let kubectlCommand = `kubectl exec -it ${input.podName} -n ${namespace}`;
+        const kubectlArgs = ["exec", podName, "-n", namespace, ...contextArgs(context)];
 
         // Add container if specified
         if (input.container) {
-            kubectlCommand += ` -c ${input.container}`;
+            kubectlArgs.push("-c", input.container);
         }
 
-        // Add the nvidia-smi command
-        kubectlCommand += ` -- bash -c "${nvidiaSmiCommand}"`;
+        // Run nvidia-smi directly in the container (no shell)
+        kubectlArgs.push("--", ...nvidiaSmiArgs);
 
-        console.error(`Executing: ${kubectlCommand}`);
+        console.error(`Executing: ${formatCommand("kubectl", kubectlArgs)}`);
 
         try {
-            const result = execSync(kubectlCommand, { encoding: "utf8" });
+            const result = execKubectl(kubectlArgs);
 
             if (outputFormat === "json") {
                 // Parse CSV output and convert to JSON
@@ -123,7 +145,10 @@ export async function kubectlNvidiaSmi(
             }
         } catch (error: any) {
             // Handle specific nvidia-smi related errors
-            if (error.message.includes("nvidia-smi: command not found")) {
+            if (
+                error.message.includes("nvidia-smi: command not found") ||
+                error.message.includes("executable file not found")
+            ) {
                 throw new McpError(
                     ErrorCode.InvalidRequest,
                     `nvidia-smi command not found in pod '${input.podName}'. This pod may not have NVIDIA GPU drivers installed.`
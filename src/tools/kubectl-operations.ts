@@ -1,8 +1,15 @@
-import { execSync } from "child_process";
 import {
   ExplainResourceParams,
   ListApiResourcesParams,
 } from "../models/kubectl-models.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import {
+  validateArgument,
+  validateCommandWord,
+  validateContextName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const explainResourceSchema = {
   name: "explain_resource",
@@ -30,6 +37,7 @@ export const explainResourceSchema = {
         enum: ["plaintext", "plaintext-openapiv2"],
         default: "plaintext",
       },
+      context: contextParameter,
     },
     required: ["resource"],
   },
@@ -62,13 +70,14 @@ export const listApiResourcesSchema = {
         enum: ["wide", "name", "no-headers"],
         default: "wide",
       },
+      context: contextParameter,
     },
   },
 };
 
-const executeKubectlCommand = (command: string): string => {
+const executeKubectlCommand = (args: string[]): string => {
   try {
-    return execSync(command, { encoding: "utf8" });
+    return execKubectl(args);
   } catch (error: any) {
     throw new Error(`Kubectl command failed: ${error.message}`);
   }
@@ -78,23 +87,27 @@ export async function explainResource(
   params: ExplainResourceParams
 ): Promise<{ content: { type: string; text: string }[] }> {
   try {
-    let command = "kubectl explain";
+    const args = ["explain"];
 
     if (params.apiVersion) {
-      command += ` --api-version=${params.apiVersion}`;
+      args.push(`--api-version=${validateArgument(params.apiVersion, "apiVersion")}`);
     }
 
     if (params.recursive) {
-      command += " --recursive";
+      args.push("--recursive");
     }
 
     if (params.output) {
-      command += ` --output=${params.output}`;
+      args.push(`--output=${validateCommandWord(params.output, "output")}`);
+    }
+
+    if (params.context) {
+      args.push(...contextArgs(validateContextName(params.context)));
     }
 
-    command += ` ${params.resource}`;
+    args.push(validateResourceType(params.resource, "resource"));
 
-    const result = executeKubectlCommand(command);
+    const result = executeKubectlCommand(args);
 
     return {
       content: [
@@ -113,25 +126,30 @@ export async function listApiResources(
   params: ListApiResourcesParams
 ): Promise<{ content: { type: string; text: string }[] }> {
   try {
-    let command = "kubectl api-resources";
+    const args = ["api-resources"];
 
     if (params.apiGroup) {
-      command += ` --api-group=${params.apiGroup}`;
+      args.push(`--api-group=${validateArgument(params.apiGroup, "apiGroup")}`);
     }
 
     if (params.namespaced !== undefined) {
-      command += ` --namespaced=${params.namespaced}`;
+      args.push(`--namespaced=${Boolean(params.namespaced)}`);
     }
 
     if (params.verbs && params.verbs.length > 0) {
-      command += ` --verbs=${params.verbs.join(",")}`;
+      const verbs = params.verbs.map((verb) => validateCommandWord(verb, "verbs"));
+      args.push(`--verbs=${verbs.join(",")}`);
     }
 
     if (params.output) {
-      command += ` -o ${params.output}`;
+      args.push("-o", validateCommandWord(params.output, "output"));
+    }
+
+    if (params.context) {
+      args.push(...contextArgs(validateContextName(params.context)));
     }
 
-    const result = executeKubectlCommand(command);
+    const result = executeKubectlCommand(args);
 
     return {
       content: [
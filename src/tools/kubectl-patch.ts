@@ -1,9 +1,18 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import { dryRunDiff } from "../utils/change-preview.js";
+import {
+  validateArgument,
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlPatchSchema = {
   name: "kubectl_patch",
@@ -42,74 +51,93 @@ export const kubectlPatchSchema = {
         type: "boolean",
         description: "If true, only print the object that would be sent, without sending it",
         default: false
-      }
+      },
+      context: contextParameter,
     },
     required: ["resourceType", "name"],
   }
 };
 
+type KubectlPatchInput = {
+  resourceType: string;
+  name: string;
+  namespace?: string;
+  patchType?: "strategic" | "merge" | "json";
+  patchData?: object;
+  patchFile?: string;
+  dryRun?: boolean;
+  context?: string;
+};
+
+// Validate the input and build the `kubectl patch` arguments, writing
+// patchData to a temporary file the caller must remove
+function buildPatchCommand(input: KubectlPatchInput) {
+  if (!input.patchData && !input.patchFile) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "Either patchData or patchFile must be provided"
+    );
+  }
+
+  const resourceType = validateResourceType(input.resourceType);
+  const name = validateResourceName(input.name);
+  const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+  const patchType = input.patchType || "strategic";
+  const patchFile = input.patchFile ? validateArgument(input.patchFile, "patchFile") : undefined;
+  let tempFile: string | null = null;
+  
+  // Build the kubectl patch command
+  const args = ["patch", resourceType, name, "-n", namespace];
+  
+  // Add patch type flag
+  switch (patchType) {
+    case "strategic":
+      args.push("--type", "strategic");
+      break;
+    case "merge":
+      args.push("--type", "merge");
+      break;
+    case "json":
+      args.push("--type", "json");
+      break;
+    default:
+      args.push("--type", "strategic");
+  }
+  
+  // Handle patch data
+  if (input.patchData) {
+    // Create a temporary file for the patch data
+    const tmpDir = os.tmpdir();
+    tempFile = path.join(tmpDir, `patch-${Date.now()}.json`);
+    fs.writeFileSync(tempFile, JSON.stringify(input.patchData));
+    args.push("--patch-file", tempFile);
+  } else if (patchFile) {
+    args.push("--patch-file", patchFile);
+  }
+
+  return { args, resourceType, name, namespace, tempFile };
+}
+
 export async function kubectlPatch(
   k8sManager: KubernetesManager,
-  input: {
-    resourceType: string;
-    name: string;
-    namespace?: string;
-    patchType?: "strategic" | "merge" | "json";
-    patchData?: object;
-    patchFile?: string;
-    dryRun?: boolean;
-  }
+  input: KubectlPatchInput
 ) {
   try {
-    if (!input.patchData && !input.patchFile) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        "Either patchData or patchFile must be provided"
-      );
-    }
-
-    const namespace = input.namespace || "default";
-    const patchType = input.patchType || "strategic";
     const dryRun = input.dryRun || false;
-    let tempFile: string | null = null;
-    
-    // Build the kubectl patch command
-    let command = `kubectl patch ${input.resourceType} ${input.name} -n ${namespace}`;
-    
-    // Add patch type flag
-    switch (patchType) {
-      case "strategic":
-        command += " --type strategic";
-        break;
-      case "merge":
-        command += " --type merge";
-        break;
-      case "json":
-        command += " --type json";
-        break;
-      default:
-        command += " --type strategic";
-    }
-    
-    // Handle patch data
-    if (input.patchData) {
-      // Create a temporary file for the patch data
-      const tmpDir = os.tmpdir();
-      tempFile = path.join(tmpDir, `patch-${Date.now()}.json`);
-      fs.writeFileSync(tempFile, JSON.stringify(input.patchData));
-      command += ` --patch-file ${tempFile}`;
-    } else if (input.patchFile) {
-      command += ` --patch-file ${input.patchFile}`;
-    }
+    const context = input.context ? validateContextName(input.context) : undefined;
+    const { args, tempFile } = buildPatchCommand(input);
     
     // Add dry-run flag if requested
     if (dryRun) {
-      command += " --dry-run=client";
+      args.push("--dry-run=client");
     }
     
+    // Target a specific kubeconfig context if requested
+    args.push(...contextArgs(context));
+    
     // Execute the command
     try {
-      const result = execSync(command, { encoding: "utf8" });
+      const result = execKubectl(args);
       
       // Clean up temp file if created
       if (tempFile) {
@@ -153,4 +181,30 @@ export async function kubectlPatch(
       `Failed to execute kubectl patch command: ${error.message}`
     );
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Diff of the live resource against the result of a server-side dry run of
+ * the patch. Used to preview the change before it is confirmed.
+ */
+export async function previewKubectlPatch(
+  k8sManager: KubernetesManager,
+  input: KubectlPatchInput
+): Promise<string> {
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const { args, resourceType, name, namespace, tempFile } = buildPatchCommand(input);
+
+  try {
+    return dryRunDiff(
+      [resourceType, name, "-n", namespace, ...contextArgs(context)],
+      [...args, ...contextArgs(context)]
+    );
+  } finally {
+    if (tempFile) {
+      try {
+        fs.unlinkSync(tempFile);
+      } catch (err) {
+        console.warn(`Failed to delete temporary file ${tempFile}: ${err}`);
+      }
+    }
+  }
+}
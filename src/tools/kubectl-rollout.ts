@@ -1,6 +1,13 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import {
+  validateContextName,
+  validateDuration,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
 
 export const kubectlRolloutSchema = {
   name: "kubectl_rollout",
@@ -48,7 +55,8 @@ export const kubectlRolloutSchema = {
         type: "boolean",
         description: "Watch the rollout status in real-time until completion",
         default: false
-      }
+      },
+      context: contextParameter,
     },
     required: ["subCommand", "resourceType", "name"]
   }
@@ -65,40 +73,67 @@ export async function kubectlRollout(
     toRevision?: number;
     timeout?: string;
     watch?: boolean;
+    context?: string;
   }
 ) {
   try {
-    const namespace = input.namespace || "default";
+    const { properties } = kubectlRolloutSchema.inputSchema;
+    if (!properties.subCommand.enum.includes(input.subCommand)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid subCommand '${input.subCommand}': must be one of ${properties.subCommand.enum.join(", ")}`
+      );
+    }
+    if (!properties.resourceType.enum.includes(input.resourceType)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid resourceType '${input.resourceType}': must be one of ${properties.resourceType.enum.join(", ")}`
+      );
+    }
+    for (const [field, value] of [["revision", input.revision], ["toRevision", input.toRevision]] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid ${field} '${value}': must be a non-negative integer`
+        );
+      }
+    }
+
+    const name = validateResourceName(input.name);
+    const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
     const watch = input.watch || false;
+    const context = input.context ? validateContextName(input.context) : undefined;
     
     // Build the kubectl rollout command
-    let command = `kubectl rollout ${input.subCommand} ${input.resourceType}/${input.name} -n ${namespace}`;
+    const args = ["rollout", input.subCommand, `${input.resourceType}/${name}`, "-n", namespace];
     
     // Add revision for undo
     if (input.subCommand === "undo" && input.revision !== undefined) {
-      command += ` --to-revision=${input.revision}`;
+      args.push(`--to-revision=${input.revision}`);
     }
     
     // Add revision for history
     if (input.subCommand === "history" && input.toRevision !== undefined) {
-      command += ` --revision=${input.toRevision}`;
+      args.push(`--revision=${input.toRevision}`);
     }
     
     // Add timeout if specified
     if (input.timeout) {
-      command += ` --timeout=${input.timeout}`;
+      args.push(`--timeout=${validateDuration(input.timeout, "timeout")}`);
     }
     
+    // Target a specific kubeconfig context if requested
+    args.push(...contextArgs(context));
+    
     // Execute the command
     try {
       // For status command with watch flag, we need to handle it differently
       // since it's meant to be interactive and follow the progress
       if (input.subCommand === "status" && watch) {
-        command += " --watch";
+        args.push("--watch");
         // For watch we are limited in what we can do - we'll execute it with a reasonable timeout
         // and capture the output until that point
-        const result = execSync(command, { 
-          encoding: "utf8",
+        const result = execKubectl(args, {
           timeout: 15000 // Reduced from 30 seconds to 15 seconds
         });
         
@@ -111,7 +146,7 @@ export async function kubectlRollout(
           ],
         };
       } else {
-        const result = execSync(command, { encoding: "utf8" });
+        const result = execKubectl(args);
         
         return {
           content: [
@@ -1,6 +1,14 @@
 import { KubernetesManager } from "../types.js";
-import { execSync } from "child_process";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, execKubectl } from "../utils/command-runner.js";
+import { dryRunDiff } from "../utils/change-preview.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlScaleSchema = {
   name: "kubectl_scale",
@@ -25,31 +33,51 @@ export const kubectlScaleSchema = {
         type: "string",
         description: "Resource type to scale (deployment, replicaset, statefulset)",
         default: "deployment"
-      }
+      },
+      context: contextParameter,
     },
     required: ["name", "replicas"]
   }
 };
 
+type KubectlScaleInput = {
+  name: string;
+  namespace?: string;
+  replicas: number;
+  resourceType?: string;
+  context?: string;
+};
+
+function validateScaleInput(input: KubectlScaleInput) {
+  const name = validateResourceName(input.name);
+  const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+  const resourceType = input.resourceType ? validateResourceType(input.resourceType) : "deployment";
+  const context = input.context ? validateContextName(input.context) : undefined;
+  if (!Number.isInteger(input.replicas) || input.replicas < 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid replicas '${input.replicas}': must be a non-negative integer`
+    );
+  }
+  return { name, namespace, resourceType, context };
+}
+
 export async function kubectlScale(
   k8sManager: KubernetesManager,
-  input: {
-    name: string;
-    namespace?: string;
-    replicas: number;
-    resourceType?: string;
-  }
+  input: KubectlScaleInput
 ) {
   try {
-    const namespace = input.namespace || "default";
-    const resourceType = input.resourceType || "deployment";
+    const { name, namespace, resourceType, context } = validateScaleInput(input);
     
     // Build the kubectl scale command
-    let command = `kubectl scale ${resourceType} ${input.name} --replicas=${input.replicas} --namespace=${namespace}`;
+    const args = ["scale", resourceType, name, `--replicas=${input.replicas}`, `--namespace=${namespace}`];
+    
+    // Target a specific kubeconfig context if requested
+    args.push(...contextArgs(context));
     
     // Execute the command
     try {
-      const result = execSync(command, { encoding: "utf8" });
+      execKubectl(args);
       
       return {
         content: [
@@ -86,4 +114,24 @@ export async function kubectlScale(
       ]
     };
   }
-} 
\ No newline at end of file
+}
+/**
+ * Diff of the live resource against a server-side dry run setting its
+ * replicas. Used to preview the change before it is confirmed.
+ */
+export async function previewKubectlScale(
+  k8sManager: KubernetesManager,
+  input: KubectlScaleInput
+): Promise<string> {
+  const { name, namespace, resourceType, context } = validateScaleInput(input);
+  const target = [resourceType, name, "-n", namespace, ...contextArgs(context)];
+
+  return dryRunDiff(target, [
+    "patch",
+    ...target,
+    "--type",
+    "merge",
+    "-p",
+    JSON.stringify({ spec: { replicas: input.replicas } }),
+  ]);
+}
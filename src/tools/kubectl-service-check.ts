@@ -0,0 +1,446 @@
+import { KubernetesManager } from "../types.js";
+import * as k8s from "@kubernetes/client-node";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { apiErrorMessage, isNotFoundError } from "../utils/dynamic-client.js";
+import { labelSelectorToString, matchesLabelSelector } from "../utils/label-selector.js";
+import { describePeer, policyPortMatches, policyTypes, TrafficPort } from "../utils/network-policy.js";
+import { isIPAddress, searchServiceIPs } from "./kubectl-unified-search.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
+
+export const kubectlServiceCheckSchema = {
+  name: "kubectl_service_check",
+  description:
+    "Explain whether a Service can receive traffic, as a pass/fail checklist: the pods its selector matches and their readiness, whether its ports map to container ports, its ready endpoints, the Ingresses routing to it, and the NetworkPolicies that could block traffic to its pods. The Service can be named or given by one of its IP addresses",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Name of the Service, or one of its cluster, external or load balancer IP addresses",
+      },
+      namespace: {
+        type: "string",
+        description: "Namespace of the Service; when an IP address is given without a namespace, all namespaces are searched",
+        default: "default",
+      },
+      context: contextParameter,
+    },
+    required: ["name"],
+  },
+} as const;
+
+export type CheckStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface ServiceCheck {
+  check: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+// A Service port with the container port it maps to
+interface PortTarget extends TrafficPort {
+  port: k8s.V1ServicePort;
+}
+
+function portLabel(port: k8s.V1ServicePort): string {
+  return `${port.name ? `${port.name} ` : ""}${port.port}/${port.protocol || "TCP"}`;
+}
+
+function containerPorts(pod: k8s.V1Pod): k8s.V1ContainerPort[] {
+  return (pod.spec?.containers || []).flatMap((c) => c.ports || []);
+}
+
+function isPodReady(pod: k8s.V1Pod): boolean {
+  return (
+    !pod.metadata?.deletionTimestamp &&
+    pod.status?.phase === "Running" &&
+    !!pod.status?.conditions?.some((c) => c.type === "Ready" && c.status === "True")
+  );
+}
+
+/**
+ * Check that each port of a Service maps to a container port of its pods.
+ * Numeric target ports that no container declares still work when the
+ * process listens on them, so they only warn; named ones must exist.
+ */
+export function checkServicePorts(service: k8s.V1Service, pods: k8s.V1Pod[]): { checks: ServiceCheck[]; targets: PortTarget[] } {
+  const checks: ServiceCheck[] = [];
+  const targets: PortTarget[] = [];
+
+  for (const port of service.spec?.ports || []) {
+    const protocol = port.protocol || "TCP";
+    const raw = port.targetPort ?? port.port;
+    const target = typeof raw === "string" && /^\d+$/.test(raw) ? Number(raw) : raw;
+    const check = `port ${portLabel(port)} -> ${target}`;
+    const matches = (p: k8s.V1ContainerPort) =>
+      (typeof target === "number" ? p.containerPort === target : p.name === target);
+
+    const found = pods.map((pod) => containerPorts(pod).find(matches));
+    const declared = found.find((p) => p !== undefined);
+    targets.push({
+      port,
+      protocol,
+      number: typeof target === "number" ? target : declared?.containerPort,
+      name: typeof target === "string" ? target : declared?.name,
+    });
+
+    if (pods.length === 0) {
+      checks.push({ check, status: "skip", detail: "No pods to compare the port with" });
+      continue;
+    }
+    const missing = pods.filter((_, i) => !found[i]).map((pod) => pod.metadata!.name!);
+    const wrongProtocol = found.filter((p) => p && (p.protocol || "TCP") !== protocol);
+    if (wrongProtocol.length > 0) {
+      checks.push({
+        check,
+        status: "fail",
+        detail: `The container port is declared as ${wrongProtocol[0]!.protocol}, but the Service port uses ${protocol}`,
+      });
+    } else if (typeof target === "string" && missing.length > 0) {
+      checks.push({
+        check,
+        status: "fail",
+        detail: missing.length === pods.length
+          ? `No container declares a port named '${target}', so the port has no endpoints`
+          : `Pods ${missing.join(", ")} declare no port named '${target}' and receive no traffic on it`,
+      });
+    } else if (missing.length === pods.length) {
+      checks.push({
+        check,
+        status: "warn",
+        detail: `No container declares port ${target}; traffic only arrives if the process listens on it`,
+      });
+    } else {
+      checks.push({
+        check,
+        status: "pass",
+        detail: `Maps to container port ${declared!.name ? `${declared!.name} ` : ""}${declared!.containerPort}`,
+      });
+    }
+  }
+  return { checks, targets };
+}
+
+/**
+ * Check the NetworkPolicies that select a Service's pods. Once any policy
+ * selects a pod for ingress, only traffic an ingress rule allows reaches it.
+ */
+export function checkNetworkPolicies(
+  policies: any[],
+  pods: k8s.V1Pod[],
+  targets: PortTarget[]
+): { check: ServiceCheck; policies: any[] } {
+  const selecting = policies.filter((policy) => {
+    return (
+      policyTypes(policy).includes("Ingress") &&
+      pods.some((pod) => matchesLabelSelector(policy.spec?.podSelector || {}, pod.metadata?.labels))
+    );
+  });
+  const reports = selecting.map((policy) => {
+    const allowed: Record<string, string[]> = {};
+    for (const target of targets) {
+      const sources = (policy.spec?.ingress || [])
+        .filter((rule: any) => !rule.ports?.length || rule.ports.some((entry: any) => policyPortMatches(entry, target)))
+        .flatMap((rule: any) => (rule.from?.length ? rule.from.map(describePeer) : ["anywhere"]));
+      if (sources.length > 0) allowed[portLabel(target.port)] = [...new Set<string>(sources)];
+    }
+    return { name: policy.metadata?.name, allowedFrom: allowed };
+  });
+
+  if (selecting.length === 0) {
+    return {
+      check: { check: "network policies", status: "pass", detail: "No NetworkPolicy selects the pods, so all ingress traffic is allowed" },
+      policies: [],
+    };
+  }
+  const names = reports.map((r) => r.name).join(", ");
+  const blocked = targets
+    .filter((target) => !reports.some((r) => r.allowedFrom[portLabel(target.port)]))
+    .map((target) => portLabel(target.port));
+  const open = targets.some((target) => reports.some((r) => r.allowedFrom[portLabel(target.port)]?.includes("anywhere")));
+
+  let check: ServiceCheck;
+  if (blocked.length > 0) {
+    check = {
+      check: "network policies",
+      status: "fail",
+      detail: `${names} select the pods, and no ingress rule allows port ${blocked.join(", ")}`,
+    };
+  } else if (open) {
+    check = { check: "network policies", status: "pass", detail: `${names} select the pods and allow traffic from anywhere` };
+  } else {
+    check = {
+      check: "network policies",
+      status: "warn",
+      detail: `${names} select the pods; traffic is only allowed from the sources listed in networkPolicies`,
+    };
+  }
+  return { check, policies: reports };
+}
+
+// Ingress backends that point at a Service
+function ingressRoutes(ingress: any, serviceName: string) {
+  const routes = [];
+  const backend = ingress.spec?.defaultBackend;
+  if (backend?.service?.name === serviceName) {
+    routes.push({ ingress: ingress.metadata?.name, host: "*", path: "(default backend)", port: backend.service.port });
+  }
+  for (const rule of ingress.spec?.rules || []) {
+    for (const path of rule.http?.paths || []) {
+      if (path.backend?.service?.name === serviceName) {
+        routes.push({
+          ingress: ingress.metadata?.name,
+          host: rule.host || "*",
+          path: path.path || "/",
+          port: path.backend.service.port,
+        });
+      }
+    }
+  }
+  return routes;
+}
+
+// Helper function to find a Service by one of its IP addresses
+async function findServiceByIP(coreApi: k8s.CoreV1Api, ip: string, namespace?: string) {
+  const { body } = namespace
+    ? await coreApi.listNamespacedService(namespace)
+    : await coreApi.listServiceForAllNamespaces();
+  for (const service of body.items) {
+    const match = searchServiceIPs(service, ip);
+    // Annotation matches are substring matches, too loose to pick a Service by
+    if (match.found && !match.matchedField.startsWith("annotation.")) {
+      return { service, matchedField: match.matchedField };
+    }
+  }
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `No Service has the IP address ${ip}${namespace ? ` in namespace '${namespace}'` : ""}`
+  );
+}
+
+export async function kubectlServiceCheck(
+  k8sManager: KubernetesManager,
+  input: {
+    name: string;
+    namespace?: string;
+    context?: string;
+  }
+) {
+  const byIP = typeof input.name === "string" && isIPAddress(input.name);
+  const name = byIP ? input.name.trim() : validateResourceName(input.name);
+  const context = input.context ? validateContextName(input.context) : undefined;
+  if (input.namespace) {
+    validateNamespace(input.namespace);
+  }
+
+  try {
+    const coreApi = k8sManager.getCoreApi(context);
+    const client = k8sManager.getDynamicClient(context);
+    let service: k8s.V1Service;
+    let matchedField: string | undefined;
+    if (byIP) {
+      ({ service, matchedField } = await findServiceByIP(coreApi, name, input.namespace));
+    } else {
+      try {
+        service = (await coreApi.readNamespacedService(name, input.namespace || "default")).body;
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Service '${name}' not found in namespace '${input.namespace || "default"}'`
+          );
+        }
+        throw error;
+      }
+    }
+    const serviceName = service.metadata!.name!;
+    const namespace = service.metadata!.namespace || input.namespace || "default";
+    const checks: ServiceCheck[] = [];
+
+    if (service.spec?.type === "ExternalName") {
+      checks.push({
+        check: "selector",
+        status: "skip",
+        detail: `ExternalName Service: DNS returns a CNAME to ${service.spec.externalName}, no pods or endpoints are involved`,
+      });
+    }
+
+    // Pods behind the Service
+    let pods: k8s.V1Pod[] = [];
+    const selector = service.spec?.selector;
+    if (service.spec?.type !== "ExternalName") {
+      if (!selector || Object.keys(selector).length === 0) {
+        checks.push({
+          check: "selector",
+          status: "warn",
+          detail: "The Service has no selector; its endpoints are managed by hand or by another controller",
+        });
+      } else {
+        const labelSelector = labelSelectorToString({ matchLabels: selector });
+        const { body } = await coreApi.listNamespacedPod(
+          namespace, undefined, undefined, undefined, undefined, labelSelector
+        );
+        pods = body.items;
+        const ready = pods.filter(isPodReady);
+        checks.push(
+          pods.length > 0
+            ? { check: "selector", status: "pass", detail: `Selector ${labelSelector} matches ${pods.length} pod(s)` }
+            : {
+                check: "selector",
+                status: "fail",
+                detail: `Selector ${labelSelector} matches no pods in namespace ${namespace}; compare it with the labels of the pod template`,
+              }
+        );
+        if (pods.length > 0) {
+          const notReady = pods.filter((pod) => !isPodReady(pod)).map((pod) => pod.metadata!.name!);
+          checks.push({
+            check: "readiness",
+            status: ready.length === 0 ? "fail" : notReady.length > 0 ? "warn" : "pass",
+            detail:
+              ready.length === 0
+                ? `None of the ${pods.length} pod(s) is ready, so the Service has no endpoints to send traffic to`
+                : `${ready.length} of ${pods.length} pod(s) ready${notReady.length > 0 ? `; not ready: ${notReady.join(", ")}` : ""}`,
+          });
+        }
+      }
+    }
+
+    const { checks: portChecks, targets } = checkServicePorts(service, pods);
+    if (service.spec?.type !== "ExternalName") {
+      checks.push(...portChecks);
+    }
+
+    // Endpoints as the Service proxies see them
+    let endpoints: { ready: string[]; notReady: string[] } | undefined;
+    if (service.spec?.type !== "ExternalName") {
+      endpoints = { ready: [], notReady: [] };
+      try {
+        const slices = await client.listResources(await client.resolveResource("endpointslices.discovery.k8s.io"), {
+          namespace,
+          labelSelector: `kubernetes.io/service-name=${serviceName}`,
+        });
+        for (const slice of slices.items) {
+          for (const endpoint of slice.endpoints || []) {
+            const target = endpoint.targetRef?.name || endpoint.addresses?.[0];
+            (endpoint.conditions?.ready === false ? endpoints.notReady : endpoints.ready).push(target);
+          }
+        }
+      } catch {
+        // Clusters without EndpointSlices still serve Endpoints
+        const { body } = await coreApi.readNamespacedEndpoints(serviceName, namespace);
+        for (const subset of body.subsets || []) {
+          endpoints.ready.push(...(subset.addresses || []).map((a) => a.targetRef?.name || a.ip));
+          endpoints.notReady.push(...(subset.notReadyAddresses || []).map((a) => a.targetRef?.name || a.ip));
+        }
+      }
+      endpoints.ready = [...new Set(endpoints.ready)];
+      endpoints.notReady = [...new Set(endpoints.notReady)];
+      checks.push(
+        endpoints.ready.length > 0
+          ? { check: "endpoints", status: "pass", detail: `${endpoints.ready.length} ready endpoint(s): ${endpoints.ready.join(", ")}` }
+          : {
+              check: "endpoints",
+              status: "fail",
+              detail: `No ready endpoints${endpoints.notReady.length > 0 ? `; not ready: ${endpoints.notReady.join(", ")}` : ""}, so connections to the Service are refused or time out`,
+            }
+      );
+    }
+
+    // Ingresses that route to the Service
+    let routes: ReturnType<typeof ingressRoutes> = [];
+    try {
+      const ingresses = await client.listResources(await client.resolveResource("ingresses.networking.k8s.io"), { namespace });
+      routes = ingresses.items.flatMap((ingress: any) => ingressRoutes(ingress, serviceName));
+      if (routes.length === 0) {
+        checks.push({ check: "ingress", status: "skip", detail: `No Ingress in namespace ${namespace} routes to the Service` });
+      }
+    } catch (error) {
+      checks.push({ check: "ingress", status: "skip", detail: `Ingresses could not be listed: ${apiErrorMessage(error)}` });
+    }
+    for (const route of routes) {
+      const portOk = (service.spec?.ports || []).some((p) =>
+        route.port?.name ? p.name === route.port.name : p.port === route.port?.number
+      );
+      checks.push({
+        check: `ingress ${route.ingress} ${route.host}${route.path}`,
+        status: portOk ? "pass" : "fail",
+        detail: portOk
+          ? `Routes to port ${route.port?.name || route.port?.number}`
+          : `Routes to port ${route.port?.name || route.port?.number}, which the Service does not have`,
+      });
+    }
+
+    // NetworkPolicies guarding the pods
+    let networkPolicies: any[] = [];
+    if (pods.length > 0) {
+      try {
+        const list = await client.listResources(await client.resolveResource("networkpolicies.networking.k8s.io"), { namespace });
+        const result = checkNetworkPolicies(list.items, pods, targets);
+        checks.push(result.check);
+        networkPolicies = result.policies;
+      } catch (error) {
+        checks.push({ check: "network policies", status: "skip", detail: `NetworkPolicies could not be listed: ${apiErrorMessage(error)}` });
+      }
+    }
+
+    const failed = checks.filter((c) => c.status === "fail");
+    const warnings = checks.filter((c) => c.status === "warn");
+    const status: CheckStatus = failed.length > 0 ? "fail" : warnings.length > 0 ? "warn" : "pass";
+    const summary =
+      failed.length > 0
+        ? `${failed.length} check(s) failed: ${failed.map((c) => c.check).join(", ")}`
+        : warnings.length > 0
+          ? `No check failed, ${warnings.length} need attention: ${warnings.map((c) => c.check).join(", ")}`
+          : "All checks passed";
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              service: {
+                name: serviceName,
+                namespace,
+                type: service.spec?.type,
+                clusterIPs: service.spec?.clusterIPs || [service.spec?.clusterIP].filter(Boolean),
+                ...(matchedField ? { matchedBy: `${matchedField}=${name}` } : {}),
+                selector,
+                ports: (service.spec?.ports || []).map((p) => ({
+                  name: p.name,
+                  port: p.port,
+                  targetPort: p.targetPort ?? p.port,
+                  protocol: p.protocol || "TCP",
+                })),
+              },
+              status,
+              summary,
+              checklist: checks,
+              pods: pods.map((pod) => ({
+                name: pod.metadata?.name,
+                ready: isPodReady(pod),
+                ip: pod.status?.podIP,
+                node: pod.spec?.nodeName,
+              })),
+              ...(endpoints ? { endpoints } : {}),
+              ingressRoutes: routes,
+              networkPolicies,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InternalError, `Service check failed: ${apiErrorMessage(error)}`);
+  }
+}
@@ -1,9 +1,12 @@
 import { KubernetesManager } from "../types.js";
-import { exec, execSync } from "child_process";
-import { promisify } from "util";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
-
-const execAsync = promisify(exec);
+import { contextParameter } from "../models/common-parameters.js";
+import { ApiResourceInfo, DynamicClient } from "../utils/dynamic-client.js";
+import {
+    validateContextName,
+    validateNamespace,
+    validateResourceType,
+} from "../utils/validation.js";
 
 export const kubectlUnifiedSearchSchema = {
     name: "kubectl_search",
@@ -83,7 +86,8 @@ export const kubectlUnifiedSearchSchema = {
                 type: "boolean",
                 description: "Only show resources created in the last 24 hours",
                 default: false
-            }
+            },
+            context: contextParameter,
         },
         required: ["query"],
     },
@@ -119,6 +123,7 @@ export async function kubectlUnifiedSearch(
         sortBy?: string;
         output?: string;
         recent?: boolean;
+        context?: string;
     }
 ) {
     // Early validation
@@ -139,17 +144,26 @@ export async function kubectlUnifiedSearch(
         includeAnnotations = false,
         sortBy = "relevance",
         output = "detailed",
-        recent = false
+        recent = false,
+        context
     } = input;
 
+    resourceTypes.forEach(type => validateResourceType(type, "resourceTypes"));
+    namespaces?.forEach(ns => validateNamespace(ns, "namespaces"));
+    if (context) {
+        validateContextName(context);
+    }
+
     try {
         // Get all target namespaces - no limit needed with batching approach
         const targetNamespaces = await getTargetNamespaces(
+            k8sManager,
             namespaces,
             namespacePattern,
             excludeSystemNamespaces,
             query,
-            undefined // No limit - process all namespaces in batches
+            undefined, // No limit - process all namespaces in batches
+            context
         );
 
         if (targetNamespaces.length === 0) {
@@ -170,7 +184,8 @@ export async function kubectlUnifiedSearch(
             includeLabels,
             includeAnnotations,
             recent,
-            limit
+            limit,
+            k8sManager.getDynamicClient(context)
         );
 
         // Sort results
@@ -221,26 +236,23 @@ function getFuzzyConfig(tolerance: string): SearchConfig {
 }
 
 async function getTargetNamespaces(
+    k8sManager: KubernetesManager,
     namespaces?: string[],
     namespacePattern?: string,
     excludeSystemNamespaces: boolean = false,
     query?: string,
-    maxNamespaces?: number // Optional limit - undefined means no limit
+    maxNamespaces?: number, // Optional limit - undefined means no limit
+    context?: string
 ): Promise<string[]> {
     if (namespaces && namespaces.length > 0) {
         return maxNamespaces ? namespaces.slice(0, maxNamespaces) : namespaces;
     }
 
     try {
-        const command = "kubectl get namespaces -o name";
-        const { stdout } = await execAsync(command, {
-            timeout: 5000,
-            maxBuffer: 10 * 1024 * 1024 // 10MB buffer for large outputs
-        });
+        const { body } = await k8sManager.getCoreApi(context).listNamespace();
 
-        let allNamespaces = stdout.trim()
-            .split('\n')
-            .map(line => line.replace('namespace/', ''))
+        let allNamespaces = body.items
+            .map(ns => ns.metadata?.name || '')
             .filter(ns => ns.trim());
 
         // Filter system namespaces if requested
@@ -350,36 +362,48 @@ async function searchNamespaces(
     return results;
 }
 
-async function getResourcesFromNamespace(
-    resourceType: string,
-    namespace: string,
-    recent: boolean
-): Promise<any[]> {
-    try {
-        let command = `kubectl get ${resourceType} -n ${namespace}`;
-
-        // Add recent filter if requested
-        if (recent) {
-            const yesterday = new Date();
-            yesterday.setDate(yesterday.getDate() - 1);
-            const timestamp = yesterday.toISOString();
-            command += ` --field-selector=metadata.creationTimestamp>=${timestamp}`;
+async function getResourcesByNamespace(
+    client: DynamicClient,
+    resource: ApiResourceInfo,
+    namespaces: string[],
+    recent: boolean,
+    batchSize: number
+): Promise<Map<string, any[]>> {
+    const byNamespace = new Map<string, any[]>(namespaces.map(ns => [ns, []]));
+    let items: any[] | undefined;
+
+    // One cluster-wide list is far cheaper than one request per namespace
+    if (!resource.namespaced || namespaces.length > 1) {
+        try {
+            items = (await client.listResources(resource)).items;
+        } catch (error) {
+            // Without cluster-wide list permission, fall back to per-namespace lists
+            if (!resource.namespaced) return byNamespace;
         }
+    }
 
-        command += " -o json";
-
-        const { stdout } = await execAsync(command, {
-            timeout: 10000,
-            maxBuffer: 10 * 1024 * 1024 // 10MB buffer for large outputs
-        });
-        const jsonResult = JSON.parse(stdout);
-        return jsonResult.items || [];
-    } catch (error: any) {
-        if (error.code === 1 && error.stderr?.includes('No resources found')) {
-            return [];
+    if (!items) {
+        items = [];
+        for (let i = 0; i < namespaces.length; i += batchSize) {
+            const lists = await Promise.all(
+                namespaces.slice(i, i + batchSize).map(namespace =>
+                    client.listResources(resource, { namespace })
+                        .then(list => list.items)
+                        .catch(() => [])
+                )
+            );
+            items.push(...lists.flat());
         }
-        return [];
     }
+
+    // Only keep resources created in the last 24 hours if requested
+    const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+    for (const item of items) {
+        if (recent && !(Date.parse(item.metadata?.creationTimestamp) >= cutoff)) continue;
+        byNamespace.get(resource.namespaced ? item.metadata?.namespace : '')?.push(item);
+    }
+
+    return byNamespace;
 }
 
 function getResourceAge(creationTimestamp: string): string {
@@ -446,7 +470,8 @@ async function streamingSearch(
     includeLabels: boolean,
     includeAnnotations: boolean,
     recent: boolean,
-    limit: number
+    limit: number,
+    client: DynamicClient
 ): Promise<SearchResult[]> {
     const results: SearchResult[] = [];
     const queryLower = query.toLowerCase();
@@ -461,16 +486,28 @@ async function streamingSearch(
     for (const resourceType of prioritizedResourceTypes) {
         if (results.length >= limit) break;
 
+        let resource: ApiResourceInfo;
+        try {
+            resource = await client.resolveResource(resourceType);
+        } catch (error) {
+            // Skip resource types the cluster doesn't serve
+            continue;
+        }
+
+        // Cluster-scoped resources are searched once, under an empty namespace
+        const typeNamespaces = resource.namespaced ? prioritizedNamespaces : [''];
+        const resourcesByNamespace = await getResourcesByNamespace(client, resource, typeNamespaces, recent, batchSize);
+
         // Process namespaces in batches for better performance
-        for (let i = 0; i < prioritizedNamespaces.length; i += batchSize) {
+        for (let i = 0; i < typeNamespaces.length; i += batchSize) {
             if (results.length >= limit) break;
 
-            const batch = prioritizedNamespaces.slice(i, i + batchSize);
+            const batch = typeNamespaces.slice(i, i + batchSize);
 
             // Process this batch in parallel
             const batchPromises = batch.map(async (namespace) => {
                 try {
-                    const resources = await getResourcesWithPreFilter(resourceType, namespace);
+                    const resources = resourcesByNamespace.get(namespace) || [];
                     if (resources.length === 0) return [];
 
                     // Quick scan for obvious matches first
@@ -559,37 +596,6 @@ function prioritizeResourceTypes(resourceTypes: string[], query: string): string
     return resourceTypes.sort((a, b) => priority[a] - priority[b]);
 }
 
-async function getResourcesWithPreFilter(
-    resourceType: string,
-    namespace: string,
-    labelSelector?: string,
-    fieldSelector?: string
-): Promise<any[]> {
-    try {
-        let command = `kubectl get ${resourceType} -n ${namespace} -o json`;
-
-        if (labelSelector) {
-            command += ` -l "${labelSelector}"`;
-        }
-
-        if (fieldSelector) {
-            command += ` --field-selector="${fieldSelector}"`;
-        }
-
-        const { stdout } = await execAsync(command, {
-            timeout: 10000,
-            maxBuffer: 10 * 1024 * 1024 // 10MB buffer for large outputs
-        });
-
-        const parsed = JSON.parse(stdout);
-        const items = parsed.items || [];
-
-        return items;
-    } catch (error: any) {
-        return [];
-    }
-}
-
 async function quickScanResources(
     resources: any[],
     resourceType: string,
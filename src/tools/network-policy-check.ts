@@ -0,0 +1,281 @@
+import { KubernetesManager } from "../types.js";
+import { isIP } from "net";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { apiErrorMessage, isNotFoundError } from "../utils/dynamic-client.js";
+import {
+  DirectionVerdict,
+  evaluateDirection,
+  TrafficEndpoint,
+  TrafficPort,
+} from "../utils/network-policy.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
+
+const PROTOCOLS = ["TCP", "UDP", "SCTP"];
+
+export const networkPolicyCheckSchema = {
+  name: "network_policy_check",
+  description:
+    "Simulate whether NetworkPolicies allow a connection from a source to a destination port. Each end is an existing pod, a pod described by its namespace and labels, or an IP address outside the cluster. The ingress policies of the destination and the egress policies of the source are evaluated offline, and the answer names the policies and rules that allow or deny the connection",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sourcePod: {
+        type: "string",
+        description: "Name of an existing source pod",
+        optional: true,
+      },
+      sourceNamespace: {
+        type: "string",
+        description: "Namespace of the source pod",
+        default: "default",
+      },
+      sourceLabels: {
+        type: "array",
+        items: { type: "string" },
+        description: "Labels of a source pod that need not exist, instead of sourcePod (e.g. [\"app=web\"])",
+        optional: true,
+      },
+      sourceIP: {
+        type: "string",
+        description: "IP address of the source; without sourcePod or sourceLabels the source is outside the cluster",
+        optional: true,
+      },
+      destinationPod: {
+        type: "string",
+        description: "Name of an existing destination pod",
+        optional: true,
+      },
+      destinationNamespace: {
+        type: "string",
+        description: "Namespace of the destination pod",
+        default: "default",
+      },
+      destinationLabels: {
+        type: "array",
+        items: { type: "string" },
+        description: "Labels of a destination pod that need not exist, instead of destinationPod",
+        optional: true,
+      },
+      destinationIP: {
+        type: "string",
+        description: "IP address of the destination; without destinationPod or destinationLabels the destination is outside the cluster",
+        optional: true,
+      },
+      port: {
+        type: "number",
+        description: "Destination port number",
+        optional: true,
+      },
+      portName: {
+        type: "string",
+        description: "Name of a container port of destinationPod, instead of port",
+        optional: true,
+      },
+      protocol: {
+        type: "string",
+        enum: PROTOCOLS,
+        description: "Protocol of the connection",
+        default: "TCP",
+      },
+      context: contextParameter,
+    },
+    required: [],
+  },
+} as const;
+
+// Helper function to parse labels given as key=value strings
+function parseLabels(labels: string[], field: string): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  for (const label of labels) {
+    const match = typeof label === "string" ? label.match(/^([A-Za-z0-9][-A-Za-z0-9_./]*)=([-A-Za-z0-9_.]*)$/) : null;
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${field} '${label}': must be key=value`);
+    }
+    parsed[match[1]] = match[2];
+  }
+  return parsed;
+}
+
+// Helper function to build one end of the connection from the tool's input
+async function resolveEndpoint(
+  k8sManager: KubernetesManager,
+  role: "source" | "destination",
+  input: { pod?: string; namespace?: string; labels?: string[]; ip?: string },
+  context?: string
+): Promise<TrafficEndpoint> {
+  const coreApi = k8sManager.getCoreApi(context);
+  if (input.ip !== undefined && !isIP(input.ip)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${role}IP '${input.ip}': not an IP address`);
+  }
+  if (!input.pod && !input.labels) {
+    if (!input.ip) {
+      throw new McpError(ErrorCode.InvalidParams, `Give ${role}Pod, ${role}Labels or ${role}IP`);
+    }
+    return { labels: {}, namespaceLabels: {}, ip: input.ip };
+  }
+
+  const namespace = input.namespace ? validateNamespace(input.namespace) : "default";
+  let namespaceLabels: Record<string, string>;
+  try {
+    namespaceLabels = (await coreApi.readNamespace(namespace)).body.metadata?.labels || {};
+  } catch {
+    // Credentials may not read namespaces; every namespace carries its name as a label
+    namespaceLabels = { "kubernetes.io/metadata.name": namespace };
+  }
+
+  if (input.pod) {
+    const name = validateResourceName(input.pod, `${role}Pod`);
+    try {
+      const { body: pod } = await coreApi.readNamespacedPod(name, namespace);
+      return {
+        pod: name,
+        namespace,
+        labels: pod.metadata?.labels || {},
+        namespaceLabels,
+        ip: input.ip || pod.status?.podIP,
+        ports: (pod.spec?.containers || []).flatMap((c) => c.ports || []),
+      };
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new McpError(ErrorCode.InvalidParams, `Pod '${name}' not found in namespace '${namespace}'`);
+      }
+      throw error;
+    }
+  }
+  return { namespace, labels: parseLabels(input.labels!, `${role}Labels`), namespaceLabels, ip: input.ip };
+}
+
+function describeEndpoint(endpoint: TrafficEndpoint) {
+  return {
+    ...(endpoint.pod ? { pod: endpoint.pod } : {}),
+    ...(endpoint.namespace ? { namespace: endpoint.namespace, labels: endpoint.labels } : { external: true }),
+    ...(endpoint.ip ? { ip: endpoint.ip } : {}),
+  };
+}
+
+export async function networkPolicyCheck(
+  k8sManager: KubernetesManager,
+  input: {
+    sourcePod?: string;
+    sourceNamespace?: string;
+    sourceLabels?: string[];
+    sourceIP?: string;
+    destinationPod?: string;
+    destinationNamespace?: string;
+    destinationLabels?: string[];
+    destinationIP?: string;
+    port?: number;
+    portName?: string;
+    protocol?: string;
+    context?: string;
+  }
+) {
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const protocol = (input.protocol || "TCP").toUpperCase();
+  if (!PROTOCOLS.includes(protocol)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid protocol '${input.protocol}': must be one of ${PROTOCOLS.join(", ")}`);
+  }
+  if ((input.port === undefined) === (input.portName === undefined)) {
+    throw new McpError(ErrorCode.InvalidParams, "Give exactly one of port or portName");
+  }
+  if (input.port !== undefined && (!Number.isInteger(input.port) || input.port < 1 || input.port > 65535)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid port '${input.port}': must be an integer from 1 to 65535`);
+  }
+
+  try {
+    const source = await resolveEndpoint(k8sManager, "source", {
+      pod: input.sourcePod,
+      namespace: input.sourceNamespace,
+      labels: input.sourceLabels,
+      ip: input.sourceIP,
+    }, context);
+    const destination = await resolveEndpoint(k8sManager, "destination", {
+      pod: input.destinationPod,
+      namespace: input.destinationNamespace,
+      labels: input.destinationLabels,
+      ip: input.destinationIP,
+    }, context);
+
+    // Policies match named ports against the destination's container ports
+    let port: TrafficPort;
+    if (input.portName !== undefined) {
+      if (!destination.ports) {
+        throw new McpError(ErrorCode.InvalidParams, "portName needs a destinationPod whose container ports can be read");
+      }
+      const declared = destination.ports.find((p) => p.name === input.portName && (p.protocol || "TCP") === protocol);
+      if (!declared) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Pod '${destination.pod}' has no ${protocol} container port named '${input.portName}'`
+        );
+      }
+      port = { number: declared.containerPort, name: declared.name, protocol };
+    } else {
+      const declared = destination.ports?.find((p) => p.containerPort === input.port && (p.protocol || "TCP") === protocol);
+      port = { number: input.port, name: declared?.name, protocol };
+    }
+
+    // Only policies in the namespaces of the two pods can select them
+    const client = k8sManager.getDynamicClient(context);
+    const resource = await client.resolveResource("networkpolicies.networking.k8s.io");
+    const policies = [];
+    for (const namespace of new Set([source.namespace, destination.namespace])) {
+      if (namespace) {
+        policies.push(...(await client.listResources(resource, { namespace })).items);
+      }
+    }
+
+    const outside = (what: string): DirectionVerdict => ({
+      allowed: true,
+      isolated: false,
+      policies: [],
+      allowedBy: [],
+      reason: `The ${what} is outside the cluster, so no NetworkPolicy applies to it`,
+    });
+    const ingress = destination.namespace
+      ? evaluateDirection(policies, "Ingress", destination, source, port)
+      : outside("destination");
+    const egress = source.namespace
+      ? evaluateDirection(policies, "Egress", source, destination, port)
+      : outside("source");
+    const allowed = ingress.allowed && egress.allowed;
+    const denials = [
+      ...(egress.allowed ? [] : [`egress from the source (${egress.policies.join(", ")})`]),
+      ...(ingress.allowed ? [] : [`ingress into the destination (${ingress.policies.join(", ")})`]),
+    ];
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              allowed,
+              summary: allowed
+                ? `Allowed: ${ingress.isolated || egress.isolated ? "the policies selecting the pods allow it" : "no policy isolates either pod"}`
+                : `Denied by the policies on ${denials.join(" and ")}`,
+              source: describeEndpoint(source),
+              destination: describeEndpoint(destination),
+              port: { ...(port.number !== undefined ? { port: port.number } : {}), ...(port.name ? { name: port.name } : {}), protocol },
+              egress,
+              ingress,
+              policiesEvaluated: policies.length,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InternalError, `NetworkPolicy check failed: ${apiErrorMessage(error)}`);
+  }
+}
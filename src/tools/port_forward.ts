@@ -1,14 +1,23 @@
 import { spawn } from "child_process";
 import { z } from "zod";
 import { KubernetesManager } from "../utils/kubernetes-manager.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { contextArgs, formatCommand } from "../utils/command-runner.js";
+import { recordCommand, redactArgs } from "../utils/audit.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+} from "../utils/validation.js";
 
 // Use spawn instead of exec because port-forward is a long-running process
 async function executeKubectlCommandAsync(
-  command: string
+  args: string[]
 ): Promise<{ success: boolean; message: string; pid: number }> {
+  recordCommand(formatCommand("kubectl", redactArgs(args)));
   return new Promise((resolve, reject) => {
-    const [cmd, ...args] = command.split(" ");
-    const process = spawn(cmd, args);
+    const process = spawn("kubectl", args);
 
     let output = "";
     let errorOutput = "";
@@ -64,6 +73,7 @@ export const PortForwardSchema = {
       localPort: { type: "number" },
       targetPort: { type: "number" },
       namespace: { type: "string" },
+      context: contextParameter,
     },
     required: ["resourceType", "resourceName", "localPort", "targetPort"],
   },
@@ -77,16 +87,28 @@ export async function startPortForward(
     localPort: number;
     targetPort: number;
     namespace?: string;
+    context?: string;
   }
 ): Promise<{ content: { success: boolean; message: string }[] }> {
-  let command = `kubectl port-forward`;
+  const resourceType = validateResourceType(input.resourceType);
+  const resourceName = validateResourceName(input.resourceName, "resourceName");
+  for (const [field, port] of [["localPort", input.localPort], ["targetPort", input.targetPort]] as const) {
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid ${field} '${port}': must be a port number`);
+    }
+  }
+
+  const args = ["port-forward"];
+  if (input.context) {
+    args.push(...contextArgs(validateContextName(input.context)));
+  }
   if (input.namespace) {
-    command += ` -n ${input.namespace}`;
+    args.push("-n", validateNamespace(input.namespace));
   }
-  command += ` ${input.resourceType}/${input.resourceName} ${input.localPort}:${input.targetPort}`;
+  args.push(`${resourceType}/${resourceName}`, `${input.localPort}:${input.targetPort}`);
 
   try {
-    const result = await executeKubectlCommandAsync(command);
+    const result = await executeKubectlCommandAsync(args);
     // Track the port-forward process
     k8sManager.trackPortForward({
       id: `${input.resourceType}-${input.resourceName}-${input.localPort}`,
@@ -0,0 +1,452 @@
+import { KubernetesManager } from "../types.js";
+import * as k8s from "@kubernetes/client-node";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { contextParameter } from "../models/common-parameters.js";
+import { apiErrorMessage } from "../utils/dynamic-client.js";
+import {
+  bindingSubjectMatches,
+  collectGrants,
+  RbacIdentity,
+  RbacRequest,
+  RoleGrant,
+  ruleAllows,
+  subjectIdentity,
+} from "../utils/rbac.js";
+import {
+  validateContextName,
+  validateNamespace,
+  validateResourceName,
+} from "../utils/validation.js";
+
+// The API server authorizes this group before RBAC is consulted
+const PRIVILEGED_GROUP_NOTE = "Members of the system:masters group can do everything, whatever the RBAC rules say";
+
+const requestParameters = {
+  verb: {
+    type: "string",
+    description: "Verb to check, e.g. get, list, watch, create, update, patch, delete or *",
+  },
+  resource: {
+    type: "string",
+    description: "Resource type as kubectl accepts it (e.g. 'pods', 'deploy', 'deployments.apps'), optionally with a subresource (e.g. 'pods/log', 'pods/exec')",
+    optional: true,
+  },
+  name: {
+    type: "string",
+    description: "Name of a specific object, for rules limited to resourceNames",
+    optional: true,
+  },
+  nonResourceURL: {
+    type: "string",
+    description: "Non-resource URL such as /metrics or /healthz, instead of resource",
+    optional: true,
+  },
+} as const;
+
+export const rbacCanISchema = {
+  name: "rbac_can_i",
+  description:
+    "Ask the API server whether a subject may perform an action, like `kubectl auth can-i`. Checks the current credentials, or impersonates a user, groups or a ServiceAccount",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...requestParameters,
+      namespace: {
+        type: "string",
+        description: "Namespace of the action; omit for cluster-scoped resources or all namespaces",
+        optional: true,
+      },
+      as: {
+        type: "string",
+        description: "User to check instead of the current credentials",
+        optional: true,
+      },
+      asGroups: {
+        type: "array",
+        items: { type: "string" },
+        description: "Groups of the user to check",
+        optional: true,
+      },
+      serviceAccount: {
+        type: "string",
+        description: "ServiceAccount to check, as <namespace>/<name>",
+        optional: true,
+      },
+      context: contextParameter,
+    },
+    required: ["verb"],
+  },
+} as const;
+
+export const rbacWhoCanSchema = {
+  name: "rbac_who_can",
+  description:
+    "List the users, groups and ServiceAccounts that RBAC allows to perform an action, computed from the Roles, ClusterRoles, RoleBindings and ClusterRoleBindings, with the bindings that grant it",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...requestParameters,
+      namespace: {
+        type: "string",
+        description: "Namespace of the action; omit to list cluster-wide grants and the grants of every namespace",
+        optional: true,
+      },
+      context: contextParameter,
+    },
+    required: ["verb"],
+  },
+} as const;
+
+export const rbacDescribeSubjectSchema = {
+  name: "rbac_describe_subject",
+  description:
+    "List all effective RBAC rules of a ServiceAccount, user or group: the bindings that apply to it, directly or through its groups, and the rules of the roles they grant, including aggregated ClusterRoles",
+  inputSchema: {
+    type: "object",
+    properties: {
+      kind: {
+        type: "string",
+        enum: ["ServiceAccount", "User", "Group"],
+        description: "Kind of the subject",
+      },
+      name: {
+        type: "string",
+        description: "Name of the subject",
+      },
+      namespace: {
+        type: "string",
+        description: "Namespace of the ServiceAccount",
+        optional: true,
+      },
+      groups: {
+        type: "array",
+        items: { type: "string" },
+        description: "Groups a user belongs to, whose bindings apply to the user as well",
+        optional: true,
+      },
+      context: contextParameter,
+    },
+    required: ["kind", "name"],
+  },
+} as const;
+
+interface RequestInput {
+  verb: string;
+  resource?: string;
+  name?: string;
+  nonResourceURL?: string;
+}
+
+// Helper function to turn the tool's input into a request as RBAC sees it
+async function resolveRequest(
+  k8sManager: KubernetesManager,
+  input: RequestInput,
+  context?: string
+): Promise<{ request: RbacRequest; namespaced: boolean }> {
+  const verb = input.verb;
+  if (typeof verb !== "string" || !/^(\*|[a-z]+)$/i.test(verb)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid verb '${verb}'`);
+  }
+  if (input.nonResourceURL !== undefined) {
+    if (input.resource !== undefined) {
+      throw new McpError(ErrorCode.InvalidParams, "Give either resource or nonResourceURL, not both");
+    }
+    if (!input.nonResourceURL.startsWith("/")) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid nonResourceURL '${input.nonResourceURL}': must start with '/'`);
+    }
+    return { request: { verb, nonResourceURL: input.nonResourceURL }, namespaced: false };
+  }
+  if (!input.resource) {
+    throw new McpError(ErrorCode.InvalidParams, "Give resource or nonResourceURL");
+  }
+
+  const [base, subresource, ...rest] = input.resource.split("/");
+  if (rest.length > 0 || subresource === "") {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource '${input.resource}'`);
+  }
+  const name = input.name !== undefined ? validateResourceName(input.name) : undefined;
+  if (base === "*") {
+    return { request: { verb, group: "*", resource: "*", subresource, name }, namespaced: true };
+  }
+  const info = await k8sManager.getDynamicClient(context).resolveResource(base);
+  return {
+    request: { verb, group: info.group, resource: info.name, subresource, name },
+    namespaced: info.namespaced,
+  };
+}
+
+function describeRequest(request: RbacRequest, namespace?: string) {
+  if ("nonResourceURL" in request) {
+    return { verb: request.verb, nonResourceURL: request.nonResourceURL };
+  }
+  return {
+    verb: request.verb,
+    group: request.group,
+    resource: request.subresource ? `${request.resource}/${request.subresource}` : request.resource,
+    ...(request.name ? { name: request.name } : {}),
+    ...(namespace ? { namespace } : {}),
+  };
+}
+
+// Helper function to fetch all roles and bindings, optionally of one namespace
+async function fetchGrants(k8sManager: KubernetesManager, namespace?: string, context?: string): Promise<RoleGrant[]> {
+  const rbacApi = k8sManager.getRbacApi(context);
+  const [clusterRoles, clusterRoleBindings, roles, roleBindings] = await Promise.all([
+    rbacApi.listClusterRole(),
+    rbacApi.listClusterRoleBinding(),
+    namespace ? rbacApi.listNamespacedRole(namespace) : rbacApi.listRoleForAllNamespaces(),
+    namespace ? rbacApi.listNamespacedRoleBinding(namespace) : rbacApi.listRoleBindingForAllNamespaces(),
+  ]);
+  return collectGrants({
+    clusterRoles: clusterRoles.body.items,
+    clusterRoleBindings: clusterRoleBindings.body.items,
+    roles: roles.body.items,
+    roleBindings: roleBindings.body.items,
+  });
+}
+
+function rbacError(error: any, action: string): McpError {
+  if (error instanceof McpError) return error;
+  if (error?.statusCode === 403 || error?.response?.statusCode === 403) {
+    return new McpError(ErrorCode.InvalidRequest, `Not allowed to ${action}: ${apiErrorMessage(error)}`);
+  }
+  return new McpError(ErrorCode.InternalError, `Failed to ${action}: ${apiErrorMessage(error)}`);
+}
+
+export async function rbacCanI(
+  k8sManager: KubernetesManager,
+  input: RequestInput & {
+    namespace?: string;
+    as?: string;
+    asGroups?: string[];
+    serviceAccount?: string;
+    context?: string;
+  }
+) {
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const namespace = input.namespace ? validateNamespace(input.namespace) : undefined;
+  if (input.serviceAccount !== undefined && input.as !== undefined) {
+    throw new McpError(ErrorCode.InvalidParams, "Give either as or serviceAccount, not both");
+  }
+
+  let identity: RbacIdentity | undefined;
+  if (input.serviceAccount !== undefined) {
+    const [saNamespace, saName, ...rest] = input.serviceAccount.split("/");
+    if (!saName || rest.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid serviceAccount '${input.serviceAccount}': must be <namespace>/<name>`);
+    }
+    identity = subjectIdentity("ServiceAccount", validateResourceName(saName), validateNamespace(saNamespace), input.asGroups);
+  } else if (input.as !== undefined) {
+    identity = subjectIdentity("User", input.as, undefined, input.asGroups);
+  } else if (input.asGroups?.length) {
+    identity = { groups: input.asGroups };
+  }
+
+  const { request } = await resolveRequest(k8sManager, input, context);
+  const attributes =
+    "nonResourceURL" in request
+      ? { nonResourceAttributes: { verb: request.verb, path: request.nonResourceURL } }
+      : {
+          resourceAttributes: {
+            verb: request.verb,
+            group: request.group,
+            resource: request.resource,
+            ...(request.subresource ? { subresource: request.subresource } : {}),
+            ...(request.name ? { name: request.name } : {}),
+            ...(namespace ? { namespace } : {}),
+          },
+        };
+
+  let status: k8s.V1SubjectAccessReviewStatus | undefined;
+  try {
+    const authorizationApi = k8sManager.getAuthorizationApi(context);
+    if (identity) {
+      const { body } = await authorizationApi.createSubjectAccessReview({
+        apiVersion: "authorization.k8s.io/v1",
+        kind: "SubjectAccessReview",
+        spec: { ...attributes, ...(identity.user ? { user: identity.user } : {}), groups: identity.groups },
+      });
+      status = body.status;
+    } else {
+      const { body } = await authorizationApi.createSelfSubjectAccessReview({
+        apiVersion: "authorization.k8s.io/v1",
+        kind: "SelfSubjectAccessReview",
+        spec: attributes,
+      });
+      status = body.status;
+    }
+  } catch (error) {
+    throw rbacError(error, identity ? "check access of another subject (needs create on subjectaccessreviews)" : "check access");
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            allowed: !!status?.allowed,
+            ...(status?.denied ? { denied: true } : {}),
+            ...(status?.reason ? { reason: status.reason } : {}),
+            ...(status?.evaluationError ? { evaluationError: status.evaluationError } : {}),
+            subject: identity || "current credentials",
+            request: describeRequest(request, namespace),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+export async function rbacWhoCan(
+  k8sManager: KubernetesManager,
+  input: RequestInput & { namespace?: string; context?: string }
+) {
+  const context = input.context ? validateContextName(input.context) : undefined;
+  const namespace = input.namespace ? validateNamespace(input.namespace) : undefined;
+  const { request, namespaced } = await resolveRequest(k8sManager, input, context);
+
+  let grants: RoleGrant[];
+  try {
+    grants = await fetchGrants(k8sManager, namespace, context);
+  } catch (error) {
+    throw rbacError(error, "list roles and bindings");
+  }
+
+  // RoleBindings grant nothing on cluster-scoped resources or URLs
+  const applicable = grants.filter((grant) => !grant.namespace || namespaced);
+  const subjects = new Map<string, any>();
+  for (const grant of applicable) {
+    if (!grant.rules.some((rule) => ruleAllows(rule, request))) continue;
+    const scope = grant.namespace || "cluster";
+    for (const subject of grant.subjects) {
+      const key = `${subject.kind}/${subject.namespace || ""}/${subject.name}`;
+      const entry = subjects.get(key) || {
+        kind: subject.kind,
+        name: subject.name,
+        ...(subject.namespace ? { namespace: subject.namespace } : {}),
+        scopes: [],
+        grantedBy: [],
+      };
+      if (!entry.scopes.includes(scope)) entry.scopes.push(scope);
+      entry.grantedBy.push({
+        binding: grant.binding,
+        role: grant.role,
+        ...(grant.aggregatedFrom ? { aggregatedFrom: grant.aggregatedFrom } : {}),
+      });
+      subjects.set(key, entry);
+    }
+  }
+
+  const list = [...subjects.values()].sort(
+    (a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name)
+  );
+  const where = namespace ? `in namespace ${namespace}` : namespaced ? "cluster-wide or in some namespaces" : "cluster-wide";
+  const target = "nonResourceURL" in request
+    ? request.nonResourceURL
+    : request.subresource ? `${request.resource}/${request.subresource}` : request.resource;
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            request: describeRequest(request, namespace),
+            summary: `${list.length} subject(s) can ${request.verb} ${target} ${where}`,
+            subjects: list,
+            note: PRIVILEGED_GROUP_NOTE,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+export async function rbacDescribeSubject(
+  k8sManager: KubernetesManager,
+  input: {
+    kind: string;
+    name: string;
+    namespace?: string;
+    groups?: string[];
+    context?: string;
+  }
+) {
+  const context = input.context ? validateContextName(input.context) : undefined;
+  if (!["ServiceAccount", "User", "Group"].includes(input.kind)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid kind '${input.kind}': must be ServiceAccount, User or Group`);
+  }
+  if (typeof input.name !== "string" || input.name.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "name is required");
+  }
+  let namespace: string | undefined;
+  if (input.kind === "ServiceAccount") {
+    if (!input.namespace) {
+      throw new McpError(ErrorCode.InvalidParams, "namespace is required for a ServiceAccount");
+    }
+    namespace = validateNamespace(input.namespace);
+    validateResourceName(input.name);
+  }
+  const identity = subjectIdentity(input.kind, input.name, namespace, input.groups);
+
+  let grants: RoleGrant[];
+  try {
+    grants = await fetchGrants(k8sManager, undefined, context);
+  } catch (error) {
+    throw rbacError(error, "list roles and bindings");
+  }
+
+  const bindings = [];
+  const rules = [];
+  for (const grant of grants) {
+    const matched = grant.subjects.filter((subject) => bindingSubjectMatches(subject, identity));
+    if (matched.length === 0) continue;
+    const scope = grant.namespace || "cluster";
+    bindings.push({
+      binding: grant.binding,
+      role: grant.role,
+      scope,
+      // How the binding names the subject, e.g. through one of its groups
+      matchedAs: matched.map((s) => `${s.kind}/${s.namespace ? `${s.namespace}/` : ""}${s.name}`),
+      ...(grant.aggregatedFrom ? { aggregatedFrom: grant.aggregatedFrom } : {}),
+      ...(grant.missingRole ? { missingRole: true } : {}),
+    });
+    for (const rule of grant.rules) {
+      rules.push({
+        scope,
+        verbs: rule.verbs,
+        ...(rule.apiGroups ? { apiGroups: rule.apiGroups } : {}),
+        ...(rule.resources ? { resources: rule.resources } : {}),
+        ...(rule.resourceNames?.length ? { resourceNames: rule.resourceNames } : {}),
+        ...(rule.nonResourceURLs ? { nonResourceURLs: rule.nonResourceURLs } : {}),
+        via: `${grant.binding.kind}/${grant.binding.name} -> ${grant.role.kind}/${grant.role.name}`,
+      });
+    }
+  }
+  // Cluster-wide rules first, then by namespace
+  rules.sort((a, b) => (a.scope === "cluster" ? -1 : b.scope === "cluster" ? 1 : a.scope.localeCompare(b.scope)));
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            subject: { kind: input.kind, name: input.name, ...(namespace ? { namespace } : {}) },
+            identity,
+            summary: `${bindings.length} binding(s) grant ${rules.length} rule(s)${bindings.some((b) => b.scope === "cluster") ? ", some cluster-wide" : ""}`,
+            bindings,
+            rules,
+            ...(identity.groups.includes("system:masters") ? { note: PRIVILEGED_GROUP_NOTE } : {}),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,273 @@
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import yaml from "yaml";
+import { normalizeKind } from "./policy.js";
+
+const REDACTED = "[REDACTED]";
+
+// Argument and object keys whose values are never logged
+const SENSITIVE_KEY =
+  /(password|passwd|secret|token|api[-_]?key|authorization|credential|private[-_]?key|cert(ificate)?[-_]?data|key[-_]?data)/i;
+
+// "key=value" or "Header: value" strings carrying a sensitive value
+const SENSITIVE_ASSIGNMENT =
+  /((?:password|passwd|secret|token|api[-_]?key|authorization|credential|private[-_]?key)[\w.-]*\s*[=:]\s*)(.+)$/i;
+
+// kubectl flag whose "key=value" argument is a literal, often secret, value
+const LITERAL_FLAG = /^(--from-literal=)([\s\S]*)$/;
+
+// kubectl arguments naming Secrets, such as "secret" or "secrets/db"
+const SECRET_ARGUMENT = /^secrets?(\/|$)/i;
+
+// Arguments carrying file contents or stdin, logged as their size and hash.
+// contentBase64 is decoded so its hash matches the one kubectl_cp_to_pod
+// reports for the written file.
+const PAYLOAD_ENCODINGS: Record<string, BufferEncoding> = {
+  content: "utf8",
+  contentBase64: "base64",
+  stdin: "utf8",
+};
+
+// Longest string argument kept in full
+const MAX_STRING_LENGTH = 16 * 1024;
+
+/**
+ * One line of the audit log.
+ */
+export interface AuditRecord {
+  timestamp: string;
+  sessionId?: string;
+  /** Client ID of the bearer token, for authenticated HTTP sessions */
+  client?: string;
+  tool: string;
+  arguments: Record<string, any>;
+  context?: string;
+  namespace?: string | string[];
+  /** kubectl/helm commands and API requests made while running the tool */
+  commands: string[];
+  durationMs: number;
+  status: "success" | "error";
+  error?: string;
+}
+
+export type AuditEntry = Pick<AuditRecord, "sessionId" | "client" | "tool" | "arguments" | "context" | "namespace">;
+
+interface AuditScope {
+  commands: string[];
+}
+
+const currentScope = new AsyncLocalStorage<AuditScope>();
+
+/**
+ * Record a command or API request made on behalf of the tool call that is
+ * currently being audited. Does nothing outside of an audited call.
+ */
+export function recordCommand(command: string) {
+  currentScope.getStore()?.commands.push(redactString(command));
+}
+
+/**
+ * client-node request interceptor recording each API request.
+ */
+export function recordApiRequest(requestOptions: { method?: string; uri?: unknown; qs?: Record<string, any> }) {
+  if (!currentScope.getStore()) return;
+  let path = String(requestOptions.uri ?? "");
+  try {
+    path = new URL(path).pathname;
+  } catch {
+    // Not an absolute URL, keep it as is
+  }
+  const query = new URLSearchParams(
+    Object.entries(requestOptions.qs || {})
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  ).toString();
+  recordCommand(`${requestOptions.method || "GET"} ${path}${query ? `?${query}` : ""}`);
+}
+
+function redactString(value: string): string {
+  const redacted = value.replace(SENSITIVE_ASSIGNMENT, `$1${REDACTED}`);
+  return redacted.length > MAX_STRING_LENGTH
+    ? `${redacted.slice(0, MAX_STRING_LENGTH)}... (${redacted.length} characters)`
+    : redacted;
+}
+
+// Mask the value of a "key=value" literal, keeping its key
+function redactLiteral(literal: string): string {
+  const equals = literal.indexOf("=");
+  return equals === -1 ? REDACTED : `${literal.slice(0, equals + 1)}${REDACTED}`;
+}
+
+/**
+ * Copy of a kubectl or helm argument list that is safe to log: the values of
+ * --from-literal, patches of Secrets and sensitive assignments are masked.
+ */
+export function redactArgs(args: string[]): string[] {
+  const patchesSecret = args.includes("patch") && args.some((arg) => SECRET_ARGUMENT.test(arg));
+  return args.map((arg, index) => {
+    const previous = args[index - 1];
+    if (previous === "--from-literal") return redactLiteral(arg);
+    const literal = arg.match(LITERAL_FLAG);
+    if (literal) return `${literal[1]}${redactLiteral(literal[2])}`;
+    if (patchesSecret) {
+      if (previous === "-p" || previous === "--patch") return REDACTED;
+      if (/^(-p|--patch)=/.test(arg)) return `${arg.slice(0, arg.indexOf("=") + 1)}${REDACTED}`;
+    }
+    return redactString(arg);
+  });
+}
+
+function redactValue(value: any): any {
+  if (typeof value === "string") return redactString(value);
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SENSITIVE_KEY.test(key) ? REDACTED : redactValue(item)])
+    );
+  }
+  return value;
+}
+
+// Mask the data of a Secret, and of the Secrets in a List
+function redactSecretData(object: any) {
+  if (!object || typeof object !== "object") return;
+  if (object.kind === "Secret") {
+    for (const field of ["data", "stringData"]) {
+      if (object[field] && typeof object[field] === "object") {
+        object[field] = Object.fromEntries(Object.keys(object[field]).map((key) => [key, REDACTED]));
+      }
+    }
+  }
+  if (Array.isArray(object.items)) object.items.forEach(redactSecretData);
+}
+
+/**
+ * Redact a manifest: Secret data is removed and sensitive keys anywhere in
+ * the objects are masked.
+ */
+function redactManifest(manifest: string): string {
+  try {
+    return yaml
+      .parseAllDocuments(manifest)
+      .map((document) => {
+        const object = document.toJS();
+        if (!object || typeof object !== "object") return yaml.stringify(object);
+        redactSecretData(object);
+        return yaml.stringify(redactValue(object));
+      })
+      .join("---\n");
+  } catch {
+    return REDACTED;
+  }
+}
+
+// Size and sha256 of a payload argument, in place of its data
+function payloadDigest(value: string, encoding: BufferEncoding) {
+  const data = Buffer.from(value, encoding);
+  return { bytes: data.length, sha256: createHash("sha256").update(data).digest("hex") };
+}
+
+/**
+ * Copy of tool arguments that is safe to log.
+ */
+export function sanitizeArguments(args: Record<string, any>): Record<string, any> {
+  const secret = typeof args.resourceType === "string" && normalizeKind(args.resourceType) === "secret";
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => {
+      if (SENSITIVE_KEY.test(key)) return [key, REDACTED];
+      if (key === "manifest" && typeof value === "string") return [key, redactManifest(value)];
+      if (Object.hasOwn(PAYLOAD_ENCODINGS, key) && typeof value === "string") {
+        return [key, payloadDigest(value, PAYLOAD_ENCODINGS[key])];
+      }
+      if (key === "fromLiteral" && Array.isArray(value)) {
+        return [key, value.map((literal) => (typeof literal === "string" ? redactLiteral(literal) : REDACTED))];
+      }
+      if (key === "patchData" && secret) return [key, REDACTED];
+      if (key === "args" && Array.isArray(value) && value.every((arg) => typeof arg === "string")) {
+        return [key, redactArgs(value)];
+      }
+      return [key, redactValue(value)];
+    })
+  );
+}
+
+// Message of a tool result that reports a failure with isError rather than
+// by throwing
+function resultError(result: unknown): string | undefined {
+  if (!result || typeof result !== "object" || (result as { isError?: unknown }).isError !== true) {
+    return undefined;
+  }
+  const content = (result as { content?: { text?: unknown }[] }).content;
+  const text = Array.isArray(content) ? content.map((item) => item?.text).filter((item) => typeof item === "string") : [];
+  return text.join("\n") || "Tool returned an error";
+}
+
+/**
+ * Writes one JSON line per tool call to the configured sink.
+ */
+export class AuditLogger {
+  constructor(private write: (line: string) => void) {}
+
+  /**
+   * Create a logger from MCP_AUDIT_LOG: a file path, "stdout" or "stderr".
+   * Returns undefined when auditing is off. With the stdio transport, stdout
+   * carries the protocol, so "stdout" falls back to stderr.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env, options: { stdio?: boolean } = {}): AuditLogger | undefined {
+    const sink = env.MCP_AUDIT_LOG;
+    if (!sink) {
+      return undefined;
+    }
+    if (sink === "stderr" || (sink === "stdout" && options.stdio)) {
+      return new AuditLogger((line) => process.stderr.write(line));
+    }
+    if (sink === "stdout") {
+      return new AuditLogger((line) => process.stdout.write(line));
+    }
+    // Fail at startup rather than on the first tool call
+    fs.appendFileSync(sink, "");
+    return new AuditLogger((line) => fs.appendFileSync(sink, line));
+  }
+
+  /**
+   * Run a tool call, recording the commands it makes, how long it took and
+   * whether it succeeded.
+   */
+  async run<T>(entry: AuditEntry, fn: () => Promise<T>): Promise<T> {
+    const scope: AuditScope = { commands: [] };
+    const start = Date.now();
+    const finish = (status: AuditRecord["status"], error?: unknown) => {
+      const record: AuditRecord = {
+        timestamp: new Date(start).toISOString(),
+        ...entry,
+        arguments: sanitizeArguments(entry.arguments),
+        commands: scope.commands,
+        durationMs: Date.now() - start,
+        status,
+      };
+      if (error !== undefined) {
+        record.error = redactString(error instanceof Error ? error.message : String(error));
+      }
+      try {
+        this.write(`${JSON.stringify(record)}\n`);
+      } catch (writeError) {
+        console.error("Failed to write audit log:", writeError);
+      }
+    };
+
+    try {
+      const result = await currentScope.run(scope, fn);
+      const error = resultError(result);
+      if (error === undefined) {
+        finish("success");
+      } else {
+        finish("error", error);
+      }
+      return result;
+    } catch (error) {
+      finish("error", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,480 @@
+import * as fs from "fs";
+import { createHash, timingSafeEqual } from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import yaml from "yaml";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+  OAuthError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { withoutDebugContainers } from "./debug-container.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /** The verified bearer token, set by requireBearerToken */
+    auth?: AuthInfo;
+  }
+}
+
+/** Scope granting every tool */
+export const WRITE_SCOPE = "kubernetes:write";
+/** Scope granting read-only tools */
+export const READ_SCOPE = "kubernetes:read";
+/** Prefix of scopes that restrict a token to a namespace, e.g. "namespace:team-a" */
+export const NAMESPACE_SCOPE_PREFIX = "namespace:";
+
+/**
+ * A static token from MCP_AUTH_TOKEN or the MCP_AUTH_TOKENS_FILE.
+ */
+export interface StaticToken {
+  /** Identifies the caller in logs and binds sessions to it */
+  name: string;
+  token: string;
+  /** Only allow read-only tools */
+  readOnly?: boolean;
+  /** Only allow these namespaces; omitted means all namespaces */
+  namespaces?: string[];
+}
+
+export interface OAuthConfig {
+  /** Authorization server issuing the tokens, advertised in resource metadata */
+  issuer?: string;
+  /** RFC 7662 token introspection endpoint */
+  introspectionUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  /** Expected `aud` of introspected tokens */
+  audience?: string;
+}
+
+export interface AuthConfig {
+  tokens: StaticToken[];
+  oauth?: OAuthConfig;
+}
+
+/**
+ * What an authenticated caller may do with tools. `undefined` everywhere
+ * means unrestricted.
+ */
+export interface ToolScope {
+  readOnly: boolean;
+  namespaces?: string[];
+}
+
+/**
+ * Load the transport authentication settings from the environment. Returns
+ * undefined when neither static tokens nor OAuth are configured.
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig | undefined {
+  const tokens: StaticToken[] = [];
+
+  if (env.MCP_AUTH_TOKEN) {
+    tokens.push({ name: "default", token: env.MCP_AUTH_TOKEN });
+  }
+
+  if (env.MCP_AUTH_TOKENS_FILE) {
+    const parsed = yaml.parse(fs.readFileSync(env.MCP_AUTH_TOKENS_FILE, "utf8"));
+    const entries = Array.isArray(parsed) ? parsed : parsed?.tokens;
+    if (!Array.isArray(entries)) {
+      throw new Error(`${env.MCP_AUTH_TOKENS_FILE} must contain a list of tokens`);
+    }
+    entries.forEach((entry: any, index: number) => {
+      if (!entry?.token || typeof entry.token !== "string") {
+        throw new Error(`Token entry ${index} in ${env.MCP_AUTH_TOKENS_FILE} has no token`);
+      }
+      if (entry.namespaces !== undefined && !Array.isArray(entry.namespaces)) {
+        throw new Error(`Token entry ${index} in ${env.MCP_AUTH_TOKENS_FILE}: namespaces must be a list`);
+      }
+      tokens.push({
+        name: entry.name || `token-${index}`,
+        token: entry.token,
+        readOnly: entry.readOnly === true,
+        namespaces: entry.namespaces,
+      });
+    });
+  }
+
+  const oauth: OAuthConfig | undefined = env.MCP_OAUTH_INTROSPECTION_URL
+    ? {
+        issuer: env.MCP_OAUTH_ISSUER,
+        introspectionUrl: env.MCP_OAUTH_INTROSPECTION_URL,
+        clientId: env.MCP_OAUTH_CLIENT_ID,
+        clientSecret: env.MCP_OAUTH_CLIENT_SECRET,
+        audience: env.MCP_OAUTH_AUDIENCE,
+      }
+    : undefined;
+
+  if (tokens.length === 0 && !oauth) {
+    return undefined;
+  }
+  return { tokens, oauth };
+}
+
+/**
+ * Allowed browser origins from MCP_ALLOWED_ORIGINS (comma separated, "*" for any).
+ */
+export function loadAllowedOrigins(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.MCP_ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter((origin) => origin !== "");
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function staticTokenScopes(token: StaticToken): string[] {
+  return [
+    token.readOnly ? READ_SCOPE : WRITE_SCOPE,
+    ...(token.namespaces || []).map((namespace) => `${NAMESPACE_SCOPE_PREFIX}${namespace}`),
+  ];
+}
+
+/**
+ * Verifies bearer tokens against the static tokens first, then the OAuth
+ * introspection endpoint. Introspection results are cached for up to a minute.
+ */
+export class TokenVerifier {
+  private cache = new Map<string, { auth: AuthInfo; until: number }>();
+
+  constructor(private config: AuthConfig) {}
+
+  async verify(token: string): Promise<AuthInfo> {
+    const tokenDigest = digest(token);
+    const match = this.config.tokens.find((candidate) =>
+      timingSafeEqual(digest(candidate.token), tokenDigest)
+    );
+    if (match) {
+      return { token, clientId: match.name, scopes: staticTokenScopes(match) };
+    }
+
+    if (!this.config.oauth) {
+      throw new InvalidTokenError("Invalid token");
+    }
+
+    const cached = this.cache.get(token);
+    if (cached && cached.until > Date.now()) {
+      return cached.auth;
+    }
+
+    const auth = await this.introspect(this.config.oauth, token);
+    for (const [key, entry] of this.cache) {
+      if (entry.until <= Date.now()) this.cache.delete(key);
+    }
+    const until = Math.min(Date.now() + 60_000, auth.expiresAt ? auth.expiresAt * 1000 : Infinity);
+    this.cache.set(token, { auth, until });
+    return auth;
+  }
+
+  private async introspect(oauth: OAuthConfig, token: string): Promise<AuthInfo> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (oauth.clientId) {
+      const credentials = `${oauth.clientId}:${oauth.clientSecret || ""}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+
+    let result: any;
+    try {
+      const response = await fetch(oauth.introspectionUrl, {
+        method: "POST",
+        headers,
+        body: new URLSearchParams({ token, token_type_hint: "access_token" }).toString(),
+      });
+      if (!response.ok) {
+        throw new Error(`introspection returned HTTP ${response.status}`);
+      }
+      result = await response.json();
+    } catch (error: any) {
+      throw new ServerError(`Token introspection failed: ${error.message}`);
+    }
+
+    if (!result.active) {
+      throw new InvalidTokenError("Token is not active");
+    }
+    if (oauth.audience) {
+      const audiences = Array.isArray(result.aud) ? result.aud : [result.aud];
+      if (!audiences.includes(oauth.audience)) {
+        throw new InvalidTokenError("Token audience does not match this server");
+      }
+    }
+
+    return {
+      token,
+      clientId: result.client_id || result.sub || "oauth",
+      scopes: typeof result.scope === "string" ? result.scope.split(" ").filter(Boolean) : [],
+      expiresAt: result.exp,
+    };
+  }
+}
+
+/**
+ * Express middleware requiring a valid `Authorization: Bearer` token. The
+ * verified token is stored on `req.auth`; errors use the OAuth error format
+ * with a WWW-Authenticate challenge pointing at the resource metadata.
+ */
+export function requireBearerToken(verifier: TokenVerifier, resourceMetadataUrl?: string): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [type, token] = (req.headers.authorization || "").split(" ");
+      if (!type) {
+        throw new InvalidTokenError("Missing Authorization header");
+      }
+      if (type.toLowerCase() !== "bearer" || !token) {
+        throw new InvalidTokenError("Invalid Authorization header format, expected 'Bearer TOKEN'");
+      }
+
+      const auth = await verifier.verify(token);
+      if (auth.expiresAt && auth.expiresAt < Date.now() / 1000) {
+        throw new InvalidTokenError("Token has expired");
+      }
+      if (!auth.scopes.includes(READ_SCOPE) && !auth.scopes.includes(WRITE_SCOPE)) {
+        throw new InsufficientScopeError(`Token needs the ${READ_SCOPE} or ${WRITE_SCOPE} scope`);
+      }
+
+      req.auth = auth;
+      next();
+    } catch (error) {
+      if (error instanceof InvalidTokenError || error instanceof InsufficientScopeError) {
+        const metadata = resourceMetadataUrl ? `, resource_metadata="${resourceMetadataUrl}"` : "";
+        res.set(
+          "WWW-Authenticate",
+          `Bearer error="${error.errorCode}", error_description="${error.message}"${metadata}`
+        );
+        res.status(error instanceof InvalidTokenError ? 401 : 403).json(error.toResponseObject());
+      } else if (error instanceof OAuthError) {
+        console.error("Error verifying bearer token:", error.message);
+        res.status(error instanceof ServerError ? 500 : 400).json(error.toResponseObject());
+      } else {
+        console.error("Unexpected error verifying bearer token:", error);
+        res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+      }
+    }
+  };
+}
+
+/**
+ * Whether a request may use a session opened by `owner` (the client ID of the
+ * token that opened it, undefined without authentication).
+ */
+export function isSessionOwner(owner: string | undefined, auth?: AuthInfo): boolean {
+  return owner === undefined || owner === auth?.clientId;
+}
+
+/**
+ * Express middleware rejecting requests from browser origins that are not
+ * allowed, which protects local servers against DNS rebinding. Requests
+ * without an Origin header (non-browser clients) are always accepted.
+ */
+export function checkOrigin(allowedOrigins: string[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    if (!origin) {
+      next();
+      return;
+    }
+    if (!allowedOrigins.includes("*") && !allowedOrigins.includes(origin)) {
+      res.status(403).send(`Origin ${origin} is not allowed`);
+      return;
+    }
+
+    res.set("Access-Control-Allow-Origin", origin);
+    res.set("Vary", "Origin");
+    res.set("Access-Control-Allow-Headers", "Authorization, Content-Type, Mcp-Session-Id");
+    res.set("Access-Control-Expose-Headers", "Mcp-Session-Id, WWW-Authenticate");
+    res.set("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    if (req.method === "OPTIONS") {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Derive the tool restrictions granted by a verified token. Returns
+ * undefined for unauthenticated (stdio or unprotected) sessions.
+ */
+export function getToolScope(auth?: AuthInfo): ToolScope | undefined {
+  if (!auth) {
+    return undefined;
+  }
+  const namespaces = auth.scopes
+    .filter((scope) => scope.startsWith(NAMESPACE_SCOPE_PREFIX))
+    .map((scope) => scope.slice(NAMESPACE_SCOPE_PREFIX.length));
+  return {
+    readOnly: !auth.scopes.includes(WRITE_SCOPE),
+    namespaces: namespaces.length > 0 ? namespaces : undefined,
+  };
+}
+
+// Operations of otherwise mutating tools that only read
+const READ_ONLY_OPERATIONS: Record<string, { field: string; values: string[] }> = {
+  kubectl_context: { field: "operation", values: ["list", "get"] },
+  kubectl_rollout: { field: "subCommand", values: ["history", "status"] },
+};
+
+// Tools that act across namespaces or on server-wide state, so they cannot be
+// limited to a set of namespaces. rbac_describe_subject reads the RoleBindings
+// of every namespace; rbac_who_can is limited by its namespace, which
+// defaults to the token's first one.
+const CLUSTER_WIDE_TOOLS = ["kubectl_cluster_overview", "kubectl_generic", "cleanup", "rbac_describe_subject"];
+
+function denied(message: string): McpError {
+  return new McpError(ErrorCode.InvalidRequest, `Access denied: ${message}`);
+}
+
+/**
+ * Whether a tool may be listed for a caller with the given scope.
+ */
+export function isToolAllowed(scope: ToolScope, toolName: string, readOnlyTools: string[]): boolean {
+  if (scope.readOnly && !readOnlyTools.includes(toolName)) {
+    return false;
+  }
+  return !(scope.namespaces && CLUSTER_WIDE_TOOLS.includes(toolName));
+}
+
+/**
+ * Check a tool call against the caller's scope. Returns the input to run the
+ * tool with: for namespace-scoped callers a missing namespace defaults to
+ * their first allowed namespace. Throws an "Access denied" McpError otherwise.
+ */
+export function authorizeToolCall(
+  scope: ToolScope,
+  toolName: string,
+  input: Record<string, any>,
+  readOnlyTools: string[],
+  defaultContext?: string
+): Record<string, any> {
+  if (!isToolAllowed(scope, toolName, readOnlyTools)) {
+    throw denied(
+      scope.readOnly && !readOnlyTools.includes(toolName)
+        ? `${toolName} is not available to read-only tokens`
+        : `${toolName} cannot be limited to namespaces ${scope.namespaces!.join(", ")}`
+    );
+  }
+
+  const operation = READ_ONLY_OPERATIONS[toolName];
+  if (operation && !operation.values.includes(input[operation.field])) {
+    if (scope.readOnly) {
+      throw denied(`${toolName} ${input[operation.field]} is not available to read-only tokens`);
+    }
+    if (scope.namespaces && toolName === "kubectl_context") {
+      throw denied("namespace-scoped tokens cannot switch the server's context");
+    }
+  }
+  if (scope.readOnly) {
+    input = withoutDebugContainers(toolName, input, "for read-only tokens");
+  }
+
+  if (!scope.namespaces) {
+    return input;
+  }
+  const allowed = scope.namespaces;
+  const checkNamespace = (namespace: string) => {
+    if (!allowed.includes(namespace)) {
+      throw denied(`namespace ${namespace} is not allowed for this token`);
+    }
+  };
+
+  if (input.allNamespaces) {
+    throw denied("allNamespaces is not allowed for namespace-scoped tokens");
+  }
+  // The namespaces of a token are those of the server's cluster
+  if (input.context && input.context !== defaultContext) {
+    throw denied(`context ${input.context} is not allowed for namespace-scoped tokens`);
+  }
+  if (input.filename) {
+    throw denied("filename is not allowed for namespace-scoped tokens, pass a manifest instead");
+  }
+
+  const authorized = { ...input };
+  if (Array.isArray(input.namespaces)) {
+    input.namespaces.forEach(checkNamespace);
+  } else if (toolName === "kubectl_search") {
+    authorized.namespaces = allowed;
+  }
+
+  if (input.namespace) {
+    checkNamespace(input.namespace);
+  } else if (toolName !== "kubectl_search") {
+    authorized.namespace = allowed[0];
+  }
+
+  if (toolName === "network_policy_check") {
+    // The namespaces of the source and destination pods, "default" unless given
+    for (const end of ["source", "destination"]) {
+      if (!input[`${end}Pod`] && !input[`${end}Labels`]) continue;
+      const field = `${end}Namespace`;
+      if (input[field]) {
+        checkNamespace(input[field]);
+      } else {
+        authorized[field] = allowed[0];
+      }
+    }
+  }
+
+  // Nodes are cluster-scoped
+  if (toolName === "kubectl_diagnose") {
+    authorized.includeNodes = false;
+  }
+
+  if (typeof input.manifest === "string") {
+    for (const document of yaml.parseAllDocuments(input.manifest)) {
+      const object = document.toJS();
+      for (const item of manifestItems(object)) {
+        if (item?.metadata?.namespace) checkNamespace(item.metadata.namespace);
+      }
+    }
+  }
+
+  return authorized;
+}
+
+// The object of a manifest document and, for a List, its items
+function manifestItems(object: any): any[] {
+  return [object, ...(Array.isArray(object?.items) ? object.items : [])];
+}
+
+/**
+ * Check the kinds a call names, in resourceType, resourceTypes and manifests,
+ * against the caller's scope: namespace-scoped tokens may only use namespaced
+ * kinds. `isNamespaced` looks a kind up in the cluster's API discovery; kinds
+ * it cannot find count as cluster-scoped. Throws an "Access denied" McpError.
+ */
+export async function authorizeKinds(
+  scope: ToolScope,
+  input: Record<string, any>,
+  isNamespaced: (kind: string, apiVersion?: string) => Promise<boolean>
+): Promise<void> {
+  if (!scope.namespaces) {
+    return;
+  }
+
+  const kinds: { kind: string; apiVersion?: string }[] = [];
+  if (typeof input.resourceType === "string") kinds.push({ kind: input.resourceType });
+  if (Array.isArray(input.resourceTypes)) {
+    kinds.push(...input.resourceTypes.filter((kind: unknown) => typeof kind === "string").map((kind: string) => ({ kind })));
+  }
+  if (typeof input.manifest === "string") {
+    for (const document of yaml.parseAllDocuments(input.manifest)) {
+      for (const item of manifestItems(document.toJS())) {
+        if (typeof item?.kind === "string" && item.kind !== "List") {
+          kinds.push({ kind: item.kind, apiVersion: item.apiVersion });
+        }
+      }
+    }
+  }
+
+  for (const { kind, apiVersion } of kinds) {
+    if (!(await isNamespaced(kind, apiVersion))) {
+      throw denied(`${kind} is cluster-scoped or unknown, and not allowed for namespace-scoped tokens`);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import yaml from "yaml";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { execKubectl } from "./command-runner.js";
+import { unifiedDiff } from "./diff.js";
+
+/**
+ * Drop fields that only add noise to a diff: managed fields, which kubectl
+ * also hides, and the server's bookkeeping of the last applied config.
+ */
+export function normalizeForDiff(manifest: string): string {
+  const clean = (object: any) => {
+    if (!object || typeof object !== "object") return;
+    delete object.metadata?.managedFields;
+    delete object.metadata?.annotations?.["kubectl.kubernetes.io/last-applied-configuration"];
+    if (object.metadata?.annotations && Object.keys(object.metadata.annotations).length === 0) {
+      delete object.metadata.annotations;
+    }
+    if (Array.isArray(object.items)) object.items.forEach(clean);
+  };
+
+  return yaml
+    .parseAllDocuments(manifest)
+    .map((document) => document.toJS())
+    .filter((object) => object != null)
+    .map((object) => {
+      clean(object);
+      return yaml.stringify(object);
+    })
+    .join("---\n");
+}
+
+function commandError(error: any): string {
+  return (error.stderr || error.message || String(error)).toString().trim();
+}
+
+/**
+ * Diff the live objects selected by `kubectl get <getArgs>` against the
+ * objects returned by a server-side dry run of `dryRunArgs`.
+ */
+export function dryRunDiff(getArgs: string[], dryRunArgs: string[]): string {
+  let live: string;
+  try {
+    live = execKubectl(["get", ...getArgs, "-o", "yaml"]);
+  } catch (error: any) {
+    throw new McpError(ErrorCode.InternalError, `Failed to get the live object: ${commandError(error)}`);
+  }
+
+  let result: string;
+  try {
+    result = execKubectl([...dryRunArgs, "--dry-run=server", "-o", "yaml"]);
+  } catch (error: any) {
+    throw new McpError(ErrorCode.InternalError, `Server-side dry run failed: ${commandError(error)}`);
+  }
+
+  return unifiedDiff(normalizeForDiff(live), normalizeForDiff(result), { before: "live", after: "dry-run" });
+}
+
+/**
+ * Run `kubectl diff`, which compares live objects against a server-side dry
+ * run of applying the given files. It exits with 1 when there are changes.
+ */
+export function kubectlDiff(args: string[]): string {
+  try {
+    return execKubectl(["diff", ...args]);
+  } catch (error: any) {
+    if (error.status === 1 && error.stdout) {
+      return error.stdout.toString();
+    }
+    throw new McpError(ErrorCode.InternalError, `kubectl diff failed: ${commandError(error)}`);
+  }
+}
@@ -0,0 +1,266 @@
+import { execFile, execFileSync, spawn } from "child_process";
+import { recordCommand, redactArgs } from "./audit.js";
+
+export interface CommandOptions {
+  /** Timeout in milliseconds */
+  timeout?: number;
+  /** Maximum bytes allowed on stdout or stderr */
+  maxBuffer?: number;
+  /** Data written to the process's stdin */
+  input?: string;
+  /** Extra environment variables merged over process.env */
+  env?: Record<string, string>;
+}
+
+const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024; // 10MB buffer for large outputs
+
+/**
+ * Run a binary with an argument array and return its stdout.
+ *
+ * Arguments are passed straight to the process (no shell is involved), so
+ * user-supplied values can never be interpreted as shell syntax. Errors are
+ * the ones thrown by execFileSync and carry `status`, `stdout` and `stderr`.
+ */
+export function execCommand(
+  binary: string,
+  args: string[],
+  options: CommandOptions = {}
+): string {
+  recordCommand(formatCommand(binary, redactArgs(args)));
+  return execFileSync(binary, args, {
+    encoding: "utf8",
+    timeout: options.timeout,
+    maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+    input: options.input,
+    env: options.env ? { ...process.env, ...options.env } : process.env,
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+}
+
+/**
+ * Async counterpart of execCommand for callers that fan out many commands.
+ */
+export function execCommandAsync(
+  binary: string,
+  args: string[],
+  options: CommandOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  recordCommand(formatCommand(binary, redactArgs(args)));
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      binary,
+      args,
+      {
+        encoding: "utf8",
+        timeout: options.timeout,
+        maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+        env: options.env ? { ...process.env, ...options.env } : process.env,
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          Object.assign(error, { stdout, stderr });
+          reject(error);
+        } else {
+          resolve({ stdout, stderr });
+        }
+      }
+    );
+
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
+  });
+}
+
+export interface StreamOptions {
+  /** Stop the process after this many milliseconds */
+  timeout?: number;
+  /** Stop the process when this signal aborts */
+  signal?: AbortSignal;
+  /** Called with each line of stdout; returning true stops the process */
+  onLine: (line: string) => boolean | void;
+}
+
+export interface StreamResult {
+  /** Why the stream ended */
+  reason: "exited" | "stopped" | "timeout" | "cancelled";
+  exitCode: number | null;
+  stderr: string;
+}
+
+/**
+ * Run a long-lived command, such as `kubectl logs --follow`, passing its
+ * stdout to onLine line by line until it exits or is stopped.
+ */
+export function streamCommand(
+  binary: string,
+  args: string[],
+  options: StreamOptions
+): Promise<StreamResult> {
+  recordCommand(formatCommand(binary, redactArgs(args)));
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { env: process.env, stdio: ["ignore", "pipe", "pipe"] });
+    let reason: StreamResult["reason"] | undefined;
+    let buffered = "";
+    let stderr = "";
+
+    const stop = (why: StreamResult["reason"]) => {
+      if (reason) return;
+      reason = why;
+      child.kill("SIGTERM");
+    };
+    const timer = options.timeout !== undefined ? setTimeout(() => stop("timeout"), options.timeout) : undefined;
+    const onAbort = () => stop("cancelled");
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener("abort", onAbort);
+
+    child.stdout?.on("data", (data) => {
+      buffered += data.toString();
+      const lines = buffered.split("\n");
+      buffered = lines.pop()!;
+      for (const line of lines) {
+        if (reason) return;
+        if (options.onLine(line)) stop("stopped");
+      }
+    });
+    child.stderr?.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      if (!reason && buffered) {
+        options.onLine(buffered);
+      }
+      resolve({ reason: reason || "exited", exitCode: code, stderr });
+    });
+  });
+}
+
+export interface CaptureOptions {
+  /** Timeout in milliseconds, after which the process is killed */
+  timeout?: number;
+  /** Data written to the process's stdin */
+  input?: string;
+  /** Bytes kept of stdout and of stderr each; the rest is discarded */
+  maxOutputBytes?: number;
+}
+
+export interface CaptureResult {
+  stdout: string;
+  stderr: string;
+  /** Exit code, or null when the process was killed */
+  exitCode: number | null;
+  timedOut: boolean;
+  stdoutTruncated: boolean;
+  stderrTruncated: boolean;
+}
+
+/**
+ * Run a command to completion and return its exit code with stdout and
+ * stderr kept apart. Unlike execCommand, a failing exit code is a result,
+ * not an error, and large output is truncated instead of failing the call.
+ */
+export function captureCommand(
+  binary: string,
+  args: string[],
+  options: CaptureOptions = {}
+): Promise<CaptureResult> {
+  recordCommand(formatCommand(binary, redactArgs(args)));
+  const limit = options.maxOutputBytes ?? DEFAULT_MAX_BUFFER;
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { env: process.env, stdio: ["pipe", "pipe", "pipe"] });
+    const streams = {
+      stdout: { chunks: [] as Buffer[], bytes: 0, truncated: false },
+      stderr: { chunks: [] as Buffer[], bytes: 0, truncated: false },
+    };
+    let timedOut = false;
+
+    const collect = (stream: (typeof streams)["stdout"]) => (data: Buffer) => {
+      const room = limit - stream.bytes;
+      if (data.length > room) stream.truncated = true;
+      if (room > 0) {
+        const kept = data.subarray(0, room);
+        stream.chunks.push(kept);
+        stream.bytes += kept.length;
+      }
+    };
+    child.stdout?.on("data", collect(streams.stdout));
+    child.stderr?.on("data", collect(streams.stderr));
+
+    const timer =
+      options.timeout !== undefined
+        ? setTimeout(() => {
+            timedOut = true;
+            child.kill("SIGKILL");
+          }, options.timeout)
+        : undefined;
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({
+        stdout: Buffer.concat(streams.stdout.chunks).toString("utf8"),
+        stderr: Buffer.concat(streams.stderr.chunks).toString("utf8"),
+        exitCode: code,
+        timedOut,
+        stdoutTruncated: streams.stdout.truncated,
+        stderrTruncated: streams.stderr.truncated,
+      });
+    });
+
+    // A closed stdin lets commands that read it finish
+    child.stdin?.on("error", () => {});
+    child.stdin?.end(options.input);
+  });
+}
+
+export function execKubectl(args: string[], options?: CommandOptions): string {
+  return execCommand("kubectl", args, options);
+}
+
+export function execKubectlAsync(
+  args: string[],
+  options?: CommandOptions
+): Promise<{ stdout: string; stderr: string }> {
+  return execCommandAsync("kubectl", args, options);
+}
+
+export function captureKubectl(args: string[], options?: CaptureOptions): Promise<CaptureResult> {
+  return captureCommand("kubectl", args, options);
+}
+
+export function streamKubectl(args: string[], options: StreamOptions): Promise<StreamResult> {
+  return streamCommand("kubectl", args, options);
+}
+
+export function execHelm(args: string[], options?: CommandOptions): string {
+  return execCommand("helm", args, options);
+}
+
+/**
+ * kubectl arguments selecting a kubeconfig context, if one was requested.
+ */
+export function contextArgs(context?: string): string[] {
+  return context ? ["--context", context] : [];
+}
+
+/**
+ * Render an argument array for logging. Only used for display - commands are
+ * never run through a shell.
+ */
+export function formatCommand(binary: string, args: string[]): string {
+  return [binary, ...args]
+    .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`))
+    .join(" ");
+}
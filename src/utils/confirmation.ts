@@ -0,0 +1,116 @@
+import { createHash, randomBytes } from "crypto";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Tools that preview their change and wait for a confirmation token when
+ * REQUIRE_CHANGE_CONFIRMATION is enabled.
+ */
+export const CONFIRMED_TOOLS = [
+  "kubectl_apply",
+  "kubectl_patch",
+  "kubectl_scale",
+  "kubectl_delete",
+  "upgrade_helm_chart",
+  "cleanup",
+];
+
+// Confirmed tools that honor dryRun, so that their dry runs change nothing
+const DRY_RUN_TOOLS = ["kubectl_apply", "kubectl_patch", "cleanup"];
+
+/**
+ * Whether a call must be previewed and confirmed before it runs. Dry runs of
+ * tools that honor dryRun run straight away; the other confirmed tools would
+ * ignore dryRun and make the change, so it is rejected for them.
+ */
+export function requiresConfirmation(tool: string, args: Record<string, any>): boolean {
+  if (!CONFIRMED_TOOLS.includes(tool)) return false;
+  if (!args.dryRun) return true;
+  if (!DRY_RUN_TOOLS.includes(tool)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${tool} does not support dryRun; call it without confirmationToken to preview the change`
+    );
+  }
+  return false;
+}
+
+// How long a preview stays valid
+const TOKEN_TTL_MS = 10 * 60 * 1000;
+
+export const confirmationTokenParameter = {
+  type: "string",
+  description:
+    "Token from the change preview. Call once without it to get a server-side dry-run diff and a token, then again with the same arguments and the token to make the change",
+  optional: true,
+} as const;
+
+interface PendingChange {
+  tool: string;
+  argumentsHash: string;
+  sessionId?: string;
+  expiresAt: number;
+}
+
+// JSON with sorted keys, so argument order does not change the hash
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashArguments(args: Record<string, any>): string {
+  return createHash("sha256").update(canonicalJson(args)).digest("hex");
+}
+
+/**
+ * Confirmation tokens for previewed changes. A token is bound to the tool,
+ * its exact arguments and the session that requested the preview, and can
+ * be used once within 10 minutes.
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, PendingChange>();
+
+  constructor(private ttlMs = TOKEN_TTL_MS) {}
+
+  get ttlSeconds() {
+    return Math.round(this.ttlMs / 1000);
+  }
+
+  issue(tool: string, args: Record<string, any>, sessionId?: string): string {
+    const now = Date.now();
+    for (const [token, change] of this.pending) {
+      if (change.expiresAt <= now) this.pending.delete(token);
+    }
+
+    const token = randomBytes(16).toString("hex");
+    this.pending.set(token, { tool, argumentsHash: hashArguments(args), sessionId, expiresAt: now + this.ttlMs });
+    return token;
+  }
+
+  /**
+   * Check and use up a token, throwing if it does not match the call.
+   */
+  consume(token: string, tool: string, args: Record<string, any>, sessionId?: string): void {
+    const change = this.pending.get(token);
+    if (!change || change.expiresAt <= Date.now() || change.sessionId !== sessionId) {
+      this.pending.delete(token);
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Invalid or expired confirmationToken; call ${tool} without it to preview the change again`
+      );
+    }
+    if (change.tool !== tool || change.argumentsHash !== hashArguments(args)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `confirmationToken was issued for different arguments; call ${tool} with exactly the previewed arguments`
+      );
+    }
+    this.pending.delete(token);
+  }
+}
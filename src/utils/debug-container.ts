@@ -0,0 +1,166 @@
+import * as k8s from "@kubernetes/client-node";
+import { randomBytes } from "crypto";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { KubernetesManager } from "./kubernetes-manager.js";
+import { apiErrorMessage, isNotFoundError } from "./dynamic-client.js";
+
+/** Image of debug containers, unless a call names one (MCP_DEBUG_IMAGE) */
+export const DEFAULT_DEBUG_IMAGE = process.env.MCP_DEBUG_IMAGE || "nicolaka/netshoot";
+
+const DEBUG_CONTAINER_PREFIX = "mcp-debug-";
+// Debug containers idle for this long before exiting, as ephemeral
+// containers cannot be removed from a pod
+const DEBUG_CONTAINER_LIFETIME_SECONDS = 3600;
+const START_TIMEOUT_MS = 60_000;
+const POLL_INTERVAL_MS = 1000;
+
+// Tools that can add a debug container to the pod they run in
+const DEBUG_CONTAINER_TOOLS = [
+  "kubectl_curl",
+  "kubectl_ping",
+  "kubectl_traceroute",
+  "kubectl_dns_lookup",
+  "kubectl_tcp_check",
+  "kubectl_cp_from_pod",
+  "kubectl_cp_to_pod",
+];
+
+export interface DebugContainer {
+  name: string;
+  image: string;
+  /** Whether a running debug container of an earlier call was used */
+  reused: boolean;
+}
+
+/**
+ * Input of a call that must not change pods. Debug containers stay in the pod
+ * spec for good, so any debug mode but "off" is rejected, and tools that fall
+ * back to a debug container by default are switched to "off". `reason` ends
+ * the error message, such as "for read-only tokens".
+ */
+export function withoutDebugContainers(
+  toolName: string,
+  input: Record<string, any>,
+  reason: string
+): Record<string, any> {
+  if (!DEBUG_CONTAINER_TOOLS.includes(toolName)) {
+    return input;
+  }
+  if (input.debug !== undefined && input.debug !== "off") {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${toolName} cannot add debug containers ${reason}: set debug to 'off'`
+    );
+  }
+  return { ...input, debug: "off" };
+}
+
+function ephemeralState(pod: k8s.V1Pod, name: string): k8s.V1ContainerState | undefined {
+  return pod.status?.ephemeralContainerStatuses?.find((status) => status.name === name)?.state;
+}
+
+/**
+ * A running ephemeral debug container in a pod, sharing the pod's network
+ * namespace. With a target container it also shares that container's process
+ * namespace and may trace its processes, so the container's filesystem is
+ * reachable through /proc/1/root. A running debug container with the same
+ * image and target is reused; otherwise one is added through the
+ * ephemeralcontainers subresource and awaited until it runs.
+ */
+export async function ensureDebugContainer(
+  k8sManager: KubernetesManager,
+  namespace: string,
+  podName: string,
+  image: string,
+  context?: string,
+  targetContainer?: string
+): Promise<DebugContainer> {
+  const coreApi = k8sManager.getCoreApi(context);
+  const readPod = async () => {
+    try {
+      return (await coreApi.readNamespacedPod(podName, namespace)).body;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new McpError(ErrorCode.InvalidParams, `Pod '${podName}' not found in namespace '${namespace}'`);
+      }
+      throw new McpError(ErrorCode.InternalError, `Failed to read pod '${podName}': ${apiErrorMessage(error)}`);
+    }
+  };
+
+  const pod = await readPod();
+  if (targetContainer && pod.spec?.shareProcessNamespace) {
+    // Process 1 is then the pod's pause process rather than the target's
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Pod '${podName}' shares its process namespace, so a debug container cannot reach the filesystem of container '${targetContainer}'`
+    );
+  }
+  const existing = (pod.spec?.ephemeralContainers || []).find(
+    (c) =>
+      c.name.startsWith(DEBUG_CONTAINER_PREFIX) &&
+      c.image === image &&
+      (!targetContainer || c.targetContainerName === targetContainer) &&
+      ephemeralState(pod, c.name)?.running
+  );
+  if (existing) {
+    return { name: existing.name, image, reused: true };
+  }
+
+  const name = `${DEBUG_CONTAINER_PREFIX}${randomBytes(3).toString("hex")}`;
+  const container: k8s.V1EphemeralContainer = {
+    name,
+    image,
+    command: ["sleep", String(DEBUG_CONTAINER_LIFETIME_SECONDS)],
+    // Reading another user's /proc/<pid>/root needs SYS_PTRACE
+    ...(targetContainer
+      ? { targetContainerName: targetContainer, securityContext: { capabilities: { add: ["SYS_PTRACE"] } } }
+      : {}),
+  };
+  try {
+    // Ephemeral containers are merged by name, so existing ones are kept
+    await coreApi.patchNamespacedPodEphemeralcontainers(
+      podName,
+      namespace,
+      { spec: { ephemeralContainers: [container] } },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { headers: { "Content-Type": k8s.PatchUtils.PATCH_FORMAT_STRATEGIC_MERGE_PATCH } }
+    );
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to add a debug container to pod '${podName}': ${apiErrorMessage(error)}. Ephemeral containers need Kubernetes 1.25 or later and permission to update pods/ephemeralcontainers`
+    );
+  }
+
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  for (;;) {
+    const state = ephemeralState(await readPod(), name);
+    if (state?.running) {
+      return { name, image, reused: false };
+    }
+    if (state?.terminated) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Debug container '${name}' in pod '${podName}' exited: ${state.terminated.message || state.terminated.reason || `exit code ${state.terminated.exitCode}`}`
+      );
+    }
+    const waiting = state?.waiting;
+    if (waiting?.reason && /ErrImagePull|ImagePullBackOff|InvalidImageName/.test(waiting.reason)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Debug image '${image}' cannot be pulled (${waiting.reason}): ${waiting.message || "check the image name and registry access"}`
+      );
+    }
+    if (Date.now() >= deadline) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Debug container '${name}' in pod '${podName}' did not start within ${START_TIMEOUT_MS / 1000} seconds${waiting?.reason ? ` (${waiting.reason})` : ""}`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,126 @@
+// Largest table (lines before x lines after, once common prefix and suffix
+// are trimmed) compared line by line; bigger changes are shown as a single
+// replaced block
+const MAX_DIFF_CELLS = 4_000_000;
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\n$/, "").split("\n");
+}
+
+// Line operations turning `before` into `after`, from a longest common
+// subsequence of the lines
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const a = before.slice(start, before.length - end);
+  const b = after.slice(start, after.length - end);
+  const middle: DiffLine[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    middle.push(...a.map((text) => ({ op: "-" as const, text })));
+    middle.push(...b.map((text) => ({ op: "+" as const, text })));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+    const n = a.length;
+    const m = b.length;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[i] === b[j]) {
+        middle.push({ op: " ", text: a[i++] });
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        middle.push({ op: "-", text: a[i++] });
+      } else {
+        middle.push({ op: "+", text: b[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, start).map((text) => ({ op: " " as const, text })),
+    ...middle,
+    ...before.slice(before.length - end).map((text) => ({ op: " " as const, text })),
+  ];
+}
+
+/**
+ * Unified diff of two texts, like `diff -u`. Returns an empty string when
+ * they are equal.
+ *
+ * @param before Original text
+ * @param after Changed text
+ * @param labels Names shown in the `---` and `+++` header lines
+ * @param context Unchanged lines shown around each change
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  labels: { before: string; after: string },
+  context = 3
+): string {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const changed = lines.map((line, index) => (line.op === " " ? -1 : index)).filter((index) => index >= 0);
+  if (changed.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context overlaps into hunks
+  const hunks: { from: number; to: number }[] = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last.to) {
+      last.to = to;
+    } else {
+      hunks.push({ from, to });
+    }
+  }
+
+  const output = [`--- ${labels.before}`, `+++ ${labels.after}`];
+  // Line numbers in `before` and `after` at the start of each diff line
+  let beforeLine = 1;
+  let afterLine = 1;
+  let position = 0;
+  const advance = (to: number) => {
+    for (; position < to; position++) {
+      if (lines[position].op !== "+") beforeLine++;
+      if (lines[position].op !== "-") afterLine++;
+    }
+  };
+  for (const hunk of hunks) {
+    advance(hunk.from);
+    const body = lines.slice(hunk.from, hunk.to);
+    const beforeCount = body.filter((line) => line.op !== "+").length;
+    const afterCount = body.filter((line) => line.op !== "-").length;
+    output.push(
+      `@@ -${beforeCount ? beforeLine : beforeLine - 1},${beforeCount} +${afterCount ? afterLine : afterLine - 1},${afterCount} @@`,
+      ...body.map((line) => `${line.op}${line.text}`)
+    );
+  }
+  return `${output.join("\n")}\n`;
+}
@@ -0,0 +1,353 @@
+import * as k8s from "@kubernetes/client-node";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * A resource type discovered from the API server, e.g. pods in "v1" or
+ * deployments in "apps/v1".
+ */
+export interface ApiResourceInfo {
+  group: string;
+  version: string;
+  apiVersion: string;
+  kind: string;
+  /** Plural resource name used in URLs, e.g. "deployments" */
+  name: string;
+  singularName: string;
+  shortNames: string[];
+  namespaced: boolean;
+  verbs: string[];
+}
+
+export interface ListOptions {
+  /** Namespace to list in. Omit for cluster-scoped resources or all namespaces. */
+  namespace?: string;
+  labelSelector?: string;
+  fieldSelector?: string;
+  /** Maximum number of items to return. Without a limit all pages are fetched. */
+  limit?: number;
+  /** Only fetch object metadata (PartialObjectMetadata), e.g. for counting */
+  metadataOnly?: boolean;
+}
+
+/** Server-side table returned for `as=Table` requests (what kubectl prints). */
+export interface ResourceTable {
+  columnDefinitions: {
+    name: string;
+    type: string;
+    format: string;
+    description: string;
+    priority: number;
+  }[];
+  rows: { cells: any[]; object?: any }[];
+}
+
+const METADATA_ACCEPT =
+  "application/json;as=PartialObjectMetadataList;v=v1;g=meta.k8s.io,application/json";
+const TABLE_ACCEPT =
+  "application/json;as=Table;v=v1;g=meta.k8s.io,application/json;as=Table;v=v1beta1;g=meta.k8s.io,application/json";
+
+/**
+ * Dynamic client for arbitrary resource kinds. Resource types are resolved the
+ * way kubectl resolves them (plural, singular, kind, short name or
+ * `resource.group`) using the API server's discovery endpoints, and objects are
+ * returned as plain JSON exactly as the server sent them.
+ */
+export class DynamicClient extends k8s.KubernetesObjectApi {
+  private discovery?: Promise<ApiResourceInfo[]>;
+
+  static makeApiClient(kc: k8s.KubeConfig): DynamicClient {
+    const client = kc.makeApiClient(DynamicClient);
+    client.setDefaultNamespace(kc);
+    return client;
+  }
+
+  /**
+   * All listable top-level resources served by the cluster, core group first.
+   * Results are cached; groups whose discovery fails (e.g. an unavailable
+   * aggregated API) are skipped.
+   */
+  async discoverResources(): Promise<ApiResourceInfo[]> {
+    if (!this.discovery) {
+      this.discovery = this.loadDiscovery().catch((error) => {
+        this.discovery = undefined;
+        throw error;
+      });
+    }
+    return this.discovery;
+  }
+
+  /**
+   * Resolve a user-supplied resource type ("pods", "po", "Pod",
+   * "deployments.apps", "certificates.cert-manager.io") to its API resource.
+   */
+  async resolveResource(resourceType: string): Promise<ApiResourceInfo> {
+    let resource = findResource(await this.discoverResources(), resourceType);
+    if (!resource) {
+      // The type may have been added (e.g. a new CRD) since discovery was cached
+      this.discovery = undefined;
+      resource = findResource(await this.discoverResources(), resourceType);
+    }
+    if (!resource) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `The server doesn't have a resource type "${resourceType}"`
+      );
+    }
+    return resource;
+  }
+
+  /**
+   * List objects of a resource type. Items get `apiVersion` and `kind` filled in
+   * since the API server omits them inside lists.
+   */
+  async listResources(resource: ApiResourceInfo, options: ListOptions = {}): Promise<any> {
+    const items: any[] = [];
+    let list: any;
+    let continueToken: string | undefined;
+
+    do {
+      const qs: Record<string, string | number> = {};
+      if (options.labelSelector) qs.labelSelector = options.labelSelector;
+      if (options.fieldSelector) qs.fieldSelector = options.fieldSelector;
+      if (options.limit) qs.limit = options.limit - items.length;
+      if (continueToken) qs.continue = continueToken;
+
+      list = await this.request(
+        this.resourcePath(resource, options.namespace),
+        qs,
+        options.metadataOnly ? { Accept: METADATA_ACCEPT } : {}
+      );
+      items.push(...(list.items || []));
+      continueToken = list.metadata?.continue;
+    } while (continueToken && (!options.limit || items.length < options.limit));
+
+    return {
+      apiVersion: resource.apiVersion,
+      kind: `${resource.kind}List`,
+      metadata: { resourceVersion: list.metadata?.resourceVersion },
+      items: items.map((item) => ({
+        apiVersion: resource.apiVersion,
+        kind: resource.kind,
+        ...item,
+      })),
+    };
+  }
+
+  /**
+   * Read a single object by name.
+   */
+  async getResource(resource: ApiResourceInfo, name: string, namespace?: string): Promise<any> {
+    return this.request(`${this.resourcePath(resource, namespace)}/${encodeURIComponent(name)}`);
+  }
+
+  /**
+   * Delete a single object by name. Dependents are deleted in the background,
+   * as kubectl does.
+   */
+  async deleteResource(resource: ApiResourceInfo, name: string, namespace?: string): Promise<any> {
+    return this.request(
+      `${this.resourcePath(resource, namespace)}/${encodeURIComponent(name)}`,
+      { propagationPolicy: "Background" },
+      {},
+      "DELETE"
+    );
+  }
+
+  /**
+   * Apply a JSON merge patch to a single object.
+   */
+  async mergePatchResource(resource: ApiResourceInfo, name: string, namespace: string | undefined, patch: object): Promise<any> {
+    return this.request(
+      `${this.resourcePath(resource, namespace)}/${encodeURIComponent(name)}`,
+      {},
+      { "Content-Type": "application/merge-patch+json" },
+      "PATCH",
+      patch
+    );
+  }
+
+  /**
+   * Fetch objects as a server-side table, the same columns kubectl prints.
+   * With `includeObject` each row also carries the full object (needed for
+   * sorting); otherwise only its metadata.
+   */
+  async getTable(
+    resource: ApiResourceInfo,
+    options: ListOptions & { name?: string; includeObject?: boolean } = {}
+  ): Promise<ResourceTable> {
+    let path = this.resourcePath(resource, options.namespace);
+    if (options.name) {
+      path += `/${encodeURIComponent(options.name)}`;
+    }
+
+    const qs: Record<string, string | number> = {
+      includeObject: options.includeObject ? "Object" : "Metadata",
+    };
+    if (!options.name) {
+      if (options.labelSelector) qs.labelSelector = options.labelSelector;
+      if (options.fieldSelector) qs.fieldSelector = options.fieldSelector;
+      if (options.limit) qs.limit = options.limit;
+    }
+
+    const table = await this.request(path, qs, { Accept: TABLE_ACCEPT });
+    return {
+      columnDefinitions: table.columnDefinitions || [],
+      rows: table.rows || [],
+    };
+  }
+
+  /**
+   * Path of a resource type relative to the cluster's server URL, as taken
+   * by k8s.Watch.
+   */
+  watchPath(resource: ApiResourceInfo, namespace?: string): string {
+    return this.resourcePath(resource, namespace).slice(this.basePath.length);
+  }
+
+  private async loadDiscovery(): Promise<ApiResourceInfo[]> {
+    const { body } = await this.getAPIVersions();
+    const groupVersions = [
+      "v1",
+      ...body.groups
+        .map((group) => group.preferredVersion?.groupVersion || group.versions[0]?.groupVersion)
+        .filter((groupVersion): groupVersion is string => !!groupVersion),
+    ];
+
+    const lists = await Promise.allSettled(
+      groupVersions.map((groupVersion) => this.request(this.apiVersionPath(groupVersion)))
+    );
+
+    const resources: ApiResourceInfo[] = [];
+    lists.forEach((result, index) => {
+      if (result.status !== "fulfilled") {
+        if (groupVersions[index] === "v1") throw result.reason;
+        return;
+      }
+      const groupVersion = groupVersions[index];
+      const [group, version] = groupVersion.includes("/")
+        ? groupVersion.split("/")
+        : ["", groupVersion];
+
+      for (const resource of result.value.resources || []) {
+        // Skip subresources such as "pods/log" and "deployments/scale"
+        if (resource.name.includes("/")) continue;
+        resources.push({
+          group,
+          version,
+          apiVersion: groupVersion,
+          kind: resource.kind,
+          name: resource.name,
+          singularName: resource.singularName || resource.kind.toLowerCase(),
+          shortNames: resource.shortNames || [],
+          namespaced: resource.namespaced,
+          verbs: resource.verbs || [],
+        });
+      }
+    });
+    return resources;
+  }
+
+  private resourcePath(resource: ApiResourceInfo, namespace?: string): string {
+    const parts = [this.apiVersionPath(resource.apiVersion)];
+    if (resource.namespaced && namespace) {
+      parts.push("namespaces", encodeURIComponent(namespace));
+    }
+    parts.push(resource.name);
+    return parts.join("/");
+  }
+
+  private async request(
+    uri: string,
+    qs: Record<string, string | number> = {},
+    headers: Record<string, string> = {},
+    method = "GET",
+    body?: object
+  ): Promise<any> {
+    const { body: response } = await this.requestPromise<any>(
+      {
+        method,
+        uri,
+        qs,
+        headers: this.generateHeaders(headers),
+        useQuerystring: this._useQuerystring,
+        json: true,
+        ...(body ? { body } : {}),
+      },
+      // Not a registered model type, so the body is returned as plain JSON
+      "KubernetesObject"
+    );
+    return response;
+  }
+}
+
+/**
+ * Find a discovered resource matching a kubectl-style resource type.
+ */
+export function findResource(
+  resources: ApiResourceInfo[],
+  resourceType: string
+): ApiResourceInfo | undefined {
+  const type = resourceType.toLowerCase();
+  const matchesName = (resource: ApiResourceInfo, name: string) =>
+    resource.name === name ||
+    resource.singularName === name ||
+    resource.kind.toLowerCase() === name ||
+    resource.shortNames.includes(name);
+
+  const match = resources.find((resource) => matchesName(resource, type));
+  if (match || !type.includes(".")) {
+    return match;
+  }
+
+  // "deployments.apps" or "deployments.v1.apps"
+  const [name, ...rest] = type.split(".");
+  const qualifier = rest.join(".");
+  return resources.find(
+    (resource) =>
+      matchesName(resource, name) &&
+      (resource.group === qualifier || `${resource.version}.${resource.group}` === qualifier)
+  );
+}
+
+/**
+ * Look up a value by a kubectl-style field path such as
+ * ".metadata.creationTimestamp" or "status.containerStatuses[0].restartCount".
+ */
+export function getFieldByPath(obj: any, path: string): any {
+  return path
+    .replace(/^\./, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter((key) => key !== "")
+    .reduce((current, key) => current?.[key], obj);
+}
+
+/**
+ * Sort objects by a field path, keeping objects without the field last.
+ */
+export function sortByField<T>(items: T[], path: string, select: (item: T) => any = (item) => item): T[] {
+  return [...items].sort((a, b) => {
+    const left = getFieldByPath(select(a), path);
+    const right = getFieldByPath(select(b), path);
+    if (left === right) return 0;
+    if (left === undefined || left === null) return 1;
+    if (right === undefined || right === null) return -1;
+    if (typeof left === "number" && typeof right === "number") return left - right;
+    return String(left).localeCompare(String(right));
+  });
+}
+
+/**
+ * Whether an error from the API server is a 404.
+ */
+export function isNotFoundError(error: any): boolean {
+  return error?.statusCode === 404 || error?.response?.statusCode === 404;
+}
+
+/**
+ * Human readable message for an API server error, preferring the Status
+ * message the server sent over the generic "HTTP request failed".
+ */
+export function apiErrorMessage(error: any): string {
+  return error?.body?.message || error?.message || String(error);
+}
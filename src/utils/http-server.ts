@@ -0,0 +1,109 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import express from "express";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import {
+  READ_SCOPE,
+  WRITE_SCOPE,
+  TokenVerifier,
+  checkOrigin,
+  loadAllowedOrigins,
+  loadAuthConfig,
+  requireBearerToken,
+} from "./auth.js";
+import { registerSSERoutes } from "./sse.js";
+import { registerStreamableHttpRoutes } from "./streamable-http.js";
+
+export interface HttpTransportOptions {
+  /** Serve the legacy SSE transport on /sse and /messages */
+  sse?: boolean;
+  /** Serve the Streamable HTTP transport on /mcp */
+  streamableHttp?: boolean;
+}
+
+export interface HttpServerHandle {
+  httpServer: http.Server;
+  /** Close every session and stop listening */
+  close: () => Promise<void>;
+}
+
+/**
+ * Start the HTTP server for the SSE and/or Streamable HTTP transports. Both
+ * share the origin check, bearer authentication and TLS settings. Each
+ * session gets its own MCP server from `createServer`.
+ */
+export function startHttpServer(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): HttpServerHandle {
+  const app = express();
+  const authConfig = loadAuthConfig();
+  const tlsCert = process.env.MCP_TLS_CERT_FILE;
+  const tlsKey = process.env.MCP_TLS_KEY_FILE;
+  const port = process.env.PORT || 3000;
+  const baseUrl = `${tlsCert ? "https" : "http"}://localhost:${port}`;
+
+  if (!tlsCert !== !tlsKey) {
+    throw new Error("MCP_TLS_CERT_FILE and MCP_TLS_KEY_FILE must be set together");
+  }
+
+  app.use(checkOrigin(loadAllowedOrigins()));
+
+  let authenticate: express.RequestHandler = (_req, _res, next) => next();
+  if (authConfig) {
+    const resourceMetadataUrl = authConfig.oauth
+      ? `${baseUrl}/.well-known/oauth-protected-resource`
+      : undefined;
+    authenticate = requireBearerToken(new TokenVerifier(authConfig), resourceMetadataUrl);
+
+    if (authConfig.oauth) {
+      // OAuth 2.0 Protected Resource Metadata (RFC 9728), so clients can find
+      // the authorization server to obtain a token from
+      app.get("/.well-known/oauth-protected-resource", (_req, res) => {
+        res.json({
+          resource: authConfig.oauth!.audience || baseUrl,
+          authorization_servers: authConfig.oauth!.issuer ? [authConfig.oauth!.issuer] : [],
+          scopes_supported: [READ_SCOPE, WRITE_SCOPE],
+          bearer_methods_supported: ["header"],
+        });
+      });
+    }
+  } else {
+    console.warn(
+      "HTTP transport has no authentication configured (MCP_AUTH_TOKEN, MCP_AUTH_TOKENS_FILE or MCP_OAUTH_INTROSPECTION_URL); anyone who can reach the port can use your kubeconfig"
+    );
+  }
+
+  const closers: Array<() => Promise<void>> = [];
+  const endpoints: string[] = [];
+  if (options.sse) {
+    closers.push(registerSSERoutes(app, createServer, authenticate));
+    endpoints.push(`${baseUrl}/sse`);
+  }
+  if (options.streamableHttp) {
+    closers.push(registerStreamableHttpRoutes(app, createServer, authenticate));
+    endpoints.push(`${baseUrl}/mcp`);
+  }
+
+  const httpServer =
+    tlsCert && tlsKey
+      ? https.createServer(
+          { cert: fs.readFileSync(tlsCert), key: fs.readFileSync(tlsKey) },
+          app
+        )
+      : http.createServer(app);
+  httpServer.listen(port);
+  console.error(
+    `mcp-kubernetes-server is listening on port ${port}\nUse the following url to connect to the server:\n${endpoints.join("\n")}`
+  );
+
+  return {
+    httpServer,
+    close: async () => {
+      await Promise.all(closers.map((close) => close()));
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -1,15 +1,61 @@
 import * as k8s from "@kubernetes/client-node";
 import * as fs from "fs";
+import * as path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
 import { ResourceTracker, PortForwardTracker, WatchTracker } from "../types.js";
+import { apiErrorMessage, DynamicClient, isNotFoundError } from "./dynamic-client.js";
+import { recordApiRequest } from "./audit.js";
+import { execHelm } from "./command-runner.js";
+
+/** Kind under which Helm releases are tracked */
+export const HELM_RELEASE_KIND = "HelmRelease";
+
+// Labels added to the objects the server creates
+const MANAGER_NAME = "mcp-server-kubernetes";
+export const MANAGED_BY_LABEL = "app.kubernetes.io/managed-by";
+export const SESSION_LABEL = "mcp-server-kubernetes/session";
+
+export interface CleanupOptions {
+  /** Only clean up what this session created */
+  session?: string;
+  /** Only clean up what was created before this time */
+  createdBefore?: Date;
+  /** Report what would be cleaned up without deleting anything */
+  dryRun?: boolean;
+}
+
+export interface CleanupReport {
+  deleted: (ResourceTracker & { alreadyDeleted?: boolean })[];
+  failed: (ResourceTracker & { error: string })[];
+  /** IDs of the port-forwards stopped */
+  portForwards: string[];
+  /** Number of watches stopped */
+  watches: number;
+}
+
+// A session ID as a label value: at most 63 alphanumerics, '-', '_' or '.'
+function labelValue(value: string): string {
+  return value
+    .replace(/[^A-Za-z0-9_.-]/g, "-")
+    .slice(0, 63)
+    .replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, "");
+}
 
 export class KubernetesManager {
   private resources: ResourceTracker[] = [];
+  private sessions = new AsyncLocalStorage<string>();
+  /** Session of calls made outside of runInSession, such as over stdio */
+  readonly defaultSession = randomUUID();
+  private stateFile = process.env.MCP_STATE_FILE;
   private portForwards: PortForwardTracker[] = [];
   private watches: WatchTracker[] = [];
   private kc: k8s.KubeConfig;
   private k8sApi: k8s.CoreV1Api;
   private k8sAppsApi: k8s.AppsV1Api;
   private k8sBatchApi: k8s.BatchV1Api;
+  private contextConfigs = new Map<string, k8s.KubeConfig>();
+  private dynamicClients = new Map<string, DynamicClient>();
 
   constructor() {
     this.kc = new k8s.KubeConfig();
@@ -60,9 +106,11 @@ export class KubernetesManager {
     }
     
     // Initialize API clients
-    this.k8sApi = this.kc.makeApiClient(k8s.CoreV1Api);
-    this.k8sAppsApi = this.kc.makeApiClient(k8s.AppsV1Api);
-    this.k8sBatchApi = this.kc.makeApiClient(k8s.BatchV1Api);
+    this.k8sApi = this.makeApiClient(k8s.CoreV1Api);
+    this.k8sAppsApi = this.makeApiClient(k8s.AppsV1Api);
+    this.k8sBatchApi = this.makeApiClient(k8s.BatchV1Api);
+
+    this.loadState();
   }
 
   /**
@@ -172,11 +220,24 @@ export class KubernetesManager {
    * @param contextName
    */
   public setCurrentContext(contextName: string) {
-    // Get all available contexts
-    const contexts = this.kc.getContexts();
-    const contextNames = contexts.map((context) => context.name);
+    this.assertContextExists(contextName);
+
+    // Set the current context
+    this.kc.setCurrentContext(contextName);
+    this.k8sApi = this.makeApiClient(k8s.CoreV1Api);
+    this.k8sAppsApi = this.makeApiClient(k8s.AppsV1Api);
+    this.k8sBatchApi = this.makeApiClient(k8s.BatchV1Api);
+    this.dynamicClients.clear();
+  }
+
+  /**
+   * Throw if the named context is not present in the loaded kubeconfig.
+   *
+   * @param contextName
+   */
+  private assertContextExists(contextName: string) {
+    const contextNames = this.kc.getContexts().map((context) => context.name);
 
-    // Check if the requested context exists
     if (!contextNames.includes(contextName)) {
       throw new Error(
         `Context '${contextName}' not found. Available contexts: ${contextNames.join(
@@ -184,62 +245,187 @@ export class KubernetesManager {
         )}`
       );
     }
-    // Set the current context
-    this.kc.setCurrentContext(contextName);
-    this.k8sApi = this.kc.makeApiClient(k8s.CoreV1Api);
-    this.k8sAppsApi = this.kc.makeApiClient(k8s.AppsV1Api);
-    this.k8sBatchApi = this.kc.makeApiClient(k8s.BatchV1Api);
   }
 
-  async cleanup() {
-    // Stop watches
-    for (const watch of this.watches) {
-      watch.abort.abort();
+  /**
+   * Run fn as part of a session; resources tracked and port-forwards started
+   * while it runs belong to that session. Calls made outside of a session
+   * belong to defaultSession.
+   */
+  runInSession<T>(session: string | undefined, fn: () => T): T {
+    return this.sessions.run(session || this.defaultSession, fn);
+  }
+
+  currentSession(): string {
+    return this.sessions.getStore() || this.defaultSession;
+  }
+
+  /**
+   * Labels marking an object as created by this server in the current session.
+   */
+  ownerLabels(): Record<string, string> {
+    return { [MANAGED_BY_LABEL]: MANAGER_NAME, [SESSION_LABEL]: labelValue(this.currentSession()) };
+  }
+
+  /**
+   * Delete the tracked resources, newest first, and stop port-forwards.
+   * Without a session or createdBefore everything is cleaned up, including
+   * watches; otherwise only the matching resources and port-forwards.
+   */
+  async cleanup(options: CleanupOptions = {}): Promise<CleanupReport> {
+    const selected = (item: { session?: string; createdAt?: Date }) =>
+      (!options.session || item.session === options.session) &&
+      (!options.createdBefore || (!!item.createdAt && item.createdAt < options.createdBefore));
+    const scoped = !!(options.session || options.createdBefore);
+    const resources = this.resources.filter(selected).reverse();
+    const portForwards = this.portForwards.filter(selected);
+    const report: CleanupReport = {
+      deleted: [],
+      failed: [],
+      portForwards: portForwards.map((pf) => pf.id),
+      watches: scoped ? 0 : this.watches.length,
+    };
+    if (options.dryRun) {
+      report.deleted = resources;
+      return report;
+    }
+
+    if (!scoped) {
+      for (const watch of this.watches) {
+        watch.abort.abort();
+      }
+      this.watches = [];
+    }
+    for (const pf of portForwards) {
+      await pf.server.stop();
+      this.removePortForward(pf.id);
     }
 
-    // Delete tracked resources in reverse order
-    for (const resource of [...this.resources].reverse()) {
+    for (const resource of resources) {
       try {
         await this.deleteResource(
           resource.kind,
           resource.name,
-          resource.namespace
-        );
-      } catch (error) {
-        console.error(
-          `Failed to delete ${resource.kind} ${resource.name}:`,
-          error
+          resource.namespace,
+          resource.context,
+          resource.apiVersion
         );
+        report.deleted.push(resource);
+      } catch (error: any) {
+        if (isNotFoundError(error) || /not found/i.test(error?.message || "")) {
+          // Deleted by someone else already; nothing left to clean up
+          this.untrackResource(resource.kind, resource.name, resource.namespace, resource.context);
+          report.deleted.push({ ...resource, alreadyDeleted: true });
+        } else {
+          report.failed.push({ ...resource, error: apiErrorMessage(error) });
+        }
       }
     }
+    return report;
   }
 
-  trackResource(kind: string, name: string, namespace: string) {
-    this.resources.push({ kind, name, namespace, createdAt: new Date() });
-  }
-
-  async deleteResource(kind: string, name: string, namespace: string) {
-    switch (kind.toLowerCase()) {
-      case "pod":
-        await this.k8sApi.deleteNamespacedPod(name, namespace);
-        break;
-      case "deployment":
-        await this.k8sAppsApi.deleteNamespacedDeployment(name, namespace);
-        break;
-      case "service":
-        await this.k8sApi.deleteNamespacedService(name, namespace);
-        break;
-      case "cronjob":
-        await this.k8sBatchApi.deleteNamespacedCronJob(name, namespace);
-        break;
-    }
+  /**
+   * Track an object created on behalf of a client, so that cleanup deletes
+   * it. Any kind can be tracked, as can Helm releases (HELM_RELEASE_KIND).
+   */
+  trackResource(kind: string, name: string, namespace: string, context?: string, apiVersion?: string) {
     this.resources = this.resources.filter(
-      (r) => !(r.kind === kind && r.name === name && r.namespace === namespace)
+      (r) => !(r.kind === kind && r.name === name && r.namespace === namespace && r.context === context)
     );
+    this.resources.push({
+      kind,
+      ...(apiVersion ? { apiVersion } : {}),
+      name,
+      namespace,
+      createdAt: new Date(),
+      ...(context ? { context } : {}),
+      session: this.currentSession(),
+    });
+    this.saveState();
+  }
+
+  untrackResource(kind: string, name: string, namespace: string, context?: string) {
+    this.resources = this.resources.filter(
+      (r) => !(r.kind === kind && r.name === name && r.namespace === namespace && r.context === context)
+    );
+    this.saveState();
+  }
+
+  getTrackedResources(): ResourceTracker[] {
+    return [...this.resources];
+  }
+
+  /**
+   * Add the owner labels to a tracked object. Failures are only logged,
+   * since the object was created all the same.
+   */
+  async labelResource(kind: string, name: string, namespace: string, context?: string, apiVersion?: string) {
+    try {
+      const client = this.getDynamicClient(context);
+      const resource = await this.resolveKind(kind, apiVersion, context);
+      await client.mergePatchResource(resource, name, namespace || undefined, {
+        metadata: { labels: this.ownerLabels() },
+      });
+    } catch (error) {
+      console.error(`Failed to label ${kind} ${name}: ${apiErrorMessage(error)}`);
+    }
+  }
+
+  async deleteResource(kind: string, name: string, namespace: string, context?: string, apiVersion?: string) {
+    if (kind === HELM_RELEASE_KIND) {
+      execHelm(
+        ["uninstall", name, "--namespace", namespace, ...(context ? ["--kube-context", context] : [])],
+        { timeout: 60000 }
+      );
+    } else {
+      const client = this.getDynamicClient(context);
+      const resource = await this.resolveKind(kind, apiVersion, context);
+      await client.deleteResource(resource, name, namespace || undefined);
+    }
+    this.untrackResource(kind, name, namespace, context);
+  }
+
+  /**
+   * Resolve a kind to its API resource, preferring the API group of
+   * apiVersion when given.
+   */
+  async resolveKind(kind: string, apiVersion?: string, context?: string) {
+    const client = this.getDynamicClient(context);
+    if (apiVersion) {
+      const group = apiVersion.includes("/") ? apiVersion.split("/")[0] : "";
+      const match = (await client.discoverResources()).find((r) => r.kind === kind && r.group === group);
+      if (match) return match;
+    }
+    return client.resolveResource(kind);
+  }
+
+  // Tracked resources are kept in MCP_STATE_FILE, when set, so that cleanup
+  // still finds them after a restart or crash
+  private loadState() {
+    if (!this.stateFile || !fs.existsSync(this.stateFile)) return;
+    try {
+      const state = JSON.parse(fs.readFileSync(this.stateFile, "utf8"));
+      this.resources = (state.resources || []).map((r: any) => ({ ...r, createdAt: new Date(r.createdAt) }));
+    } catch (error) {
+      console.error(`Failed to read tracked resources from ${this.stateFile}:`, error);
+    }
+  }
+
+  private saveState() {
+    if (!this.stateFile) return;
+    try {
+      fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+      // Write and rename, so a crash never leaves a half-written file
+      const temp = `${this.stateFile}.${process.pid}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify({ resources: this.resources }, null, 2));
+      fs.renameSync(temp, this.stateFile);
+    } catch (error) {
+      console.error(`Failed to save tracked resources to ${this.stateFile}:`, error);
+    }
   }
 
   trackPortForward(pf: PortForwardTracker) {
-    this.portForwards.push(pf);
+    this.portForwards.push({ ...pf, session: this.currentSession(), createdAt: new Date() });
   }
 
   getPortForward(id: string) {
@@ -254,20 +440,163 @@ export class KubernetesManager {
     this.watches.push(watch);
   }
 
-  getKubeConfig() {
-    return this.kc;
+  getWatch(id: string) {
+    return this.watches.find((w) => w.id === id);
   }
 
-  getCoreApi() {
-    return this.k8sApi;
+  stopWatch(id: string) {
+    this.watches.find((w) => w.id === id)?.abort.abort();
+    this.watches = this.watches.filter((w) => w.id !== id);
   }
 
-  getAppsApi() {
-    return this.k8sAppsApi;
+  /**
+   * Watch objects of a resource type (any kind, including custom resources)
+   * and call onChange with every ADDED, MODIFIED or DELETED event until the
+   * watch is stopped with stopWatch() or cleanup(). Dropped connections are
+   * re-established from the last resourceVersion seen.
+   */
+  async watchResource(
+    options: { resourceType: string; namespace?: string; name?: string; context?: string },
+    onChange: (phase: string, object: any) => void
+  ): Promise<WatchTracker> {
+    const client = this.getDynamicClient(options.context);
+    const resource = await client.resolveResource(options.resourceType);
+    const path = client.watchPath(resource, resource.namespaced ? options.namespace : undefined);
+    const watch = new k8s.Watch(this.getKubeConfig(options.context));
+
+    const tracker: WatchTracker = {
+      id: randomUUID(),
+      abort: new AbortController(),
+      resourceType: options.resourceType,
+      namespace: options.namespace,
+      name: options.name,
+      context: options.context,
+    };
+    const { signal } = tracker.abort;
+    let resourceVersion: string | undefined;
+
+    const start = async (): Promise<void> => {
+      const queryParams: Record<string, string | boolean> = { allowWatchBookmarks: true };
+      if (options.name) queryParams.fieldSelector = `metadata.name=${options.name}`;
+      if (resourceVersion) queryParams.resourceVersion = resourceVersion;
+
+      const restart = (delay: number) => {
+        if (signal.aborted) return;
+        setTimeout(() => start().catch(() => restart(5000)), delay).unref();
+      };
+
+      const request = await watch.watch(
+        path,
+        queryParams,
+        (phase, object) => {
+          if (phase === "ERROR") {
+            // 410 Gone: the resourceVersion is too old; start over and report
+            // a change since events may have been missed
+            resourceVersion = undefined;
+            onChange(phase, object);
+            return;
+          }
+          resourceVersion = object?.metadata?.resourceVersion || resourceVersion;
+          if (phase !== "BOOKMARK") {
+            onChange(phase, object);
+          }
+        },
+        (error) => restart(error ? 5000 : 1000)
+      );
+      if (signal.aborted) {
+        request?.abort();
+      } else {
+        signal.addEventListener("abort", () => request?.abort(), { once: true });
+      }
+    };
+
+    await start();
+    this.trackWatch(tracker);
+    return tracker;
   }
 
-  getBatchApi() {
-    return this.k8sBatchApi;
+  /**
+   * Get the kubeconfig for a context. Without a context (or with the current
+   * one) this is the shared kubeconfig; otherwise a separate copy pinned to the
+   * requested context is returned so the process-wide current context is never
+   * changed by a single call.
+   *
+   * @param context Optional kubeconfig context name
+   */
+  getKubeConfig(context?: string) {
+    if (!context || context === this.kc.getCurrentContext()) {
+      return this.kc;
+    }
+
+    let kc = this.contextConfigs.get(context);
+    if (!kc) {
+      this.assertContextExists(context);
+      kc = new k8s.KubeConfig();
+      kc.loadFromOptions({
+        clusters: this.kc.getClusters(),
+        users: this.kc.getUsers(),
+        contexts: this.kc.getContexts(),
+        currentContext: context,
+      });
+      this.contextConfigs.set(context, kc);
+    }
+    return kc;
+  }
+
+  /**
+   * Create an API client for a context. Its requests are recorded in the
+   * audit log of the tool call making them.
+   *
+   * @param apiClass Generated API class, e.g. k8s.CoreV1Api
+   * @param context Optional kubeconfig context name
+   */
+  makeApiClient<T extends k8s.ApiType & { addInterceptor(interceptor: k8s.Interceptor): void }>(
+    apiClass: new (server: string) => T,
+    context?: string
+  ): T {
+    const client = this.getKubeConfig(context).makeApiClient(apiClass);
+    client.addInterceptor(recordApiRequest);
+    return client;
+  }
+
+  getCoreApi(context?: string) {
+    if (!context) return this.k8sApi;
+    return this.makeApiClient(k8s.CoreV1Api, context);
+  }
+
+  getAppsApi(context?: string) {
+    if (!context) return this.k8sAppsApi;
+    return this.makeApiClient(k8s.AppsV1Api, context);
+  }
+
+  getBatchApi(context?: string) {
+    if (!context) return this.k8sBatchApi;
+    return this.makeApiClient(k8s.BatchV1Api, context);
+  }
+
+  getRbacApi(context?: string) {
+    return this.makeApiClient(k8s.RbacAuthorizationV1Api, context);
+  }
+
+  getAuthorizationApi(context?: string) {
+    return this.makeApiClient(k8s.AuthorizationV1Api, context);
+  }
+
+  /**
+   * Get a dynamic client for arbitrary resource kinds. Clients are cached per
+   * context so API discovery is only done once.
+   *
+   * @param context Optional kubeconfig context name
+   */
+  getDynamicClient(context?: string) {
+    const key = context || this.kc.getCurrentContext();
+    let client = this.dynamicClients.get(key);
+    if (!client) {
+      client = DynamicClient.makeApiClient(this.getKubeConfig(context));
+      client.addInterceptor(recordApiRequest);
+      this.dynamicClients.set(key, client);
+    }
+    return client;
   }
 
   /**
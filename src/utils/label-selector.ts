@@ -0,0 +1,55 @@
+import * as k8s from "@kubernetes/client-node";
+
+/**
+ * Render a LabelSelector (matchLabels and matchExpressions) in the string
+ * form accepted by `labelSelector` query parameters, e.g.
+ * "app=web,tier in (frontend,edge),!canary".
+ */
+export function labelSelectorToString(selector?: k8s.V1LabelSelector): string {
+  const requirements = Object.entries(selector?.matchLabels || {}).map(([key, value]) => `${key}=${value}`);
+
+  for (const expression of selector?.matchExpressions || []) {
+    const values = (expression.values || []).join(",");
+    switch (expression.operator) {
+      case "In":
+        requirements.push(`${expression.key} in (${values})`);
+        break;
+      case "NotIn":
+        requirements.push(`${expression.key} notin (${values})`);
+        break;
+      case "Exists":
+        requirements.push(expression.key);
+        break;
+      case "DoesNotExist":
+        requirements.push(`!${expression.key}`);
+        break;
+    }
+  }
+  return requirements.join(",");
+}
+
+/**
+ * Whether a set of labels satisfies a LabelSelector. An empty selector
+ * matches every set of labels.
+ */
+export function matchesLabelSelector(selector: k8s.V1LabelSelector, labels: Record<string, string> = {}): boolean {
+  for (const [key, value] of Object.entries(selector.matchLabels || {})) {
+    if (labels[key] !== value) return false;
+  }
+  return (selector.matchExpressions || []).every((expression) => {
+    const has = Object.prototype.hasOwnProperty.call(labels, expression.key);
+    const values = expression.values || [];
+    switch (expression.operator) {
+      case "In":
+        return has && values.includes(labels[expression.key]);
+      case "NotIn":
+        return !has || !values.includes(labels[expression.key]);
+      case "Exists":
+        return has;
+      case "DoesNotExist":
+        return !has;
+      default:
+        return false;
+    }
+  });
+}
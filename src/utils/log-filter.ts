@@ -0,0 +1,413 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+export const LOG_LEVELS = ["trace", "debug", "info", "warn", "error", "fatal"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Server-side filters and output modes for container logs. With none of
+ * them set, logs are returned as kubectl prints them.
+ */
+export interface LogFilterOptions {
+  /** Keep only entries matching this regular expression */
+  grep?: string;
+  /** Drop entries matching this regular expression */
+  exclude?: string;
+  /** Keep entries at this level or above */
+  level?: string;
+  /** Keep entries at or after this time (RFC3339) */
+  startTime?: string;
+  /** Keep entries before this time (RFC3339) */
+  endTime?: string;
+  /** Conditions on JSON or logfmt fields, e.g. "level=error", "status>=500" */
+  fields?: string[];
+  /** "text" (matching lines), "structured" (parsed entries) or "summary" (repeated lines as patterns) */
+  output?: string;
+}
+
+/**
+ * One log entry: a line plus any indented continuation lines, such as a
+ * stack trace.
+ */
+export interface LogEntry {
+  /** Line number of the first line, from 1 */
+  line: number;
+  /** Lines as kubectl printed them */
+  raw: string;
+  /** Lines without kubectl's timestamp prefix */
+  text: string;
+  format: "json" | "logfmt" | "text";
+  time?: string;
+  level?: LogLevel;
+  message: string;
+  fields?: Record<string, unknown>;
+}
+
+export interface LogPattern {
+  pattern: string;
+  level?: LogLevel;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  example: string;
+}
+
+interface FieldCondition {
+  key: string;
+  operator: string;
+  value: string;
+}
+
+const MAX_PATTERNS = 50;
+const OUTPUT_MODES = ["text", "structured", "summary"];
+
+// Prefix added by `kubectl logs --timestamps`
+const KUBECTL_TIMESTAMP = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})) /;
+// Timestamp at the start of an application's own log line
+const LEADING_TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?/;
+const LOGFMT_PAIR = /([\w.@\/-]+)=("(?:[^"\\]|\\.)*"|[^\s]*)/g;
+// "key=value", "status>=500", "msg=~timeout"
+const FIELD_CONDITION = /^([\w.@\/-]+)\s*(!=|>=|<=|=~|=|>|<)\s*(.*)$/;
+// klog header: "E0612 10:00:00.000000 ..."
+const KLOG_HEADER = /^([IWEF])\d{4} \d{2}:\d{2}:\d{2}/;
+const LEVEL_WORD = /\b(TRACE|DEBUG|INFO|NOTICE|WARN|WARNING|ERROR|ERR|CRITICAL|FATAL|PANIC)\b/;
+
+const LEVEL_FIELDS = ["level", "lvl", "severity", "loglevel", "log.level"];
+const MESSAGE_FIELDS = ["msg", "message", "MESSAGE", "log"];
+const TIME_FIELDS = ["time", "ts", "timestamp", "@timestamp", "t"];
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  trace: "trace",
+  debug: "debug",
+  dbg: "debug",
+  info: "info",
+  information: "info",
+  notice: "info",
+  i: "info",
+  warn: "warn",
+  warning: "warn",
+  w: "warn",
+  error: "error",
+  err: "error",
+  e: "error",
+  fatal: "fatal",
+  critical: "fatal",
+  crit: "fatal",
+  panic: "fatal",
+  emerg: "fatal",
+  alert: "fatal",
+  f: "fatal",
+};
+
+function invalid(field: string, value: unknown, reason: string): never {
+  throw new McpError(ErrorCode.InvalidParams, `Invalid ${field} '${String(value)}': ${reason}`);
+}
+
+/**
+ * Normalize a level name or a numeric (pino/bunyan) level.
+ */
+export function normalizeLevel(value: unknown): LogLevel | undefined {
+  if (typeof value === "number") {
+    if (value >= 60) return "fatal";
+    if (value >= 50) return "error";
+    if (value >= 40) return "warn";
+    if (value >= 30) return "info";
+    if (value >= 20) return "debug";
+    return "trace";
+  }
+  return typeof value === "string" ? LEVEL_ALIASES[value.toLowerCase()] : undefined;
+}
+
+function parseFieldCondition(condition: string): FieldCondition {
+  const match = FIELD_CONDITION.exec(condition.trim());
+  if (!match || /^[=<>!~]/.test(match[3])) {
+    invalid("fields", condition, "expected key=value, key!=value, key=~regex or a comparison such as status>=500");
+  }
+  return { key: match[1], operator: match[2], value: match[3] };
+}
+
+function compileRegex(pattern: string, field: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error: any) {
+    invalid(field, pattern, error.message);
+  }
+}
+
+function parseTime(value: string, field: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) invalid(field, value, "must be an RFC3339 time");
+  return time;
+}
+
+/**
+ * Whether any filter or output mode is set.
+ */
+export function hasLogFilters(options: LogFilterOptions): boolean {
+  return !!(
+    options.grep ||
+    options.exclude ||
+    options.level ||
+    options.startTime ||
+    options.endTime ||
+    options.fields?.length ||
+    (options.output && options.output !== "text")
+  );
+}
+
+/**
+ * Whether the filters need kubectl's timestamps to place entries in time.
+ */
+export function needsTimestamps(options: LogFilterOptions): boolean {
+  return !!(options.startTime || options.endTime || options.output === "summary");
+}
+
+/**
+ * Validate the filter options before kubectl runs.
+ */
+export function validateLogFilterOptions(options: LogFilterOptions): void {
+  if (options.grep) compileRegex(options.grep, "grep");
+  if (options.exclude) compileRegex(options.exclude, "exclude");
+  if (options.level && !LEVEL_ALIASES[options.level.toLowerCase()]) {
+    invalid("level", options.level, `must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+  if (options.startTime) parseTime(options.startTime, "startTime");
+  if (options.endTime) parseTime(options.endTime, "endTime");
+  if (options.fields !== undefined && !Array.isArray(options.fields)) {
+    invalid("fields", options.fields, "must be an array of conditions");
+  }
+  for (const condition of options.fields || []) {
+    const { operator, value } = parseFieldCondition(String(condition));
+    if (operator === "=~") compileRegex(value, "fields");
+  }
+  if (options.output && !OUTPUT_MODES.includes(options.output)) {
+    invalid("output", options.output, `must be one of ${OUTPUT_MODES.join(", ")}`);
+  }
+}
+
+function unquote(value: string): string {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value.slice(1, -1);
+  }
+}
+
+function parseLogfmt(text: string): Record<string, unknown> | undefined {
+  const fields: Record<string, unknown> = {};
+  let pairs = 0;
+  for (const match of text.matchAll(LOGFMT_PAIR)) {
+    // Only lines that start with a pair are logfmt, not prose containing "a=b"
+    if (pairs === 0 && match.index !== 0) return undefined;
+    const value = match[2];
+    fields[match[1]] = value.startsWith('"') ? unquote(value) : value;
+    pairs++;
+  }
+  return pairs >= 2 ? fields : undefined;
+}
+
+function fieldValue(fields: Record<string, unknown>, key: string): unknown {
+  if (key in fields) return fields[key];
+  // Nested JSON fields: "http.status"
+  return key.split(".").reduce<any>((value, part) => (value && typeof value === "object" ? value[part] : undefined), fields);
+}
+
+function firstField(fields: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    const value = fieldValue(fields, key);
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+}
+
+function toIsoTime(value: unknown): string | undefined {
+  if (typeof value === "number") {
+    // Epoch seconds or milliseconds
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  if (typeof value === "string") {
+    const time = Date.parse(value.replace(",", "."));
+    return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+  return undefined;
+}
+
+function parseEntry(line: number, rawLines: string[], textLines: string[], prefixTime?: string): LogEntry {
+  const text = textLines.join("\n");
+  const first = textLines[0];
+  let format: LogEntry["format"] = "text";
+  let fields: Record<string, unknown> | undefined;
+
+  if (first.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(first);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        format = "json";
+        fields = parsed;
+      }
+    } catch {
+      // Not JSON after all
+    }
+  }
+  if (!fields) {
+    fields = parseLogfmt(first);
+    if (fields) format = "logfmt";
+  }
+
+  let level: LogLevel | undefined;
+  let message = text;
+  let time = prefixTime;
+  if (fields) {
+    level = normalizeLevel(firstField(fields, LEVEL_FIELDS));
+    const fieldMessage = firstField(fields, MESSAGE_FIELDS);
+    if (typeof fieldMessage === "string") message = fieldMessage;
+    time = time || toIsoTime(firstField(fields, TIME_FIELDS));
+  } else {
+    const klog = KLOG_HEADER.exec(first);
+    level = klog ? normalizeLevel(klog[1]) : normalizeLevel(LEVEL_WORD.exec(first)?.[1]);
+    time = time || toIsoTime(LEADING_TIMESTAMP.exec(first)?.[1]);
+  }
+
+  return { line, raw: rawLines.join("\n"), text, format, time, level, message, ...(fields ? { fields } : {}) };
+}
+
+/**
+ * Split logs into entries and parse JSON and logfmt lines. Indented lines
+ * are kept with the entry above them.
+ */
+export function parseLogs(logs: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  let current: { line: number; raw: string[]; text: string[]; time?: string } | undefined;
+  const flush = () => {
+    if (current) entries.push(parseEntry(current.line, current.raw, current.text, current.time));
+  };
+
+  logs.split("\n").forEach((raw, index) => {
+    if (raw === "") return;
+    const prefix = KUBECTL_TIMESTAMP.exec(raw);
+    const text = prefix ? raw.slice(prefix[0].length) : raw;
+    if (current && /^\s/.test(text) && text.trim() !== "") {
+      current.raw.push(raw);
+      current.text.push(text);
+      return;
+    }
+    flush();
+    current = { line: index + 1, raw: [raw], text: [text], time: prefix ? new Date(prefix[1]).toISOString() : undefined };
+  });
+  flush();
+  return entries;
+}
+
+function matchesCondition(entry: LogEntry, condition: FieldCondition): boolean {
+  if (!entry.fields) return false;
+  const actual = fieldValue(entry.fields, condition.key);
+  if (actual === undefined) return condition.operator === "!=";
+
+  // Levels compare by name whatever the application calls them
+  const isLevel = LEVEL_FIELDS.includes(condition.key);
+  const left = isLevel ? normalizeLevel(actual) ?? String(actual) : String(actual);
+  const right = isLevel ? normalizeLevel(condition.value) ?? condition.value : condition.value;
+
+  switch (condition.operator) {
+    case "=":
+      return left.toLowerCase() === right.toLowerCase();
+    case "!=":
+      return left.toLowerCase() !== right.toLowerCase();
+    case "=~":
+      return new RegExp(condition.value).test(String(actual));
+    default: {
+      const [a, b] = [Number(actual), Number(condition.value)];
+      if (!Number.isFinite(a) || !Number.isFinite(b)) return false;
+      return condition.operator === ">" ? a > b : condition.operator === ">=" ? a >= b : condition.operator === "<" ? a < b : a <= b;
+    }
+  }
+}
+
+/**
+ * Pattern of a message with its variable parts (times, IDs, addresses,
+ * numbers) replaced, so repeated lines group together.
+ */
+export function logPattern(message: string): string {
+  return message
+    .split("\n")[0]
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, "<time>")
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+    .replace(/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, "<ip>")
+    .replace(/\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)[0-9a-f]{12,}\b/gi, "<hex>")
+    .replace(/\d+(?:\.\d+)?/g, "<num>")
+    .slice(0, 300);
+}
+
+/**
+ * Group entries into patterns, most frequent first.
+ */
+export function summarizeLogEntries(entries: LogEntry[]): { patterns: LogPattern[]; totalPatterns: number } {
+  const patterns = new Map<string, LogPattern>();
+  for (const entry of entries) {
+    const pattern = logPattern(entry.message);
+    const key = `${entry.level || ""}|${pattern}`;
+    const seen = entry.time || `line ${entry.line}`;
+    const existing = patterns.get(key);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = seen;
+    } else {
+      patterns.set(key, { pattern, level: entry.level, count: 1, firstSeen: seen, lastSeen: seen, example: entry.text.split("\n")[0] });
+    }
+  }
+  const sorted = [...patterns.values()].sort((a, b) => b.count - a.count);
+  return { patterns: sorted.slice(0, MAX_PATTERNS), totalPatterns: sorted.length };
+}
+
+/**
+ * Predicate for the entries that pass all filters in the options.
+ */
+export function createLogMatcher(options: LogFilterOptions): (entry: LogEntry) => boolean {
+  const include = options.grep ? compileRegex(options.grep, "grep") : undefined;
+  const exclude = options.exclude ? compileRegex(options.exclude, "exclude") : undefined;
+  const minLevel = options.level ? LOG_LEVELS.indexOf(normalizeLevel(options.level)!) : -1;
+  const start = options.startTime ? parseTime(options.startTime, "startTime") : undefined;
+  const end = options.endTime ? parseTime(options.endTime, "endTime") : undefined;
+  const conditions = (options.fields || []).map((condition) => parseFieldCondition(String(condition)));
+
+  return (entry) => {
+    if (include && !include.test(entry.text)) return false;
+    if (exclude && exclude.test(entry.text)) return false;
+    if (minLevel >= 0 && (!entry.level || LOG_LEVELS.indexOf(entry.level) < minLevel)) return false;
+    if (start !== undefined || end !== undefined) {
+      const time = entry.time ? Date.parse(entry.time) : NaN;
+      if (Number.isNaN(time)) return false;
+      if (start !== undefined && time < start) return false;
+      if (end !== undefined && time >= end) return false;
+    }
+    return conditions.every((condition) => matchesCondition(entry, condition));
+  };
+}
+
+/**
+ * Entry as returned in structured output.
+ */
+export function structuredLogEntry({ line, time, level, message, fields }: LogEntry) {
+  return { line, time, level, message, ...(fields ? { fields } : {}) };
+}
+
+/**
+ * Apply the filters to the output of kubectl logs and render it in the
+ * requested output mode. `keepTimestamps` keeps kubectl's timestamp prefix
+ * on text output.
+ */
+export function filterLogs(logs: string, options: LogFilterOptions, keepTimestamps = false) {
+  const entries = parseLogs(logs);
+  const matched = entries.filter(createLogMatcher(options));
+
+  const stats = { totalEntries: entries.length, matchedEntries: matched.length };
+  if (options.output === "summary") {
+    return { ...stats, ...summarizeLogEntries(matched) };
+  }
+  if (options.output === "structured") {
+    return {
+      ...stats,
+      entries: matched.map(structuredLogEntry),
+    };
+  }
+  return { ...stats, logs: matched.map((entry) => (keepTimestamps ? entry.raw : entry.text)).join("\n") };
+}
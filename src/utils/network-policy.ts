@@ -0,0 +1,170 @@
+import * as k8s from "@kubernetes/client-node";
+import { BlockList, isIP } from "net";
+import { labelSelectorToString, matchesLabelSelector } from "./label-selector.js";
+
+/**
+ * One end of a connection: a pod (real or described by its labels) or an
+ * address outside the cluster.
+ */
+export interface TrafficEndpoint {
+  /** Pod name, when the endpoint is an existing pod */
+  pod?: string;
+  /** Namespace of the pod; unset for addresses outside the cluster */
+  namespace?: string;
+  labels: Record<string, string>;
+  namespaceLabels: Record<string, string>;
+  ip?: string;
+  /** Container ports of the pod, used to resolve named ports */
+  ports?: k8s.V1ContainerPort[];
+}
+
+/** A destination port, by number and, when known, by container port name */
+export interface TrafficPort {
+  number?: number;
+  name?: string;
+  protocol: string;
+}
+
+/** A rule of a policy that allows the connection */
+export interface AllowingRule {
+  policy: string;
+  /** Index of the rule in the policy's ingress or egress list */
+  rule: number;
+  /** The peer of the rule that matched */
+  peer: string;
+}
+
+export interface DirectionVerdict {
+  allowed: boolean;
+  /** Whether any policy selects the pod for this direction */
+  isolated: boolean;
+  /** Policies that select the pod for this direction */
+  policies: string[];
+  allowedBy: AllowingRule[];
+  reason: string;
+}
+
+/**
+ * Policy types of a NetworkPolicy. Without policyTypes, policies are
+ * ingress policies, and egress policies too when they have egress rules.
+ */
+export function policyTypes(policy: any): string[] {
+  if (policy.spec?.policyTypes?.length) return policy.spec.policyTypes;
+  return policy.spec?.egress ? ["Ingress", "Egress"] : ["Ingress"];
+}
+
+/**
+ * Whether an entry of a rule's ports list covers a port. Named entries match
+ * the container port name; numeric ones the number, up to endPort.
+ */
+export function policyPortMatches(entry: any, target: TrafficPort): boolean {
+  if ((entry.protocol || "TCP") !== target.protocol) return false;
+  if (entry.port === undefined) return true;
+  if (typeof entry.port === "string" && !/^\d+$/.test(entry.port)) return entry.port === target.name;
+  const from = Number(entry.port);
+  return target.number !== undefined && target.number >= from && target.number <= (entry.endPort ?? from);
+}
+
+/** Human readable form of a NetworkPolicy peer */
+export function describePeer(peer: any): string {
+  const parts = [];
+  if (peer.ipBlock) {
+    parts.push(`ipBlock ${peer.ipBlock.cidr}${peer.ipBlock.except?.length ? ` except ${peer.ipBlock.except.join(", ")}` : ""}`);
+  }
+  if (peer.namespaceSelector) {
+    parts.push(`namespaces ${labelSelectorToString(peer.namespaceSelector) || "(all)"}`);
+  }
+  if (peer.podSelector) {
+    parts.push(`pods ${labelSelectorToString(peer.podSelector) || "(all)"}`);
+  }
+  return parts.join(" and ");
+}
+
+function inIPBlock(ip: string, block: { cidr: string; except?: string[] }): boolean {
+  const family = isIP(ip) === 6 ? "ipv6" : "ipv4";
+  const contains = (cidr: string) => {
+    const [network, prefix] = cidr.split("/");
+    if (isIP(network) !== isIP(ip)) return false;
+    const list = new BlockList();
+    list.addSubnet(network, Number(prefix), family);
+    return list.check(ip, family);
+  };
+  return contains(block.cidr) && !(block.except || []).some(contains);
+}
+
+/**
+ * Whether a peer of a rule in a policy of `policyNamespace` matches an
+ * endpoint. Selectors only match pods; addresses outside the cluster only
+ * match ipBlocks.
+ */
+export function peerMatches(peer: any, policyNamespace: string, endpoint: TrafficEndpoint): boolean {
+  if (peer.ipBlock) {
+    return !!endpoint.ip && isIP(endpoint.ip) > 0 && inIPBlock(endpoint.ip, peer.ipBlock);
+  }
+  if (!endpoint.namespace) return false;
+  const namespaceOk = peer.namespaceSelector
+    ? matchesLabelSelector(peer.namespaceSelector, endpoint.namespaceLabels)
+    : endpoint.namespace === policyNamespace;
+  const podOk = peer.podSelector ? matchesLabelSelector(peer.podSelector, endpoint.labels) : true;
+  return namespaceOk && podOk;
+}
+
+/**
+ * Evaluate one direction of a connection: ingress into `subject` from `peer`,
+ * or egress from `subject` to `peer`. Policies of other namespaces are
+ * ignored, since a policy only selects pods of its own namespace.
+ */
+export function evaluateDirection(
+  policies: any[],
+  direction: "Ingress" | "Egress",
+  subject: TrafficEndpoint,
+  peer: TrafficEndpoint,
+  port: TrafficPort
+): DirectionVerdict {
+  const selecting = policies.filter(
+    (policy) =>
+      subject.namespace !== undefined &&
+      policy.metadata?.namespace === subject.namespace &&
+      policyTypes(policy).includes(direction) &&
+      matchesLabelSelector(policy.spec?.podSelector || {}, subject.labels)
+  );
+  const names = selecting.map((policy) => policy.metadata?.name);
+  const what = direction === "Ingress" ? "ingress into the destination" : "egress from the source";
+  if (selecting.length === 0) {
+    return { allowed: true, isolated: false, policies: [], allowedBy: [], reason: `No policy selects the pod for ${direction.toLowerCase()}, so all ${what} is allowed` };
+  }
+
+  const allowedBy: AllowingRule[] = [];
+  for (const policy of selecting) {
+    const rules = (direction === "Ingress" ? policy.spec?.ingress : policy.spec?.egress) || [];
+    rules.forEach((rule: any, index: number) => {
+      if (rule.ports?.length && !rule.ports.some((entry: any) => policyPortMatches(entry, port))) return;
+      const peers = direction === "Ingress" ? rule.from : rule.to;
+      if (!peers?.length) {
+        allowedBy.push({ policy: policy.metadata?.name, rule: index, peer: "anywhere" });
+        return;
+      }
+      const match = peers.find((p: any) => peerMatches(p, policy.metadata?.namespace, peer));
+      if (match) {
+        allowedBy.push({ policy: policy.metadata?.name, rule: index, peer: describePeer(match) });
+      }
+    });
+  }
+
+  if (allowedBy.length > 0) {
+    return {
+      allowed: true,
+      isolated: true,
+      policies: names,
+      allowedBy,
+      reason: `Allowed by ${[...new Set(allowedBy.map((r) => r.policy))].join(", ")}`,
+    };
+  }
+  return {
+    allowed: false,
+    isolated: true,
+    policies: names,
+    allowedBy: [],
+    reason: `${names.join(", ")} select the pod for ${direction.toLowerCase()}, and none of their rules allows this peer on this port`,
+  };
+}
@@ -0,0 +1,168 @@
+import * as k8s from "@kubernetes/client-node";
+import { Readable, Writable } from "stream";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { KubernetesManager } from "./kubernetes-manager.js";
+import { recordApiRequest } from "./audit.js";
+import { apiErrorMessage, isNotFoundError } from "./dynamic-client.js";
+
+const MAX_STDERR_LENGTH = 64 * 1024;
+const DEFAULT_CONTAINER_ANNOTATION = "kubectl.kubernetes.io/default-container";
+
+export interface ContainerExecOptions {
+  namespace: string;
+  pod: string;
+  container: string;
+  command: string[];
+  /** Sent to the command's stdin; the channel closes once it is sent */
+  stdin?: Buffer;
+  /** Bytes of stdout kept; the channel is closed when more arrive */
+  maxStdoutBytes?: number;
+  /** Drop stdout instead of keeping it */
+  discardStdout?: boolean;
+  /** Milliseconds before the channel is closed */
+  timeout?: number;
+  context?: string;
+}
+
+export interface ContainerExecResult {
+  stdout: Buffer;
+  stderr: string;
+  /** Exit code, when the channel reported one before closing */
+  exitCode?: number;
+  truncated: boolean;
+  timedOut: boolean;
+}
+
+/**
+ * Name of the container to use in a pod: the given one, after checking it
+ * exists, or the pod's default container as kubectl picks it.
+ */
+export async function resolveContainer(
+  k8sManager: KubernetesManager,
+  namespace: string,
+  podName: string,
+  container?: string,
+  context?: string
+): Promise<string> {
+  let pod: k8s.V1Pod;
+  try {
+    pod = (await k8sManager.getCoreApi(context).readNamespacedPod(podName, namespace)).body;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      throw new McpError(ErrorCode.InvalidParams, `Pod '${podName}' not found in namespace '${namespace}'`);
+    }
+    throw new McpError(ErrorCode.InternalError, `Failed to read pod '${podName}': ${apiErrorMessage(error)}`);
+  }
+
+  const names = [...(pod.spec?.containers || []), ...(pod.spec?.ephemeralContainers || [])].map((c) => c.name);
+  if (container) {
+    if (!names.includes(container)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Container '${container}' not found in pod '${podName}'. Available containers: ${names.join(", ")}`
+      );
+    }
+    return container;
+  }
+  return pod.metadata?.annotations?.[DEFAULT_CONTAINER_ANNOTATION] || names[0];
+}
+
+/**
+ * Run a command in a container over the API server's exec channel. Unlike
+ * `kubectl exec`, stdout is kept as bytes, so binary files survive.
+ */
+export async function execInContainer(
+  k8sManager: KubernetesManager,
+  options: ContainerExecOptions
+): Promise<ContainerExecResult> {
+  const { namespace, pod, container, command } = options;
+  const limit = options.maxStdoutBytes ?? Infinity;
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  let truncated = false;
+  let timedOut = false;
+  let stderr = "";
+  let exitCode: number | undefined;
+  let failure: string | undefined;
+  let socket: { close(): void } | undefined;
+
+  const stdout = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      if (!options.discardStdout) {
+        const room = limit - bytes;
+        if (chunk.length > room) {
+          truncated = true;
+          chunks.push(chunk.subarray(0, room));
+          bytes += room;
+          socket?.close();
+        } else {
+          chunks.push(chunk);
+          bytes += chunk.length;
+        }
+      }
+      callback();
+    },
+  });
+  const stderrStream = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      if (stderr.length < MAX_STDERR_LENGTH) stderr += chunk.toString();
+      callback();
+    },
+  });
+
+  recordApiRequest({
+    method: "GET",
+    uri: `/api/v1/namespaces/${namespace}/pods/${pod}/exec`,
+    qs: { container, command: command.join(" ") },
+  });
+  const ws = await new k8s.Exec(k8sManager.getKubeConfig(options.context)).exec(
+    namespace,
+    pod,
+    container,
+    command,
+    stdout,
+    stderrStream,
+    options.stdin ? Readable.from([options.stdin]) : null,
+    false,
+    (status) => {
+      if (status.status === "Success") {
+        exitCode = 0;
+        return;
+      }
+      const cause = status.details?.causes?.find((c) => c.reason === "ExitCode");
+      if (cause) {
+        exitCode = Number(cause.message);
+      } else {
+        // The command could not start, e.g. the executable is missing
+        failure = status.message || "exec failed";
+      }
+    }
+  );
+  socket = ws;
+
+  return new Promise((resolve, reject) => {
+    const timer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          ws.close();
+        }, options.timeout)
+      : undefined;
+    const finish = () => {
+      clearTimeout(timer);
+      if (failure !== undefined && exitCode === undefined) {
+        reject(new Error(failure));
+        return;
+      }
+      resolve({ stdout: Buffer.concat(chunks), stderr, exitCode, truncated, timedOut });
+    };
+    if (ws.readyState === ws.CLOSED) {
+      finish();
+      return;
+    }
+    ws.on("close", finish);
+    ws.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
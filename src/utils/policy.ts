@@ -0,0 +1,379 @@
+import * as fs from "fs";
+import { isIP } from "net";
+import yaml from "yaml";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Allow and deny lists for one dimension of the policy. An empty or missing
+ * allow list allows everything that is not denied; deny always wins.
+ * Entries may use `*` as a wildcard, e.g. "kube-*".
+ */
+export interface PolicyRule {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Policy loaded from MCP_POLICY_FILE, checked for every tool call.
+ */
+export interface Policy {
+  /** Tool names, e.g. "kubectl_delete" */
+  tools?: PolicyRule;
+  /** Namespaces a call may target */
+  namespaces?: PolicyRule;
+  /** Resource kinds, by kind, plural, singular or short name ("Secret", "secrets", "cm") */
+  kinds?: PolicyRule;
+  /** kubectl_generic commands, e.g. "drain" or "rollout undo" */
+  genericCommands?: PolicyRule;
+}
+
+const POLICY_SECTIONS = ["tools", "namespaces", "kinds", "genericCommands"] as const;
+
+// kubectl short names of built-in resources
+const SHORT_NAMES: Record<string, string> = {
+  cm: "configmap",
+  cj: "cronjob",
+  crd: "customresourcedefinition",
+  csr: "certificatesigningrequest",
+  deploy: "deployment",
+  ds: "daemonset",
+  ep: "endpoint",
+  ev: "event",
+  hpa: "horizontalpodautoscaler",
+  ing: "ingress",
+  limits: "limitrange",
+  netpol: "networkpolicy",
+  no: "node",
+  ns: "namespace",
+  pc: "priorityclass",
+  pdb: "poddisruptionbudget",
+  po: "pod",
+  psp: "podsecuritypolicy",
+  pv: "persistentvolume",
+  pvc: "persistentvolumeclaim",
+  quota: "resourcequota",
+  rc: "replicationcontroller",
+  rs: "replicaset",
+  sa: "serviceaccount",
+  sc: "storageclass",
+  sts: "statefulset",
+  svc: "service",
+};
+
+/**
+ * Normalize a resource type or kind to its lowercase singular name, so that
+ * "Secret", "secrets" and "secrets.v1" or "NetworkPolicy", "networkpolicies"
+ * and "netpol" compare equal.
+ */
+export function normalizeKind(kind: string): string {
+  const name = kind.toLowerCase().split(".")[0];
+  if (SHORT_NAMES[name]) return SHORT_NAMES[name];
+  if (name.endsWith("ies")) return `${name.slice(0, -3)}y`;
+  if (/(ss|x|ch|sh)es$/.test(name)) return name.slice(0, -2);
+  if (name.endsWith("s") && !name.endsWith("ss")) return name.slice(0, -1);
+  return name;
+}
+
+function matches(pattern: string, value: string): boolean {
+  if (!pattern.includes("*")) return pattern === value;
+  const regex = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+/**
+ * Why a value is rejected by a rule, or undefined if it is allowed.
+ */
+function ruleViolation(
+  rule: PolicyRule | undefined,
+  section: string,
+  values: string[],
+  normalize: (value: string) => string = (value) => value
+): string | undefined {
+  if (!rule) return undefined;
+  const normalized = values.map(normalize);
+  const denied = rule.deny?.find((pattern) => normalized.some((value) => matches(normalize(pattern), value)));
+  if (denied) {
+    return `${section}.deny contains "${denied}"`;
+  }
+  if (rule.allow?.length && !rule.allow.some((pattern) => normalized.some((value) => matches(normalize(pattern), value)))) {
+    return `it is not in ${section}.allow`;
+  }
+  return undefined;
+}
+
+/**
+ * Load and validate the policy file named by MCP_POLICY_FILE (YAML or JSON).
+ * Returns undefined when no policy is configured.
+ */
+export function loadPolicy(env: NodeJS.ProcessEnv = process.env): Policy | undefined {
+  const file = env.MCP_POLICY_FILE;
+  if (!file) {
+    return undefined;
+  }
+
+  const policy = yaml.parse(fs.readFileSync(file, "utf8")) ?? {};
+  if (typeof policy !== "object" || Array.isArray(policy)) {
+    throw new Error(`Invalid policy file ${file}: expected a mapping`);
+  }
+  for (const [section, rule] of Object.entries(policy)) {
+    if (!(POLICY_SECTIONS as readonly string[]).includes(section)) {
+      throw new Error(
+        `Invalid policy file ${file}: unknown section "${section}" (expected ${POLICY_SECTIONS.join(", ")})`
+      );
+    }
+    for (const [list, entries] of Object.entries(rule as object)) {
+      if (
+        !["allow", "deny"].includes(list) ||
+        !Array.isArray(entries) ||
+        !entries.every((entry) => typeof entry === "string")
+      ) {
+        throw new Error(
+          `Invalid policy file ${file}: ${section}.${list} must be an allow or deny list of strings`
+        );
+      }
+    }
+  }
+  return policy as Policy;
+}
+
+/**
+ * Whether the policy allows a tool at all, used to filter the tool list.
+ */
+export function isToolAllowedByPolicy(policy: Policy, toolName: string): boolean {
+  return !ruleViolation(policy.tools, "tools", [toolName]);
+}
+
+// Tools whose calls span every namespace unless given a list of namespaces,
+// with the resource types they cover by default
+const MULTI_NAMESPACE_TOOLS: Record<string, string[]> = {
+  kubectl_search: ["pods", "deployments", "services"],
+  kubectl_cluster_overview: ["pods", "deployments", "services", "configmaps", "secrets"],
+};
+
+// Tools that read Helm releases
+const HELM_INSPECTION_TOOLS = ["list_helm_releases", "helm_status", "helm_history", "helm_get_values", "helm_get_manifest"];
+
+// Tools that run commands in pods through the exec channel; the network
+// tools may also add debug containers to the pod
+const POD_EXEC_TOOLS = [
+  "kubectl_exec",
+  "kubectl_cp_from_pod",
+  "kubectl_cp_to_pod",
+  "kubectl_curl",
+  "kubectl_ping",
+  "kubectl_traceroute",
+  "kubectl_dns_lookup",
+  "kubectl_tcp_check",
+];
+
+// Tools that do not act on namespaced resources
+const CLUSTER_TOOLS = [
+  "kubectl_context",
+  "explain_resource",
+  "list_api_resources",
+  "stop_port_forward",
+  "cleanup",
+  "rbac_can_i",
+];
+
+// kubectl flags whose value is the next argument unless given with "="
+const VALUE_FLAGS = [
+  "-n", "--namespace", "-l", "--selector", "-o", "--output", "-c", "--container",
+  "-f", "--filename", "-p", "--patch", "-L", "--label-columns", "--field-selector",
+  "--sort-by", "--template", "--type", "--since", "--tail", "--timeout", "--image",
+  "--replicas", "--context", "--cluster", "--user", "--kubeconfig", "-s", "--server",
+];
+
+// kubectl commands whose first word after the command is a subcommand, such as
+// "rollout undo" or "set image"
+const SUBCOMMAND_COMMANDS = ["rollout", "set", "auth", "config", "certificate"];
+
+// kubectl commands whose first argument is a pod rather than a resource type
+const POD_COMMANDS = ["logs", "exec", "attach", "port-forward", "cp"];
+
+/**
+ * Namespaces and kinds in the free-form args of a kubectl_generic call, which
+ * are passed to kubectl as they are: namespace and all-namespace flags, the
+ * resource type argument ("secrets", "pods,services") and "kind/name"
+ * arguments. Also returns the subcommand, which may be given in args as well.
+ */
+function genericArgTargets(input: Record<string, any>) {
+  const namespaces: string[] = [];
+  const kinds: string[] = [];
+  let allNamespaces = false;
+  const args: string[] = Array.isArray(input.args) ? input.args.filter((arg: unknown) => typeof arg === "string") : [];
+
+  let positionals: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    // Everything after "--" is a command run in a container
+    if (arg === "--") break;
+    if (!arg.startsWith("-")) {
+      positionals.push(arg);
+      continue;
+    }
+    const equals = arg.indexOf("=");
+    const flag = equals === -1 ? arg : arg.slice(0, equals);
+    if (equals === -1 && /^-n./.test(flag)) {
+      namespaces.push(flag.slice(2));
+    } else if (flag === "-A" || flag === "--all-namespaces") {
+      allNamespaces = allNamespaces || equals === -1 || arg.slice(equals + 1) !== "false";
+    } else {
+      const value = equals !== -1 ? arg.slice(equals + 1) : VALUE_FLAGS.includes(flag) ? args[++i] : undefined;
+      if ((flag === "-n" || flag === "--namespace") && value) namespaces.push(value);
+    }
+  }
+
+  const words = [input.subCommand, input.resourceType, input.name, ...positionals].filter(
+    (word) => typeof word === "string" && word
+  );
+  if (!input.subCommand && SUBCOMMAND_COMMANDS.includes(input.command) && !input.resourceType) {
+    positionals = positionals.slice(1);
+  }
+
+  if (POD_COMMANDS.includes(input.command)) {
+    kinds.push("pods");
+  } else {
+    if (!input.resourceType && positionals[0] && !positionals[0].includes("/")) {
+      kinds.push(...positionals[0].split(",").filter(Boolean));
+    }
+    for (const positional of positionals) {
+      if (positional.includes("/")) kinds.push(positional.split("/")[0]);
+    }
+  }
+  return { namespaces, kinds, allNamespaces, subCommand: words[0] as string | undefined };
+}
+
+/**
+ * Namespaces and kinds a tool call touches, taken from its arguments and any
+ * manifest it carries.
+ */
+function callTargets(toolName: string, input: Record<string, any>) {
+  const namespaces: string[] = [];
+  const kinds: string[] = [];
+  const flags = input.flags && typeof input.flags === "object" ? input.flags : {};
+  let allNamespaces = !!(input.allNamespaces || flags["all-namespaces"] || flags.A);
+
+  const flagNamespace = flags.namespace || flags.n;
+  if (typeof flagNamespace === "string") namespaces.push(flagNamespace);
+
+  if (Array.isArray(input.namespaces) && input.namespaces.length > 0) {
+    namespaces.push(...input.namespaces);
+  } else if (MULTI_NAMESPACE_TOOLS[toolName]) {
+    allNamespaces = true;
+  }
+  if (toolName === "rbac_describe_subject") {
+    // Bindings of every namespace are scanned; namespace is the ServiceAccount's
+    allNamespaces = true;
+  } else if (input.namespace) {
+    namespaces.push(input.namespace);
+  } else if (toolName === "rbac_who_can" || toolName === "list_helm_releases") {
+    allNamespaces = true;
+  } else if (toolName === "kubectl_events" || (toolName === "kubectl_get" && normalizeKind(input.resourceType || "") === "event")) {
+    // Events are listed across all namespaces when no namespace is given
+    allNamespaces = true;
+  } else if (toolName === "network_policy_check") {
+    // The namespaces of the source and destination pods
+    for (const end of ["source", "destination"]) {
+      if (input[`${end}Pod`] || input[`${end}Labels`]) namespaces.push(input[`${end}Namespace`] || "default");
+    }
+  } else if (toolName === "kubectl_service_check" && isIP(String(input.name || "").trim())) {
+    // A Service given by IP address is looked up in every namespace
+    allNamespaces = true;
+  }
+
+  if (toolName === "kubectl_generic") {
+    const targets = genericArgTargets(input);
+    namespaces.push(...targets.namespaces);
+    kinds.push(...targets.kinds);
+    allNamespaces = allNamespaces || targets.allNamespaces;
+  }
+
+  if (typeof input.resourceType === "string") kinds.push(input.resourceType);
+  if (toolName === "kubectl_events") kinds.push("events");
+  if (toolName === "kubectl_scale" && !input.resourceType) kinds.push("deployment");
+  if (toolName === "create_pod_from_template") kinds.push("pod");
+  if (toolName === "create_deployment") kinds.push("deployment");
+  // Diagnosis reads the target's pods and their events as well
+  if (toolName === "kubectl_diagnose") kinds.push("pods", "events");
+  // Service checks read the Service's pods, endpoints, ingresses and policies
+  if (toolName === "kubectl_service_check") {
+    kinds.push("services", "pods", "endpointslices", "ingresses", "networkpolicies");
+  }
+  if (toolName === "network_policy_check") kinds.push("networkpolicies", "pods");
+  if (toolName === "rbac_who_can" || toolName === "rbac_describe_subject") {
+    kinds.push("roles", "clusterroles", "rolebindings", "clusterrolebindings");
+  }
+  // Helm keeps its releases, values included, in Secrets
+  if (HELM_INSPECTION_TOOLS.includes(toolName)) kinds.push("secrets");
+  // Commands and copies run in a pod, also when a workload is named
+  if (POD_EXEC_TOOLS.includes(toolName)) kinds.push("pods");
+  if (Array.isArray(input.resourceTypes)) {
+    kinds.push(...input.resourceTypes);
+  } else if (MULTI_NAMESPACE_TOOLS[toolName]) {
+    kinds.push(...MULTI_NAMESPACE_TOOLS[toolName]);
+  }
+
+  let manifest = input.manifest;
+  if (typeof manifest !== "string" && typeof input.filename === "string" && fs.existsSync(input.filename)) {
+    manifest = fs.readFileSync(input.filename, "utf8");
+  }
+  if (typeof manifest === "string") {
+    for (const document of yaml.parseAllDocuments(manifest)) {
+      const object = document.toJS();
+      if (object?.kind) kinds.push(object.kind);
+      if (object?.metadata?.namespace) namespaces.push(object.metadata.namespace);
+    }
+  }
+
+  // Namespaced calls without a namespace run in "default"
+  if (namespaces.length === 0 && !allNamespaces && !CLUSTER_TOOLS.includes(toolName)) {
+    namespaces.push("default");
+  }
+  return { namespaces, kinds, allNamespaces };
+}
+
+function denied(toolName: string, reason: string): McpError {
+  return new McpError(ErrorCode.InvalidRequest, `Denied by policy: ${toolName} ${reason}`);
+}
+
+/**
+ * Check a tool call against the policy, throwing an McpError that explains
+ * which rule denied it.
+ */
+export function enforcePolicy(policy: Policy, toolName: string, input: Record<string, any>): void {
+  const toolViolation = ruleViolation(policy.tools, "tools", [toolName]);
+  if (toolViolation) {
+    throw denied(toolName, `is not allowed: ${toolViolation}`);
+  }
+
+  const { namespaces, kinds, allNamespaces } = callTargets(toolName, input);
+
+  if (policy.namespaces && allNamespaces) {
+    throw denied(toolName, "across all namespaces is not allowed while namespaces are restricted; pass a namespace");
+  }
+  for (const namespace of namespaces) {
+    const violation = ruleViolation(policy.namespaces, "namespaces", [namespace]);
+    if (violation) {
+      throw denied(toolName, `on namespace "${namespace}" is not allowed: ${violation}`);
+    }
+  }
+
+  if (policy.kinds) {
+    for (const kind of kinds) {
+      const violation = ruleViolation(policy.kinds, "kinds", [kind], normalizeKind);
+      if (violation) {
+        throw denied(toolName, `on kind "${kind}" is not allowed: ${violation}`);
+      }
+    }
+  }
+
+  if (toolName === "kubectl_generic" && policy.genericCommands) {
+    // A subcommand passed in args or as the resource type counts as well
+    const command = [input.command, genericArgTargets(input).subCommand].filter(Boolean).join(" ");
+    const violation = ruleViolation(policy.genericCommands, "genericCommands", [input.command, command]);
+    if (violation) {
+      throw denied(toolName, `command "${command}" is not allowed: ${violation}`);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import * as k8s from "@kubernetes/client-node";
+import { matchesLabelSelector } from "./label-selector.js";
+
+/** A request as RBAC authorizes it: on a resource, or on a non-resource URL */
+export type RbacRequest =
+  | { verb: string; group: string; resource: string; subresource?: string; name?: string }
+  | { verb: string; nonResourceURL: string };
+
+/** The user name and groups RBAC bindings are matched against */
+export interface RbacIdentity {
+  user?: string;
+  groups: string[];
+}
+
+/** A binding with the rules of the role it grants */
+export interface RoleGrant {
+  binding: { kind: string; name: string; namespace?: string };
+  role: { kind: string; name: string };
+  /** Namespace the rules apply in; unset for ClusterRoleBindings */
+  namespace?: string;
+  subjects: k8s.V1Subject[];
+  rules: k8s.V1PolicyRule[];
+  /** ClusterRoles whose rules were aggregated into the role */
+  aggregatedFrom?: string[];
+  /** The referenced role does not exist, so the binding grants nothing */
+  missingRole?: boolean;
+}
+
+const includesOrAll = (values: string[] | undefined, value: string) =>
+  !!values && (values.includes("*") || values.includes(value));
+
+/**
+ * Whether a policy rule allows a request, following the API server's RBAC
+ * authorizer: `*` wildcards, `*`/subresource, resourceNames and
+ * nonResourceURLs ending in `*`.
+ */
+export function ruleAllows(rule: k8s.V1PolicyRule, request: RbacRequest): boolean {
+  if (!includesOrAll(rule.verbs, request.verb)) return false;
+
+  if ("nonResourceURL" in request) {
+    return (rule.nonResourceURLs || []).some(
+      (url) => url === "*" || url === request.nonResourceURL || (url.endsWith("*") && request.nonResourceURL.startsWith(url.slice(0, -1)))
+    );
+  }
+
+  if (!includesOrAll(rule.apiGroups, request.group)) return false;
+  const combined = request.subresource ? `${request.resource}/${request.subresource}` : request.resource;
+  const resourceOk = (rule.resources || []).some(
+    (resource) =>
+      resource === "*" ||
+      resource === combined ||
+      (!!request.subresource && resource === `*/${request.subresource}`)
+  );
+  if (!resourceOk) return false;
+  if (rule.resourceNames?.length) {
+    return !!request.name && rule.resourceNames.includes(request.name);
+  }
+  return true;
+}
+
+/**
+ * The identity a subject authenticates as. ServiceAccounts and users are in
+ * the groups the API server adds to every authenticated request.
+ */
+export function subjectIdentity(kind: string, name: string, namespace?: string, groups: string[] = []): RbacIdentity {
+  switch (kind) {
+    case "ServiceAccount":
+      return {
+        user: `system:serviceaccount:${namespace}:${name}`,
+        groups: ["system:serviceaccounts", `system:serviceaccounts:${namespace}`, "system:authenticated", ...groups],
+      };
+    case "User":
+      return { user: name, groups: [...new Set([...groups, "system:authenticated"])] };
+    default:
+      return { groups: [name, ...groups] };
+  }
+}
+
+/** Whether a subject of a binding refers to an identity */
+export function bindingSubjectMatches(subject: k8s.V1Subject, identity: RbacIdentity): boolean {
+  switch (subject.kind) {
+    case "ServiceAccount":
+      return identity.user === `system:serviceaccount:${subject.namespace}:${subject.name}`;
+    case "User":
+      return identity.user === subject.name;
+    case "Group":
+      return identity.groups.includes(subject.name);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Rules of a ClusterRole, with the rules of the ClusterRoles its
+ * aggregationRule selects. The controller normally copies these into the
+ * role already; they are merged again in case it has not caught up.
+ */
+export function clusterRoleRules(
+  role: k8s.V1ClusterRole,
+  clusterRoles: k8s.V1ClusterRole[]
+): { rules: k8s.V1PolicyRule[]; aggregatedFrom: string[] } {
+  const selectors = role.aggregationRule?.clusterRoleSelectors || [];
+  if (selectors.length === 0) {
+    return { rules: role.rules || [], aggregatedFrom: [] };
+  }
+  const sources = clusterRoles.filter(
+    (other) =>
+      other.metadata?.name !== role.metadata?.name &&
+      selectors.some((selector) => matchesLabelSelector(selector, other.metadata?.labels))
+  );
+  const rules = [...(role.rules || [])];
+  const seen = new Set(rules.map((rule) => JSON.stringify(rule)));
+  for (const rule of sources.flatMap((source) => source.rules || [])) {
+    const key = JSON.stringify(rule);
+    if (!seen.has(key)) {
+      seen.add(key);
+      rules.push(rule);
+    }
+  }
+  return { rules, aggregatedFrom: sources.map((source) => source.metadata!.name!) };
+}
+
+/**
+ * Pair every RoleBinding and ClusterRoleBinding with the rules of the role it
+ * references.
+ */
+export function collectGrants(objects: {
+  clusterRoles: k8s.V1ClusterRole[];
+  roles: k8s.V1Role[];
+  clusterRoleBindings: k8s.V1ClusterRoleBinding[];
+  roleBindings: k8s.V1RoleBinding[];
+}): RoleGrant[] {
+  const clusterRoles = new Map(objects.clusterRoles.map((role) => [role.metadata!.name!, role]));
+  const roles = new Map(objects.roles.map((role) => [`${role.metadata!.namespace}/${role.metadata!.name}`, role]));
+
+  const grant = (
+    binding: k8s.V1RoleBinding | k8s.V1ClusterRoleBinding,
+    kind: string,
+    namespace?: string
+  ): RoleGrant => {
+    const roleRef = binding.roleRef;
+    const base = {
+      binding: { kind, name: binding.metadata!.name!, ...(namespace ? { namespace } : {}) },
+      role: { kind: roleRef.kind, name: roleRef.name },
+      ...(namespace ? { namespace } : {}),
+      subjects: binding.subjects || [],
+    };
+    if (roleRef.kind === "ClusterRole") {
+      const role = clusterRoles.get(roleRef.name);
+      if (!role) return { ...base, rules: [], missingRole: true };
+      const { rules, aggregatedFrom } = clusterRoleRules(role, objects.clusterRoles);
+      return { ...base, rules, ...(aggregatedFrom.length > 0 ? { aggregatedFrom } : {}) };
+    }
+    const role = roles.get(`${namespace}/${roleRef.name}`);
+    return role ? { ...base, rules: role.rules || [] } : { ...base, rules: [], missingRole: true };
+  };
+
+  return [
+    ...objects.clusterRoleBindings.map((binding) => grant(binding, "ClusterRoleBinding")),
+    ...objects.roleBindings.map((binding) => grant(binding, "RoleBinding", binding.metadata!.namespace)),
+  ];
+}
@@ -0,0 +1,95 @@
+import { ApiResourceInfo, ResourceTable } from "./dynamic-client.js";
+
+/**
+ * A column for printColumns: a header and how to read the cell from an object.
+ */
+export interface PrintColumn {
+  header: string;
+  value: (obj: any) => unknown;
+}
+
+/**
+ * Format an age the way kubectl does: "45s", "12m", "5h", "3d".
+ */
+export function formatAge(timestamp?: string | Date): string {
+  if (!timestamp) return "<unknown>";
+  const seconds = Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000);
+  if (Number.isNaN(seconds)) return "<unknown>";
+  if (seconds < 60) return `${Math.max(seconds, 0)}s`;
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 60 * 60 * 24) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "<none>";
+  if (Array.isArray(value)) return value.length ? value.map(formatCell).join(",") : "<none>";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Render rows as left-aligned columns separated by three spaces, like kubectl.
+ */
+export function renderColumns(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? "").length))
+  );
+  const render = (cells: string[]) =>
+    cells.map((cell, i) => (i === cells.length - 1 ? cell : cell.padEnd(widths[i]))).join("   ");
+  return [render(headers), ...rows.map(render)].join("\n");
+}
+
+/**
+ * Print a server-side table. Columns with a non-zero priority are only shown
+ * for wide output, and a NAMESPACE column is prepended for multi-namespace
+ * listings.
+ */
+export function printTable(
+  table: ResourceTable,
+  options: { wide?: boolean; showNamespace?: boolean } = {}
+): string {
+  if (table.rows.length === 0) {
+    return "No resources found";
+  }
+
+  const columns = table.columnDefinitions
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => options.wide || !column.priority);
+
+  const headers = columns.map(({ column }) => column.name.toUpperCase());
+  const rows = table.rows.map((row) =>
+    columns.map(({ column, index }) =>
+      column.name === "Age" || column.format === "date-time"
+        ? formatAge(row.cells[index])
+        : formatCell(row.cells[index])
+    )
+  );
+
+  if (options.showNamespace) {
+    headers.unshift("NAMESPACE");
+    table.rows.forEach((row, i) => rows[i].unshift(row.object?.metadata?.namespace ?? ""));
+  }
+
+  return renderColumns(headers, rows);
+}
+
+/**
+ * Print objects using explicit columns (custom-columns style output).
+ */
+export function printColumns(items: any[], columns: PrintColumn[]): string {
+  return renderColumns(
+    columns.map((column) => column.header),
+    items.map((item) => columns.map((column) => formatCell(column.value(item))))
+  );
+}
+
+/**
+ * Print "kind.group/name" lines, the kubectl `-o name` format.
+ */
+export function printNames(items: any[], resource: ApiResourceInfo): string {
+  const prefix = resource.group
+    ? `${resource.kind.toLowerCase()}.${resource.group}`
+    : resource.kind.toLowerCase();
+  return items.map((item) => `${prefix}/${item.metadata?.name}`).join("\n");
+}
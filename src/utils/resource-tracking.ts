@@ -0,0 +1,81 @@
+import yaml from "yaml";
+import { KubernetesManager } from "../types.js";
+import { apiErrorMessage } from "./dynamic-client.js";
+
+/** An object created by a tool call */
+export interface CreatedObject {
+  apiVersion?: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+}
+
+/**
+ * Objects in YAML or JSON documents, including the items of List objects.
+ * Objects without a name (e.g. with generateName) are skipped.
+ */
+export function manifestObjects(manifest: string): CreatedObject[] {
+  const objects: CreatedObject[] = [];
+  const add = (object: any) => {
+    if (!object || typeof object !== "object" || typeof object.kind !== "string") return;
+    if (object.kind.endsWith("List") && Array.isArray(object.items)) {
+      object.items.forEach(add);
+    } else if (typeof object.metadata?.name === "string") {
+      objects.push({
+        apiVersion: object.apiVersion,
+        kind: object.kind,
+        name: object.metadata.name,
+        namespace: object.metadata.namespace,
+      });
+    }
+  };
+  try {
+    for (const document of yaml.parseAllDocuments(manifest)) {
+      add(document.toJS());
+    }
+  } catch {
+    return [];
+  }
+  return objects;
+}
+
+/**
+ * Objects `kubectl apply` reports as created ("deployment.apps/web created"),
+ * with their kind and namespace taken from the applied manifest. Objects
+ * that were configured or unchanged existed before and are left out.
+ */
+export function appliedObjects(output: string, manifest: string, namespace: string): CreatedObject[] {
+  const objects = manifestObjects(manifest);
+  const created: CreatedObject[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.trim().match(/^([^\s/]+)\/(\S+) created$/);
+    if (!match) continue;
+    const [, type, name] = match;
+    const object = objects.find((o) => o.name === name && o.kind.toLowerCase() === type.split(".")[0]);
+    created.push(object ? { ...object, namespace: object.namespace || namespace } : { kind: type, name, namespace });
+  }
+  return created;
+}
+
+/**
+ * Track objects a tool call created, so that cleanup deletes them, and add
+ * the owner labels of the session. Failures are only logged, since the
+ * objects were created all the same.
+ */
+export async function trackCreatedObjects(
+  k8sManager: KubernetesManager,
+  objects: CreatedObject[],
+  defaultNamespace: string,
+  context?: string
+) {
+  for (const object of objects) {
+    try {
+      const resource = await k8sManager.resolveKind(object.kind, object.apiVersion, context);
+      const namespace = resource.namespaced ? object.namespace || defaultNamespace : "";
+      k8sManager.trackResource(resource.kind, object.name, namespace, context, resource.apiVersion);
+      await k8sManager.labelResource(resource.kind, object.name, namespace, context, resource.apiVersion);
+    } catch (error) {
+      console.error(`Failed to track ${object.kind} ${object.name}: ${apiErrorMessage(error)}`);
+    }
+  }
+}
@@ -1,37 +1,59 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import express from "express";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isSessionOwner } from "./auth.js";
 
-export function startSSEServer(server: Server) {
-  const app = express();
+interface SSESession {
+  transport: SSEServerTransport;
+  server: Server;
+  /** Client the session was opened by, when authentication is enabled */
+  owner?: string;
+}
 
-  // Currently just copying from docs & allowing for multiple transport connections: https://modelcontextprotocol.io/docs/concepts/transports#server-sent-events-sse
-  // TODO: If exposed to web, then this will enable any client to connect to the server via http - so marked as UNSAFE until mcp has a proper auth solution.
-  let transports: Array<SSEServerTransport> = [];
+/**
+ * Serve the legacy SSE transport: clients open an event stream on /sse and
+ * post messages to /messages?sessionId=... Sessions are removed as soon as
+ * their event stream closes. Returns a function closing all sessions.
+ */
+export function registerSSERoutes(
+  app: express.Express,
+  createServer: () => Server,
+  authenticate: express.RequestHandler
+): () => Promise<void> {
+  // Multiple transport connections: https://modelcontextprotocol.io/docs/concepts/transports#server-sent-events-sse
+  const sessions = new Map<string, SSESession>();
 
-  app.get("/sse", async (req, res) => {
+  app.get("/sse", authenticate, async (req, res) => {
     const transport = new SSEServerTransport("/messages", res);
-    transports.push(transport);
+    const server = createServer();
+    sessions.set(transport.sessionId, { transport, server, owner: req.auth?.clientId });
+
+    res.on("close", () => {
+      sessions.delete(transport.sessionId);
+      server.close().catch(() => {});
+    });
     await server.connect(transport);
   });
 
-  app.post("/messages", (req, res) => {
-    const transport = transports.find(
-      (t) => t.sessionId === req.query.sessionId
-    );
+  app.post("/messages", authenticate, (req, res) => {
+    const session = sessions.get(req.query.sessionId as string);
 
-    if (transport) {
-      transport.handlePostMessage(req, res);
-    } else {
+    if (!session) {
       res
         .status(404)
         .send("Not found. Must pass valid sessionId as query param.");
+      return;
     }
+    if (!isSessionOwner(session.owner, req.auth)) {
+      res.status(403).send("Session belongs to a different token");
+      return;
+    }
+
+    session.transport.handlePostMessage(req, res);
   });
 
-  const port = process.env.PORT || 3000;
-  app.listen(port);
-  console.log(
-    `mcp-kubernetes-server is listening on port ${port}\nUse the following url to connect to the server:\n\http://localhost:${port}/sse`
-  );
+  return async () => {
+    await Promise.all([...sessions.values()].map((session) => session.server.close()));
+    sessions.clear();
+  };
 }
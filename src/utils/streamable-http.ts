@@ -0,0 +1,182 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import express from "express";
+import { randomUUID } from "crypto";
+import {
+  EventStore,
+  StreamableHTTPServerTransport,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest, JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { isSessionOwner } from "./auth.js";
+
+// Events kept per stream for clients resuming with Last-Event-ID
+const MAX_EVENTS_PER_STREAM = 200;
+
+/**
+ * Bounded in-memory event store so clients can resume a stream after a
+ * dropped connection. Only the most recent events of each stream are kept.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<string, { id: string; message: JSONRPCMessage }[]>();
+  private counter = 0;
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const id = `${streamId}_${++this.counter}`;
+    const events = this.streams.get(streamId) || [];
+    events.push({ id, message });
+    if (events.length > MAX_EVENTS_PER_STREAM) {
+      events.shift();
+    }
+    this.streams.set(streamId, events);
+    return id;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const streamId = lastEventId.slice(0, lastEventId.lastIndexOf("_"));
+    const events = this.streams.get(streamId) || [];
+    const index = events.findIndex((event) => event.id === lastEventId);
+    for (const event of events.slice(index + 1)) {
+      await send(event.id, event.message);
+    }
+    return streamId;
+  }
+}
+
+interface StreamableHttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  /** Client the session was opened by, when authentication is enabled */
+  owner?: string;
+  lastActivity: number;
+  /** Requests or event streams currently open for the session */
+  openRequests: number;
+}
+
+function jsonRpcError(res: express.Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Serve the Streamable HTTP transport on a single /mcp endpoint. A session
+ * starts with an initialize request and is identified by the Mcp-Session-Id
+ * header afterwards. Sessions end on DELETE /mcp, or once they have had no
+ * open requests for MCP_SESSION_IDLE_TIMEOUT seconds (default 30 minutes).
+ * Returns a function closing all sessions.
+ */
+export function registerStreamableHttpRoutes(
+  app: express.Express,
+  createServer: () => Server,
+  authenticate: express.RequestHandler
+): () => Promise<void> {
+  const sessions = new Map<string, StreamableHttpSession>();
+  const idleTimeout = Number(process.env.MCP_SESSION_IDLE_TIMEOUT || 1800) * 1000;
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => {});
+  };
+
+  // Track activity so abandoned sessions can be pruned
+  const track = (session: StreamableHttpSession, res: express.Response) => {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.on("close", () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - idleTimeout;
+    for (const [sessionId, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActivity < cutoff) {
+        closeSession(sessionId);
+      }
+    }
+  }, Math.min(idleTimeout, 60_000));
+  sweeper.unref();
+
+  // Look up the session of a request, answering with an error if it has none
+  const findSession = (req: express.Request, res: express.Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId) {
+      jsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return undefined;
+    }
+    const session = sessions.get(sessionId);
+    if (!session) {
+      jsonRpcError(res, 404, "Session not found");
+      return undefined;
+    }
+    if (!isSessionOwner(session.owner, req.auth)) {
+      jsonRpcError(res, 403, "Session belongs to a different token");
+      return undefined;
+    }
+    return session;
+  };
+
+  app.post("/mcp", authenticate, express.json({ limit: "4mb" }), async (req, res) => {
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+
+    if (!req.headers["mcp-session-id"] && messages.some(isInitializeRequest)) {
+      const server = createServer();
+      const session: StreamableHttpSession = {
+        server,
+        owner: req.auth?.clientId,
+        lastActivity: Date.now(),
+        openRequests: 0,
+        transport: new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          eventStore: new InMemoryEventStore(),
+          onsessioninitialized: (sessionId) => {
+            sessions.set(sessionId, session);
+          },
+        }),
+      };
+      // The server takes over the transport's callbacks, so listen on the server
+      const onServerClose = server.onclose;
+      server.onclose = () => {
+        onServerClose?.();
+        if (session.transport.sessionId) {
+          closeSession(session.transport.sessionId);
+        }
+      };
+
+      track(session, res);
+      await server.connect(session.transport);
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    const session = findSession(req, res);
+    if (session) {
+      track(session, res);
+      await session.transport.handleRequest(req, res, req.body);
+    }
+  });
+
+  // GET opens a stream for server-initiated messages (resumable with
+  // Last-Event-ID); DELETE ends the session
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const session = findSession(req, res);
+    if (session) {
+      track(session, res);
+      await session.transport.handleRequest(req, res);
+    }
+  };
+  app.get("/mcp", authenticate, handleSessionRequest);
+  app.delete("/mcp", authenticate, handleSessionRequest);
+
+  return async () => {
+    clearInterval(sweeper);
+    await Promise.all([...sessions.keys()].map(closeSession));
+  };
+}
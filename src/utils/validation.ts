@@ -0,0 +1,227 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+// DNS-1123 label: namespaces, container names, service names
+const DNS1123_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+// DNS-1123 subdomain: most object names
+const DNS1123_SUBDOMAIN =
+  /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+// RBAC objects (e.g. "system:controller:job-controller") also allow colons
+const RBAC_NAME = /^[a-z0-9]([-a-z0-9.:]*[a-z0-9])?$/;
+// Label key name segment and label values
+const QUALIFIED_NAME = /^([A-Za-z0-9]([-A-Za-z0-9_.]*[A-Za-z0-9])?)$/;
+// Resource types: "pods", "deployments.apps", "deploy", "Pod"
+const RESOURCE_TYPE = /^[A-Za-z][A-Za-z0-9]*(\.[A-Za-z0-9][-A-Za-z0-9]*)*$/;
+// kubectl sub-commands and flag names
+const COMMAND_WORD = /^[a-z][a-z0-9-]*$/;
+const FLAG_NAME = /^[A-Za-z0-9][A-Za-z0-9-]*$/;
+// Field selector keys: "metadata.name", "status.phase", "spec.nodeName"
+const FIELD_KEY = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+// Field selector values: phases, node names, IPs, timestamps
+const FIELD_VALUE = /^([A-Za-z0-9_.:+\/][-A-Za-z0-9_.:+\/]*)?$/;
+// Relative durations accepted by kubectl: "5s", "2m", "1h30m"
+const DURATION = /^(\d+(\.\d+)?(ns|us|ms|s|m|h))+$/;
+
+function invalid(field: string, value: unknown, reason: string): never {
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid ${field} '${String(value)}': ${reason}`
+  );
+}
+
+function assertString(value: unknown, field: string): asserts value is string {
+  if (typeof value !== "string" || value.length === 0) {
+    invalid(field, value, "must be a non-empty string");
+  }
+}
+
+/**
+ * Validate a namespace name (DNS-1123 label, max 63 characters).
+ */
+export function validateNamespace(namespace: unknown, field = "namespace"): string {
+  assertString(namespace, field);
+  if (namespace.length > 63 || !DNS1123_LABEL.test(namespace)) {
+    invalid(field, namespace, "must be a DNS-1123 label (lowercase alphanumerics and '-', max 63 characters)");
+  }
+  return namespace;
+}
+
+/**
+ * Validate an object name (DNS-1123 subdomain, max 253 characters). Colons are
+ * accepted as well since RBAC objects such as ClusterRoles use them.
+ */
+export function validateResourceName(name: unknown, field = "name"): string {
+  assertString(name, field);
+  if (
+    name.length > 253 ||
+    !(DNS1123_SUBDOMAIN.test(name) || RBAC_NAME.test(name))
+  ) {
+    invalid(field, name, "must be a DNS-1123 subdomain (lowercase alphanumerics, '-' and '.', max 253 characters)");
+  }
+  return name;
+}
+
+/**
+ * Validate a container name (DNS-1123 label).
+ */
+export function validateContainerName(container: unknown, field = "container"): string {
+  assertString(container, field);
+  if (container.length > 63 || !DNS1123_LABEL.test(container)) {
+    invalid(field, container, "must be a DNS-1123 label");
+  }
+  return container;
+}
+
+/**
+ * Validate a resource type such as "pods", "deploy" or "certificates.cert-manager.io".
+ */
+export function validateResourceType(resourceType: unknown, field = "resourceType"): string {
+  assertString(resourceType, field);
+  if (resourceType.length > 253 || !RESOURCE_TYPE.test(resourceType)) {
+    invalid(field, resourceType, "must be a resource type name such as 'pods' or 'deployments.apps'");
+  }
+  return resourceType;
+}
+
+function isValidLabelKey(key: string): boolean {
+  const parts = key.split("/");
+  if (parts.length > 2) return false;
+  const name = parts[parts.length - 1];
+  if (name.length === 0 || name.length > 63 || !QUALIFIED_NAME.test(name)) {
+    return false;
+  }
+  if (parts.length === 2) {
+    const prefix = parts[0];
+    return prefix.length > 0 && prefix.length <= 253 && DNS1123_SUBDOMAIN.test(prefix);
+  }
+  return true;
+}
+
+function isValidLabelValue(value: string): boolean {
+  return value === "" || (value.length <= 63 && QUALIFIED_NAME.test(value));
+}
+
+/**
+ * Split a selector on commas that are not inside a set expression "in (a,b)".
+ */
+function splitRequirements(selector: string): string[] {
+  const requirements: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of selector) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (depth < 0) return [];
+    if (char === "," && depth === 0) {
+      requirements.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (depth !== 0) return [];
+  requirements.push(current.trim());
+  return requirements;
+}
+
+/**
+ * Validate a label selector against the Kubernetes selector grammar:
+ * `key`, `!key`, `key=value`, `key==value`, `key!=value`,
+ * `key in (v1,v2)` and `key notin (v1,v2)`, joined by commas.
+ */
+export function validateLabelSelector(selector: unknown, field = "labelSelector"): string {
+  assertString(selector, field);
+  const requirements = splitRequirements(selector);
+  if (requirements.length === 0) {
+    invalid(field, selector, "unbalanced parentheses");
+  }
+
+  for (const requirement of requirements) {
+    let match: RegExpMatchArray | null;
+    if ((match = requirement.match(/^!\s*([^\s=!(),]+)$/))) {
+      if (isValidLabelKey(match[1])) continue;
+    } else if ((match = requirement.match(/^([^\s=!(),]+)\s+(in|notin)\s+\(([^()]*)\)$/))) {
+      const values = match[3].split(",").map((v) => v.trim());
+      if (isValidLabelKey(match[1]) && values.every(isValidLabelValue)) continue;
+    } else if ((match = requirement.match(/^([^\s=!(),]+)\s*(==|=|!=)\s*([^\s=!(),]*)$/))) {
+      if (isValidLabelKey(match[1]) && isValidLabelValue(match[3])) continue;
+    } else if ((match = requirement.match(/^([^\s=!(),]+)$/))) {
+      if (isValidLabelKey(match[1])) continue;
+    }
+    invalid(field, selector, `'${requirement}' is not a valid label selector requirement`);
+  }
+  return selector;
+}
+
+/**
+ * Validate a field selector: comma separated `key=value`, `key==value` or
+ * `key!=value` terms.
+ */
+export function validateFieldSelector(selector: unknown, field = "fieldSelector"): string {
+  assertString(selector, field);
+  for (const term of selector.split(",")) {
+    const match = term.trim().match(/^([^=!\s]+)\s*(==|=|!=)\s*([^,\s]*)$/);
+    if (!match || !FIELD_KEY.test(match[1]) || !FIELD_VALUE.test(match[3])) {
+      invalid(field, selector, `'${term}' is not a valid field selector term`);
+    }
+  }
+  return selector;
+}
+
+/**
+ * Validate a kubeconfig context name. Context names are free-form (EKS uses
+ * ARNs), so this only rejects values that could be read as flags or contain
+ * control characters.
+ */
+export function validateContextName(context: unknown, field = "context"): string {
+  return validateArgument(context, field);
+}
+
+/**
+ * Validate a kubectl sub-command word such as "get", "rollout" or "history".
+ */
+export function validateCommandWord(word: unknown, field = "command"): string {
+  assertString(word, field);
+  if (!COMMAND_WORD.test(word)) {
+    invalid(field, word, "must be a single lowercase kubectl command word");
+  }
+  return word;
+}
+
+/**
+ * Validate a command-line flag name (without leading dashes).
+ */
+export function validateFlagName(flag: unknown, field = "flag"): string {
+  assertString(flag, field);
+  if (!FLAG_NAME.test(flag)) {
+    invalid(field, flag, "must contain only alphanumerics and '-'");
+  }
+  return flag;
+}
+
+/**
+ * Validate a relative duration such as "5s", "2m" or "1h30m".
+ */
+export function validateDuration(duration: unknown, field = "duration"): string {
+  assertString(duration, field);
+  if (!DURATION.test(duration)) {
+    invalid(field, duration, "must be a duration such as '30s', '5m' or '1h'");
+  }
+  return duration;
+}
+
+/**
+ * Validate a free-form positional argument (URL, host, file path, ...). It is
+ * passed to the process as a single argv entry, so the only concerns are
+ * values that start with '-' (and would be parsed as flags) and control
+ * characters.
+ */
+export function validateArgument(value: unknown, field: string): string {
+  assertString(value, field);
+  if (value.startsWith("-")) {
+    invalid(field, value, "must not start with '-'");
+  }
+  if (/[\x00-\x1f\x7f]/.test(value)) {
+    invalid(field, value, "must not contain control characters");
+  }
+  return value;
+}
@@ -0,0 +1,88 @@
+import * as fs from "fs";
+import * as path from "path";
+import yaml from "yaml";
+import * as k8s from "@kubernetes/client-node";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  containerTemplates,
+  CustomContainerConfig,
+} from "../config/container-templates.js";
+
+const TEMPLATE_EXTENSIONS = [".yaml", ".yml", ".json"];
+const TEMPLATE_NAME = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+/**
+ * Names of the built-in and registered container templates.
+ */
+export function templateNames(): string[] {
+  return Object.keys(containerTemplates);
+}
+
+/**
+ * Register the container templates in the directory named by
+ * MCP_TEMPLATES_DIR. Each YAML or JSON file holds one container and is
+ * registered under its file name, so "redis.yaml" adds the "redis" template.
+ * A file named after a built-in template replaces it. Returns the names
+ * registered.
+ */
+export function loadContainerTemplates(env: NodeJS.ProcessEnv = process.env): string[] {
+  const dir = env.MCP_TEMPLATES_DIR;
+  if (!dir) {
+    return [];
+  }
+
+  const registered: string[] = [];
+  for (const file of fs.readdirSync(dir).sort()) {
+    const extension = path.extname(file);
+    if (!TEMPLATE_EXTENSIONS.includes(extension)) continue;
+    const name = path.basename(file, extension);
+    // Names such as "constructor" would shadow Object.prototype
+    if (!TEMPLATE_NAME.test(name) || name in Object.prototype) {
+      throw new Error(`Invalid container template ${path.join(dir, file)}: "${name}" is not a valid template name`);
+    }
+    const container = yaml.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+    if (!container || typeof container !== "object" || Array.isArray(container) || typeof container.image !== "string") {
+      throw new Error(`Invalid container template ${path.join(dir, file)}: expected a container with an image`);
+    }
+    containerTemplates[name] = { ...container, name: container.name || "main" };
+    registered.push(name);
+  }
+  return registered;
+}
+
+/**
+ * Build a container from a template, with the fields of customConfig
+ * replacing the template's. Resource limits and requests are merged per
+ * resource, so overriding the memory limit keeps the template's CPU limit.
+ */
+export function buildContainer(templateName: string, customConfig?: unknown): k8s.V1Container {
+  const template = Object.hasOwn(containerTemplates, templateName) ? containerTemplates[templateName] : undefined;
+  if (!template) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown template '${templateName}'. Available templates: ${templateNames().join(", ")}`
+    );
+  }
+  if (customConfig === undefined) {
+    if (templateName === "custom") {
+      throw new McpError(ErrorCode.InvalidParams, "The custom template needs a customConfig with an image");
+    }
+    return structuredClone(template);
+  }
+
+  const parsed = CustomContainerConfig.safeParse(customConfig);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${["customConfig", ...issue.path].join(".")}: ${issue.message}`);
+    throw new McpError(ErrorCode.InvalidParams, `Invalid customConfig: ${issues.join("; ")}`);
+  }
+  const { resources, ...overrides } = parsed.data;
+  const container: k8s.V1Container = { ...structuredClone(template), ...overrides };
+  if (resources) {
+    container.resources = {
+      ...container.resources,
+      limits: { ...container.resources?.limits, ...resources.limits },
+      requests: { ...container.resources?.requests, ...resources.requests },
+    };
+  }
+  return container;
+}
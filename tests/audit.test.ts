@@ -0,0 +1,199 @@
+import { expect, describe, test, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { AuditLogger, recordApiRequest, recordCommand, redactArgs, sanitizeArguments } from '../src/utils/audit.js';
+
+describe('audit log', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-audit-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function memoryLogger() {
+    const lines: string[] = [];
+    const logger = new AuditLogger((line) => lines.push(line));
+    return { logger, records: () => lines.map((line) => JSON.parse(line)) };
+  }
+
+  describe('sanitizeArguments', () => {
+    test('redacts sensitive keys and values', () => {
+      const sanitized = sanitizeArguments({
+        name: 'web',
+        password: 'hunter2',
+        flags: { token: 'abc', 'dry-run': 'client' },
+        args: ['--from-literal=password=hunter2', 'Authorization: Bearer abc'],
+      });
+      expect(sanitized).toEqual({
+        name: 'web',
+        password: '[REDACTED]',
+        flags: { token: '[REDACTED]', 'dry-run': 'client' },
+        args: ['--from-literal=password=[REDACTED]', 'Authorization: [REDACTED]'],
+      });
+    });
+
+    test('removes Secret data from manifests', () => {
+      const manifest = [
+        'apiVersion: v1',
+        'kind: Secret',
+        'metadata:',
+        '  name: creds',
+        'data:',
+        '  username: YWRtaW4=',
+        'stringData:',
+        '  config: plain',
+        '---',
+        'apiVersion: v1',
+        'kind: ConfigMap',
+        'metadata:',
+        '  name: settings',
+        'data:',
+        '  mode: fast',
+      ].join('\n');
+      const sanitized = sanitizeArguments({ manifest }).manifest;
+      expect(sanitized).not.toContain('YWRtaW4=');
+      expect(sanitized).not.toContain('plain');
+      expect(sanitized).toContain('username: "[REDACTED]"');
+      expect(sanitized).toContain('mode: fast');
+    });
+
+    test('redacts literals, Secret patches and Secrets in lists', () => {
+      expect(sanitizeArguments({ resourceType: 'secret', fromLiteral: ['url=postgres://u:pw@h', 'plain'] })).toEqual({
+        resourceType: 'secret',
+        fromLiteral: ['url=[REDACTED]', '[REDACTED]'],
+      });
+      expect(sanitizeArguments({ resourceType: 'secrets', name: 'db', patchData: { data: { pw: 'aHVudGVyMg==' } } }).patchData).toBe(
+        '[REDACTED]'
+      );
+      expect(sanitizeArguments({ resourceType: 'deployment', patchData: { spec: { replicas: 2 } } }).patchData).toEqual({
+        spec: { replicas: 2 },
+      });
+      const manifest = 'apiVersion: v1\nkind: List\nitems:\n- apiVersion: v1\n  kind: Secret\n  metadata:\n    name: db\n  data:\n    url: cG9zdGdyZXM=\n';
+      expect(sanitizeArguments({ manifest }).manifest).not.toContain('cG9zdGdyZXM=');
+    });
+
+    test('logs file contents and stdin as their size and hash', () => {
+      const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+      const sanitized = sanitizeArguments({
+        podName: 'web',
+        path: '/etc/app.conf',
+        content: 'password=hunter2\n',
+        contentBase64: Buffer.from('binary').toString('base64'),
+        stdin: 'SELECT * FROM users;',
+      });
+      expect(sanitized.content).toEqual({ bytes: 17, sha256: sha256('password=hunter2\n') });
+      expect(sanitized.contentBase64).toEqual({ bytes: 6, sha256: sha256('binary') });
+      expect(sanitized.stdin).toEqual({ bytes: 20, sha256: sha256('SELECT * FROM users;') });
+      expect(JSON.stringify(sanitized)).not.toContain('hunter2');
+      expect(JSON.stringify(sanitized)).not.toContain('users');
+    });
+
+    test('redacts recorded command arguments', () => {
+      expect(redactArgs(['create', 'secret', 'generic', 'db', '--from-literal=url=postgres://u:pw@h', '--from-literal', 'user=admin'])).toEqual([
+        'create', 'secret', 'generic', 'db', '--from-literal=url=[REDACTED]', '--from-literal', 'user=[REDACTED]',
+      ]);
+      expect(redactArgs(['patch', 'secret', 'db', '-p', '{"data":{"pw":"aHVudGVyMg=="}}'])).toEqual([
+        'patch', 'secret', 'db', '-p', '[REDACTED]',
+      ]);
+      expect(redactArgs(['patch', 'deployment', 'web', '--patch={"spec":{"replicas":2}}'])).toEqual([
+        'patch', 'deployment', 'web', '--patch={"spec":{"replicas":2}}',
+      ]);
+    });
+
+    test('truncates long strings', () => {
+      const sanitized = sanitizeArguments({ command: 'x'.repeat(20000) });
+      expect(sanitized.command.length).toBeLessThan(17000);
+      expect(sanitized.command).toMatch(/\(20000 characters\)$/);
+    });
+  });
+
+  test('records commands and API requests made during a call', async () => {
+    const { logger, records } = memoryLogger();
+
+    const result = await logger.run(
+      { sessionId: 's1', tool: 'kubectl_get', arguments: { resourceType: 'pods' }, context: 'dev', namespace: 'web' },
+      async () => {
+        recordCommand('kubectl get pods -n web --token=abc');
+        await Promise.resolve();
+        recordApiRequest({ method: 'GET', uri: 'https://cluster/api/v1/namespaces/web/pods', qs: { limit: 10, watch: undefined } });
+        return 'done';
+      }
+    );
+    // Outside of a call nothing is recorded
+    recordCommand('kubectl version');
+
+    expect(result).toBe('done');
+    const [record] = records();
+    expect(record).toMatchObject({
+      sessionId: 's1',
+      tool: 'kubectl_get',
+      arguments: { resourceType: 'pods' },
+      context: 'dev',
+      namespace: 'web',
+      commands: ['kubectl get pods -n web --token=[REDACTED]', 'GET /api/v1/namespaces/web/pods?limit=10'],
+      status: 'success',
+    });
+    expect(record.durationMs).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(record.timestamp)).not.toBeNaN();
+  });
+
+  test('records failures and rethrows them', async () => {
+    const { logger, records } = memoryLogger();
+
+    await expect(
+      logger.run({ tool: 'kubectl_delete', arguments: {} }, async () => {
+        throw new Error('Denied by policy');
+      })
+    ).rejects.toThrow('Denied by policy');
+
+    expect(records()[0]).toMatchObject({ tool: 'kubectl_delete', status: 'error', error: 'Denied by policy' });
+  });
+
+  test('records results with isError as failures', async () => {
+    const { logger, records } = memoryLogger();
+
+    await logger.run({ tool: 'kubectl_logs', arguments: {} }, async () => ({
+      content: [{ type: 'text', text: 'pod not found' }],
+      isError: true,
+    }));
+
+    expect(records()[0]).toMatchObject({ status: 'error', error: 'pod not found' });
+  });
+
+  test('keeps concurrent calls apart', async () => {
+    const { logger, records } = memoryLogger();
+    const call = (tool: string, delay: number) =>
+      logger.run({ tool, arguments: {} }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        recordCommand(`kubectl ${tool}`);
+      });
+
+    await Promise.all([call('first', 20), call('second', 5)]);
+
+    const byTool = Object.fromEntries(records().map((record) => [record.tool, record.commands]));
+    expect(byTool).toEqual({ first: ['kubectl first'], second: ['kubectl second'] });
+  });
+
+  describe('fromEnv', () => {
+    test('is disabled without MCP_AUDIT_LOG', () => {
+      expect(AuditLogger.fromEnv({})).toBeUndefined();
+    });
+
+    test('appends to a file', async () => {
+      const file = path.join(tmpDir, 'audit.log');
+      const logger = AuditLogger.fromEnv({ MCP_AUDIT_LOG: file })!;
+
+      await logger.run({ tool: 'kubectl_context', arguments: { operation: 'list' } }, async () => undefined);
+      await logger.run({ tool: 'kubectl_context', arguments: { operation: 'get' } }, async () => undefined);
+
+      const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line).arguments.operation)).toEqual(['list', 'get']);
+    });
+  });
+});
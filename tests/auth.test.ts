@@ -0,0 +1,244 @@
+import { expect, describe, test, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  READ_SCOPE,
+  WRITE_SCOPE,
+  TokenVerifier,
+  authorizeKinds,
+  authorizeToolCall,
+  getToolScope,
+  isToolAllowed,
+  loadAuthConfig,
+} from '../src/utils/auth.js';
+import { startHttpServer, HttpServerHandle } from '../src/utils/http-server.js';
+
+const readOnlyTools = ['kubectl_get', 'kubectl_list', 'kubectl_rollout', 'kubectl_context', 'kubectl_cluster_overview'];
+
+describe('auth', () => {
+  describe('loadAuthConfig', () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-auth-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('returns undefined without configuration', () => {
+      expect(loadAuthConfig({})).toBeUndefined();
+    });
+
+    test('reads static tokens from a YAML file', () => {
+      const file = path.join(tmpDir, 'tokens.yaml');
+      fs.writeFileSync(
+        file,
+        'tokens:\n  - name: ci\n    token: abc\n    readOnly: true\n    namespaces: [team-a]\n'
+      );
+
+      const config = loadAuthConfig({ MCP_AUTH_TOKENS_FILE: file, MCP_AUTH_TOKEN: 'admin' });
+      expect(config?.tokens).toEqual([
+        { name: 'default', token: 'admin' },
+        { name: 'ci', token: 'abc', readOnly: true, namespaces: ['team-a'] },
+      ]);
+    });
+
+    test('rejects token entries without a token', () => {
+      const file = path.join(tmpDir, 'broken.yaml');
+      fs.writeFileSync(file, '- name: ci\n');
+      expect(() => loadAuthConfig({ MCP_AUTH_TOKENS_FILE: file })).toThrow(/has no token/);
+    });
+  });
+
+  describe('TokenVerifier', () => {
+    const verifier = new TokenVerifier({
+      tokens: [{ name: 'ci', token: 'secret', readOnly: true, namespaces: ['team-a'] }],
+    });
+
+    test('maps static tokens to scopes', async () => {
+      const auth = await verifier.verify('secret');
+      expect(auth.clientId).toBe('ci');
+      expect(auth.scopes).toEqual([READ_SCOPE, 'namespace:team-a']);
+      expect(getToolScope(auth)).toEqual({ readOnly: true, namespaces: ['team-a'] });
+    });
+
+    test('rejects unknown tokens', async () => {
+      await expect(verifier.verify('wrong')).rejects.toThrow(/Invalid token/);
+    });
+  });
+
+  describe('authorizeToolCall', () => {
+    const readOnly = { readOnly: true };
+    const teamA = { readOnly: false, namespaces: ['team-a', 'team-b'] };
+
+    test('read-only tokens cannot call mutating tools or operations', () => {
+      expect(() => authorizeToolCall(readOnly, 'kubectl_delete', {}, readOnlyTools)).toThrow(/Access denied/);
+      expect(() =>
+        authorizeToolCall(readOnly, 'kubectl_rollout', { subCommand: 'restart' }, readOnlyTools)
+      ).toThrow(/Access denied/);
+      expect(authorizeToolCall(readOnly, 'kubectl_rollout', { subCommand: 'status' }, readOnlyTools)).toEqual({
+        subCommand: 'status',
+      });
+      expect(isToolAllowed(readOnly, 'kubectl_apply', readOnlyTools)).toBe(false);
+    });
+
+    test('namespace-scoped tokens are limited to their namespaces', () => {
+      expect(() =>
+        authorizeToolCall(teamA, 'kubectl_get', { resourceType: 'pods', namespace: 'kube-system' }, readOnlyTools)
+      ).toThrow(/namespace kube-system is not allowed/);
+      expect(() =>
+        authorizeToolCall(teamA, 'kubectl_get', { resourceType: 'pods', allNamespaces: true }, readOnlyTools)
+      ).toThrow(/allNamespaces/);
+      expect(() => authorizeToolCall(teamA, 'kubectl_cluster_overview', {}, readOnlyTools)).toThrow(/Access denied/);
+    });
+
+    test('namespace-scoped tokens default to their first namespace', () => {
+      expect(authorizeToolCall(teamA, 'kubectl_get', { resourceType: 'pods' }, readOnlyTools)).toEqual({
+        resourceType: 'pods',
+        namespace: 'team-a',
+      });
+      expect(authorizeToolCall(teamA, 'kubectl_search', { query: 'web' }, readOnlyTools)).toEqual({
+        query: 'web',
+        namespaces: ['team-a', 'team-b'],
+      });
+    });
+
+    test('checks namespaces inside manifests', () => {
+      const manifest = 'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: a\n  namespace: team-b\n---\napiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: b\n  namespace: prod\n';
+      expect(() =>
+        authorizeToolCall(teamA, 'kubectl_apply', { manifest }, readOnlyTools)
+      ).toThrow(/namespace prod is not allowed/);
+    });
+
+    test('checks the namespaces of both ends of network_policy_check', () => {
+      expect(() =>
+        authorizeToolCall(
+          teamA,
+          'network_policy_check',
+          { sourcePod: 'web', sourceNamespace: 'team-a', destinationPod: 'db', destinationNamespace: 'prod', port: 5432 },
+          readOnlyTools
+        )
+      ).toThrow(/namespace prod is not allowed/);
+      expect(
+        authorizeToolCall(teamA, 'network_policy_check', { sourceLabels: ['app=web'], destinationIP: '10.0.0.1', port: 443 }, readOnlyTools)
+      ).toMatchObject({ sourceNamespace: 'team-a' });
+      expect(
+        authorizeToolCall(teamA, 'network_policy_check', { sourceIP: '10.0.0.1', destinationPod: 'db', port: 5432 }, readOnlyTools)
+      ).not.toHaveProperty('sourceNamespace');
+    });
+
+    test('read-only tokens cannot add debug containers', () => {
+      const tools = [...readOnlyTools, 'kubectl_ping'];
+      expect(() => authorizeToolCall({ readOnly: true }, 'kubectl_ping', { podName: 'web', target: '10.0.0.1', debug: 'auto' }, tools)).toThrow(
+        /kubectl_ping cannot add debug containers for read-only tokens/
+      );
+      expect(authorizeToolCall({ readOnly: true }, 'kubectl_ping', { podName: 'web', target: '10.0.0.1' }, tools)).toMatchObject({ debug: 'off' });
+      expect(authorizeToolCall({ readOnly: false }, 'kubectl_ping', { podName: 'web', debug: 'always' }, tools)).toMatchObject({ debug: 'always' });
+    });
+
+    test('keeps kubectl_diagnose from reading nodes for namespace-scoped tokens', () => {
+      expect(authorizeToolCall(teamA, 'kubectl_diagnose', { name: 'web', includeNodes: true }, readOnlyTools)).toMatchObject({
+        namespace: 'team-a',
+        includeNodes: false,
+      });
+      expect(authorizeToolCall({ readOnly: false }, 'kubectl_diagnose', { name: 'web' }, readOnlyTools)).not.toHaveProperty('includeNodes');
+    });
+
+    test('limits RBAC inspection to the token namespaces', () => {
+      expect(() =>
+        authorizeToolCall(teamA, 'rbac_describe_subject', { kind: 'ServiceAccount', name: 'ci', namespace: 'team-a' }, readOnlyTools)
+      ).toThrow(/rbac_describe_subject cannot be limited to namespaces/);
+      expect(authorizeToolCall(teamA, 'rbac_who_can', { verb: 'get', resource: 'secrets' }, readOnlyTools)).toMatchObject({
+        namespace: 'team-a',
+      });
+    });
+
+    test('denies cluster-scoped and unknown kinds to namespace-scoped tokens', async () => {
+      // API discovery of a cluster with a cluster-scoped custom resource
+      const namespaced: Record<string, boolean> = { pods: true, ConfigMap: true, namespaces: false, ClusterRoleBinding: false, ClusterIssuer: false };
+      const isNamespaced = async (kind: string) => namespaced[kind] ?? false;
+
+      await expect(authorizeKinds(teamA, { resourceType: 'namespaces', name: 'kube-system' }, isNamespaced)).rejects.toThrow(
+        /namespaces is cluster-scoped or unknown/
+      );
+      await expect(authorizeKinds(teamA, { resourceType: 'ClusterIssuer', name: 'letsencrypt' }, isNamespaced)).rejects.toThrow(
+        /ClusterIssuer is cluster-scoped/
+      );
+      await expect(authorizeKinds(teamA, { resourceType: 'widgets' }, isNamespaced)).rejects.toThrow(/widgets is cluster-scoped or unknown/);
+      const manifest = [
+        'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: a',
+        'apiVersion: rbac.authorization.k8s.io/v1\nkind: ClusterRoleBinding\nmetadata:\n  name: pwn\nroleRef:\n  apiGroup: rbac.authorization.k8s.io\n  kind: ClusterRole\n  name: cluster-admin\nsubjects:\n- kind: ServiceAccount\n  name: default\n  namespace: team-a',
+      ].join('\n---\n');
+      await expect(authorizeKinds(teamA, { manifest }, isNamespaced)).rejects.toThrow(/ClusterRoleBinding is cluster-scoped/);
+      await expect(authorizeKinds(teamA, { resourceType: 'pods' }, isNamespaced)).resolves.toBeUndefined();
+      await expect(authorizeKinds(readOnly, { resourceType: 'nodes' }, isNamespaced)).resolves.toBeUndefined();
+    });
+
+    test('denies other contexts to namespace-scoped tokens', () => {
+      expect(() =>
+        authorizeToolCall(teamA, 'kubectl_get', { resourceType: 'pods', context: 'prod' }, readOnlyTools, 'dev')
+      ).toThrow(/context prod is not allowed/);
+      expect(authorizeToolCall(teamA, 'kubectl_get', { resourceType: 'pods', context: 'dev' }, readOnlyTools, 'dev')).toMatchObject({
+        context: 'dev',
+      });
+      expect(() => authorizeToolCall(readOnly, 'kubectl_get', { resourceType: 'pods', context: 'prod' }, readOnlyTools, 'dev')).not.toThrow();
+    });
+  });
+
+  describe('SSE transport', () => {
+    const TEST_PORT = 3012;
+    const url = `http://localhost:${TEST_PORT}/sse`;
+    let httpServer: HttpServerHandle;
+    let controllers: AbortController[] = [];
+
+    beforeAll(() => {
+      process.env.PORT = TEST_PORT.toString();
+      process.env.MCP_AUTH_TOKEN = 'test-token';
+      process.env.MCP_ALLOWED_ORIGINS = 'https://allowed.example.com';
+      httpServer = startHttpServer(() => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} }), {
+        sse: true,
+      });
+    });
+
+    afterEach(() => {
+      controllers.forEach((controller) => controller.abort());
+      controllers = [];
+    });
+
+    afterAll(async () => {
+      delete process.env.MCP_AUTH_TOKEN;
+      delete process.env.MCP_ALLOWED_ORIGINS;
+      await httpServer.close();
+    });
+
+    function connect(headers: Record<string, string>) {
+      const controller = new AbortController();
+      controllers.push(controller);
+      return fetch(url, { headers, signal: controller.signal });
+    }
+
+    test('rejects requests without a token', async () => {
+      const response = await connect({});
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toContain('invalid_token');
+    });
+
+    test('accepts a valid bearer token', async () => {
+      const response = await connect({ Authorization: 'Bearer test-token' });
+      expect(response.status).toBe(200);
+    });
+
+    test('rejects origins that are not allowed', async () => {
+      const response = await connect({ Authorization: 'Bearer test-token', Origin: 'https://evil.example.com' });
+      expect(response.status).toBe(403);
+
+      const allowed = await connect({ Authorization: 'Bearer test-token', Origin: 'https://allowed.example.com' });
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers.get('access-control-allow-origin')).toBe('https://allowed.example.com');
+    });
+  });
+});
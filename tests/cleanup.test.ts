@@ -0,0 +1,129 @@
+import { expect, describe, test, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KubernetesManager } from '../src/utils/kubernetes-manager.js';
+import { cleanup, previewCleanup } from '../src/tools/cleanup.js';
+import { appliedObjects, manifestObjects, trackCreatedObjects } from '../src/utils/resource-tracking.js';
+
+const resources: Record<string, any> = {
+  ConfigMap: { group: '', version: 'v1', apiVersion: 'v1', kind: 'ConfigMap', name: 'configmaps', namespaced: true },
+  Job: { group: 'batch', version: 'v1', apiVersion: 'batch/v1', kind: 'Job', name: 'jobs', namespaced: true },
+  Namespace: { group: '', version: 'v1', apiVersion: 'v1', kind: 'Namespace', name: 'namespaces', namespaced: false },
+};
+
+describe('cleanup', () => {
+  const originalEnv = process.env;
+  let dir: string;
+  let client: any;
+
+  function manager() {
+    const k8sManager = new KubernetesManager();
+    vi.spyOn(k8sManager, 'getDynamicClient').mockReturnValue(client);
+    return k8sManager;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-'));
+    process.env = {
+      ...originalEnv,
+      K8S_SERVER: 'https://test-cluster.example.com',
+      K8S_TOKEN: 'test-token-12345',
+      MCP_STATE_FILE: path.join(dir, 'state', 'resources.json'),
+    };
+    client = {
+      discoverResources: vi.fn(async () => Object.values(resources)),
+      resolveResource: vi.fn(async (type: string) => Object.values(resources).find((r) => r.kind.toLowerCase() === type.toLowerCase())),
+      deleteResource: vi.fn(async () => ({})),
+      mergePatchResource: vi.fn(async () => ({})),
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  test('tracks and labels created objects of any kind per session', async () => {
+    const k8sManager = manager();
+    await k8sManager.runInSession('session-a', () =>
+      trackCreatedObjects(k8sManager, [{ apiVersion: 'batch/v1', kind: 'Job', name: 'migrate' }, { kind: 'namespace', name: 'scratch' }], 'dev')
+    );
+
+    expect(k8sManager.getTrackedResources()).toMatchObject([
+      { kind: 'Job', apiVersion: 'batch/v1', name: 'migrate', namespace: 'dev', session: 'session-a' },
+      { kind: 'Namespace', apiVersion: 'v1', name: 'scratch', namespace: '', session: 'session-a' },
+    ]);
+    expect(client.mergePatchResource).toHaveBeenCalledWith(resources.Job, 'migrate', 'dev', {
+      metadata: { labels: { 'app.kubernetes.io/managed-by': 'mcp-server-kubernetes', 'mcp-server-kubernetes/session': 'session-a' } },
+    });
+  });
+
+  test('is scoped to a session, previews and keeps resources across restarts', async () => {
+    const k8sManager = manager();
+    k8sManager.runInSession('session-a', () => k8sManager.trackResource('ConfigMap', 'settings', 'dev', undefined, 'v1'));
+    k8sManager.runInSession('session-b', () => k8sManager.trackResource('Job', 'migrate', 'dev', 'staging', 'batch/v1'));
+
+    const preview = await k8sManager.runInSession('session-b', () => previewCleanup(k8sManager, { session: 'current' }));
+    expect(preview).toBe('- delete Job/migrate in namespace dev (context staging)');
+    expect(client.deleteResource).not.toHaveBeenCalled();
+
+    // A new server finds the resources in the state file
+    const restarted = manager();
+    expect(restarted.getTrackedResources().map((r) => r.name)).toEqual(['settings', 'migrate']);
+    const result = JSON.parse((await cleanup(restarted, { session: 'session-b' })).content[0].text);
+
+    expect(result).toMatchObject({ success: true, session: 'session-b', deleted: [{ kind: 'Job', name: 'migrate' }] });
+    expect(client.deleteResource).toHaveBeenCalledWith(resources.Job, 'migrate', 'dev');
+    expect(manager().getTrackedResources().map((r) => r.name)).toEqual(['settings']);
+  });
+
+  test('cleans up only the calling session unless all sessions are asked for', async () => {
+    const k8sManager = manager();
+    k8sManager.runInSession('session-a', () => k8sManager.trackResource('ConfigMap', 'settings', 'dev', undefined, 'v1'));
+    k8sManager.runInSession('session-b', () => k8sManager.trackResource('Job', 'migrate', 'dev', undefined, 'batch/v1'));
+
+    const own = JSON.parse((await k8sManager.runInSession('session-b', () => cleanup(k8sManager, {}))).content[0].text);
+    expect(own).toMatchObject({ session: 'session-b', deleted: [{ kind: 'Job', name: 'migrate' }] });
+    expect(k8sManager.getTrackedResources().map((r) => r.name)).toEqual(['settings']);
+
+    const all = JSON.parse((await k8sManager.runInSession('session-b', () => cleanup(k8sManager, { session: 'all' }))).content[0].text);
+    expect(all).not.toHaveProperty('session');
+    expect(all.deleted).toMatchObject([{ kind: 'ConfigMap', name: 'settings' }]);
+  });
+
+  test('only deletes resources older than olderThan and forgets deleted ones', async () => {
+    const k8sManager = manager();
+    k8sManager.trackResource('ConfigMap', 'old', 'dev', undefined, 'v1');
+    k8sManager.trackResource('ConfigMap', 'gone', 'dev', undefined, 'v1');
+    k8sManager.getTrackedResources().forEach((r) => (r.createdAt = new Date(Date.now() - 2 * 3600 * 1000)));
+    k8sManager.trackResource('ConfigMap', 'new', 'dev', undefined, 'v1');
+    client.deleteResource.mockImplementation(async (_resource: any, name: string) => {
+      if (name === 'gone') throw { statusCode: 404 };
+      return {};
+    });
+
+    const result = JSON.parse((await cleanup(k8sManager, { olderThan: '1h' })).content[0].text);
+
+    expect(result.deleted).toMatchObject([{ name: 'gone', alreadyDeleted: true }, { name: 'old' }]);
+    expect(k8sManager.getTrackedResources().map((r) => r.name)).toEqual(['new']);
+    await expect(cleanup(k8sManager, { olderThan: 'an hour' })).rejects.toThrow('olderThan');
+  });
+});
+
+describe('resource tracking helpers', () => {
+  test('finds the objects kubectl apply created', () => {
+    const manifest = [
+      'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: settings\n  namespace: shop',
+      'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web',
+    ].join('\n---\n');
+    const output = 'configmap/settings created\ndeployment.apps/web configured\n';
+
+    expect(appliedObjects(output, manifest, 'default')).toEqual([
+      { apiVersion: 'v1', kind: 'ConfigMap', name: 'settings', namespace: 'shop' },
+    ]);
+    expect(manifestObjects('apiVersion: v1\nkind: List\nitems:\n- kind: Secret\n  metadata:\n    name: token')).toEqual([
+      { kind: 'Secret', name: 'token', apiVersion: undefined, namespace: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { expect, describe, test, vi, beforeEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { unifiedDiff } from '../src/utils/diff.js';
+import { ConfirmationStore, requiresConfirmation } from '../src/utils/confirmation.js';
+import { previewKubectlScale } from '../src/tools/kubectl-scale.js';
+import { previewKubectlApply } from '../src/tools/kubectl-apply.js';
+import { previewKubectlDelete } from '../src/tools/kubectl-delete.js';
+import { KubernetesManager } from '../src/types.js';
+
+// Mock child_process so no real kubectl is ever started
+vi.mock('child_process', () => ({
+  execFileSync: vi.fn().mockReturnValue(''),
+  execFile: vi.fn(),
+  spawn: vi.fn(),
+}));
+
+const mockExec = vi.mocked(execFileSync);
+const k8sManager = {} as KubernetesManager;
+
+describe('unifiedDiff', () => {
+  test('returns an empty string for equal texts', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n', { before: 'live', after: 'dry-run' })).toBe('');
+  });
+
+  test('shows changed lines with context in hunks', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+    const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k'].join('\n');
+    expect(unifiedDiff(before, after, { before: 'live', after: 'dry-run' })).toBe(
+      [
+        '--- live',
+        '+++ dry-run',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -8,3 +8,4 @@',
+        ' h',
+        ' i',
+        ' j',
+        '+k',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('diffs against an empty text', () => {
+    expect(unifiedDiff('kind: Pod\n', '', { before: 'live', after: 'deleted' })).toBe(
+      '--- live\n+++ deleted\n@@ -1,1 +0,0 @@\n-kind: Pod\n'
+    );
+  });
+});
+
+describe('ConfirmationStore', () => {
+  const args = { name: 'web', namespace: 'shop', replicas: 3 };
+
+  test('accepts a token once for the same arguments', () => {
+    const store = new ConfirmationStore();
+    const token = store.issue('kubectl_scale', args, 'session-1');
+
+    expect(() => store.consume(token, 'kubectl_scale', { replicas: 3, namespace: 'shop', name: 'web' }, 'session-1')).not.toThrow();
+    expect(() => store.consume(token, 'kubectl_scale', args, 'session-1')).toThrow(/Invalid or expired confirmationToken/);
+  });
+
+  test('rejects tokens for other arguments, tools or sessions', () => {
+    const store = new ConfirmationStore();
+    const token = store.issue('kubectl_scale', args, 'session-1');
+
+    expect(() => store.consume(token, 'kubectl_scale', { ...args, replicas: 30 }, 'session-1')).toThrow(/different arguments/);
+    expect(() => store.consume(token, 'kubectl_delete', args, 'session-1')).toThrow(/different arguments/);
+    expect(() => store.consume(token, 'kubectl_scale', args, 'session-2')).toThrow(/Invalid or expired/);
+  });
+
+  test('only lets dry runs of tools that honor dryRun skip the confirmation', () => {
+    expect(requiresConfirmation('kubectl_apply', { manifest: 'kind: Pod', dryRun: true })).toBe(false);
+    expect(requiresConfirmation('cleanup', { dryRun: true })).toBe(false);
+    expect(requiresConfirmation('kubectl_delete', { resourceType: 'pod', name: 'web', dryRun: false })).toBe(true);
+    expect(() => requiresConfirmation('kubectl_delete', { resourceType: 'pod', name: 'web', dryRun: true })).toThrow(
+      'kubectl_delete does not support dryRun'
+    );
+    expect(() => requiresConfirmation('upgrade_helm_chart', { name: 'web', dryRun: true })).toThrow(/does not support dryRun/);
+    expect(requiresConfirmation('kubectl_get', { dryRun: true })).toBe(false);
+  });
+
+  test('rejects expired tokens', () => {
+    const store = new ConfirmationStore(0);
+    const token = store.issue('kubectl_scale', args);
+    expect(() => store.consume(token, 'kubectl_scale', args)).toThrow(/Invalid or expired/);
+  });
+});
+
+describe('change previews', () => {
+  beforeEach(() => {
+    mockExec.mockReset();
+    mockExec.mockReturnValue('');
+  });
+
+  test('scale diffs the live object against a server-side dry run', async () => {
+    const live = 'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\n  managedFields: []\nspec:\n  replicas: 1\n';
+    mockExec.mockReturnValueOnce(live).mockReturnValueOnce(live.replace('replicas: 1', 'replicas: 3'));
+
+    const diff = await previewKubectlScale(k8sManager, { name: 'web', namespace: 'shop', replicas: 3 });
+
+    expect(mockExec.mock.calls[0][1]).toEqual(['get', 'deployment', 'web', '-n', 'shop', '-o', 'yaml']);
+    expect(mockExec.mock.calls[1][1]).toEqual([
+      'patch', 'deployment', 'web', '-n', 'shop', '--type', 'merge', '-p', '{"spec":{"replicas":3}}',
+      '--dry-run=server', '-o', 'yaml',
+    ]);
+    expect(diff).toContain('-  replicas: 1\n+  replicas: 3');
+    expect(diff).not.toContain('managedFields');
+  });
+
+  test('apply uses kubectl diff, which exits with 1 when there are changes', async () => {
+    mockExec.mockImplementationOnce(() => {
+      throw Object.assign(new Error('exit status 1'), { status: 1, stdout: '-  replicas: 1\n+  replicas: 3\n' });
+    });
+
+    const diff = await previewKubectlApply(k8sManager, { filename: 'deploy.yaml', namespace: 'shop' });
+
+    expect(mockExec.mock.calls[0][1]).toEqual(['diff', '-f', 'deploy.yaml', '-n', 'shop']);
+    expect(diff).toContain('+  replicas: 3');
+  });
+
+  test('delete checks the deletion with a server-side dry run and shows the objects removed', async () => {
+    mockExec
+      .mockReturnValueOnce('pod "web" deleted (server dry run)\n')
+      .mockReturnValueOnce('apiVersion: v1\nkind: Pod\nmetadata:\n  name: web\n');
+
+    const preview = await previewKubectlDelete(k8sManager, { resourceType: 'pod', name: 'web', namespace: 'shop' });
+
+    expect(mockExec.mock.calls[0][1]).toEqual(['delete', 'pod', 'web', '-n', 'shop', '--dry-run=server']);
+    expect(mockExec.mock.calls[1][1]).toEqual(['get', 'pod', 'web', '-n', 'shop', '-o', 'yaml']);
+    expect(preview).toContain('deleted (server dry run)');
+    expect(preview).toContain('-kind: Pod');
+  });
+});
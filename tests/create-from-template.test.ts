@@ -0,0 +1,110 @@
+import { expect, describe, test, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createDeployment, createPodFromTemplate } from '../src/tools/create-from-template.js';
+import { buildContainer, loadContainerTemplates } from '../src/utils/workload-templates.js';
+import { containerTemplates } from '../src/config/container-templates.js';
+import { KubernetesManager } from '../src/types.js';
+
+function cluster() {
+  const coreApi = { createNamespacedPod: vi.fn(async (_ns: string, body: any) => ({ body: { ...body, metadata: { ...body.metadata, uid: 'pod-uid' } } })) };
+  const appsApi = { createNamespacedDeployment: vi.fn(async (_ns: string, body: any) => ({ body })) };
+  const manager = {
+    getCoreApi: vi.fn(() => coreApi),
+    getAppsApi: vi.fn(() => appsApi),
+    trackResource: vi.fn(),
+    ownerLabels: () => ({ 'app.kubernetes.io/managed-by': 'mcp-server-kubernetes' }),
+  };
+  return { coreApi, appsApi, manager, k8sManager: manager as unknown as KubernetesManager };
+}
+
+describe('buildContainer', () => {
+  test('replaces template fields and merges resources per resource', () => {
+    const container = buildContainer('nginx', { image: 'nginx:1.27', resources: { limits: { memory: '512Mi' } } });
+
+    expect(container.image).toBe('nginx:1.27');
+    expect(container.resources).toEqual({ limits: { cpu: '200m', memory: '512Mi' }, requests: { cpu: '100m', memory: '128Mi' } });
+    expect(container.readinessProbe).toEqual(containerTemplates.nginx.readinessProbe);
+    expect(containerTemplates.nginx.image).toBe('nginx:latest');
+  });
+
+  test('rejects unknown templates and invalid overrides', () => {
+    expect(() => buildContainer('redis')).toThrow("Unknown template 'redis'");
+    for (const name of ['constructor', 'toString', '__proto__']) {
+      expect(() => buildContainer(name)).toThrow(`Unknown template '${name}'`);
+    }
+    expect(() => buildContainer('custom')).toThrow('needs a customConfig with an image');
+    expect(() => buildContainer('busybox', { image: 'busybox', ports: [{ containerPort: '80' }] })).toThrow(
+      'customConfig.ports.0.containerPort'
+    );
+  });
+});
+
+describe('loadContainerTemplates', () => {
+  let dir: string | undefined;
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true });
+    delete containerTemplates.redis;
+  });
+
+  test('registers each file of MCP_TEMPLATES_DIR under its name', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+    fs.writeFileSync(path.join(dir, 'redis.yaml'), 'image: redis:7\nports:\n  - containerPort: 6379\n');
+    fs.writeFileSync(path.join(dir, 'README.md'), 'not a template');
+
+    expect(loadContainerTemplates({ MCP_TEMPLATES_DIR: dir })).toEqual(['redis']);
+    expect(buildContainer('redis')).toEqual({ name: 'main', image: 'redis:7', ports: [{ containerPort: 6379 }] });
+  });
+
+  test('rejects files named after Object.prototype keys', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+    fs.writeFileSync(path.join(dir, 'constructor.yaml'), 'image: busybox\n');
+
+    expect(() => loadContainerTemplates({ MCP_TEMPLATES_DIR: dir })).toThrow('"constructor" is not a valid template name');
+  });
+
+  test('rejects files without an image', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{"command": ["sh"]}');
+
+    expect(() => loadContainerTemplates({ MCP_TEMPLATES_DIR: dir })).toThrow('expected a container with an image');
+  });
+});
+
+describe('create_pod_from_template', () => {
+  test('creates and tracks a pod', async () => {
+    const { coreApi, manager, k8sManager } = cluster();
+    const result = JSON.parse((await createPodFromTemplate(k8sManager, { name: 'shell', namespace: 'dev', template: 'alpine', context: 'staging' })).content[0].text);
+
+    expect(result).toEqual({ kind: 'Pod', name: 'shell', namespace: 'dev', uid: 'pod-uid', template: 'alpine', image: 'alpine:latest', tracked: true });
+    expect(manager.getCoreApi).toHaveBeenCalledWith('staging');
+    expect(coreApi.createNamespacedPod.mock.calls[0][1]).toMatchObject({
+      metadata: { labels: { app: 'shell', 'app.kubernetes.io/managed-by': 'mcp-server-kubernetes' } },
+      spec: { containers: [{ image: 'alpine:latest' }] },
+    });
+    expect(manager.trackResource).toHaveBeenCalledWith('Pod', 'shell', 'dev', 'staging', 'v1');
+  });
+
+  test('does not track a pod that already exists', async () => {
+    const { coreApi, manager, k8sManager } = cluster();
+    coreApi.createNamespacedPod.mockRejectedValueOnce({ statusCode: 409 });
+
+    await expect(createPodFromTemplate(k8sManager, { name: 'shell', template: 'alpine' })).rejects.toThrow(
+      "Pod 'shell' already exists in namespace 'default'"
+    );
+    expect(manager.trackResource).not.toHaveBeenCalled();
+  });
+});
+
+describe('create_deployment', () => {
+  test('creates a deployment with the extra ports', async () => {
+    const { appsApi, manager, k8sManager } = cluster();
+    await createDeployment(k8sManager, { name: 'web', template: 'nginx', replicas: 3, ports: [80, 9090] });
+
+    const deployment = appsApi.createNamespacedDeployment.mock.calls[0][1];
+    expect(deployment.spec).toMatchObject({ replicas: 3, selector: { matchLabels: { app: 'web' } } });
+    expect(deployment.spec.template.spec.containers[0].ports).toEqual([{ containerPort: 80 }, { containerPort: 9090 }]);
+    expect(manager.trackResource).toHaveBeenCalledWith('Deployment', 'web', 'default', undefined, 'apps/v1');
+  });
+});
@@ -0,0 +1,175 @@
+import { expect, describe, test, vi } from 'vitest';
+import {
+  ApiResourceInfo,
+  DynamicClient,
+  findResource,
+  getFieldByPath,
+  sortByField,
+} from '../src/utils/dynamic-client.js';
+import { printTable, printNames } from '../src/utils/resource-printer.js';
+import { kubectlGet } from '../src/tools/kubectl-get.js';
+import { KubernetesManager } from '../src/types.js';
+
+const resource = (overrides: Partial<ApiResourceInfo>): ApiResourceInfo => ({
+  group: '',
+  version: 'v1',
+  apiVersion: 'v1',
+  kind: 'Pod',
+  name: 'pods',
+  singularName: 'pod',
+  shortNames: ['po'],
+  namespaced: true,
+  verbs: ['get', 'list', 'watch'],
+  ...overrides,
+});
+
+const pods = resource({});
+const deployments = resource({
+  group: 'apps',
+  apiVersion: 'apps/v1',
+  kind: 'Deployment',
+  name: 'deployments',
+  singularName: 'deployment',
+  shortNames: ['deploy'],
+});
+const certificates = resource({
+  group: 'cert-manager.io',
+  apiVersion: 'cert-manager.io/v1',
+  kind: 'Certificate',
+  name: 'certificates',
+  singularName: 'certificate',
+  shortNames: ['cert'],
+});
+const nodes = resource({
+  kind: 'Node',
+  name: 'nodes',
+  singularName: 'node',
+  shortNames: ['no'],
+  namespaced: false,
+});
+const resources = [pods, nodes, deployments, certificates];
+
+describe('dynamic client', () => {
+  describe('findResource', () => {
+    test.each([
+      ['pods', pods],
+      ['pod', pods],
+      ['po', pods],
+      ['Pod', pods],
+      ['deploy', deployments],
+      ['deployments.apps', deployments],
+      ['deployments.v1.apps', deployments],
+      ['certificates.cert-manager.io', certificates],
+    ])('resolves %s', (type, expected) => {
+      expect(findResource(resources, type)).toBe(expected);
+    });
+
+    test('returns undefined for unknown types and groups', () => {
+      expect(findResource(resources, 'widgets')).toBeUndefined();
+      expect(findResource(resources, 'deployments.batch')).toBeUndefined();
+    });
+  });
+
+  describe('field paths', () => {
+    const obj = { status: { containerStatuses: [{ restartCount: 3 }] } };
+
+    test('reads nested fields and array indices', () => {
+      expect(getFieldByPath(obj, '.status.containerStatuses[0].restartCount')).toBe(3);
+      expect(getFieldByPath(obj, 'status.missing.field')).toBeUndefined();
+    });
+
+    test('sorts by field with missing values last', () => {
+      const items = [
+        { metadata: { name: 'b' }, count: 2 },
+        { metadata: { name: 'c' } },
+        { metadata: { name: 'a' }, count: 1 },
+      ];
+      expect(sortByField(items, '.count').map((item) => item.metadata.name)).toEqual(['a', 'b', 'c']);
+      expect(sortByField(items, '.metadata.name').map((item) => item.metadata.name)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('printing', () => {
+    test('hides wide columns unless requested', () => {
+      const table = {
+        columnDefinitions: [
+          { name: 'Name', type: 'string', format: 'name', description: '', priority: 0 },
+          { name: 'Status', type: 'string', format: '', description: '', priority: 0 },
+          { name: 'IP', type: 'string', format: '', description: '', priority: 1 },
+        ],
+        rows: [{ cells: ['web', 'Running', '10.0.0.1'], object: { metadata: { namespace: 'default' } } }],
+      };
+
+      expect(printTable(table)).toBe('NAME   STATUS\nweb    Running');
+      expect(printTable(table, { wide: true, showNamespace: true })).toBe(
+        'NAMESPACE   NAME   STATUS    IP\ndefault     web    Running   10.0.0.1'
+      );
+      expect(printTable({ ...table, rows: [] })).toBe('No resources found');
+    });
+
+    test('prints names with the API group', () => {
+      expect(printNames([{ metadata: { name: 'web' } }], deployments)).toBe('deployment.apps/web');
+      expect(printNames([{ metadata: { name: 'web' } }], pods)).toBe('pod/web');
+    });
+  });
+
+  describe('kubectl_get', () => {
+    function managerWith(client: Partial<DynamicClient>): KubernetesManager {
+      return { getDynamicClient: () => client } as unknown as KubernetesManager;
+    }
+
+    test('lists resources through the API without kubectl', async () => {
+      const listResources = vi.fn().mockResolvedValue({
+        items: [
+          {
+            kind: 'Pod',
+            metadata: { name: 'web', namespace: 'default', creationTimestamp: '2024-01-01T00:00:00Z' },
+            status: { phase: 'Running' },
+          },
+        ],
+      });
+      const k8sManager = managerWith({
+        resolveResource: vi.fn().mockResolvedValue(pods),
+        listResources,
+      });
+
+      const result = await kubectlGet(k8sManager, {
+        resourceType: 'pods',
+        namespace: 'default',
+        labelSelector: 'app=web',
+        output: 'json',
+      });
+
+      expect(listResources).toHaveBeenCalledWith(
+        pods,
+        expect.objectContaining({ namespace: 'default', labelSelector: 'app=web' })
+      );
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.items).toEqual([
+        {
+          name: 'web',
+          namespace: 'default',
+          kind: 'Pod',
+          status: 'Running',
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+      ]);
+    });
+
+    test('reports missing objects as not found', async () => {
+      const k8sManager = managerWith({
+        resolveResource: vi.fn().mockResolvedValue(pods),
+        getResource: vi.fn().mockRejectedValue({ statusCode: 404, body: { message: 'pods "web" not found' } }),
+      });
+
+      const result = await kubectlGet(k8sManager, {
+        resourceType: 'pods',
+        name: 'web',
+        namespace: 'default',
+        output: 'json',
+      });
+
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ status: 'not_found' });
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { expect, describe, test, vi, beforeEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import {
+  helmGetManifest,
+  helmGetValues,
+  helmHistory,
+  helmStatus,
+  listHelmReleases,
+} from '../src/tools/helm-operations.js';
+
+vi.mock('child_process', () => ({ execFileSync: vi.fn().mockReturnValue(''), execFile: vi.fn(), spawn: vi.fn() }));
+const mockExec = vi.mocked(execFileSync);
+
+const parse = (result: { content: { text: string }[] }) => JSON.parse(result.content[0].text);
+const helmArgs = (call = 0) => mockExec.mock.calls[call][1] as string[];
+
+describe('helm release inspection', () => {
+  beforeEach(() => {
+    mockExec.mockReset();
+  });
+
+  test('lists releases of all namespaces with chart and app versions', async () => {
+    mockExec.mockReturnValue(
+      JSON.stringify([
+        {
+          name: 'ingress',
+          namespace: 'ingress-nginx',
+          revision: '3',
+          updated: '2026-10-01 10:00:00.000 +0000 UTC',
+          status: 'deployed',
+          chart: 'ingress-nginx-4.10.0',
+          app_version: '1.10.0',
+        },
+      ])
+    );
+
+    const result = parse(await listHelmReleases({ status: 'failed', filter: '^ingress', context: 'prod' }));
+
+    expect(helmArgs()).toEqual(['list', '-o', 'json', '--all-namespaces', '--failed', '--filter', '^ingress', '--kube-context', 'prod']);
+    expect(result).toEqual({
+      releases: [
+        {
+          name: 'ingress',
+          namespace: 'ingress-nginx',
+          revision: 3,
+          status: 'deployed',
+          chart: 'ingress-nginx',
+          chartVersion: '4.10.0',
+          appVersion: '1.10.0',
+          updated: '2026-10-01 10:00:00.000 +0000 UTC',
+        },
+      ],
+      count: 1,
+    });
+    await expect(listHelmReleases({ status: 'broken' })).rejects.toThrow('Failed to list Helm releases: Invalid status');
+  });
+
+  test('summarizes the status of a revision', async () => {
+    mockExec.mockReturnValue(
+      JSON.stringify({
+        name: 'ingress',
+        namespace: 'ingress-nginx',
+        version: 2,
+        info: { status: 'superseded', description: 'Install complete', first_deployed: 'a', last_deployed: 'b', notes: 'Get the IP' },
+        chart: { metadata: { name: 'ingress-nginx', version: '4.9.0', appVersion: '1.9.0' }, templates: [] },
+        manifest: 'kind: Service',
+      })
+    );
+
+    const result = parse(await helmStatus({ name: 'ingress', namespace: 'ingress-nginx', revision: 2 }));
+
+    expect(helmArgs()).toEqual(['status', 'ingress', '--namespace', 'ingress-nginx', '--revision', '2', '-o', 'json']);
+    expect(result).toEqual({
+      name: 'ingress',
+      namespace: 'ingress-nginx',
+      revision: 2,
+      status: 'superseded',
+      description: 'Install complete',
+      chart: 'ingress-nginx',
+      chartVersion: '4.9.0',
+      appVersion: '1.9.0',
+      firstDeployed: 'a',
+      lastDeployed: 'b',
+      notes: 'Get the IP',
+    });
+    await expect(helmStatus({ name: 'ingress', namespace: 'ingress-nginx', revision: 0 })).rejects.toThrow('Invalid revision');
+  });
+
+  test('lists the latest revisions', async () => {
+    mockExec.mockReturnValue(
+      JSON.stringify([
+        { revision: 1, updated: 'a', status: 'superseded', chart: 'ingress-nginx-4.9.0', app_version: '1.9.0', description: 'Install complete' },
+        { revision: 2, updated: 'b', status: 'failed', chart: 'ingress-nginx-4.10.0', app_version: '1.10.0', description: 'Upgrade failed' },
+      ])
+    );
+
+    const result = parse(await helmHistory({ name: 'ingress', namespace: 'ingress-nginx', max: 5 }));
+
+    expect(helmArgs()).toEqual(['history', 'ingress', '--namespace', 'ingress-nginx', '--max', '5', '-o', 'json']);
+    expect(result.revisions[1]).toEqual({
+      revision: 2,
+      status: 'failed',
+      chart: 'ingress-nginx',
+      chartVersion: '4.10.0',
+      appVersion: '1.10.0',
+      updated: 'b',
+      description: 'Upgrade failed',
+    });
+  });
+
+  test('returns user-supplied and computed values', async () => {
+    mockExec.mockImplementation(((_binary: string, args: string[]) =>
+      args.includes('--all') ? '{"controller":{"replicaCount":1,"kind":"Deployment"}}' : 'null') as any);
+
+    const result = parse(await helmGetValues({ name: 'ingress', namespace: 'ingress-nginx', type: 'both' }));
+
+    expect(helmArgs(0)).toEqual(['get', 'values', 'ingress', '--namespace', 'ingress-nginx', '-o', 'json']);
+    expect(helmArgs(1)).toEqual(['get', 'values', 'ingress', '--namespace', 'ingress-nginx', '-o', 'json', '--all']);
+    expect(result).toEqual({
+      name: 'ingress',
+      namespace: 'ingress-nginx',
+      userSupplied: {},
+      computed: { controller: { replicaCount: 1, kind: 'Deployment' } },
+    });
+    expect(parse(await helmGetValues({ name: 'ingress', namespace: 'ingress-nginx' }))).not.toHaveProperty('computed');
+  });
+
+  test('parses the rendered objects with their templates', async () => {
+    mockExec.mockReturnValue(
+      [
+        '---',
+        '# Source: ingress-nginx/templates/controller-serviceaccount.yaml',
+        'apiVersion: v1\nkind: ServiceAccount\nmetadata:\n  name: ingress\n  namespace: ingress-nginx',
+        '---',
+        '# Source: ingress-nginx/templates/clusterrole.yaml',
+        'apiVersion: rbac.authorization.k8s.io/v1\nkind: ClusterRole\nmetadata:\n  name: ingress',
+        '',
+      ].join('\n')
+    );
+
+    const result = parse(await helmGetManifest({ name: 'ingress', namespace: 'ingress-nginx', context: 'prod' }));
+
+    expect(helmArgs()).toEqual(['get', 'manifest', 'ingress', '--namespace', 'ingress-nginx', '--kube-context', 'prod']);
+    expect(result.count).toBe(2);
+    expect(result.objects[0]).toMatchObject({
+      kind: 'ServiceAccount',
+      name: 'ingress',
+      namespace: 'ingress-nginx',
+      source: 'ingress-nginx/templates/controller-serviceaccount.yaml',
+      object: { apiVersion: 'v1' },
+    });
+    expect(result.objects[1]).not.toHaveProperty('namespace');
+  });
+});
@@ -0,0 +1,205 @@
+import { expect, describe, test, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import * as k8s from '@kubernetes/client-node';
+import { kubectlCpFromPod, kubectlCpToPod } from '../src/tools/kubectl-cp.js';
+import { KubernetesManager } from '../src/types.js';
+
+vi.mock('@kubernetes/client-node', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@kubernetes/client-node')>()),
+  Exec: vi.fn(),
+}));
+
+// Files of the fake container, the commands run in it and the containers
+// whose image has no binaries at all
+let files: Record<string, Buffer>;
+let commands: string[][];
+let bareContainers: string[];
+
+// Stand-in for the exec channel running cat, tee and chmod against `files`
+function fakeExec() {
+  return {
+    exec: vi.fn(async (_ns, _pod, container: string, command: string[], stdout, stderr, stdin, _tty, statusCallback) => {
+      commands.push(command);
+      const ws: any = Object.assign(new EventEmitter(), { readyState: 1, CLOSED: 3 });
+      ws.close = () => {
+        if (ws.readyState === 3) return;
+        ws.readyState = 3;
+        setImmediate(() => ws.emit('close'));
+      };
+      const [binary, ...args] = command;
+      setImmediate(() => {
+        if (bareContainers.includes(container)) {
+          statusCallback({ status: 'Failure', message: `exec: "${binary}": executable file not found in $PATH` });
+          ws.close();
+        } else if (binary === 'tee') {
+          const chunks: Buffer[] = [];
+          stdin.on('data', (chunk: Buffer) => chunks.push(chunk));
+          stdin.on('end', () => {
+            files[args[0]] = Buffer.concat(chunks);
+            ws.close();
+          });
+        } else if (binary === 'cat' && files[args[0]]) {
+          stdout.write(files[args[0]]);
+          statusCallback({ status: 'Success' });
+          ws.close();
+        } else if (binary === 'cat') {
+          stderr.write(`cat: can't open '${args[0]}': No such file or directory\n`);
+          statusCallback({ status: 'Failure', details: { causes: [{ reason: 'ExitCode', message: '1' }] } });
+          ws.close();
+        } else if (binary === 'chmod') {
+          statusCallback({ status: 'Success' });
+          ws.close();
+        } else {
+          statusCallback({ status: 'Failure', message: `exec: "${binary}": executable file not found in $PATH` });
+          ws.close();
+        }
+      });
+      return ws;
+    }),
+  };
+}
+
+const coreApi = {
+  readNamespacedPod: vi.fn().mockResolvedValue({
+    body: {
+      metadata: { annotations: { 'kubectl.kubernetes.io/default-container': 'app' } },
+      spec: { containers: [{ name: 'istio-proxy' }, { name: 'app' }] },
+    },
+  }),
+};
+const k8sManager = {
+  getCoreApi: () => coreApi,
+  getKubeConfig: () => ({}),
+} as unknown as KubernetesManager;
+
+describe('kubectl_cp_from_pod and kubectl_cp_to_pod', () => {
+  beforeEach(() => {
+    files = {};
+    commands = [];
+    bareContainers = [];
+    vi.mocked(k8s.Exec).mockImplementation(fakeExec as any);
+  });
+
+  test('reads text files as text and binary files as base64', async () => {
+    files['/etc/app.conf'] = Buffer.from('port=8080\n');
+    files['/tmp/core'] = Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x00, 0xff]);
+
+    const text = JSON.parse((await kubectlCpFromPod(k8sManager, { podName: 'web-1', path: '/etc/app.conf' })).content[0].text);
+    expect(text).toMatchObject({ container: 'app', type: 'text', encoding: 'utf-8', content: 'port=8080\n', bytes: 10 });
+
+    const binary = JSON.parse((await kubectlCpFromPod(k8sManager, { podName: 'web-1', path: '/tmp/core' })).content[0].text);
+    expect(binary).toMatchObject({ type: 'binary', encoding: 'base64', content: 'f0VMRgD/' });
+  });
+
+  test('truncates files larger than maxBytes', async () => {
+    files['/var/log/big.log'] = Buffer.from('a'.repeat(100));
+
+    const output = JSON.parse((await kubectlCpFromPod(k8sManager, { podName: 'web-1', path: '/var/log/big.log', maxBytes: 10 })).content[0].text);
+
+    expect(output).toMatchObject({ bytes: 10, truncated: true, content: 'aaaaaaaaaa' });
+  });
+
+  test('reports missing files and missing binaries', async () => {
+    await expect(kubectlCpFromPod(k8sManager, { podName: 'web-1', path: '/nope' })).rejects.toThrow(/Cannot read \/nope in pod 'web-1': cat: can't open/);
+    await expect(kubectlCpFromPod(k8sManager, { podName: 'web-1', path: 'relative' })).rejects.toThrow(/must be an absolute path/);
+    await expect(kubectlCpFromPod(k8sManager, { podName: 'web-1', container: 'db', path: '/x' })).rejects.toThrow(/Container 'db' not found/);
+  });
+
+  test('writes a file, checks it by reading it back and sets its mode', async () => {
+    const output = JSON.parse((await kubectlCpToPod(k8sManager, {
+      podName: 'web-1',
+      namespace: 'shop',
+      path: '/tmp/check.sh',
+      content: '#!/bin/sh\necho ok\n',
+      mode: '0755',
+    })).content[0].text);
+
+    expect(files['/tmp/check.sh'].toString()).toBe('#!/bin/sh\necho ok\n');
+    expect(commands).toEqual([['tee', '/tmp/check.sh'], ['cat', '/tmp/check.sh'], ['chmod', '0755', '/tmp/check.sh']]);
+    expect(output).toMatchObject({ pod: 'web-1', container: 'app', bytes: 18, mode: '0755' });
+  });
+
+  test('writes base64 content and requires exactly one source', async () => {
+    await kubectlCpToPod(k8sManager, { podName: 'web-1', path: '/tmp/blob', contentBase64: 'f0VMRgD/' });
+    expect([...files['/tmp/blob']]).toEqual([0x7f, 0x45, 0x4c, 0x46, 0x00, 0xff]);
+
+    await expect(kubectlCpToPod(k8sManager, { podName: 'web-1', path: '/tmp/x', content: 'a', contentBase64: 'YQ==' }))
+      .rejects.toThrow(/exactly one of content, contentBase64 or localPath/);
+  });
+
+  test('copies through a debug container when the image lacks cat and tee', async () => {
+    bareContainers = ['app'];
+    files['/proc/1/root/etc/app.conf'] = Buffer.from('port=8080\n');
+    const debugPod = {
+      metadata: { annotations: { 'kubectl.kubernetes.io/default-container': 'app' } },
+      spec: {
+        containers: [{ name: 'app' }],
+        ephemeralContainers: [{ name: 'mcp-debug-abc123', image: 'busybox', targetContainerName: 'app' }],
+      },
+      status: { ephemeralContainerStatuses: [{ name: 'mcp-debug-abc123', state: { running: {} } }] },
+    };
+    const debugApi = {
+      readNamespacedPod: vi.fn().mockResolvedValue({ body: debugPod }),
+      patchNamespacedPodEphemeralcontainers: vi.fn(),
+    };
+    const debugManager = { getCoreApi: () => debugApi, getKubeConfig: () => ({}) } as unknown as KubernetesManager;
+
+    const read = JSON.parse((await kubectlCpFromPod(debugManager, { podName: 'web-1', path: '/etc/app.conf', debugImage: 'busybox' })).content[0].text);
+    expect(read).toMatchObject({ container: 'app', content: 'port=8080\n', debugContainer: { name: 'mcp-debug-abc123', reused: true } });
+
+    await kubectlCpToPod(debugManager, { podName: 'web-1', path: '/tmp/x', content: 'a', debugImage: 'busybox' });
+    expect(files['/proc/1/root/tmp/x'].toString()).toBe('a');
+    expect(debugApi.patchNamespacedPodEphemeralcontainers).not.toHaveBeenCalled();
+
+    await expect(kubectlCpFromPod(debugManager, { podName: 'web-1', path: '/etc/app.conf', debug: 'off' })).rejects.toThrow(
+      /cat is not available in pod 'web-1'. Set debug to 'auto'/
+    );
+  });
+
+  describe('localPath', () => {
+    const originalCopyDir = process.env.MCP_COPY_DIR;
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.realpathSync(fs.mkdtempSync(nodePath.join(os.tmpdir(), 'mcp-copy-')));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true });
+      if (originalCopyDir === undefined) delete process.env.MCP_COPY_DIR;
+      else process.env.MCP_COPY_DIR = originalCopyDir;
+    });
+
+    test('is only available with MCP_COPY_DIR', async () => {
+      delete process.env.MCP_COPY_DIR;
+      files['/etc/app.conf'] = Buffer.from('port=8080\n');
+
+      await expect(kubectlCpFromPod(k8sManager, { podName: 'web-1', path: '/etc/app.conf', localPath: '/tmp/app.conf' }))
+        .rejects.toThrow(/set MCP_COPY_DIR/);
+      await expect(kubectlCpToPod(k8sManager, { podName: 'web-1', path: '/tmp/x', localPath: '/etc/passwd' }))
+        .rejects.toThrow(/set MCP_COPY_DIR/);
+      expect(commands).toEqual([]);
+    });
+
+    test('reads and writes files inside MCP_COPY_DIR only', async () => {
+      process.env.MCP_COPY_DIR = dir;
+      files['/etc/app.conf'] = Buffer.from('port=8080\n');
+      fs.symlinkSync(os.homedir(), nodePath.join(dir, 'home'));
+
+      const output = JSON.parse((await kubectlCpFromPod(k8sManager, { podName: 'web-1', path: '/etc/app.conf', localPath: 'app.conf' })).content[0].text);
+      expect(output.localPath).toBe(nodePath.join(dir, 'app.conf'));
+      expect(fs.readFileSync(nodePath.join(dir, 'app.conf'), 'utf8')).toBe('port=8080\n');
+
+      await kubectlCpToPod(k8sManager, { podName: 'web-1', path: '/tmp/app.conf', localPath: 'app.conf' });
+      expect(files['/tmp/app.conf'].toString()).toBe('port=8080\n');
+
+      for (const localPath of ['../escape', '/etc/passwd', 'home/.bashrc']) {
+        await expect(kubectlCpFromPod(k8sManager, { podName: 'web-1', path: '/etc/app.conf', localPath }))
+          .rejects.toThrow(/must name a file in MCP_COPY_DIR/);
+      }
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { expect, describe, test, vi } from 'vitest';
+import { analyzePod, analyzeNode, kubectlDiagnose } from '../src/tools/kubectl-diagnose.js';
+import { labelSelectorToString } from '../src/utils/label-selector.js';
+import { KubernetesManager } from '../src/types.js';
+
+const crashingPod: any = {
+  metadata: { name: 'web-1', namespace: 'shop', labels: { app: 'web' } },
+  spec: {
+    nodeName: 'node-1',
+    containers: [{ name: 'app', resources: { limits: { memory: '128Mi' } } }],
+  },
+  status: {
+    phase: 'Running',
+    containerStatuses: [
+      {
+        name: 'app',
+        image: 'shop/web:1.2',
+        ready: false,
+        restartCount: 7,
+        state: { waiting: { reason: 'CrashLoopBackOff' } },
+        lastState: { terminated: { reason: 'Error', exitCode: 127 } },
+      },
+    ],
+  },
+};
+
+describe('labelSelectorToString', () => {
+  test('renders matchLabels and matchExpressions', () => {
+    expect(labelSelectorToString({
+      matchLabels: { app: 'web' },
+      matchExpressions: [
+        { key: 'tier', operator: 'In', values: ['frontend', 'edge'] },
+        { key: 'canary', operator: 'DoesNotExist' },
+      ],
+    })).toBe('app=web,tier in (frontend,edge),!canary');
+  });
+});
+
+describe('analyzePod', () => {
+  test('explains a crash loop with the exit code and the previous logs', () => {
+    const [finding] = analyzePod(crashingPod, [], { app: { previous: 'starting\nexec: "serve": not found\n' } });
+
+    expect(finding).toMatchObject({ score: 85, cause: 'Container keeps crashing (exit code 127)', container: 'app', pods: ['web-1'] });
+    expect(finding.suggestion).toContain('not found in the image');
+    expect(finding.evidence.join('\n')).toContain('exec: "serve": not found');
+  });
+
+  test('ranks OOMKilled, image pull and scheduling failures', () => {
+    const oomPod = structuredClone(crashingPod);
+    oomPod.status.containerStatuses[0].lastState.terminated = { reason: 'OOMKilled', exitCode: 137 };
+    expect(analyzePod(oomPod, [])[0]).toMatchObject({ score: 95, cause: 'Container runs out of memory (OOMKilled)' });
+    expect(analyzePod(oomPod, [])[0].evidence).toContain('memory limit 128Mi, request not set');
+
+    const pullPod = structuredClone(crashingPod);
+    pullPod.status.containerStatuses[0] = { name: 'app', image: 'shop/web:typo', ready: false, restartCount: 0, state: { waiting: { reason: 'ImagePullBackOff', message: 'Back-off pulling image' } } };
+    expect(analyzePod(pullPod, [])[0].cause).toBe('Image shop/web:typo cannot be pulled');
+
+    const pendingPod = { metadata: { name: 'web-2' }, spec: { containers: [] }, status: { phase: 'Pending' } } as any;
+    const [scheduling] = analyzePod(pendingPod, [
+      { reason: 'FailedScheduling', message: '0/3 nodes are available: 3 Insufficient memory.', count: 4 } as any,
+    ]);
+    expect(scheduling).toMatchObject({ score: 90, cause: 'Pod cannot be scheduled' });
+    expect(scheduling.suggestion).toContain('enough free resources');
+  });
+
+  test('attributes probe failures to their container', () => {
+    const pod = structuredClone(crashingPod);
+    pod.spec.containers[0].livenessProbe = { httpGet: { path: '/healthz', port: 8080 }, timeoutSeconds: 1 };
+    pod.status.containerStatuses[0].lastState.terminated = { reason: 'Error', exitCode: 137 };
+
+    const findings = analyzePod(pod, [
+      { reason: 'Unhealthy', message: 'Liveness probe failed: context deadline exceeded', count: 12, involvedObject: { fieldPath: 'spec.containers{app}' } } as any,
+    ]);
+
+    expect(findings[0]).toMatchObject({ score: 70, cause: 'Container keeps crashing (exit code 137)' });
+    expect(findings[1]).toMatchObject({ score: 88, cause: 'Liveness probe fails, so the kubelet restarts the container' });
+    expect(findings[1].evidence[1]).toContain('HTTP GET /healthz on port 8080');
+  });
+});
+
+describe('analyzeNode', () => {
+  test('reports not ready nodes and pressure conditions', () => {
+    const findings = analyzeNode({
+      metadata: { name: 'node-1' },
+      status: { conditions: [
+        { type: 'Ready', status: 'False', reason: 'KubeletNotReady' },
+        { type: 'DiskPressure', status: 'True' },
+        { type: 'MemoryPressure', status: 'False' },
+      ] },
+    } as any);
+    expect(findings.map((f) => f.cause)).toEqual(['Node node-1 is not ready', 'Node node-1 reports DiskPressure']);
+  });
+});
+
+describe('kubectlDiagnose', () => {
+  test('inspects the pods of a deployment and ranks the causes', async () => {
+    const coreApi = {
+      listNamespacedEvent: vi.fn().mockResolvedValue({ body: { items: [] } }),
+      listNamespacedPod: vi.fn().mockResolvedValue({ body: { items: [crashingPod] } }),
+      readNamespacedPodLog: vi.fn().mockResolvedValue({ body: 'fatal: missing DATABASE_URL\n' }),
+      readNode: vi.fn().mockRejectedValue({ statusCode: 403, body: { message: 'nodes "node-1" is forbidden' } }),
+    };
+    const appsApi = {
+      readNamespacedDeployment: vi.fn().mockResolvedValue({
+        body: { spec: { selector: { matchLabels: { app: 'web' } } }, status: { conditions: [] } },
+      }),
+    };
+    const k8sManager = {
+      getCoreApi: vi.fn().mockReturnValue(coreApi),
+      getAppsApi: vi.fn().mockReturnValue(appsApi),
+    } as unknown as KubernetesManager;
+
+    const result = await kubectlDiagnose(k8sManager, { resourceType: 'deployment', name: 'web', namespace: 'shop' });
+    const report = JSON.parse(result.content[0].text);
+
+    expect(coreApi.listNamespacedPod).toHaveBeenCalledWith('shop', undefined, undefined, undefined, undefined, 'app=web');
+    expect(coreApi.listNamespacedEvent).toHaveBeenCalledWith(
+      'shop', undefined, undefined, undefined, 'involvedObject.kind=Pod,involvedObject.name=web-1'
+    );
+    expect(report.summary).toBe('Most likely cause: Container keeps crashing (exit code 127)');
+    expect(report.pods[0].logs.app.previous).toContain('DATABASE_URL');
+    expect(report.nodes).toEqual([{ name: 'node-1', error: 'nodes "node-1" is forbidden' }]);
+
+    coreApi.readNode.mockClear();
+    const withoutNodes = await kubectlDiagnose(k8sManager, { resourceType: 'deployment', name: 'web', namespace: 'shop', includeNodes: false });
+    expect(coreApi.readNode).not.toHaveBeenCalled();
+    expect(JSON.parse(withoutNodes.content[0].text).nodes).toEqual([]);
+  });
+
+  test('rejects unsupported resource types', async () => {
+    await expect(kubectlDiagnose({} as KubernetesManager, { resourceType: 'service', name: 'web' }))
+      .rejects.toThrow(/must be pod, deployment, statefulset or job/);
+  });
+});
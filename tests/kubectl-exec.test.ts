@@ -0,0 +1,362 @@
+import { expect, describe, test, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { execFileSync, spawn } from 'child_process';
+import { kubectlCurl, kubectlDnsLookup, kubectlExec, kubectlPing, kubectlTcpCheck } from '../src/tools/kubectl-exec.js';
+import { KubernetesManager } from '../src/types.js';
+import { withoutDebugContainers } from '../src/utils/debug-container.js';
+
+// Mock child_process so no real kubectl is ever started
+vi.mock('child_process', () => ({
+  execFileSync: vi.fn().mockReturnValue(''),
+  execFile: vi.fn(),
+  spawn: vi.fn(),
+}));
+
+const mockExecFileSync = vi.mocked(execFileSync);
+const mockSpawn = vi.mocked(spawn);
+
+// Stand-in for `kubectl exec` that writes the given output and exits
+function fakeExec(stdout: string, stderr: string, exitCode: number | null) {
+  const child: any = new EventEmitter();
+  child.stdout = new EventEmitter();
+  child.stderr = new EventEmitter();
+  child.stdin = { on: vi.fn(), end: vi.fn() };
+  child.kill = vi.fn(() => setImmediate(() => child.emit('close', null)));
+  setImmediate(() => {
+    child.stdout.emit('data', Buffer.from(stdout));
+    child.stderr.emit('data', Buffer.from(stderr));
+    if (exitCode !== null) child.emit('close', exitCode);
+  });
+  mockSpawn.mockReturnValueOnce(child);
+  return child;
+}
+
+function pod(name: string, ready: boolean, extra: any = {}) {
+  return {
+    metadata: { name, ...extra },
+    status: { phase: 'Running', conditions: [{ type: 'Ready', status: ready ? 'True' : 'False' }] },
+  };
+}
+
+describe('kubectl_exec', () => {
+  beforeEach(() => {
+    mockSpawn.mockReset();
+  });
+
+  test('returns the exit code with stdout and stderr kept apart', async () => {
+    const child = fakeExec('hello\n', 'warning: something\n', 3);
+
+    const result = await kubectlExec({} as KubernetesManager, {
+      name: 'web-1',
+      namespace: 'shop',
+      container: 'app',
+      command: ['sh', '-c', 'cat; exit 3'],
+      stdin: 'hello\n',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(mockSpawn.mock.calls[0][1]).toEqual([
+      'exec', 'web-1', '-n', 'shop', '-c', 'app', '-i', '--', 'timeout', '30', 'sh', '-c', 'cat; exit 3',
+    ]);
+    expect(child.stdin.end).toHaveBeenCalledWith('hello\n');
+    expect(output).toMatchObject({ pod: 'web-1', exitCode: 3, stdout: 'hello\n', stderr: 'warning: something\n' });
+  });
+
+  test('truncates output beyond maxOutputBytes and kills commands that time out', async () => {
+    fakeExec('x'.repeat(100), '', 0);
+    const truncated = JSON.parse((await kubectlExec({} as KubernetesManager, { name: 'web-1', command: ['cat', 'big'], maxOutputBytes: 10 })).content[0].text);
+    expect(truncated).toMatchObject({ exitCode: 0, stdout: 'xxxxxxxxxx', stdoutTruncated: true });
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const child = fakeExec('', '', null);
+      const pending = kubectlExec({} as KubernetesManager, { name: 'web-1', command: ['sleep', '100'], timeout: 1 });
+      // kubectl is given a grace period for timeout to stop the command in the container
+      vi.advanceTimersByTime(1000);
+      expect(child.kill).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(5000);
+      const output = JSON.parse((await pending).content[0].text);
+      expect(child.kill).toHaveBeenCalledWith('SIGKILL');
+      expect(output).toMatchObject({ exitCode: null, timedOut: true });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('runs the command without timeout when the image lacks it', async () => {
+    fakeExec(
+      '',
+      'error: Internal error occurred: error executing command in container: exec: "timeout": executable file not found in $PATH\n',
+      126
+    );
+    fakeExec('ok', '', 0);
+
+    const output = JSON.parse((await kubectlExec({} as KubernetesManager, { name: 'web-1', command: ['true'], timeout: 10 })).content[0].text);
+
+    expect(mockSpawn.mock.calls[0][1]).toEqual(['exec', 'web-1', '-n', 'default', '--', 'timeout', '10', 'true']);
+    expect(mockSpawn.mock.calls[1][1]).toEqual(['exec', 'web-1', '-n', 'default', '--', 'true']);
+    expect(output).toMatchObject({ exitCode: 0, stdout: 'ok' });
+  });
+
+  test('runs in a ready pod of a deployment', async () => {
+    const coreApi = {
+      listNamespacedPod: vi.fn().mockResolvedValue({
+        body: { items: [pod('web-c', true, { deletionTimestamp: new Date() }), pod('web-a', false), pod('web-b', true)] },
+      }),
+    };
+    const appsApi = {
+      readNamespacedDeployment: vi.fn().mockResolvedValue({ body: { spec: { selector: { matchLabels: { app: 'web' } } } } }),
+    };
+    const k8sManager = {
+      getCoreApi: vi.fn().mockReturnValue(coreApi),
+      getAppsApi: vi.fn().mockReturnValue(appsApi),
+    } as unknown as KubernetesManager;
+    fakeExec('ok', '', 0);
+
+    const result = await kubectlExec(k8sManager, { resourceType: 'deployment', name: 'web', namespace: 'shop', command: ['true'] });
+
+    expect(coreApi.listNamespacedPod).toHaveBeenCalledWith('shop', undefined, undefined, undefined, undefined, 'app=web');
+    expect(JSON.parse(result.content[0].text).pod).toBe('web-b');
+  });
+
+  test('rejects workloads without ready pods and invalid commands', async () => {
+    const k8sManager = {
+      getCoreApi: () => ({ listNamespacedPod: vi.fn().mockResolvedValue({ body: { items: [pod('db-0', false)] } }) }),
+      getAppsApi: () => ({ readNamespacedStatefulSet: vi.fn().mockResolvedValue({ body: { spec: { selector: { matchLabels: { app: 'db' } } } } }) }),
+    } as unknown as KubernetesManager;
+
+    await expect(kubectlExec(k8sManager, { resourceType: 'statefulset', name: 'db', command: ['true'] }))
+      .rejects.toThrow(/No ready pod found for statefulset 'db'/);
+    await expect(kubectlExec(k8sManager, { name: 'web-1', command: [] })).rejects.toThrow(/Invalid command/);
+    await expect(kubectlExec(k8sManager, { name: 'web-1', command: ['true'], timeout: 3600 })).rejects.toThrow(/at most 600/);
+  });
+});
+
+describe('network tools in debug containers', () => {
+  // Pod API that starts the ephemeral containers patched into the pod
+  function podApi(ephemeralContainers: any[] = [], running: string[] = []) {
+    const coreApi = {
+      readNamespacedPod: vi.fn(async () => ({
+        body: {
+          spec: { containers: [{ name: 'app' }], ephemeralContainers: [...ephemeralContainers] },
+          status: {
+            ephemeralContainerStatuses: ephemeralContainers.map((c) => ({
+              name: c.name,
+              state: running.includes(c.name) ? { running: {} } : { waiting: { reason: 'ContainerCreating' } },
+            })),
+          },
+        },
+      })),
+      patchNamespacedPodEphemeralcontainers: vi.fn(async (_name: string, _namespace: string, body: any) => {
+        for (const container of body.spec.ephemeralContainers) {
+          ephemeralContainers.push(container);
+          running.push(container.name);
+        }
+        return { body: {} };
+      }),
+    };
+    return { coreApi, k8sManager: { getCoreApi: () => coreApi } as unknown as KubernetesManager };
+  }
+
+  beforeEach(() => {
+    mockExecFileSync.mockReset();
+    mockExecFileSync.mockReturnValue('');
+  });
+
+  test('retries in a new debug container when the image lacks the command', async () => {
+    const { coreApi, k8sManager } = podApi();
+    mockExecFileSync
+      .mockReturnValueOnce('web-1 1/1 Running')
+      .mockImplementationOnce(() => {
+        throw new Error('exec: "curl": executable file not found in $PATH');
+      })
+      .mockReturnValueOnce('ok');
+
+    const result = await kubectlCurl(k8sManager, { podName: 'web-1', namespace: 'shop', url: 'http://api', debug: 'auto' });
+    const output = JSON.parse(result.content[0].text);
+
+    const patch = coreApi.patchNamespacedPodEphemeralcontainers.mock.calls[0];
+    expect(patch[2]).toEqual({
+      spec: { ephemeralContainers: [{ name: output.container, image: 'nicolaka/netshoot', command: ['sleep', '3600'] }] },
+    });
+    expect(patch[8]).toEqual({ headers: { 'Content-Type': 'application/strategic-merge-patch+json' } });
+    expect(output.container).toMatch(/^mcp-debug-/);
+    expect(output).toMatchObject({ success: true, output: 'ok', debugContainer: { image: 'nicolaka/netshoot', reused: false } });
+    expect(mockExecFileSync.mock.calls[2][1]).toEqual(
+      expect.arrayContaining(['exec', 'web-1', '-n', 'shop', '-c', output.container, '--', 'curl'])
+    );
+  });
+
+  test('reuses a running debug container with the same image', async () => {
+    const { coreApi, k8sManager } = podApi([{ name: 'mcp-debug-abc', image: 'busybox' }], ['mcp-debug-abc']);
+
+    const result = await kubectlPing(k8sManager, { podName: 'web-1', target: '10.0.0.1', debug: 'always', debugImage: 'busybox' });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(coreApi.patchNamespacedPodEphemeralcontainers).not.toHaveBeenCalled();
+    expect(output).toMatchObject({ container: 'mcp-debug-abc', debugContainer: { name: 'mcp-debug-abc', reused: true } });
+    expect(mockExecFileSync.mock.calls[1][1]).toEqual(['exec', 'web-1', '-n', 'default', '-c', 'mcp-debug-abc', '--', 'ping', '-c', '4', '10.0.0.1']);
+  });
+
+  test('suggests debug mode when it is off and rejects unknown modes', async () => {
+    const { k8sManager } = podApi();
+    mockExecFileSync.mockReturnValueOnce('').mockImplementationOnce(() => {
+      throw new Error('exec: "ping": executable file not found in $PATH');
+    });
+
+    await expect(kubectlPing(k8sManager, { podName: 'web-1', target: '10.0.0.1' })).rejects.toThrow(/set debug to 'auto'/);
+    await expect(kubectlPing(k8sManager, { podName: 'web-1', target: '10.0.0.1', debug: 'sometimes' })).rejects.toThrow(/Invalid debug/);
+  });
+
+  test('turns debug containers off where pods must not change', () => {
+    expect(() => withoutDebugContainers('kubectl_curl', { podName: 'web-1', debug: 'always' }, 'in non-destructive mode')).toThrow(
+      /kubectl_curl cannot add debug containers in non-destructive mode: set debug to 'off'/
+    );
+    expect(withoutDebugContainers('kubectl_cp_from_pod', { podName: 'web-1', path: '/x' }, 'in non-destructive mode')).toEqual({
+      podName: 'web-1',
+      path: '/x',
+      debug: 'off',
+    });
+    expect(withoutDebugContainers('kubectl_get', { resourceType: 'pods' }, 'in non-destructive mode')).toEqual({ resourceType: 'pods' });
+  });
+});
+
+// Error as thrown by execFileSync for a command that exits with a failure
+function commandFailure(stderr: string, stdout = '') {
+  return Object.assign(new Error(`Command failed: kubectl exec\n${stderr}`), { status: 1, stdout, stderr });
+}
+
+describe('kubectl_dns_lookup', () => {
+  const resolvConf = 'nameserver 10.96.0.10\nsearch shop.svc.cluster.local svc.cluster.local cluster.local\noptions ndots:5\n';
+
+  beforeEach(() => {
+    mockExecFileSync.mockReset();
+    mockExecFileSync.mockReturnValue('');
+  });
+
+  test('compares the answer with the ClusterIP of the Service', async () => {
+    const coreApi = {
+      readNamespacedService: vi.fn().mockResolvedValue({ body: { spec: { type: 'ClusterIP', clusterIP: '10.96.12.9', clusterIPs: ['10.96.12.9'] } } }),
+    };
+    mockExecFileSync
+      .mockReturnValueOnce('')
+      .mockReturnValueOnce(resolvConf)
+      .mockReturnValueOnce('')
+      .mockReturnValueOnce('10.96.12.7      payments.shop.svc.cluster.local\n');
+
+    const result = await kubectlDnsLookup({ getCoreApi: () => coreApi } as unknown as KubernetesManager, {
+      podName: 'web-1', namespace: 'shop', hostname: 'payments',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(mockExecFileSync.mock.calls[3][1]).toEqual(['exec', 'web-1', '-n', 'shop', '--', 'getent', 'hosts', 'payments']);
+    expect(coreApi.readNamespacedService).toHaveBeenCalledWith('payments', 'shop');
+    expect(output).toMatchObject({
+      resolved: true,
+      addresses: ['10.96.12.7'],
+      canonicalName: 'payments.shop.svc.cluster.local',
+      service: { name: 'payments', namespace: 'shop', clusterIPs: ['10.96.12.9'], matches: false },
+      resolvConf: {
+        nameservers: ['10.96.0.10'],
+        ndots: 5,
+        candidates: ['payments.shop.svc.cluster.local', 'payments.svc.cluster.local', 'payments.cluster.local', 'payments'],
+      },
+    });
+    expect(output.diagnosis).toContain('not to the ClusterIP 10.96.12.9');
+  });
+
+  test('falls back to nslookup and explains a missing Service', async () => {
+    const coreApi = { readNamespacedService: vi.fn().mockRejectedValue({ statusCode: 404 }) };
+    mockExecFileSync
+      .mockReturnValueOnce('')
+      .mockReturnValueOnce(resolvConf)
+      .mockReturnValueOnce('')
+      .mockImplementationOnce(() => {
+        throw commandFailure('exec: "getent": executable file not found in $PATH');
+      })
+      .mockImplementationOnce(() => {
+        throw commandFailure('', 'Server:\t\t10.96.0.10\nAddress:\t10.96.0.10#53\n\n** server can\'t find paymnts: NXDOMAIN\n');
+      });
+
+    const result = await kubectlDnsLookup({ getCoreApi: () => coreApi } as unknown as KubernetesManager, {
+      podName: 'web-1', namespace: 'shop', hostname: 'paymnts',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(output).toMatchObject({ resolved: false, addresses: [], command: 'nslookup paymnts', service: { exists: false } });
+    expect(output.diagnosis).toBe("'paymnts' did not resolve: there is no Service 'paymnts' in namespace 'shop'");
+  });
+});
+
+describe('kubectl_tcp_check', () => {
+  const certificate = `-----BEGIN CERTIFICATE-----
+MIIBrTCCAVOgAwIBAgIUBB+1LfP7FbKdOIp0C9iQwQkHmYwwCgYIKoZIzj0EAwIw
+HDEaMBgGA1UEAwwRcGF5bWVudHMuc2hvcC5zdmMwIBcNMjYxMDE4MTUyODEzWhgP
+MjEyNjA5MjQxNTI4MTNaMBwxGjAYBgNVBAMMEXBheW1lbnRzLnNob3Auc3ZjMFkw
+EwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEkPXTleFWJF42xCCUBDK5AfsK1aCix8ou
+V96k8MLzugllKXH7nP2PFwBQLvQx86J9eOO1wiyvBPr9qWaYITMCGaNxMG8wHQYD
+VR0OBBYEFJqovntv7avKymfQjAY0Ygwqc59qMB8GA1UdIwQYMBaAFJqovntv7avK
+ymfQjAY0Ygwqc59qMA8GA1UdEwEB/wQFMAMBAf8wHAYDVR0RBBUwE4IRcGF5bWVu
+dHMuc2hvcC5zdmMwCgYIKoZIzj0EAwIDSAAwRQIhAOHk6f9bbx5amxV96u57wdgz
+cn3go2hxbK0iE/WiXIUtAiBcDBe6t5BBZCNATuDO3uYAcb7Ff8lQtnmZVdRdTepo
+cA==
+-----END CERTIFICATE-----`;
+
+  beforeEach(() => {
+    mockExecFileSync.mockReset();
+    mockExecFileSync.mockReturnValue('');
+  });
+
+  test('reports a refused connection', async () => {
+    mockExecFileSync.mockReturnValueOnce('').mockImplementationOnce(() => {
+      throw commandFailure('nc: connect to 10.0.0.5 port 5432 (tcp) failed: Connection refused');
+    });
+
+    const result = await kubectlTcpCheck({} as KubernetesManager, { podName: 'web-1', host: '10.0.0.5', port: 5432, timeout: 3 });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(mockExecFileSync.mock.calls[1][1]).toEqual(['exec', 'web-1', '-n', 'default', '--', 'nc', '-z', '-v', '-w', '3', '10.0.0.5', '5432']);
+    expect(output).toMatchObject({ reachable: false, status: 'refused' });
+  });
+
+  test('returns the certificates of a TLS handshake', async () => {
+    mockExecFileSync.mockReturnValueOnce('').mockReturnValueOnce([
+      'CONNECTED(00000003)',
+      '---',
+      'Certificate chain',
+      ' 0 s:CN = payments.shop.svc',
+      certificate,
+      '---',
+      'New, TLSv1.3, Cipher is TLS_AES_256_GCM_SHA384',
+      'Verify return code: 18 (self-signed certificate)',
+    ].join('\n'));
+
+    const result = await kubectlTcpCheck({} as KubernetesManager, {
+      podName: 'web-1', host: 'payments.shop.svc', port: 443, tls: true,
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(mockExecFileSync.mock.calls[1][1]).toEqual([
+      'exec', 'web-1', '-n', 'default', '--',
+      'openssl', 's_client', '-connect', 'payments.shop.svc:443', '-servername', 'payments.shop.svc', '-showcerts',
+    ]);
+    expect(output).toMatchObject({
+      reachable: true,
+      status: 'open',
+      tls: {
+        handshake: true,
+        protocol: 'TLSv1.3',
+        cipher: 'TLS_AES_256_GCM_SHA384',
+        verified: false,
+        verifyResult: 'self-signed certificate',
+        certificates: [{ subject: 'CN=payments.shop.svc', subjectAltName: 'DNS:payments.shop.svc', expired: false }],
+      },
+    });
+    expect(output.output).toBeUndefined();
+  });
+
+  test('rejects invalid ports', async () => {
+    await expect(kubectlTcpCheck({} as KubernetesManager, { podName: 'web-1', host: 'db', port: 70000 }))
+      .rejects.toThrow(/Invalid port/);
+  });
+});
@@ -0,0 +1,126 @@
+import { expect, describe, test, vi } from 'vitest';
+import { kubectlServiceCheck } from '../src/tools/kubectl-service-check.js';
+import { matchesLabelSelector } from '../src/utils/label-selector.js';
+import { KubernetesManager } from '../src/types.js';
+
+function pod(name: string, ready: boolean, ports: any[]) {
+  return {
+    metadata: { name, labels: { app: 'payments' } },
+    spec: { nodeName: 'node-1', containers: [{ name: 'app', ports }] },
+    status: { phase: 'Running', podIP: `10.1.0.${name.slice(-1)}`, conditions: [{ type: 'Ready', status: ready ? 'True' : 'False' }] },
+  };
+}
+
+const service = {
+  metadata: { name: 'payments', namespace: 'shop' },
+  spec: {
+    type: 'ClusterIP',
+    clusterIP: '10.96.12.9',
+    clusterIPs: ['10.96.12.9'],
+    selector: { app: 'payments' },
+    ports: [{ name: 'web', port: 80, targetPort: 'http', protocol: 'TCP' }],
+  },
+};
+
+// Cluster state served to the tool through mocked clients
+function cluster(objects: Record<string, any[]>) {
+  const coreApi = {
+    readNamespacedService: vi.fn().mockResolvedValue({ body: service }),
+    listServiceForAllNamespaces: vi.fn().mockResolvedValue({ body: { items: [{ metadata: { name: 'other', namespace: 'shop' }, spec: { clusterIP: '10.96.0.1' } }, service] } }),
+    listNamespacedPod: vi.fn().mockResolvedValue({ body: { items: objects.pods || [] } }),
+  };
+  const client = {
+    resolveResource: vi.fn(async (type: string) => ({ name: type.split('.')[0] })),
+    listResources: vi.fn(async (resource: any) => ({ items: objects[resource.name] || [] })),
+  };
+  return {
+    coreApi,
+    client,
+    k8sManager: { getCoreApi: () => coreApi, getDynamicClient: () => client } as unknown as KubernetesManager,
+  };
+}
+
+async function check(k8sManager: KubernetesManager, input: any) {
+  return JSON.parse((await kubectlServiceCheck(k8sManager, input)).content[0].text);
+}
+
+describe('matchesLabelSelector', () => {
+  test('evaluates matchLabels and matchExpressions', () => {
+    const selector = {
+      matchLabels: { app: 'web' },
+      matchExpressions: [
+        { key: 'tier', operator: 'In', values: ['frontend'] },
+        { key: 'canary', operator: 'DoesNotExist' },
+      ],
+    };
+    expect(matchesLabelSelector(selector, { app: 'web', tier: 'frontend' })).toBe(true);
+    expect(matchesLabelSelector(selector, { app: 'web', tier: 'frontend', canary: 'true' })).toBe(false);
+    expect(matchesLabelSelector(selector, { app: 'web', tier: 'backend' })).toBe(false);
+    expect(matchesLabelSelector({}, { any: 'labels' })).toBe(true);
+  });
+});
+
+describe('kubectl_service_check', () => {
+  test('reports each broken step of the path', async () => {
+    const { coreApi, client, k8sManager } = cluster({
+      pods: [pod('payments-1', true, [{ name: 'http', containerPort: 8080 }]), pod('payments-2', false, [{ name: 'web', containerPort: 8080 }])],
+      endpointslices: [{ endpoints: [
+        { addresses: ['10.1.0.1'], conditions: { ready: true }, targetRef: { name: 'payments-1' } },
+        { addresses: ['10.1.0.2'], conditions: { ready: false }, targetRef: { name: 'payments-2' } },
+      ] }],
+      ingresses: [{ metadata: { name: 'shop' }, spec: { rules: [{ host: 'shop.example.com', http: { paths: [
+        { path: '/pay', backend: { service: { name: 'payments', port: { number: 8080 } } } },
+        { path: '/', backend: { service: { name: 'frontend', port: { number: 80 } } } },
+      ] } }] } }],
+      networkpolicies: [{ metadata: { name: 'default-deny' }, spec: { podSelector: {}, policyTypes: ['Ingress'] } }],
+    });
+
+    const report = await check(k8sManager, { name: 'payments', namespace: 'shop' });
+
+    expect(coreApi.listNamespacedPod).toHaveBeenCalledWith('shop', undefined, undefined, undefined, undefined, 'app=payments');
+    expect(client.listResources.mock.calls[0][1]).toEqual({ namespace: 'shop', labelSelector: 'kubernetes.io/service-name=payments' });
+    expect(report.status).toBe('fail');
+    expect(report.checklist.map((c: any) => [c.check, c.status])).toEqual([
+      ['selector', 'pass'],
+      ['readiness', 'warn'],
+      ['port web 80/TCP -> http', 'fail'],
+      ['endpoints', 'pass'],
+      ['ingress shop shop.example.com/pay', 'fail'],
+      ['network policies', 'fail'],
+    ]);
+    expect(report.checklist[2].detail).toBe("Pods payments-2 declare no port named 'http' and receive no traffic on it");
+    expect(report.checklist[5].detail).toBe('default-deny select the pods, and no ingress rule allows port web 80/TCP');
+    expect(report.endpoints).toEqual({ ready: ['payments-1'], notReady: ['payments-2'] });
+    expect(report.summary).toBe('3 check(s) failed: port web 80/TCP -> http, ingress shop shop.example.com/pay, network policies');
+  });
+
+  test('finds the Service by IP and lists the sources policies allow', async () => {
+    const { coreApi, k8sManager } = cluster({
+      pods: [pod('payments-1', true, [{ name: 'http', containerPort: 8080 }])],
+      endpointslices: [{ endpoints: [{ addresses: ['10.1.0.1'], conditions: { ready: true }, targetRef: { name: 'payments-1' } }] }],
+      networkpolicies: [
+        { metadata: { name: 'from-frontend' }, spec: {
+          podSelector: { matchLabels: { app: 'payments' } },
+          ingress: [{ from: [{ podSelector: { matchLabels: { role: 'frontend' } } }], ports: [{ port: 8080 }] }],
+        } },
+        { metadata: { name: 'other-app' }, spec: { podSelector: { matchLabels: { app: 'db' } } } },
+      ],
+    });
+
+    const report = await check(k8sManager, { name: '10.96.12.9' });
+
+    expect(coreApi.listServiceForAllNamespaces).toHaveBeenCalled();
+    expect(report.service).toMatchObject({ name: 'payments', namespace: 'shop', matchedBy: 'spec.clusterIP=10.96.12.9' });
+    expect(report.status).toBe('warn');
+    expect(report.networkPolicies).toEqual([{ name: 'from-frontend', allowedFrom: { 'web 80/TCP': ['pods role=frontend'] } }]);
+    expect(report.checklist.find((c: any) => c.check === 'ingress')).toMatchObject({ status: 'skip' });
+  });
+
+  test('rejects unknown Services', async () => {
+    const { coreApi, k8sManager } = cluster({});
+    coreApi.readNamespacedService.mockRejectedValue({ statusCode: 404 });
+
+    await expect(check(k8sManager, { name: 'missing', namespace: 'shop' })).rejects.toThrow(/Service 'missing' not found/);
+    await expect(check(k8sManager, { name: '10.0.0.99' })).rejects.toThrow(/No Service has the IP address 10.0.0.99/);
+  });
+});
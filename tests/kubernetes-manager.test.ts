@@ -16,7 +16,7 @@ vi.mock('@kubernetes/client-node', () => ({
     loadFromString: vi.fn(),
     loadFromOptions: vi.fn(),
     loadFromFile: vi.fn(),
-    makeApiClient: vi.fn().mockReturnValue({}),
+    makeApiClient: vi.fn().mockReturnValue({ addInterceptor: vi.fn() }),
     getCurrentContext: vi.fn().mockReturnValue('test-context'),
     getClusters: vi.fn().mockReturnValue([{
       name: 'test-cluster',
@@ -36,7 +36,9 @@ vi.mock('@kubernetes/client-node', () => ({
   })),
   CoreV1Api: vi.fn(),
   AppsV1Api: vi.fn(),
-  BatchV1Api: vi.fn()
+  BatchV1Api: vi.fn(),
+  KubernetesObjectApi: vi.fn(),
+  Watch: vi.fn()
 }));
 
 describe('KubernetesManager', () => {
@@ -412,7 +414,7 @@ current-context: test-context`;
           }),
           loadFromOptions: vi.fn(),
           loadFromFile: vi.fn(),
-          makeApiClient: vi.fn().mockReturnValue({}),
+          makeApiClient: vi.fn().mockReturnValue({ addInterceptor: vi.fn() }),
           getCurrentContext: vi.fn().mockReturnValue('test-context'),
           getClusters: vi.fn().mockReturnValue([]),
           getUsers: vi.fn().mockReturnValue([]),
@@ -484,6 +486,44 @@ current-context: test-context`;
       });
     });
 
+    describe('Per-call Context Selection', () => {
+      test('should return the shared kubeconfig when no context or the current context is given', () => {
+        kubernetesManager = new KubernetesManager();
+        const kubeConfig = kubernetesManager.getKubeConfig();
+
+        expect(kubernetesManager.getKubeConfig(undefined)).toBe(kubeConfig);
+        expect(kubernetesManager.getKubeConfig('test-context')).toBe(kubeConfig);
+      });
+
+      test('should build a separate kubeconfig for another context without changing the current one', () => {
+        kubernetesManager = new KubernetesManager();
+        const kubeConfig = kubernetesManager.getKubeConfig() as any;
+        kubeConfig.getContexts.mockReturnValue([
+          { name: 'test-context', cluster: 'test-cluster', user: 'test-user' },
+          { name: 'staging', cluster: 'test-cluster', user: 'test-user' }
+        ]);
+
+        const stagingConfig = kubernetesManager.getKubeConfig('staging') as any;
+
+        expect(stagingConfig).not.toBe(kubeConfig);
+        expect(stagingConfig.loadFromOptions).toHaveBeenCalledWith(
+          expect.objectContaining({ currentContext: 'staging' })
+        );
+        expect(kubeConfig.setCurrentContext).not.toHaveBeenCalled();
+        // The per-context kubeconfig is cached
+        expect(kubernetesManager.getKubeConfig('staging')).toBe(stagingConfig);
+        expect(kubernetesManager.getCoreApi('staging')).toBeTruthy();
+      });
+
+      test('should throw for an unknown context', () => {
+        kubernetesManager = new KubernetesManager();
+
+        expect(() => kubernetesManager.getKubeConfig('missing')).toThrow(
+          "Context 'missing' not found"
+        );
+      });
+    });
+
     describe('Namespace Handling', () => {
       test('should use K8S_NAMESPACE when set', () => {
         process.env.K8S_SERVER = 'https://test-cluster.example.com';
@@ -509,4 +549,72 @@ current-context: test-context`;
       });
     });
   });
+
+  describe('Watches', () => {
+    const pods = { apiVersion: 'v1', kind: 'Pod', name: 'pods', namespaced: true };
+    let watchCalls: { path: string; query: any; callback: Function; done: Function; request: { abort: any } }[];
+
+    beforeEach(() => {
+      process.env.K8S_SERVER = 'https://test-cluster.example.com';
+      process.env.K8S_TOKEN = 'test-token-12345';
+      kubernetesManager = new KubernetesManager();
+      vi.spyOn(kubernetesManager, 'getDynamicClient').mockReturnValue({
+        resolveResource: vi.fn().mockResolvedValue(pods),
+        watchPath: vi.fn().mockReturnValue('/api/v1/namespaces/shop/pods'),
+      } as any);
+
+      watchCalls = [];
+      (k8s.Watch as any).mockImplementation(() => ({
+        watch: vi.fn(async (path: string, query: any, callback: Function, done: Function) => {
+          const request = { abort: vi.fn() };
+          watchCalls.push({ path, query, callback, done, request });
+          return request;
+        }),
+      }));
+    });
+
+    test('should report changes and resume from the last resourceVersion', async () => {
+      vi.useFakeTimers();
+      try {
+        const onChange = vi.fn();
+        const watch = await kubernetesManager.watchResource(
+          { resourceType: 'pods', namespace: 'shop', name: 'web' },
+          onChange
+        );
+
+        expect(watchCalls[0].path).toBe('/api/v1/namespaces/shop/pods');
+        expect(watchCalls[0].query).toEqual({ allowWatchBookmarks: true, fieldSelector: 'metadata.name=web' });
+
+        watchCalls[0].callback('MODIFIED', { metadata: { name: 'web', resourceVersion: '42' } });
+        watchCalls[0].callback('BOOKMARK', { metadata: { resourceVersion: '43' } });
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenCalledWith('MODIFIED', expect.anything());
+
+        // The server closed the watch; it is re-established
+        watchCalls[0].done(null);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(watchCalls[1].query.resourceVersion).toBe('43');
+        expect(kubernetesManager.getWatch(watch.id)).toBe(watch);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test('should stop watches on stopWatch and cleanup', async () => {
+      const first = await kubernetesManager.watchResource({ resourceType: 'pods', namespace: 'shop' }, vi.fn());
+      const second = await kubernetesManager.watchResource({ resourceType: 'pods', namespace: 'shop' }, vi.fn());
+
+      kubernetesManager.stopWatch(first.id);
+      expect(watchCalls[0].request.abort).toHaveBeenCalled();
+      expect(kubernetesManager.getWatch(first.id)).toBeUndefined();
+
+      await kubernetesManager.cleanup();
+      expect(watchCalls[1].request.abort).toHaveBeenCalled();
+      expect(kubernetesManager.getWatch(second.id)).toBeUndefined();
+
+      // A stopped watch is not re-established when its connection closes
+      watchCalls[1].done(null);
+      expect(watchCalls).toHaveLength(2);
+    });
+  });
 }); 
\ No newline at end of file
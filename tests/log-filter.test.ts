@@ -0,0 +1,249 @@
+import { expect, describe, test, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { execFileSync, spawn } from 'child_process';
+import { filterLogs, logPattern, parseLogs, validateLogFilterOptions } from '../src/utils/log-filter.js';
+import { kubectlLogs } from '../src/tools/kubectl-logs.js';
+import { KubernetesManager } from '../src/types.js';
+
+// Mock child_process so no real kubectl is ever started
+vi.mock('child_process', () => ({
+  execFileSync: vi.fn().mockReturnValue(''),
+  execFile: vi.fn(),
+  spawn: vi.fn(),
+}));
+
+const mockExec = vi.mocked(execFileSync);
+const mockSpawn = vi.mocked(spawn);
+
+const mixedLogs = [
+  '2024-05-01T10:00:00.000000000Z {"level":"info","msg":"GET /orders","status":200,"ts":"2024-05-01T10:00:00Z"}',
+  '2024-05-01T10:00:01.000000000Z {"level":"error","msg":"GET /orders/17 failed","status":502,"http":{"host":"db-1"}}',
+  '2024-05-01T10:00:02.000000000Z level=warn msg="slow query" duration=2.5',
+  '2024-05-01T10:00:03.000000000Z ERROR connection to 10.0.0.12:5432 refused',
+  '2024-05-01T10:00:03.000000000Z     at Pool.connect (pool.js:12)',
+  '2024-05-01T10:00:04.000000000Z ERROR connection to 10.0.0.13:5432 refused',
+  '',
+].join('\n');
+
+describe('parseLogs', () => {
+  test('parses JSON, logfmt and text entries with their continuation lines', () => {
+    const entries = parseLogs(mixedLogs);
+
+    expect(entries.map((e) => [e.format, e.level])).toEqual([
+      ['json', 'info'],
+      ['json', 'error'],
+      ['logfmt', 'warn'],
+      ['text', 'error'],
+      ['text', 'error'],
+    ]);
+    expect(entries[2]).toMatchObject({ message: 'slow query', fields: { duration: '2.5' }, time: '2024-05-01T10:00:02.000Z' });
+    expect(entries[3].text).toBe('ERROR connection to 10.0.0.12:5432 refused\n    at Pool.connect (pool.js:12)');
+  });
+});
+
+describe('filterLogs', () => {
+  test('filters by level, regex and time window', () => {
+    expect(filterLogs(mixedLogs, { level: 'warn', exclude: 'refused' })).toEqual({
+      totalEntries: 5,
+      matchedEntries: 2,
+      logs: '{"level":"error","msg":"GET /orders/17 failed","status":502,"http":{"host":"db-1"}}\nlevel=warn msg="slow query" duration=2.5',
+    });
+    const windowed = filterLogs(mixedLogs, { startTime: '2024-05-01T10:00:01Z', endTime: '2024-05-01T10:00:03Z', grep: 'orders' }, true);
+    expect(windowed.logs).toBe(mixedLogs.split('\n')[1]);
+  });
+
+  test('filters on JSON and logfmt fields', () => {
+    expect(filterLogs(mixedLogs, { fields: ['status>=500'] }).matchedEntries).toBe(1);
+    expect(filterLogs(mixedLogs, { fields: ['http.host=db-1', 'level=ERR'] }).matchedEntries).toBe(1);
+    expect(filterLogs(mixedLogs, { fields: ['msg=~^slow', 'duration>2'] }).matchedEntries).toBe(1);
+    expect(filterLogs(mixedLogs, { fields: ['status!=200'], output: 'structured' })).toMatchObject({
+      matchedEntries: 2,
+      entries: [
+        { line: 2, level: 'error', message: 'GET /orders/17 failed', fields: { status: 502 } },
+        { line: 3, level: 'warn', message: 'slow query' },
+      ],
+    });
+  });
+
+  test('summarizes repeated lines into patterns', () => {
+    const summary = filterLogs(mixedLogs, { output: 'summary' });
+
+    expect(summary).toMatchObject({ totalEntries: 5, totalPatterns: 4 });
+    expect(summary.patterns![0]).toEqual({
+      pattern: 'ERROR connection to <ip> refused',
+      level: 'error',
+      count: 2,
+      firstSeen: '2024-05-01T10:00:03.000Z',
+      lastSeen: '2024-05-01T10:00:04.000Z',
+      example: 'ERROR connection to 10.0.0.12:5432 refused',
+    });
+  });
+
+  test('masks variable parts of messages', () => {
+    expect(logPattern('job 4f9c2a1e-0b7d-4c3e-9a55-1f2e3d4c5b6a took 35ms at 2024-05-01T10:00:00Z'))
+      .toBe('job <uuid> took <num>ms at <time>');
+  });
+
+  test('rejects invalid options', () => {
+    expect(() => validateLogFilterOptions({ grep: '(' })).toThrow(/Invalid grep/);
+    expect(() => validateLogFilterOptions({ level: 'loud' })).toThrow(/Invalid level/);
+    expect(() => validateLogFilterOptions({ fields: ['status >> 5'] })).toThrow(/Invalid fields/);
+    expect(() => validateLogFilterOptions({ startTime: 'yesterday' })).toThrow(/Invalid startTime/);
+    expect(() => validateLogFilterOptions({ output: 'xml' })).toThrow(/Invalid output/);
+  });
+});
+
+describe('kubectl_logs filters', () => {
+  beforeEach(() => {
+    mockExec.mockReset();
+    mockExec.mockReturnValue(mixedLogs);
+  });
+
+  test('asks kubectl for timestamps and a start time when filtering by time', async () => {
+    const result = await kubectlLogs({} as KubernetesManager, {
+      resourceType: 'pod',
+      name: 'web-1',
+      namespace: 'shop',
+      startTime: '2024-05-01T10:00:03Z',
+      level: 'error',
+    });
+
+    expect(mockExec.mock.calls[0][1]).toEqual([
+      '-n', 'shop', 'logs', 'web-1', '--since-time=2024-05-01T10:00:03.000Z', '--timestamps',
+    ]);
+    const output = JSON.parse(result.content[0].text);
+    expect(output.logs).toMatchObject({ matchedEntries: 2 });
+    expect(output.logs.logs).not.toContain('2024-05-01T10:00:03.000000000Z');
+  });
+
+  test('returns the raw output without filters', async () => {
+    const result = await kubectlLogs({} as KubernetesManager, { resourceType: 'pod', name: 'web-1', namespace: 'shop' });
+    expect(JSON.parse(result.content[0].text)).toEqual({ name: 'web-1', logs: mixedLogs });
+  });
+});
+
+describe('kubectl_logs merged view', () => {
+  const pods = {
+    items: [
+      { metadata: { name: 'web-1' }, spec: { initContainers: [{ name: 'migrate' }], containers: [{ name: 'app' }, { name: 'proxy' }] } },
+      { metadata: { name: 'web-2' }, spec: { containers: [{ name: 'app' }] } },
+    ],
+  };
+  const logs: Record<string, string> = {
+    'web-1/migrate': '2024-05-01T10:00:00.000000000Z migrated\n',
+    'web-1/app': '2024-05-01T10:00:02.000000000Z started\n2024-05-01T10:00:04.000000000Z ERROR boom\n2024-05-01T10:00:04.000000000Z   at main\n',
+    'web-1/proxy': '2024-05-01T10:00:03.000000000Z listening\n',
+    'web-2/app': '2024-05-01T10:00:01.000000000Z started\n',
+  };
+
+  beforeEach(() => {
+    mockExec.mockReset();
+    mockExec.mockImplementation(((_cmd: string, args: string[]) => {
+      if (args.includes('deployment')) return '{"app":"web"}';
+      if (args.includes('pods')) return JSON.stringify(pods);
+      const source = `${args[args.indexOf('logs') + 1]}/${args[args.indexOf('-c') + 1]}`;
+      if (!(source in logs)) throw new Error('container not found');
+      return logs[source];
+    }) as any);
+  });
+
+  test('merges all pods and containers into one timeline', async () => {
+    const result = await kubectlLogs({} as KubernetesManager, { resourceType: 'deployment', name: 'web', namespace: 'shop' });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(mockExec.mock.calls[2][1]).toEqual(['-n', 'shop', 'logs', 'web-1', '-c', 'migrate', '--tail=200', '--timestamps']);
+    expect(output).toMatchObject({ pods: 2, containers: 4, totalEntries: 5, matchedEntries: 5, returnedEntries: 5 });
+    expect(output.logs).toBe([
+      '[web-1/migrate] migrated',
+      '[web-2/app] started',
+      '[web-1/app] started',
+      '[web-1/proxy] listening',
+      '[web-1/app] ERROR boom',
+      '[web-1/app]   at main',
+    ].join('\n'));
+  });
+
+  test('applies the per-pod cap and the byte budget', async () => {
+    const input = { resourceType: 'deployment', name: 'web', namespace: 'shop', maxLinesPerPod: 2, maxBytes: 70 };
+    const output = JSON.parse((await kubectlLogs({} as KubernetesManager, input)).content[0].text);
+
+    expect(output.returnedEntries).toBe(2);
+    expect(output.truncated).toMatch(/^3 older entries omitted/);
+    expect(output.logs).toBe('[web-1/proxy] listening\n[web-1/app] ERROR boom\n[web-1/app]   at main');
+  });
+
+  test('searches a bounded tail of each container when filtering', async () => {
+    const input = { resourceType: 'deployment', name: 'web', namespace: 'shop', maxLinesPerPod: 2, grep: 'ERROR' };
+    const output = JSON.parse((await kubectlLogs({} as KubernetesManager, input)).content[0].text);
+
+    expect(mockExec.mock.calls[2][1]).toContain('--tail=100');
+    expect(output.logs).toBe('[web-1/app] ERROR boom\n[web-1/app]   at main');
+  });
+
+  test('keeps separate logs per pod when merge is false', async () => {
+    const input = { resourceType: 'deployment', name: 'web', namespace: 'shop', container: 'app', merge: false };
+    const output = JSON.parse((await kubectlLogs({} as KubernetesManager, input)).content[0].text);
+
+    expect(Object.keys(output.logs)).toEqual(['web-1', 'web-2']);
+  });
+});
+
+describe('kubectl_logs follow', () => {
+  // Stand-in for a running `kubectl logs --follow`
+  function fakeFollow() {
+    const child: any = new EventEmitter();
+    child.stdout = new EventEmitter();
+    child.stderr = new EventEmitter();
+    child.kill = vi.fn(() => setImmediate(() => child.emit('close', null)));
+    mockSpawn.mockReturnValueOnce(child);
+    return child;
+  }
+
+  beforeEach(() => {
+    mockSpawn.mockReset();
+  });
+
+  test('stops when a line matches until and reports lines as progress', async () => {
+    const child = fakeFollow();
+    const reportProgress = vi.fn().mockResolvedValue(undefined);
+    const pending = kubectlLogs(
+      {} as KubernetesManager,
+      { resourceType: 'pod', name: 'web-1', namespace: 'shop', follow: true, until: 'Server started' },
+      { reportProgress }
+    );
+
+    child.stdout.emit('data', 'booting\nServer sta');
+    child.stdout.emit('data', 'rted on :8080\nignored\n');
+    const output = JSON.parse((await pending).content[0].text);
+
+    expect(mockSpawn.mock.calls[0][1]).toEqual(['-n', 'shop', 'logs', 'web-1', '--tail=100', '--follow']);
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    expect(output.logs).toBe('booting\nServer started on :8080');
+    expect(output.follow).toMatchObject({ stoppedBy: 'match', matched: true, matchedLine: 'Server started on :8080', lines: 2 });
+    expect(reportProgress).toHaveBeenCalledWith(2, 'booting\nServer started on :8080');
+  });
+
+  test('stops when the client cancels', async () => {
+    const child = fakeFollow();
+    const controller = new AbortController();
+    const pending = kubectlLogs(
+      {} as KubernetesManager,
+      { resourceType: 'pod', name: 'web-1', namespace: 'shop', follow: true, tail: 5, followSeconds: 60 },
+      { signal: controller.signal }
+    );
+
+    child.stdout.emit('data', 'one\n');
+    controller.abort();
+    const output = JSON.parse((await pending).content[0].text);
+
+    expect(output.follow).toMatchObject({ stoppedBy: 'cancelled', lines: 1 });
+    expect(output.logs).toBe('one');
+  });
+
+  test('rejects follow for workloads and bad bounds', async () => {
+    await expect(kubectlLogs({} as KubernetesManager, { resourceType: 'deployment', name: 'web', namespace: 'shop', follow: true }))
+      .rejects.toThrow(/only supported for pods/);
+    await expect(kubectlLogs({} as KubernetesManager, { resourceType: 'pod', name: 'web', namespace: 'shop', follow: true, followSeconds: 3600 }))
+      .rejects.toThrow(/Invalid followSeconds/);
+  });
+});
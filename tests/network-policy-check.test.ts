@@ -0,0 +1,106 @@
+import { expect, describe, test, vi } from 'vitest';
+import { networkPolicyCheck } from '../src/tools/network-policy-check.js';
+import { KubernetesManager } from '../src/types.js';
+
+const namespaces: Record<string, Record<string, string>> = {
+  shop: { 'kubernetes.io/metadata.name': 'shop', team: 'shop' },
+  data: { 'kubernetes.io/metadata.name': 'data' },
+};
+
+const pods: Record<string, any> = {
+  'shop/web-1': { metadata: { labels: { app: 'web' } }, spec: { containers: [{ name: 'app' }] }, status: { podIP: '10.1.0.5' } },
+  'data/db-0': {
+    metadata: { labels: { app: 'db' } },
+    spec: { containers: [{ name: 'postgres', ports: [{ name: 'postgres', containerPort: 5432 }] }] },
+    status: { podIP: '10.1.1.7' },
+  },
+};
+
+const policies = [
+  { metadata: { name: 'db-ingress', namespace: 'data' }, spec: {
+    podSelector: { matchLabels: { app: 'db' } },
+    ingress: [
+      { from: [{ namespaceSelector: { matchLabels: { team: 'shop' } }, podSelector: { matchLabels: { app: 'web' } } }], ports: [{ port: 'postgres' }] },
+      { from: [{ ipBlock: { cidr: '0.0.0.0/0', except: ['203.0.113.0/24'] } }], ports: [{ port: 5432 }] },
+    ],
+  } },
+  { metadata: { name: 'default-deny-egress', namespace: 'shop' }, spec: { podSelector: {}, policyTypes: ['Egress'] } },
+  { metadata: { name: 'allow-dns', namespace: 'shop' }, spec: {
+    podSelector: {},
+    egress: [{ ports: [{ port: 53, protocol: 'UDP' }] }],
+  } },
+];
+
+function cluster(items = policies) {
+  const client = {
+    resolveResource: vi.fn().mockResolvedValue({ name: 'networkpolicies' }),
+    listResources: vi.fn(async (_resource: any, options: any) => ({
+      items: items.filter((p) => p.metadata.namespace === options.namespace),
+    })),
+  };
+  const coreApi = {
+    readNamespace: vi.fn(async (name: string) => ({ body: { metadata: { labels: namespaces[name] } } })),
+    readNamespacedPod: vi.fn(async (name: string, namespace: string) => {
+      if (!pods[`${namespace}/${name}`]) throw { statusCode: 404 };
+      return { body: pods[`${namespace}/${name}`] };
+    }),
+  };
+  return { client, k8sManager: { getCoreApi: () => coreApi, getDynamicClient: () => client } as unknown as KubernetesManager };
+}
+
+async function check(input: any, items = policies) {
+  const { k8sManager } = cluster(items);
+  return JSON.parse((await networkPolicyCheck(k8sManager, input)).content[0].text);
+}
+
+describe('network_policy_check', () => {
+  test('names the policies on both sides of a pod to pod connection', async () => {
+    const result = await check({
+      sourcePod: 'web-1', sourceNamespace: 'shop', destinationPod: 'db-0', destinationNamespace: 'data', portName: 'postgres',
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.summary).toBe('Denied by the policies on egress from the source (default-deny-egress, allow-dns)');
+    expect(result.port).toEqual({ port: 5432, name: 'postgres', protocol: 'TCP' });
+    expect(result.ingress).toMatchObject({
+      allowed: true,
+      isolated: true,
+      policies: ['db-ingress'],
+      allowedBy: [
+        { policy: 'db-ingress', rule: 0, peer: 'namespaces team=shop and pods app=web' },
+        { policy: 'db-ingress', rule: 1, peer: 'ipBlock 0.0.0.0/0 except 203.0.113.0/24' },
+      ],
+    });
+    expect(result.egress).toMatchObject({ allowed: false, policies: ['default-deny-egress', 'allow-dns'], allowedBy: [] });
+
+    const withoutEgressPolicies = await check(
+      { sourcePod: 'web-1', sourceNamespace: 'shop', destinationPod: 'db-0', destinationNamespace: 'data', port: 5432 },
+      policies.slice(0, 1)
+    );
+    expect(withoutEgressPolicies).toMatchObject({ allowed: true, egress: { isolated: false } });
+  });
+
+  test('evaluates pods described by labels and addresses outside the cluster', async () => {
+    const fromOtherTeam = await check({
+      sourceLabels: ['app=web'], sourceNamespace: 'data', sourceIP: '203.0.113.9',
+      destinationLabels: ['app=db'], destinationNamespace: 'data', port: 5432,
+    });
+    expect(fromOtherTeam.allowed).toBe(false);
+    expect(fromOtherTeam.ingress.reason).toBe('db-ingress select the pod for ingress, and none of their rules allows this peer on this port');
+
+    const external = await check({ sourceIP: '198.51.100.7', destinationPod: 'db-0', destinationNamespace: 'data', port: 5432 });
+    expect(external).toMatchObject({
+      allowed: true,
+      source: { external: true, ip: '198.51.100.7' },
+      egress: { isolated: false, reason: 'The source is outside the cluster, so no NetworkPolicy applies to it' },
+      ingress: { allowedBy: [{ policy: 'db-ingress', rule: 1 }] },
+    });
+  });
+
+  test('rejects incomplete input', async () => {
+    await expect(check({ destinationPod: 'db-0', destinationNamespace: 'data', port: 5432 })).rejects.toThrow(/Give sourcePod, sourceLabels or sourceIP/);
+    await expect(check({ sourceIP: '10.0.0.1', destinationPod: 'db-0', destinationNamespace: 'data' })).rejects.toThrow(/exactly one of port or portName/);
+    await expect(check({ sourceIP: '10.0.0.1', destinationPod: 'db-0', destinationNamespace: 'data', portName: 'http' })).rejects.toThrow(/no TCP container port named 'http'/);
+    await expect(check({ sourceLabels: ['app'], destinationIP: '10.0.0.1', port: 80 })).rejects.toThrow(/Invalid sourceLabels 'app'/);
+  });
+});
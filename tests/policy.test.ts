@@ -0,0 +1,155 @@
+import { expect, describe, test, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Policy, enforcePolicy, isToolAllowedByPolicy, loadPolicy, normalizeKind } from '../src/utils/policy.js';
+
+describe('policy', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-policy-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writePolicy(name: string, content: string) {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  describe('loadPolicy', () => {
+    test('returns undefined without MCP_POLICY_FILE', () => {
+      expect(loadPolicy({})).toBeUndefined();
+    });
+
+    test('loads YAML and JSON policies', () => {
+      const yamlFile = writePolicy('policy.yaml', 'namespaces:\n  deny: [kube-system]\n');
+      expect(loadPolicy({ MCP_POLICY_FILE: yamlFile })).toEqual({ namespaces: { deny: ['kube-system'] } });
+
+      const jsonFile = writePolicy('policy.json', '{"tools": {"deny": ["kubectl_delete"]}}');
+      expect(loadPolicy({ MCP_POLICY_FILE: jsonFile })).toEqual({ tools: { deny: ['kubectl_delete'] } });
+    });
+
+    test('rejects unknown sections and malformed lists', () => {
+      const unknown = writePolicy('unknown.yaml', 'verbs:\n  deny: [delete]\n');
+      expect(() => loadPolicy({ MCP_POLICY_FILE: unknown })).toThrow(/unknown section "verbs"/);
+
+      const malformed = writePolicy('malformed.yaml', 'tools:\n  deny: kubectl_delete\n');
+      expect(() => loadPolicy({ MCP_POLICY_FILE: malformed })).toThrow(/tools.deny must be/);
+    });
+  });
+
+  test('normalizes kinds, plurals and short names', () => {
+    expect(normalizeKind('Secret')).toBe('secret');
+    expect(normalizeKind('secrets')).toBe('secret');
+    expect(normalizeKind('NetworkPolicy')).toBe(normalizeKind('networkpolicies'));
+    expect(normalizeKind('netpol')).toBe('networkpolicy');
+    expect(normalizeKind('ingresses')).toBe(normalizeKind('Ingress'));
+    expect(normalizeKind('deployments.apps')).toBe('deployment');
+  });
+
+  describe('enforcePolicy', () => {
+    const policy: Policy = {
+      tools: { deny: ['kubectl_delete'] },
+      namespaces: { deny: ['kube-*'] },
+      kinds: { deny: ['Secret'] },
+      genericCommands: { allow: ['get', 'top', 'rollout status'] },
+    };
+
+    test('denies tools', () => {
+      expect(isToolAllowedByPolicy(policy, 'kubectl_delete')).toBe(false);
+      expect(() => enforcePolicy(policy, 'kubectl_delete', { resourceType: 'pod', name: 'web' })).toThrow(
+        'Denied by policy: kubectl_delete is not allowed: tools.deny contains "kubectl_delete"'
+      );
+    });
+
+    test('denies namespaces, including wildcards and all-namespace calls', () => {
+      expect(() => enforcePolicy(policy, 'kubectl_get', { resourceType: 'pods', namespace: 'kube-system' })).toThrow(
+        /on namespace "kube-system" is not allowed: namespaces.deny contains "kube-\*"/
+      );
+      expect(() => enforcePolicy(policy, 'kubectl_get', { resourceType: 'pods', allNamespaces: true })).toThrow(
+        /across all namespaces/
+      );
+      expect(() => enforcePolicy(policy, 'kubectl_get', { resourceType: 'events' })).toThrow(/across all namespaces/);
+      expect(() => enforcePolicy(policy, 'kubectl_get', { resourceType: 'pods', namespace: 'web' })).not.toThrow();
+    });
+
+    test('denies kinds by any name and inside manifests', () => {
+      expect(() => enforcePolicy(policy, 'kubectl_get', { resourceType: 'secrets', namespace: 'web' })).toThrow(
+        /on kind "secrets" is not allowed/
+      );
+      const manifest = 'apiVersion: v1\nkind: Secret\nmetadata:\n  name: creds\n  namespace: web\n';
+      expect(() => enforcePolicy(policy, 'kubectl_apply', { manifest })).toThrow(/on kind "Secret"/);
+      expect(() => enforcePolicy(policy, 'kubectl_search', { query: 'x', namespaces: ['web'], resourceTypes: ['secret'] })).toThrow(
+        /on kind "secret"/
+      );
+      expect(() => enforcePolicy(policy, 'helm_get_values', { name: 'ingress', namespace: 'web' })).toThrow(/on kind "secrets"/);
+    });
+
+    test('checks the namespaces of both ends of network_policy_check', () => {
+      const input = { sourcePod: 'web', sourceNamespace: 'web', destinationLabels: ['app=dns'], destinationNamespace: 'kube-system', port: 53 };
+      expect(() => enforcePolicy(policy, 'network_policy_check', input)).toThrow(/namespace "kube-system"/);
+      expect(() => enforcePolicy(policy, 'network_policy_check', { ...input, destinationNamespace: 'web' })).not.toThrow();
+    });
+
+    test('restricts kubectl_generic commands', () => {
+      expect(() => enforcePolicy(policy, 'kubectl_generic', { command: 'top', resourceType: 'pods', namespace: 'web' })).not.toThrow();
+      expect(() =>
+        enforcePolicy(policy, 'kubectl_generic', { command: 'rollout', subCommand: 'undo', resourceType: 'deployment', namespace: 'web' })
+      ).toThrow(/command "rollout undo" is not allowed: it is not in genericCommands.allow/);
+      expect(() =>
+        enforcePolicy(policy, 'kubectl_generic', { command: 'get', resourceType: 'pods', flags: { namespace: 'kube-system' } })
+      ).toThrow(/namespace "kube-system"/);
+    });
+
+    test('takes the kubectl_generic subcommand from args', () => {
+      const denyUndo = { genericCommands: { deny: ['rollout undo'] } };
+      expect(() => enforcePolicy(denyUndo, 'kubectl_generic', { command: 'rollout', args: ['undo', 'deploy/x'], namespace: 'web' })).toThrow(
+        /command "rollout undo" is not allowed/
+      );
+      expect(() =>
+        enforcePolicy(denyUndo, 'kubectl_generic', { command: 'rollout', args: ['-n', 'web', 'undo', 'deploy/x'] })
+      ).toThrow(/command "rollout undo" is not allowed/);
+      expect(() => enforcePolicy(denyUndo, 'kubectl_generic', { command: 'rollout', resourceType: 'undo', name: 'deploy/x' })).toThrow(
+        /command "rollout undo" is not allowed/
+      );
+      expect(() =>
+        enforcePolicy(denyUndo, 'kubectl_generic', { command: 'rollout', args: ['status', 'deploy/x'], namespace: 'web' })
+      ).not.toThrow();
+    });
+
+    test('checks the namespaces and kinds in kubectl_generic args', () => {
+      expect(() => enforcePolicy(policy, 'kubectl_generic', { command: 'get', args: ['pods', '-n', 'kube-system'] })).toThrow(
+        /namespace "kube-system"/
+      );
+      expect(() => enforcePolicy(policy, 'kubectl_generic', { command: 'get', args: ['--namespace=kube-public', 'pods'] })).toThrow(
+        /namespace "kube-public"/
+      );
+      expect(() => enforcePolicy(policy, 'kubectl_generic', { command: 'get', args: ['pods', '-A'] })).toThrow(/across all namespaces/);
+      expect(() => enforcePolicy(policy, 'kubectl_generic', { command: 'get', args: ['secrets'] })).toThrow(/on kind "secrets"/);
+      expect(() => enforcePolicy(policy, 'kubectl_generic', { command: 'get', args: ['pods,secret', '-n', 'web'] })).toThrow(
+        /on kind "secret"/
+      );
+      expect(() =>
+        enforcePolicy(policy, 'kubectl_generic', { command: 'top', args: ['secret/db', '-n', 'web'] })
+      ).toThrow(/on kind "secret"/);
+      expect(() =>
+        enforcePolicy(policy, 'kubectl_generic', { command: 'get', args: ['pods', '-l', 'app=secrets', '-n', 'web'] })
+      ).not.toThrow();
+    });
+
+    test('applies allow lists', () => {
+      const allowOnly: Policy = { namespaces: { allow: ['team-a'] }, tools: { allow: ['kubectl_get', 'kubectl_context'] } };
+      expect(() => enforcePolicy(allowOnly, 'kubectl_get', { resourceType: 'pods' })).toThrow(
+        /namespace "default" is not allowed: it is not in namespaces.allow/
+      );
+      expect(() => enforcePolicy(allowOnly, 'kubectl_get', { resourceType: 'pods', namespace: 'team-a' })).not.toThrow();
+      expect(() => enforcePolicy(allowOnly, 'kubectl_context', { operation: 'list' })).not.toThrow();
+      expect(isToolAllowedByPolicy(allowOnly, 'kubectl_apply')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { expect, describe, test } from 'vitest';
+import { getPromptHandlers } from '../src/prompts/handlers.js';
+
+describe('prompts', () => {
+  const handlers = getPromptHandlers();
+
+  test('lists the troubleshooting playbooks with their arguments', async () => {
+    const { prompts } = await handlers.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'diagnose-crashlooping-pod',
+      'service-unreachable',
+      'review-deployment',
+      'investigate-gpu-pod',
+    ]);
+    for (const prompt of prompts) {
+      expect(prompt.arguments).toContainEqual(expect.objectContaining({ name: 'name', required: true }));
+      expect(prompt.arguments).toContainEqual(expect.objectContaining({ name: 'namespace' }));
+    }
+  });
+
+  test('renders a playbook wired to the tools', async () => {
+    const result = await handlers.getPrompt({
+      params: { name: 'diagnose-crashlooping-pod', arguments: { name: 'web-1', namespace: 'shop', container: 'app' } },
+    });
+    const text = result.messages[0].content.text;
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('Call kubectl_describe with resourceType "pod", name "web-1", namespace "shop"');
+    expect(text).toContain('container "app", previous true');
+    expect(text).toContain('fieldSelector "involvedObject.name=web-1"');
+  });
+
+  test('defaults the namespace and uses the client pod for connectivity checks', async () => {
+    const result = await handlers.getPrompt({
+      params: { name: 'service-unreachable', arguments: { name: 'api', port: '8080', clientPod: 'debug' } },
+    });
+    expect(result.messages[0].content.text).toContain(
+      'Call kubectl_curl with podName "debug", namespace "default", url "http://api.default.svc.cluster.local:8080/"'
+    );
+  });
+
+  test('rejects unknown prompts, missing and invalid arguments', async () => {
+    await expect(handlers.getPrompt({ params: { name: 'nope' } })).rejects.toThrow('Unknown prompt: nope');
+    await expect(handlers.getPrompt({ params: { name: 'review-deployment', arguments: {} } })).rejects.toThrow(
+      'Missing required argument "name"'
+    );
+    await expect(
+      handlers.getPrompt({ params: { name: 'review-deployment', arguments: { name: 'web; rm -rf /' } } })
+    ).rejects.toThrow(/name/);
+  });
+});
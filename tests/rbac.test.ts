@@ -0,0 +1,155 @@
+import { expect, describe, test, vi } from 'vitest';
+import { rbacCanI, rbacDescribeSubject, rbacWhoCan } from '../src/tools/rbac.js';
+import { ruleAllows } from '../src/utils/rbac.js';
+import { KubernetesManager } from '../src/types.js';
+
+const clusterRoles = [
+  { metadata: { name: 'view' }, aggregationRule: { clusterRoleSelectors: [{ matchLabels: { 'rbac.example.com/aggregate-to-view': 'true' } }] }, rules: [] },
+  { metadata: { name: 'pod-reader', labels: { 'rbac.example.com/aggregate-to-view': 'true' } }, rules: [{ apiGroups: [''], resources: ['pods', 'pods/log'], verbs: ['get', 'list'] }] },
+  { metadata: { name: 'metrics' }, rules: [{ nonResourceURLs: ['/metrics*'], verbs: ['get'] }] },
+];
+const roles = [
+  { metadata: { name: 'deployer', namespace: 'shop' }, rules: [{ apiGroups: ['apps'], resources: ['deployments'], verbs: ['*'] }] },
+];
+const clusterRoleBindings = [
+  { metadata: { name: 'viewers' }, roleRef: { kind: 'ClusterRole', name: 'view' }, subjects: [{ kind: 'Group', name: 'auditors' }] },
+  { metadata: { name: 'scrapers' }, roleRef: { kind: 'ClusterRole', name: 'metrics' }, subjects: [{ kind: 'ServiceAccount', name: 'prometheus', namespace: 'monitoring' }] },
+];
+const roleBindings = [
+  { metadata: { name: 'ci', namespace: 'shop' }, roleRef: { kind: 'Role', name: 'deployer' }, subjects: [{ kind: 'ServiceAccount', name: 'ci', namespace: 'shop' }] },
+  { metadata: { name: 'shop-view', namespace: 'shop' }, roleRef: { kind: 'ClusterRole', name: 'view' }, subjects: [{ kind: 'ServiceAccount', name: 'ci', namespace: 'shop' }] },
+];
+
+const resources: Record<string, any> = {
+  pods: { group: '', name: 'pods', namespaced: true },
+  deploy: { group: 'apps', name: 'deployments', namespaced: true },
+  nodes: { group: '', name: 'nodes', namespaced: false },
+};
+
+function cluster() {
+  const list = (items: any[]) => vi.fn(async (namespace?: string) => ({
+    body: { items: namespace ? items.filter((i) => i.metadata.namespace === namespace) : items },
+  }));
+  const rbacApi = {
+    listClusterRole: list(clusterRoles),
+    listClusterRoleBinding: list(clusterRoleBindings),
+    listNamespacedRole: list(roles),
+    listNamespacedRoleBinding: list(roleBindings),
+    listRoleForAllNamespaces: list(roles),
+    listRoleBindingForAllNamespaces: list(roleBindings),
+  };
+  const authorizationApi = {
+    createSelfSubjectAccessReview: vi.fn(async () => ({ body: { status: { allowed: true, reason: 'RBAC: allowed by ClusterRoleBinding "admins"' } } })),
+    createSubjectAccessReview: vi.fn(async () => ({ body: { status: { allowed: false } } })),
+  };
+  const client = { resolveResource: vi.fn(async (type: string) => resources[type]) };
+  const k8sManager = {
+    getRbacApi: () => rbacApi,
+    getAuthorizationApi: () => authorizationApi,
+    getDynamicClient: () => client,
+  } as unknown as KubernetesManager;
+  return { k8sManager, rbacApi, authorizationApi };
+}
+
+const parse = (result: any) => JSON.parse(result.content[0].text);
+
+describe('ruleAllows', () => {
+  test('follows the wildcards, subresources and resourceNames of RBAC', () => {
+    const request = { verb: 'get', group: '', resource: 'pods', subresource: 'log' };
+    expect(ruleAllows({ apiGroups: [''], resources: ['pods/log'], verbs: ['get'] }, request)).toBe(true);
+    expect(ruleAllows({ apiGroups: [''], resources: ['*/log'], verbs: ['*'] }, request)).toBe(true);
+    expect(ruleAllows({ apiGroups: [''], resources: ['pods'], verbs: ['get'] }, request)).toBe(false);
+    expect(ruleAllows({ apiGroups: ['*'], resources: ['secrets'], resourceNames: ['tls'], verbs: ['get'] }, { verb: 'get', group: '', resource: 'secrets' })).toBe(false);
+    expect(ruleAllows({ apiGroups: ['*'], resources: ['secrets'], resourceNames: ['tls'], verbs: ['get'] }, { verb: 'get', group: '', resource: 'secrets', name: 'tls' })).toBe(true);
+    expect(ruleAllows({ nonResourceURLs: ['/healthz/*'], verbs: ['get'] }, { verb: 'get', nonResourceURL: '/healthz/ready' })).toBe(true);
+  });
+});
+
+describe('rbac_can_i', () => {
+  test('asks a SelfSubjectAccessReview for the current credentials', async () => {
+    const { k8sManager, authorizationApi } = cluster();
+    const result = parse(await rbacCanI(k8sManager, { verb: 'list', resource: 'deploy', namespace: 'shop' }));
+
+    expect(result).toMatchObject({ allowed: true, subject: 'current credentials' });
+    expect(authorizationApi.createSelfSubjectAccessReview).toHaveBeenCalledWith(expect.objectContaining({
+      spec: { resourceAttributes: { verb: 'list', group: 'apps', resource: 'deployments', namespace: 'shop' } },
+    }));
+  });
+
+  test('impersonates a ServiceAccount with its groups', async () => {
+    const { k8sManager, authorizationApi } = cluster();
+    const result = parse(await rbacCanI(k8sManager, { verb: 'get', resource: 'pods/log', serviceAccount: 'shop/ci' }));
+
+    expect(result.allowed).toBe(false);
+    expect(authorizationApi.createSubjectAccessReview).toHaveBeenCalledWith(expect.objectContaining({
+      spec: {
+        resourceAttributes: { verb: 'get', group: '', resource: 'pods', subresource: 'log' },
+        user: 'system:serviceaccount:shop:ci',
+        groups: ['system:serviceaccounts', 'system:serviceaccounts:shop', 'system:authenticated'],
+      },
+    }));
+  });
+
+  test('rejects ambiguous requests', async () => {
+    const { k8sManager } = cluster();
+    await expect(rbacCanI(k8sManager, { verb: 'get' })).rejects.toThrow('Give resource or nonResourceURL');
+    await expect(rbacCanI(k8sManager, { verb: 'get', resource: 'pods', nonResourceURL: '/metrics' })).rejects.toThrow('not both');
+    await expect(rbacCanI(k8sManager, { verb: 'get', resource: 'pods', serviceAccount: 'ci' })).rejects.toThrow('<namespace>/<name>');
+  });
+});
+
+describe('rbac_who_can', () => {
+  test('lists subjects with the bindings that grant the action, including aggregated roles', async () => {
+    const { k8sManager, rbacApi } = cluster();
+    const result = parse(await rbacWhoCan(k8sManager, { verb: 'get', resource: 'pods/log', namespace: 'shop' }));
+
+    expect(rbacApi.listNamespacedRoleBinding).toHaveBeenCalledWith('shop');
+    expect(result.summary).toBe('2 subject(s) can get pods/log in namespace shop');
+    expect(result.subjects).toEqual([
+      {
+        kind: 'Group', name: 'auditors', scopes: ['cluster'],
+        grantedBy: [{ binding: { kind: 'ClusterRoleBinding', name: 'viewers' }, role: { kind: 'ClusterRole', name: 'view' }, aggregatedFrom: ['pod-reader'] }],
+      },
+      {
+        kind: 'ServiceAccount', name: 'ci', namespace: 'shop', scopes: ['shop'],
+        grantedBy: [{ binding: { kind: 'RoleBinding', name: 'shop-view', namespace: 'shop' }, role: { kind: 'ClusterRole', name: 'view' }, aggregatedFrom: ['pod-reader'] }],
+      },
+    ]);
+  });
+
+  test('ignores RoleBindings for cluster-scoped resources and URLs', async () => {
+    const { k8sManager } = cluster();
+    const nodes = parse(await rbacWhoCan(k8sManager, { verb: 'list', resource: 'nodes' }));
+    expect(nodes.subjects).toEqual([]);
+
+    const metrics = parse(await rbacWhoCan(k8sManager, { verb: 'get', nonResourceURL: '/metrics' }));
+    expect(metrics.subjects.map((s: any) => s.name)).toEqual(['prometheus']);
+  });
+});
+
+describe('rbac_describe_subject', () => {
+  test('collects the rules of every binding of a ServiceAccount', async () => {
+    const { k8sManager } = cluster();
+    const result = parse(await rbacDescribeSubject(k8sManager, { kind: 'ServiceAccount', name: 'ci', namespace: 'shop' }));
+
+    expect(result.summary).toBe('2 binding(s) grant 2 rule(s)');
+    expect(result.rules).toEqual([
+      { scope: 'shop', verbs: ['*'], apiGroups: ['apps'], resources: ['deployments'], via: 'RoleBinding/ci -> Role/deployer' },
+      { scope: 'shop', verbs: ['get', 'list'], apiGroups: [''], resources: ['pods', 'pods/log'], via: 'RoleBinding/shop-view -> ClusterRole/view' },
+    ]);
+  });
+
+  test('matches users through their groups', async () => {
+    const { k8sManager } = cluster();
+    const result = parse(await rbacDescribeSubject(k8sManager, { kind: 'User', name: 'jane', groups: ['auditors'] }));
+
+    expect(result.bindings).toEqual([{
+      binding: { kind: 'ClusterRoleBinding', name: 'viewers' },
+      role: { kind: 'ClusterRole', name: 'view' },
+      scope: 'cluster',
+      matchedAs: ['Group/auditors'],
+      aggregatedFrom: ['pod-reader'],
+    }]);
+    await expect(rbacDescribeSubject(k8sManager, { kind: 'ServiceAccount', name: 'ci' })).rejects.toThrow('namespace is required');
+  });
+});
@@ -0,0 +1,75 @@
+import { expect, describe, test, vi } from 'vitest';
+import yaml from 'yaml';
+import { getResourceHandlers, parseResourceUri } from '../src/resources/handlers.js';
+import { KubernetesManager } from '../src/types.js';
+
+describe('parseResourceUri', () => {
+  test('parses objects, namespaced lists and cluster lists', () => {
+    expect(parseResourceUri('k8s://prod/shop/deployments.apps/web')).toEqual({
+      context: 'prod',
+      namespace: 'shop',
+      kind: 'deployments.apps',
+      name: 'web',
+      mimeType: 'application/json',
+    });
+    expect(parseResourceUri('k8s://shop/certificates.cert-manager.io?format=yaml')).toEqual({
+      namespace: 'shop',
+      kind: 'certificates.cert-manager.io',
+      mimeType: 'application/yaml',
+    });
+    expect(parseResourceUri('k8s://cluster/nodes')).toEqual({ kind: 'nodes', mimeType: 'application/json' });
+    expect(parseResourceUri('k8s://prod/cluster/nodes/node-1')).toMatchObject({ namespace: undefined, name: 'node-1' });
+    expect(parseResourceUri('k8s://namespaces')).toEqual({ kind: 'namespaces', mimeType: 'application/json' });
+  });
+
+  test('rejects malformed URIs and formats', () => {
+    expect(() => parseResourceUri('http://shop/pods')).toThrow(/Unsupported resource URI/);
+    expect(() => parseResourceUri('k8s://a/b/c')).toThrow(/Expected k8s:\/\//);
+    expect(() => parseResourceUri('k8s://shop/pods?format=xml')).toThrow(/Unsupported format "xml"/);
+    expect(() => parseResourceUri('k8s://Shop;id/pods')).toThrow(/namespace/);
+  });
+});
+
+describe('resource handlers', () => {
+  const deployments = { group: 'apps', version: 'v1', apiVersion: 'apps/v1', kind: 'Deployment', name: 'deployments', namespaced: true };
+  const client = {
+    resolveResource: vi.fn().mockResolvedValue(deployments),
+    getResource: vi.fn().mockResolvedValue({ apiVersion: 'apps/v1', kind: 'Deployment', metadata: { name: 'web' } }),
+    listResources: vi.fn().mockResolvedValue({ items: [{ kind: 'Deployment', metadata: { name: 'web' } }] }),
+  };
+  const k8sManager = { getDynamicClient: vi.fn().mockReturnValue(client) } as unknown as KubernetesManager;
+  const handlers = getResourceHandlers(k8sManager);
+
+  test('lists the resource templates', async () => {
+    const { resourceTemplates } = await handlers.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'k8s://{context}/{namespace}/{kind}/{name}{?format}',
+      'k8s://{namespace}/{kind}{?format}',
+      'k8s://cluster/{kind}{?format}',
+    ]);
+  });
+
+  test('reads a single object in a context as YAML', async () => {
+    const uri = 'k8s://prod/shop/deployments/web?format=yaml';
+    const { contents } = await handlers.readResource({ params: { uri } });
+
+    expect(k8sManager.getDynamicClient).toHaveBeenCalledWith('prod');
+    expect(client.getResource).toHaveBeenCalledWith(deployments, 'web', 'shop');
+    expect(contents[0].mimeType).toBe('application/yaml');
+    expect(yaml.parse(contents[0].text)).toMatchObject({ kind: 'Deployment', metadata: { name: 'web' } });
+  });
+
+  test('reads a list as JSON items', async () => {
+    const { contents } = await handlers.readResource({ params: { uri: 'k8s://cluster/deployments' } });
+
+    expect(client.listResources).toHaveBeenCalledWith(deployments, { namespace: undefined });
+    expect(JSON.parse(contents[0].text)).toEqual([{ kind: 'Deployment', metadata: { name: 'web' } }]);
+  });
+
+  test('reports missing objects', async () => {
+    client.getResource.mockRejectedValueOnce({ statusCode: 404 });
+    await expect(handlers.readResource({ params: { uri: 'k8s://prod/shop/deployments/gone' } })).rejects.toThrow(
+      'Resource not found: k8s://prod/shop/deployments/gone'
+    );
+  });
+});
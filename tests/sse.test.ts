@@ -1,6 +1,6 @@
 import { expect, test, describe, beforeAll, afterAll } from "vitest";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { startSSEServer } from "../src/utils/sse.js";
+import { startHttpServer, HttpServerHandle } from "../src/utils/http-server.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
@@ -10,6 +10,7 @@ import { kubectlListSchema, kubectlList } from "../src/tools/kubectl-list.js";
 
 describe("SSE transport", () => {
   let server: Server;
+  let httpServer: HttpServerHandle;
   let serverUrl: string;
   const TEST_PORT = 3001;
 
@@ -56,12 +57,12 @@ describe("SSE transport", () => {
 
     // Start the SSE server
     process.env.PORT = TEST_PORT.toString();
-    startSSEServer(server);
+    httpServer = startHttpServer(() => server, { sse: true });
     serverUrl = `http://localhost:${TEST_PORT}`;
   });
 
   afterAll(async () => {
-    await server.close();
+    await httpServer.close();
   });
 
   test("SSE connection and tool call", async () => {
@@ -0,0 +1,127 @@
+import { expect, test, describe, beforeAll, afterAll } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer, HttpServerHandle } from '../src/utils/http-server.js';
+import { InMemoryEventStore } from '../src/utils/streamable-http.js';
+
+describe('Streamable HTTP transport', () => {
+  const TEST_PORT = 3013;
+  const url = `http://localhost:${TEST_PORT}/mcp`;
+  let httpServer: HttpServerHandle;
+  let serversCreated = 0;
+
+  const headers = {
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream',
+  };
+
+  function createServer() {
+    serversCreated++;
+    const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'echo', inputSchema: { type: 'object' as const } }],
+    }));
+    return server;
+  }
+
+  // Responses to POSTs are sent as a single SSE event
+  async function readMessage(response: Response) {
+    const text = await response.text();
+    const data = text.split('\n').find((line) => line.startsWith('data: '));
+    return JSON.parse(data!.slice('data: '.length));
+  }
+
+  async function initialize() {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      }),
+    });
+    expect(response.status).toBe(200);
+    await readMessage(response);
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  beforeAll(() => {
+    process.env.PORT = TEST_PORT.toString();
+    httpServer = startHttpServer(createServer, { streamableHttp: true });
+  });
+
+  afterAll(async () => {
+    await httpServer.close();
+  });
+
+  test('initializes a session and calls methods with its ID', async () => {
+    const sessionId = await initialize();
+    expect(sessionId).toBeTruthy();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(200);
+    const message = await readMessage(response);
+    expect(message.result.tools[0].name).toBe('echo');
+  });
+
+  test('creates a server per session', async () => {
+    const before = serversCreated;
+    const [first, second] = await Promise.all([initialize(), initialize()]);
+    expect(first).not.toBe(second);
+    expect(serversCreated).toBe(before + 2);
+  });
+
+  test('rejects requests without a session', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  test('removes a session on DELETE', async () => {
+    const sessionId = await initialize();
+
+    const deleted = await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(deleted.status).toBe(200);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('InMemoryEventStore', () => {
+  test('replays events after the last event ID of the same stream', async () => {
+    const store = new InMemoryEventStore();
+    const message = (id: number) => ({ jsonrpc: '2.0' as const, id, result: {} });
+
+    const first = await store.storeEvent('stream_a', message(1));
+    await store.storeEvent('other', message(2));
+    await store.storeEvent('stream_a', message(3));
+
+    const replayed: number[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_eventId, event) => {
+        replayed.push((event as any).id);
+      },
+    });
+
+    expect(streamId).toBe('stream_a');
+    expect(replayed).toEqual([3]);
+  });
+});
@@ -0,0 +1,228 @@
+import { expect, describe, test, vi, beforeEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import {
+  validateNamespace,
+  validateResourceName,
+  validateResourceType,
+  validateLabelSelector,
+  validateFieldSelector,
+  validateContextName,
+  validateCommandWord,
+  validateFlagName,
+  validateDuration,
+  validateArgument,
+} from '../src/utils/validation.js';
+import { formatCommand } from '../src/utils/command-runner.js';
+import { kubectlGet } from '../src/tools/kubectl-get.js';
+import { kubectlDescribe } from '../src/tools/kubectl-describe.js';
+import { kubectlGeneric } from '../src/tools/kubectl-generic.js';
+import { kubectlNvidiaSmi } from '../src/tools/kubectl-nvidia-smi.js';
+import { kubectlCurl } from '../src/tools/kubectl-exec.js';
+import { KubernetesManager } from '../src/types.js';
+
+// Mock child_process so no real kubectl is ever started
+vi.mock('child_process', () => ({
+  execFileSync: vi.fn().mockReturnValue(''),
+  execFile: vi.fn(),
+  spawn: vi.fn(),
+}));
+
+const injectionPayloads = [
+  'foo; rm -rf /',
+  'foo && id',
+  'foo | cat /etc/passwd',
+  '$(id)',
+  '`id`',
+  'foo$IFS$9id',
+  "foo' -o 'bar",
+  'foo\nid',
+  '--kubeconfig=/tmp/evil',
+  '-A',
+];
+
+describe('validation', () => {
+  describe('Injection payloads', () => {
+    test.each(injectionPayloads)('rejects %j as a namespace', (payload) => {
+      expect(() => validateNamespace(payload)).toThrow(/Invalid namespace/);
+    });
+
+    test.each(injectionPayloads)('rejects %j as a resource name', (payload) => {
+      expect(() => validateResourceName(payload)).toThrow(/Invalid name/);
+    });
+
+    test.each(injectionPayloads)('rejects %j as a resource type', (payload) => {
+      expect(() => validateResourceType(payload)).toThrow(/Invalid resourceType/);
+    });
+
+    test.each(injectionPayloads)('rejects %j as a label selector', (payload) => {
+      expect(() => validateLabelSelector(payload)).toThrow(/Invalid labelSelector/);
+    });
+
+    test.each(injectionPayloads)('rejects %j as a command word', (payload) => {
+      expect(() => validateCommandWord(payload)).toThrow(/Invalid command/);
+    });
+
+    test.each(injectionPayloads)('rejects %j as a flag name', (payload) => {
+      expect(() => validateFlagName(payload)).toThrow(/Invalid flag/);
+    });
+
+    test('rejects flag-like and multi-line free-form arguments', () => {
+      expect(() => validateArgument('--kubeconfig=/tmp/evil', 'url')).toThrow(/must not start with '-'/);
+      expect(() => validateArgument('http://example.com\nid', 'url')).toThrow(/control characters/);
+      expect(() => validateContextName('--token=abc')).toThrow(/Invalid context/);
+    });
+  });
+
+  describe('Valid values', () => {
+    test('accepts Kubernetes names and namespaces', () => {
+      expect(validateNamespace('kube-system')).toBe('kube-system');
+      expect(validateResourceName('my-app.v2')).toBe('my-app.v2');
+      expect(validateResourceName('system:controller:job-controller')).toBe('system:controller:job-controller');
+    });
+
+    test('accepts resource types with API groups', () => {
+      expect(validateResourceType('pods')).toBe('pods');
+      expect(validateResourceType('Deployment')).toBe('Deployment');
+      expect(validateResourceType('certificates.cert-manager.io')).toBe('certificates.cert-manager.io');
+    });
+
+    test('accepts the full label selector grammar', () => {
+      const selectors = [
+        'app=web',
+        'app==web,tier!=db',
+        'app.kubernetes.io/name=nginx',
+        'environment in (production, staging)',
+        'tier notin (frontend)',
+        '!canary',
+        'release',
+      ];
+      for (const selector of selectors) {
+        expect(validateLabelSelector(selector)).toBe(selector);
+      }
+    });
+
+    test('rejects malformed label selectors', () => {
+      expect(() => validateLabelSelector('app in (a,b')).toThrow(/unbalanced parentheses/);
+      expect(() => validateLabelSelector('app=web=x')).toThrow(/not a valid label selector requirement/);
+      expect(() => validateLabelSelector('-app=web')).toThrow(/Invalid labelSelector/);
+    });
+
+    test('validates field selectors', () => {
+      expect(validateFieldSelector('status.phase=Running,spec.nodeName!=node-1')).toBe(
+        'status.phase=Running,spec.nodeName!=node-1'
+      );
+      expect(() => validateFieldSelector('status.phase=Running;id')).toThrow(/Invalid fieldSelector/);
+    });
+
+    test('validates durations', () => {
+      expect(validateDuration('1h30m')).toBe('1h30m');
+      expect(() => validateDuration('5m; id')).toThrow(/Invalid duration/);
+    });
+
+    test('accepts free-form context names such as EKS ARNs', () => {
+      const arn = 'arn:aws:eks:us-west-2:123456789012:cluster/my-cluster';
+      expect(validateContextName(arn)).toBe(arn);
+    });
+  });
+
+  describe('formatCommand', () => {
+    test('quotes arguments that are not shell-safe', () => {
+      expect(formatCommand('kubectl', ['get', 'pods', '-l', 'env in (a,b)'])).toBe(
+        "kubectl get pods -l 'env in (a,b)'"
+      );
+    });
+  });
+});
+
+describe('argv-based tool execution', () => {
+  const k8sManager = {} as KubernetesManager;
+  const mockExecFileSync = vi.mocked(execFileSync);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExecFileSync.mockReturnValue('' as any);
+  });
+
+  test.each(injectionPayloads)('kubectl_get rejects %j as a name before running kubectl', async (payload) => {
+    await expect(
+      kubectlGet(k8sManager, { resourceType: 'pods', name: payload, namespace: 'default' })
+    ).rejects.toThrow(/Invalid name/);
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  test('kubectl_describe passes each value as a separate argument', async () => {
+    mockExecFileSync.mockReturnValue('Name: web' as any);
+
+    await kubectlDescribe(k8sManager, {
+      resourceType: 'pods',
+      name: 'web',
+      namespace: 'my-namespace',
+      context: 'staging',
+    });
+
+    expect(mockExecFileSync).toHaveBeenCalledTimes(1);
+    const [binary, args] = mockExecFileSync.mock.calls[0];
+    expect(binary).toBe('kubectl');
+    expect(args).toEqual(expect.arrayContaining(['describe', 'pods', 'web', '-n', 'my-namespace', '--context', 'staging']));
+  });
+
+  test('kubectl_describe rejects a crafted namespace', async () => {
+    await expect(
+      kubectlDescribe(k8sManager, { resourceType: 'pod', name: 'web', namespace: 'default; id' })
+    ).rejects.toThrow(/Invalid namespace/);
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  test('kubectl_generic rejects crafted commands and flag names', async () => {
+    await expect(
+      kubectlGeneric(k8sManager, { command: 'get; id' })
+    ).rejects.toThrow(/Invalid command/);
+    await expect(
+      kubectlGeneric(k8sManager, { command: 'get', flags: { 'all-namespaces; id': true } })
+    ).rejects.toThrow(/Invalid flags/);
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  test('kubectl_generic keeps flag values as a single argument', async () => {
+    await kubectlGeneric(k8sManager, {
+      command: 'get',
+      resourceType: 'pods',
+      flags: { selector: 'app=web; id' },
+    });
+
+    const [, args] = mockExecFileSync.mock.calls[0];
+    expect(args).toContain('--selector=app=web; id');
+  });
+
+  test('kubectl_nvidia_smi rejects a crafted queryGpu value', async () => {
+    await expect(
+      kubectlNvidiaSmi(k8sManager, { podName: 'gpu-pod', queryGpu: 'name" && id && echo "' })
+    ).rejects.toThrow(/Invalid queryGpu/);
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  test('kubectl_curl runs curl without a shell', async () => {
+    mockExecFileSync.mockReturnValue('ok' as any);
+
+    await kubectlCurl(k8sManager, {
+      podName: 'web',
+      url: 'http://example.com/$(id)',
+      headers: ['X-Test: "; id; "'],
+    });
+
+    const [binary, args] = mockExecFileSync.mock.calls[1];
+    expect(binary).toBe('kubectl');
+    const separator = (args as string[]).indexOf('--');
+    expect((args as string[]).slice(separator + 1)).toEqual([
+      'curl', '-H', 'X-Test: "; id; "', '-L', '-s', '-S', '--', 'http://example.com/$(id)',
+    ]);
+    expect(args).not.toContain('bash');
+  });
+
+  test('kubectl_curl rejects a flag-like url', async () => {
+    await expect(
+      kubectlCurl(k8sManager, { podName: 'web', url: '--output=/etc/passwd' })
+    ).rejects.toThrow(/Invalid url/);
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+});